@@ -12,7 +12,23 @@ import staffRoutes from './server/routes/staff.js';
 import linksRoutes from './server/routes/links.js';
 import aiRoutes from './server/routes/ai.js';
 import whatsappRoutes, { initWhatsAppScheduler } from './server/routes/whatsapp.js';
+import goldRatesRoutes from './server/routes/goldRates.js';
+import quotesRoutes from './server/routes/quotes.js';
+import ordersRoutes, { initOrderScheduler } from './server/routes/orders.js';
+import savingsRoutes, { initSavingsScheduler } from './server/routes/savings.js';
+import stockRoutes from './server/routes/stock.js';
+import suggestionsRoutes from './server/routes/suggestions.js';
+import collectionsRoutes from './server/routes/collections.js';
+import catalogRoutes from './server/routes/catalog.js';
+import revisionsRoutes from './server/routes/revisions.js';
+import { initTrashPurge } from './server/revisionService.js';
+import { initPublishScheduler } from './server/publishScheduleService.js';
+import { parseTranslations } from './server/i18nService.js';
+import { DEFAULT_IMAGE_WIDTHS, getImageManifest } from './server/mediaService.js';
+import variantsRoutes from './server/routes/variants.js';
+import { refreshGoldRates, getGoldRateStatus } from './server/goldRateProviders.js';
 import { initBackupScheduler } from './server/backupService.js';
+import { initWatermarkCacheCleanup } from './server/watermarkService.js';
 
 import fs, { existsSync, mkdirSync, readdirSync, statSync, unlinkSync, appendFileSync, writeFileSync, readFileSync } from 'fs';
 import os from 'os';
@@ -190,7 +206,9 @@ app.use('/api/', apiLimiter);
 // Simple In-Memory Cache
 const CACHE = {
     config: { data: null, lastFetch: 0 },
-    curated: { data: null, lastFetch: 0 }
+    curated: { data: null, lastFetch: 0 },
+    search: { data: null, lastFetch: 0 },
+    counts: { data: null, lastFetch: 0 }
 };
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
@@ -202,19 +220,7 @@ app.use((req, res, next) => {
 
 async function fetchGoldRates() {
     try {
-        const API_URL = 'https://order.auragoldelite.com/api/gold-rate';
-        const response = await fetch(API_URL, {
-            method: 'GET',
-            headers: { 'Accept': 'application/json' }
-        });
-        if (response.ok) {
-            const rateData = await response.json();
-            if (rateData.success) {
-                if (rateData.k22) await pool.query('UPDATE system_settings SET setting_value = ? WHERE setting_key = "goldRate22k"', [rateData.k22.toString()]);
-                if (rateData.k24) await pool.query('UPDATE system_settings SET setting_value = ? WHERE setting_key = "goldRate24k"', [rateData.k24.toString()]);
-                console.log(`[GoldRate] Updated: 22k=${rateData.k22}, 24k=${rateData.k24}`);
-            }
-        }
+        await refreshGoldRates(pool);
     } catch (error) {
         console.error("[GoldRate] Background fetch failed:", error.message);
     }
@@ -283,8 +289,8 @@ const ensureFolders = () => {
     [DATA_ROOT, UPLOADS_ROOT, BACKUPS_ROOT].forEach(dir => {
       if (!existsSync(dir)) mkdirSync(dir, { recursive: true, mode: 0o777 });
     });
-    // Engine Folders - Added 300 for Thumbnails
-    ['300', '600', '720', '1080'].forEach(size => {
+    // Engine Folders - one per responsive image width; uploads create any extra configured widths
+    DEFAULT_IMAGE_WIDTHS.map(String).forEach(size => {
       const dir = path.join(UPLOADS_ROOT, size);
       if (!existsSync(dir)) mkdirSync(dir, { recursive: true, mode: 0o777 });
     });
@@ -294,6 +300,17 @@ const ensureFolders = () => {
 };
 ensureFolders();
 
+// Photos in the width folders are only served through /api/media/wm, which watermarks them for
+// the viewer, so direct links are sent there; rendered copies (cache) are not served at all.
+// Videos and other files in the width folders stay static.
+const WATERMARKED_UPLOAD = /^\/(\d+\/[^/]+\.(?:webp|avif|jpe?g|png))$/i;
+app.use('/uploads', (req, res, next) => {
+  const photo = req.path.match(WATERMARKED_UPLOAD);
+  if (photo) return res.redirect(`/api/media/wm/${photo[1]}`);
+  if (req.path.startsWith('/cache/')) return res.status(404).end();
+  next();
+});
+
 // Static Assets
 app.use('/uploads', express.static(UPLOADS_ROOT, { 
   maxAge: '365d',
@@ -394,6 +411,16 @@ const initDB = async () => {
     await addColumnIfMissing('customers', 'ai_analysis', 'JSON');
     await addColumnIfMissing('customers', 'gold_rate_subscribed', 'BOOLEAN DEFAULT FALSE');
     await addColumnIfMissing('customers', 'gold_rate_opt_in_at', 'DATETIME');
+    await addColumnIfMissing('customers', 'sizes', 'JSON');
+    await addColumnIfMissing('products', 'availability', 'VARCHAR(20) DEFAULT "available"');
+    await addColumnIfMissing('products', 'deletedAt', 'DATETIME');
+    await addColumnIfMissing('products', 'deletedBy', 'VARCHAR(255)');
+    await addColumnIfMissing('products', 'publishAt', 'DATETIME');
+    await addColumnIfMissing('products', 'unpublishAt', 'DATETIME');
+    await addColumnIfMissing('products', 'parentId', 'VARCHAR(255)');
+    await addColumnIfMissing('products', 'variantLabel', 'VARCHAR(100)');
+    await addColumnIfMissing('products', 'size', 'VARCHAR(50)');
+    await addColumnIfMissing('products', 'translations', 'JSON');
 
     // WhatsApp Tables
     await pool.query(`CREATE TABLE IF NOT EXISTS whatsapp_templates (
@@ -432,10 +459,28 @@ const initDB = async () => {
     await pool.query(`CREATE TABLE IF NOT EXISTS suppliers (id VARCHAR(50) PRIMARY KEY, name VARCHAR(255), isPrivate BOOLEAN)`);
     await pool.query(`CREATE TABLE IF NOT EXISTS categories (id VARCHAR(50) PRIMARY KEY, name VARCHAR(255), isPrivate BOOLEAN)`);
     await pool.query(`CREATE TABLE IF NOT EXISTS sub_categories (id INT AUTO_INCREMENT PRIMARY KEY, categoryId VARCHAR(50), name VARCHAR(255), FOREIGN KEY (categoryId) REFERENCES categories(id) ON DELETE CASCADE)`);
+    await addColumnIfMissing('categories', 'translations', 'JSON');
+    await addColumnIfMissing('sub_categories', 'translations', 'JSON');
     await pool.query(`CREATE TABLE IF NOT EXISTS system_settings (setting_key VARCHAR(50) PRIMARY KEY, setting_value TEXT)`);
     await pool.query(`CREATE TABLE IF NOT EXISTS instagram_comments (id VARCHAR(255) PRIMARY KEY, media_id VARCHAR(255), username VARCHAR(255), text TEXT, timestamp DATETIME)`);
     await pool.query(`CREATE TABLE IF NOT EXISTS security_traces (trace_id VARCHAR(255) PRIMARY KEY, staff_id VARCHAR(255), role VARCHAR(50), ip_hmac VARCHAR(255), user_agent_hmac VARCHAR(255), created_at DATETIME, expires_at DATETIME)`);
+    await pool.query(`CREATE TABLE IF NOT EXISTS gold_rate_history (id INT AUTO_INCREMENT PRIMARY KEY, rate22k FLOAT, rate24k FLOAT, source VARCHAR(20), sourceDetail VARCHAR(255), changedBy VARCHAR(255), recordedAt DATETIME, INDEX idx_gold_rate_recordedAt (recordedAt))`);
+    await pool.query(`CREATE TABLE IF NOT EXISTS quotes (id INT AUTO_INCREMENT PRIMARY KEY, quoteNumber VARCHAR(50) UNIQUE, token VARCHAR(64) UNIQUE, productId VARCHAR(255), productTitle VARCHAR(255), images JSON, customerId VARCHAR(255), customerName VARCHAR(255), customerPhone VARCHAR(50), purity VARCHAR(10), goldRate FLOAT, gstPercent FLOAT, pricing JSON, paymentPlan JSON, total FLOAT, validUntil DATETIME, createdBy VARCHAR(255), createdAt DATETIME, sentAt DATETIME, INDEX idx_quotes_product (productId))`);
+    await pool.query(`CREATE TABLE IF NOT EXISTS orders (id VARCHAR(255) PRIMARY KEY, orderNumber VARCHAR(50) UNIQUE, customerId VARCHAR(255), customerName VARCHAR(255), customerPhone VARCHAR(50), status VARCHAR(20), advanceAmount FLOAT, totalAmount FLOAT, goldRate22k FLOAT, goldRate24k FLOAT, gstPercent FLOAT, reservedUntil DATETIME, notes TEXT, createdBy VARCHAR(255), createdAt DATETIME, soldAt DATETIME, cancelledAt DATETIME, INDEX idx_orders_status (status, reservedUntil))`);
+    await pool.query(`CREATE TABLE IF NOT EXISTS order_items (id INT AUTO_INCREMENT PRIMARY KEY, orderId VARCHAR(255), productId VARCHAR(255), productTitle VARCHAR(255), purity VARCHAR(10), goldRate FLOAT, weight FLOAT, pricing JSON, lockedPrice FLOAT, FOREIGN KEY (orderId) REFERENCES orders(id) ON DELETE CASCADE, INDEX idx_order_items_product (productId))`);
+    await addColumnIfMissing('order_items', 'size', 'VARCHAR(50)');
+    await addColumnIfMissing('order_items', 'unitId', 'INT');
+    await pool.query(`CREATE TABLE IF NOT EXISTS savings_plans (id VARCHAR(255) PRIMARY KEY, customerId VARCHAR(255), customerName VARCHAR(255), customerPhone VARCHAR(50), planType VARCHAR(20), productId VARCHAR(255), productTitle VARCHAR(255), purity VARCHAR(10), months INT, advancePercent FLOAT, targetAmount FLOAT, amountPaid FLOAT DEFAULT 0, gramsAccrued FLOAT DEFAULT 0, status VARCHAR(20), startDate DATETIME, createdAt DATETIME, INDEX idx_savings_customer (customerId))`);
+    await pool.query(`CREATE TABLE IF NOT EXISTS savings_installments (id INT AUTO_INCREMENT PRIMARY KEY, planId VARCHAR(255), installmentNo INT, dueDate DATE, amount FLOAT, status VARCHAR(20), paidAmount FLOAT, goldRate FLOAT, grams FLOAT, paymentMode VARCHAR(50), receivedBy VARCHAR(255), paidAt DATETIME, reminderSentAt DATETIME, FOREIGN KEY (planId) REFERENCES savings_plans(id) ON DELETE CASCADE, INDEX idx_installments_due (status, dueDate))`);
+    await pool.query(`CREATE TABLE IF NOT EXISTS stock_units (id INT AUTO_INCREMENT PRIMARY KEY, productId VARCHAR(255), tagNumber VARCHAR(50) UNIQUE, sku VARCHAR(100), grossWeight FLOAT, netWeight FLOAT, location VARCHAR(20) DEFAULT 'showroom', status VARCHAR(20) DEFAULT 'in_stock', notes TEXT, createdAt DATETIME, updatedAt DATETIME, FOREIGN KEY (productId) REFERENCES products(id) ON DELETE CASCADE, INDEX idx_stock_sku (sku))`);
+    await pool.query(`CREATE TABLE IF NOT EXISTS product_suggestions (id VARCHAR(255) PRIMARY KEY, productId VARCHAR(255), productTitle VARCHAR(255), userId VARCHAR(255), userName VARCHAR(255), userPhone VARCHAR(50), suggestion TEXT, status VARCHAR(20) DEFAULT 'new', staffReply TEXT, repliedBy VARCHAR(255), repliedAt DATETIME, fulfilledByProductId VARCHAR(255), createdAt DATETIME, updatedAt DATETIME, INDEX idx_suggestions_status (status, createdAt))`);
+    await pool.query(`CREATE TABLE IF NOT EXISTS collections (id VARCHAR(255) PRIMARY KEY, slug VARCHAR(100) UNIQUE, title VARCHAR(255), description TEXT, coverImage TEXT, isPublic BOOLEAN DEFAULT 0, startsAt DATETIME, endsAt DATETIME, position INT DEFAULT 0, createdBy VARCHAR(255), createdAt DATETIME, updatedAt DATETIME)`);
+    await pool.query(`CREATE TABLE IF NOT EXISTS collection_items (collectionId VARCHAR(255), productId VARCHAR(255), position INT DEFAULT 0, PRIMARY KEY (collectionId, productId), FOREIGN KEY (collectionId) REFERENCES collections(id) ON DELETE CASCADE, FOREIGN KEY (productId) REFERENCES products(id) ON DELETE CASCADE)`);
+    await pool.query(`CREATE TABLE IF NOT EXISTS product_revisions (id INT AUTO_INCREMENT PRIMARY KEY, productId VARCHAR(255), action VARCHAR(20), snapshot JSON, changes JSON, restoredFrom INT, changedBy VARCHAR(255), changedByName VARCHAR(255), createdAt DATETIME, FOREIGN KEY (productId) REFERENCES products(id) ON DELETE CASCADE, INDEX idx_revisions_product (productId, createdAt))`);
+    await pool.query(`CREATE TABLE IF NOT EXISTS product_sets (id VARCHAR(255) PRIMARY KEY, title VARCHAR(255), description TEXT, discountPercent FLOAT DEFAULT 0, createdBy VARCHAR(255), createdAt DATETIME, updatedAt DATETIME)`);
+    await pool.query(`CREATE TABLE IF NOT EXISTS product_set_items (setId VARCHAR(255), productId VARCHAR(255), position INT DEFAULT 0, PRIMARY KEY (setId, productId), FOREIGN KEY (setId) REFERENCES product_sets(id) ON DELETE CASCADE, FOREIGN KEY (productId) REFERENCES products(id) ON DELETE CASCADE, INDEX idx_set_items_product (productId))`);
     await pool.query(`CREATE TABLE IF NOT EXISTS price_drop_alerts (id VARCHAR(255) PRIMARY KEY, customerId VARCHAR(255), productId VARCHAR(255), currentPrice FLOAT, targetPrice FLOAT, createdAt DATETIME, lastNotifiedAt DATETIME, isActive BOOLEAN DEFAULT TRUE, FOREIGN KEY (customerId) REFERENCES customers(id) ON DELETE CASCADE, FOREIGN KEY (productId) REFERENCES products(id) ON DELETE CASCADE, UNIQUE KEY unique_alert(customerId, productId))`);
+    await pool.query(`CREATE TABLE IF NOT EXISTS viewer_marks (mark INT UNSIGNED PRIMARY KEY, viewerType VARCHAR(20), viewerId VARCHAR(255), createdAt DATETIME, UNIQUE KEY unique_viewer(viewerType, viewerId))`);
 
     // 3. ENTERPRISE SCALABILITY: High-Performance Indexes
     const indexQueries = [
@@ -444,6 +489,10 @@ const initDB = async () => {
       "CREATE INDEX IF NOT EXISTS idx_products_createdAt ON products(createdAt)",
       "CREATE INDEX IF NOT EXISTS idx_products_cover ON products(isHidden, createdAt)",
       "CREATE INDEX IF NOT EXISTS idx_products_cat_sort ON products(isHidden, category, createdAt)",
+      "CREATE INDEX IF NOT EXISTS idx_products_deletedAt ON products(deletedAt)",
+      "CREATE INDEX IF NOT EXISTS idx_products_publishAt ON products(publishAt)",
+      "CREATE INDEX IF NOT EXISTS idx_products_unpublishAt ON products(unpublishAt)",
+      "CREATE INDEX IF NOT EXISTS idx_products_parentId ON products(parentId)",
       "CREATE INDEX IF NOT EXISTS idx_analytics_type ON analytics(type)",
       "CREATE INDEX IF NOT EXISTS idx_analytics_timestamp ON analytics(timestamp)"
     ];
@@ -512,7 +561,7 @@ const initDB = async () => {
   }
 };
 
-// --- DYNAMIC IMAGE RESIZING ---
+// Uploads, streamed blobs and on-the-fly image resizing (/api/media/img/:hash)
     app.locals.pool = poolProxy;
     app.use(mediaRoutes(poolProxy, UPLOADS_ROOT));
 
@@ -524,6 +573,7 @@ app.get('/api/health', (req, res) => {
     db: pool ? (dbInitError ? (DEMO_MODE ? 'demo_mode' : 'error') : 'connected') : 'not initialized',
     dbError: dbInitError,
     demoMode: DEMO_MODE,
+    goldRate: getGoldRateStatus(),
     loadedEnv: loadedEnvPath,
     dbConfig: {
         host: dbConfig.host,
@@ -594,7 +644,10 @@ const sanitizeProduct = (p) => {
     images = images.map((img, i) => (typeof img === 'string' && img.startsWith('data:') ? `/api/media/stream/${p.id}/image/${i}.webp` : img));
     thumbnails = thumbnails.map((img, i) => (typeof img === 'string' && img.startsWith('data:') ? `/api/media/stream/${p.id}/thumb/${i}.webp` : img));
 
-    return { ...p, tags: safeParse(p.tags), images, thumbnails, meta: safeParse(p.meta, {}) };
+    // One manifest per image listing its AVIF/WebP widths; summaries carry only thumbnails, which share the image's variants
+    const media = (images.length ? images : thumbnails).map(img => getImageManifest(img, UPLOADS_ROOT));
+
+    return { ...p, tags: safeParse(p.tags), images, thumbnails, media, meta: safeParse(p.meta, {}), translations: parseTranslations(p.translations) };
 };
 
 
@@ -611,6 +664,16 @@ const sanitizeProduct = (p) => {
     app.use(analyticsRoutes(poolProxy, BACKUPS_ROOT));
     app.use('/api', aiRoutes(poolProxy));
     app.use('/api/whatsapp', whatsappRoutes(poolProxy));
+    app.use(goldRatesRoutes(poolProxy));
+    app.use(quotesRoutes(poolProxy, UPLOADS_ROOT));
+    app.use(ordersRoutes(poolProxy, CACHE));
+    app.use(savingsRoutes(poolProxy));
+    app.use(stockRoutes(poolProxy));
+    app.use(suggestionsRoutes(poolProxy));
+    app.use(collectionsRoutes(poolProxy, sanitizeProduct));
+    app.use(catalogRoutes(poolProxy, CACHE, sanitizeProduct, UPLOADS_ROOT));
+    app.use(revisionsRoutes(poolProxy, CACHE, sanitizeProduct));
+    app.use(variantsRoutes(poolProxy, CACHE, sanitizeProduct));
 
     app.use((err, req, res, next) => { console.error(err); res.status(500).json({ error: 'Internal Server Error', message: err.message }); });
 
@@ -699,6 +762,11 @@ async function startServer() {
       initDB().then(() => {
         initBackupScheduler();
         initWhatsAppScheduler(pool);
+        initOrderScheduler(pool, CACHE);
+        initSavingsScheduler(pool);
+        initTrashPurge(pool);
+        initWatermarkCacheCleanup(UPLOADS_ROOT);
+        initPublishScheduler(pool, CACHE);
       }).catch(err => {
         console.error('❌ [Sanghavi Studio] Database Initialization Failed:', err);
       });
@@ -69,3 +69,63 @@ export const requireAdmin = async (req, res, next) => {
         return res.status(401).json({ error: "Unauthorized: Invalid or expired token" });
     }
 };
+
+// Customers sign in with WhatsApp and get a signed session token, so routes acting for a
+// customer use the id from the token instead of one sent in the request
+export const signCustomerToken = (customer) =>
+    jwt.sign({ id: customer.id, role: 'customer' }, process.env.JWT_SECRET, { algorithm: 'HS256', expiresIn: '30d' });
+
+// The signed-in customer's id, or null for staff, guests and invalid tokens
+export const getSessionCustomerId = (req) => {
+    let token = req.headers['x-auth-token'];
+    const authHeader = req.headers['authorization'];
+    if (!token && authHeader && authHeader.startsWith('Bearer ')) {
+        token = authHeader.split(' ')[1];
+    }
+    if (!token) return null;
+    try {
+        const decoded = jwt.verify(token, process.env.JWT_SECRET, { algorithms: ['HS256'] });
+        return decoded.role === 'customer' ? decoded.id : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+// True when the request carries an active staff member's token, for routes open to everyone
+// that treat staff differently
+export const isStaffRequest = async (req) => {
+    let token = req.headers['x-auth-token'];
+    const authHeader = req.headers['authorization'];
+    if (!token && authHeader && authHeader.startsWith('Bearer ')) {
+        token = authHeader.split(' ')[1];
+    }
+    if (!token) return false;
+    try {
+        const decoded = jwt.verify(token, process.env.JWT_SECRET, { algorithms: ['HS256'] });
+        let role = decoded.role;
+        if (req.app.locals.pool) {
+            const [rows] = await req.app.locals.pool.query('SELECT role, isActive FROM staff WHERE id = ?', [decoded.id]);
+            if (!rows[0] || !rows[0].isActive) return false;
+            role = rows[0].role;
+        }
+        return role === 'admin' || role === 'contributor' || role === 'staff';
+    } catch (e) {
+        return false;
+    }
+};
+
+// Lets a signed-in customer through as req.customer; anyone else must be staff
+export const requireCustomerOrStaff = async (req, res, next) => {
+    const customerId = getSessionCustomerId(req);
+    if (!customerId) return requireStaff(req, res, next);
+    if (req.app.locals.pool) {
+        try {
+            const [rows] = await req.app.locals.pool.query('SELECT id FROM customers WHERE id = ?', [customerId]);
+            if (rows.length === 0) return res.status(401).json({ error: "Unauthorized: Customer not found" });
+        } catch (e) {
+            return res.status(500).json({ error: 'Internal server error' });
+        }
+    }
+    req.customer = { id: customerId };
+    next();
+};
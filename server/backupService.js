@@ -4,6 +4,7 @@ import { ZipArchive } from 'archiver';
 import cron from 'node-cron';
 import mysqldump from 'mysqldump';
 import { fileURLToPath } from 'url';
+import { RESIZE_CACHE_DIR } from './mediaService.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -79,7 +80,8 @@ export const triggerBackup = async (triggerType = 'manual') => {
       archive.file(sqlDumpPath, { name: `${backupName}.sql` });
       
       if (fs.existsSync(UPLOADS_DIR)) {
-          archive.directory(UPLOADS_DIR, 'uploads');
+          // Resized copies are rebuilt on demand, so they stay out of the snapshot
+          archive.directory(UPLOADS_DIR, 'uploads', entry => (entry.name.startsWith(`uploads/${RESIZE_CACHE_DIR}/`) ? false : entry));
       }
 
       archive.finalize();
@@ -0,0 +1,232 @@
+// Bulk catalog import and export.
+// A spreadsheet (CSV or XLSX) carries one product per row. Rows whose id matches an existing
+// product update it (blank cells leave a field unchanged); every other row creates a new piece.
+// Images are listed by file name inside an accompanying ZIP, or as URLs / existing upload paths.
+import path from 'path';
+import { Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import AdmZip from 'adm-zip';
+
+export const CATALOG_COLUMNS = ['id', 'title', 'category', 'subCategory', 'weight', 'supplier', 'tags', 'makingSegment', 'description', 'images', 'isHidden'];
+
+// Exported alongside the editable columns for reference; ignored on import
+const READ_ONLY_COLUMNS = ['availability', 'createdAt'];
+
+// Header cells are matched loosely so "Sub Category", "Weight (g)" or "Image Files" all work
+const HEADER_KEYS = {
+    id: 'id', productid: 'id',
+    title: 'title', name: 'title',
+    category: 'category',
+    subcategory: 'subCategory',
+    weight: 'weight', weightg: 'weight', grossweight: 'weight',
+    supplier: 'supplier', vendor: 'supplier',
+    tags: 'tags', tag: 'tags',
+    makingsegment: 'makingSegment', makingchargesegment: 'makingSegment', segment: 'makingSegment',
+    description: 'description',
+    images: 'images', image: 'images', imagefiles: 'images', photos: 'images',
+    ishidden: 'isHidden', hidden: 'isHidden'
+};
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp|gif|avif|tiff?)$/i;
+
+const normalizeHeader = (text) => String(text || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const cellText = (value) => {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') {
+        if (value.richText) return value.richText.map(r => r.text).join('').trim();
+        if ('result' in value) return cellText(value.result);
+        if ('text' in value) return cellText(value.text);
+        return '';
+    }
+    // Undo the apostrophe exports put in front of formula-like text
+    return String(value).trim().replace(/^'(?=[=+\-@])/, '');
+};
+
+// Text starting with these is run as a formula by spreadsheet apps; exports prefix it with an
+// apostrophe so a product title can't execute when the sheet is opened
+const escapeFormula = (value) => (typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+const splitList = (text) => String(text || '').split(/[;,|\n]/).map(s => s.trim()).filter(Boolean);
+
+const parseBoolean = (text) => {
+    const value = String(text).trim().toLowerCase();
+    if (['1', 'true', 'yes', 'y', 'hidden'].includes(value)) return true;
+    if (['0', 'false', 'no', 'n', 'visible'].includes(value)) return false;
+    return undefined;
+};
+
+const isImageUrl = (ref) => /^(https?:)?\/\//i.test(ref) || ref.startsWith('/uploads/') || ref.startsWith('/api/media/');
+
+// Rows of { rowNumber, data } from the first worksheet; empty rows are dropped
+export const readSheet = async (buffer, filename) => {
+    const workbook = new ExcelJS.Workbook();
+    if (/\.csv$/i.test(filename)) {
+        // Keep every value as typed; the default mapper turns codes like "1-2" into dates
+        await workbook.csv.read(Readable.from(buffer), { map: (value) => value });
+    } else {
+        await workbook.xlsx.load(buffer);
+    }
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+
+    const headers = [];
+    sheet.getRow(1).eachCell((cell, col) => { headers[col] = HEADER_KEYS[normalizeHeader(cellText(cell.value))] || null; });
+    if (!headers.some(Boolean)) throw new Error('No recognised column headers in the first row');
+
+    const rows = [];
+    sheet.eachRow((row, rowNumber) => {
+        if (rowNumber === 1) return;
+        const data = {};
+        row.eachCell((cell, col) => { if (headers[col]) data[headers[col]] = cellText(cell.value); });
+        if (Object.values(data).some(Boolean)) rows.push({ rowNumber, data });
+    });
+    return rows;
+};
+
+// Image files in the ZIP keyed by lower-cased base name, so rows can reference "ring-01.jpg".
+// Entries are only decompressed when read, one image at a time.
+export const readImageArchive = (file) => {
+    const images = new Map();
+    if (!file) return images;
+    for (const entry of new AdmZip(file).getEntries()) {
+        const name = path.basename(entry.entryName);
+        if (entry.isDirectory || entry.entryName.startsWith('__MACOSX/') || name.startsWith('.') || !IMAGE_EXTENSIONS.test(name)) continue;
+        images.set(name.toLowerCase(), { name, read: () => entry.getData() });
+    }
+    return images;
+};
+
+const displayValue = (field, value) => {
+    if (value === undefined || value === null) return '';
+    if (field === 'tags' || field === 'images') return value.join(', ');
+    if (field === 'isHidden') return value ? 'yes' : 'no';
+    return String(value);
+};
+
+// Validates each row against the configured categories, suppliers and making segments and
+// works out what would change. Nothing is written; applying the plan is up to the caller.
+export const planImport = (rows, { categories, suppliers, segments, existing, archive }) => {
+    const seenIds = new Map();
+    const findByName = (list, name) => list.find(item => item.name.toLowerCase() === name.toLowerCase());
+
+    return rows.map(({ rowNumber, data }) => {
+        const errors = [];
+        const warnings = [];
+        const values = {};
+
+        if (data.id) {
+            if (seenIds.has(data.id)) errors.push(`Duplicate id, also used on row ${seenIds.get(data.id)}`);
+            seenIds.set(data.id, rowNumber);
+        }
+        const current = data.id ? existing.get(data.id) : undefined;
+        if (current?.deletedAt) errors.push('This product is in the trash; restore it before importing changes');
+
+        if (data.title) values.title = data.title.slice(0, 255);
+        else if (!current) errors.push('Title is required');
+
+        if (data.category) {
+            const category = findByName(categories, data.category);
+            if (category) values.category = category.name;
+            else errors.push(`Unknown category "${data.category}"`);
+        } else if (!current) errors.push('Category is required');
+
+        if (data.subCategory) {
+            const category = findByName(categories, values.category || current?.category || '');
+            const subCategory = category?.subCategories.find(s => s.toLowerCase() === data.subCategory.toLowerCase());
+            if (subCategory) values.subCategory = subCategory;
+            else if (category) errors.push(`"${data.subCategory}" is not a sub-category of ${category.name}`);
+        }
+
+        if (data.weight) {
+            const weight = parseFloat(data.weight.replace(/[^0-9.]/g, ''));
+            if (weight > 0) values.weight = weight;
+            else errors.push(`Invalid weight "${data.weight}"`);
+        } else if (!current) warnings.push('No weight given; the piece will be priced at 0g');
+
+        if (data.supplier) {
+            const supplier = findByName(suppliers, data.supplier);
+            if (supplier) values.supplier = supplier.name;
+            else errors.push(`Unknown supplier "${data.supplier}"`);
+        }
+
+        if (data.tags) values.tags = [...new Set(splitList(data.tags))];
+
+        if (data.makingSegment) {
+            const segment = segments.find(s => s.id === data.makingSegment) || findByName(segments, data.makingSegment);
+            if (segment) values.makingChargeSegmentId = segment.id;
+            else errors.push(`Unknown making segment "${data.makingSegment}"`);
+        }
+
+        if (data.description) values.description = data.description;
+
+        if (data.isHidden) {
+            const isHidden = parseBoolean(data.isHidden);
+            if (isHidden === undefined) errors.push(`Hidden must be yes or no, got "${data.isHidden}"`);
+            else values.isHidden = isHidden;
+        }
+
+        if (data.images) {
+            values.imageRefs = [];
+            for (const ref of splitList(data.images)) {
+                if (isImageUrl(ref)) values.imageRefs.push({ url: ref });
+                else if (archive.has(path.basename(ref).toLowerCase())) values.imageRefs.push({ file: path.basename(ref).toLowerCase() });
+                else errors.push(archive.size ? `Image "${ref}" is not in the ZIP` : `Image "${ref}" needs an images ZIP`);
+            }
+        } else if (!current) warnings.push('No images');
+
+        // Field-level diff for the dry-run preview
+        const before = current ? {
+            title: current.title, category: current.category, subCategory: current.subCategory, weight: current.weight,
+            supplier: current.supplier, tags: current.tags, makingSegment: current.meta?.makingChargeSegmentId,
+            description: current.description, isHidden: !!current.isHidden, images: current.images
+        } : {};
+        const after = {
+            title: values.title, category: values.category, subCategory: values.subCategory, weight: values.weight,
+            supplier: values.supplier, tags: values.tags, makingSegment: values.makingChargeSegmentId,
+            description: values.description, isHidden: values.isHidden,
+            images: values.imageRefs?.map(r => r.url || archive.get(r.file).name)
+        };
+        const changes = Object.keys(after)
+            .filter(field => after[field] !== undefined && displayValue(field, after[field]) !== displayValue(field, before[field]))
+            .map(field => ({ field, from: displayValue(field, before[field]), to: displayValue(field, after[field]) }));
+
+        let action = current ? 'update' : 'create';
+        if (errors.length > 0) action = 'error';
+        else if (current && changes.length === 0) action = 'unchanged';
+
+        return { row: rowNumber, id: data.id || null, title: values.title || current?.title || '', action, changes, errors, warnings, values };
+    });
+};
+
+// One row per product with the same columns the importer reads, so an export can be edited
+// and imported back
+export const writeCatalogSheet = async (products, segments, format) => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Catalog');
+    sheet.columns = [...CATALOG_COLUMNS, ...READ_ONLY_COLUMNS].map(key => ({ header: key, key, width: key === 'description' || key === 'images' ? 48 : 18 }));
+    sheet.getRow(1).font = { bold: true };
+
+    for (const p of products) {
+        const segmentId = p.meta?.makingChargeSegmentId;
+        const row = {
+            id: p.id,
+            title: p.title,
+            category: p.category,
+            subCategory: p.subCategory || '',
+            weight: p.weight,
+            supplier: p.supplier || '',
+            tags: (p.tags || []).join('; '),
+            makingSegment: segments.find(s => s.id === segmentId)?.name || segmentId || '',
+            description: p.description || '',
+            images: (p.images || []).join('; '),
+            isHidden: p.isHidden ? 'yes' : 'no',
+            availability: p.availability || 'available',
+            createdAt: p.createdAt ? new Date(p.createdAt).toISOString() : ''
+        };
+        sheet.addRow(Object.fromEntries(Object.entries(row).map(([key, value]) => [key, escapeFormula(value)])));
+    }
+
+    return format === 'csv' ? workbook.csv.writeBuffer() : workbook.xlsx.writeBuffer();
+};
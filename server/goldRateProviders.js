@@ -0,0 +1,141 @@
+// Gold rate providers.
+// Providers are tried in order until one returns a sane rate; the rest act as failover.
+// The list lives in system_settings (goldRateProviders) so it can be changed from Settings,
+// and GOLD_RATE_PROVIDERS=local-file (comma separated ids) pins the order for offline development.
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { recordGoldRate, RATE_SOURCES } from './goldRateService.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const DEFAULT_GOLD_RATE_PROVIDERS = [
+    { id: 'auragold', type: 'http', url: 'https://order.auragoldelite.com/api/gold-rate', enabled: true },
+    { id: 'local-file', type: 'file', path: 'mock/gold-rate.json', enabled: false }
+];
+
+// A fetched rate that moves more than this (per day) against the current rate is treated as bad data
+export const DEFAULT_MAX_JUMP_PERCENT = 5;
+
+const FETCH_TIMEOUT_MS = 10000;
+
+const status = {
+    activeProvider: null,
+    lastSuccessAt: null,
+    lastAttemptAt: null,
+    lastError: null,
+    lastErrorAt: null
+};
+
+export const getGoldRateStatus = () => ({ ...status });
+
+// Every provider resolves to { k22, k24 } or throws
+const PROVIDER_TYPES = {
+    http: async (provider) => {
+        const response = await fetch(provider.url, {
+            method: 'GET',
+            headers: { 'Accept': 'application/json' },
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data = await response.json();
+        if (data.success === false) throw new Error('Provider reported failure');
+        return { k22: Number(data.k22), k24: Number(data.k24) };
+    },
+    file: async (provider) => {
+        const filePath = process.env.GOLD_RATE_FILE || path.resolve(__dirname, provider.path || 'mock/gold-rate.json');
+        const data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+        return { k22: Number(data.k22), k24: Number(data.k24) };
+    }
+};
+
+const parseJson = (val, fallback) => {
+    try { return JSON.parse(val) || fallback; } catch { return fallback; }
+};
+
+const resolveProviders = (configured) => {
+    const pinned = (process.env.GOLD_RATE_PROVIDERS || '').split(',').map(s => s.trim()).filter(Boolean);
+    if (pinned.length > 0) {
+        const known = [...configured, ...DEFAULT_GOLD_RATE_PROVIDERS];
+        return pinned.map(id => known.find(p => p.id === id)).filter(Boolean);
+    }
+    return configured.filter(p => p.enabled);
+};
+
+// Two providers reporting rates this close are taken as independent confirmation of each other
+const AGREEMENT_PERCENT = 0.5;
+
+const checkRate = (label, next) => {
+    if (!Number.isFinite(next) || next <= 0) throw new Error(`Invalid ${label} rate: ${next}`);
+};
+
+// Why a rate moved too far from the reference, or null when it is within bounds
+const jumpError = (label, next, current, limitPercent) => {
+    if (!current) return null;
+    const jump = Math.abs(next - current) / current * 100;
+    return jump > limitPercent ? `Rejected ${label} rate ${next}: moved ${jump.toFixed(1)}% from ${current} (limit ${limitPercent.toFixed(1)}%)` : null;
+};
+
+const agrees = (a, b) =>
+    Math.abs(a.k22 - b.k22) / b.k22 * 100 <= AGREEMENT_PERCENT && Math.abs(a.k24 - b.k24) / b.k24 * 100 <= AGREEMENT_PERCENT;
+
+export const refreshGoldRates = async (pool) => {
+    const [rows] = await pool.query('SELECT setting_key, setting_value FROM system_settings WHERE setting_key IN ("goldRateProviders", "goldRateMaxJumpPercent")');
+    const settings = {};
+    rows.forEach(r => settings[r.setting_key] = r.setting_value);
+
+    const providers = resolveProviders(parseJson(settings.goldRateProviders, DEFAULT_GOLD_RATE_PROVIDERS));
+    const maxJumpPercent = Number(settings.goldRateMaxJumpPercent) || DEFAULT_MAX_JUMP_PERCENT;
+
+    // Bounds are checked against the last recorded rate, not the seeded setting defaults,
+    // so a fresh install accepts its first fetch. The allowed move grows with each day since
+    // that rate, so a rate left stale by outages or a bad manual entry doesn't block every fetch.
+    const [last] = await pool.query('SELECT rate22k, rate24k, recordedAt FROM gold_rate_history ORDER BY recordedAt DESC LIMIT 1');
+    const current = { k22: Number(last[0]?.rate22k) || 0, k24: Number(last[0]?.rate24k) || 0 };
+    const daysSinceLast = last[0] ? (Date.now() - new Date(last[0].recordedAt).getTime()) / 86400000 : 0;
+    const limitPercent = maxJumpPercent * Math.max(1, daysSinceLast);
+
+    status.lastAttemptAt = new Date().toISOString();
+    const errors = [];
+    // Rates rejected as too big a move; one is accepted as soon as another provider agrees with it
+    const outOfBounds = [];
+
+    for (const provider of providers) {
+        const fetchRate = PROVIDER_TYPES[provider.type];
+        try {
+            if (!fetchRate) throw new Error(`Unknown provider type "${provider.type}"`);
+            const rate = await fetchRate(provider);
+            checkRate('22k', rate.k22);
+            checkRate('24k', rate.k24);
+            const jump = jumpError('22k', rate.k22, current.k22, limitPercent) || jumpError('24k', rate.k24, current.k24, limitPercent);
+            if (jump) {
+                const witness = outOfBounds.find(c => agrees(rate, c.rate));
+                if (!witness) {
+                    outOfBounds.push({ id: provider.id, rate });
+                    throw new Error(jump);
+                }
+                console.warn(`[GoldRate] Accepting ${provider.id} beyond the jump limit, confirmed by ${witness.id}`);
+            }
+
+            await pool.query('UPDATE system_settings SET setting_value = ? WHERE setting_key = "goldRate22k"', [rate.k22.toString()]);
+            await pool.query('UPDATE system_settings SET setting_value = ? WHERE setting_key = "goldRate24k"', [rate.k24.toString()]);
+            await recordGoldRate(pool, { rate22k: rate.k22, rate24k: rate.k24, source: RATE_SOURCES.API, sourceDetail: provider.id });
+
+            status.activeProvider = provider.id;
+            status.lastSuccessAt = new Date().toISOString();
+            status.lastError = errors.length ? errors.join('; ') : null;
+            if (errors.length) status.lastErrorAt = status.lastSuccessAt;
+            console.log(`[GoldRate] Updated via ${provider.id}: 22k=${rate.k22}, 24k=${rate.k24}`);
+            return rate;
+        } catch (error) {
+            errors.push(`${provider.id}: ${error.message}`);
+            console.warn(`[GoldRate] Provider ${provider.id} failed:`, error.message);
+        }
+    }
+
+    status.activeProvider = null;
+    status.lastError = errors.length ? errors.join('; ') : 'No gold rate providers enabled';
+    status.lastErrorAt = new Date().toISOString();
+    console.error('[GoldRate] All providers failed, keeping current rates:', status.lastError);
+    return null;
+};
@@ -0,0 +1,60 @@
+// Gold rate ledger.
+// system_settings only holds the current goldRate22k/goldRate24k; every change is also
+// appended to gold_rate_history so charts and price-drop explanations can look back in time.
+
+export const RATE_SOURCES = { API: 'api', ADMIN: 'admin' };
+
+export const recordGoldRate = async (pool, { rate22k, rate24k, source, sourceDetail = null, changedBy = null }) => {
+    await pool.query(
+        'INSERT INTO gold_rate_history (rate22k, rate24k, source, sourceDetail, changedBy, recordedAt) VALUES (?, ?, ?, ?, ?, NOW())',
+        [Number(rate22k) || null, Number(rate24k) || null, source, sourceDetail, changedBy]
+    );
+};
+
+// Start of the bucket a timestamp falls into: midnight for days, Monday midnight for weeks
+const bucketStart = (date, interval) => {
+    const d = new Date(date);
+    d.setHours(0, 0, 0, 0);
+    if (interval === 'week') d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+    return d;
+};
+
+const toOhlc = (values) => ({
+    open: values[0],
+    high: Math.max(...values),
+    low: Math.min(...values),
+    close: values[values.length - 1]
+});
+
+// Daily or weekly open/high/low/close candles for both karats over the last `days` days
+export const getRateSeries = async (pool, interval = 'day', days = 90) => {
+    const [rows] = await pool.query(
+        'SELECT rate22k, rate24k, recordedAt FROM gold_rate_history WHERE recordedAt >= DATE_SUB(NOW(), INTERVAL ? DAY) ORDER BY recordedAt ASC',
+        [days]
+    );
+
+    const buckets = new Map();
+    for (const row of rows) {
+        const key = bucketStart(row.recordedAt, interval).toISOString();
+        if (!buckets.has(key)) buckets.set(key, { k22: [], k24: [] });
+        const bucket = buckets.get(key);
+        if (row.rate22k) bucket.k22.push(Number(row.rate22k));
+        if (row.rate24k) bucket.k24.push(Number(row.rate24k));
+    }
+
+    return Array.from(buckets.entries()).map(([periodStart, b]) => ({
+        periodStart,
+        k22: b.k22.length ? toOhlc(b.k22) : null,
+        k24: b.k24.length ? toOhlc(b.k24) : null,
+        samples: Math.max(b.k22.length, b.k24.length)
+    }));
+};
+
+// The rate that was in effect at a given moment: the last ledger entry at or before it
+export const getRateAt = async (pool, timestamp) => {
+    const [rows] = await pool.query(
+        'SELECT rate22k, rate24k, source, sourceDetail, recordedAt FROM gold_rate_history WHERE recordedAt <= ? ORDER BY recordedAt DESC LIMIT 1',
+        [new Date(timestamp)]
+    );
+    return rows[0] || null;
+};
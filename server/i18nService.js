@@ -0,0 +1,74 @@
+// Multilingual catalog content.
+// English is the source language: the products, categories and sub_categories columns hold it,
+// and each row may carry a translations JSON of { mr: { title, description }, ... }. Public
+// reads pick the locale from Accept-Language and fall back to English field by field, so a
+// half-translated piece still shows its English description.
+
+export const DEFAULT_LOCALE = 'en';
+export const SUPPORTED_LOCALES = ['en', 'mr', 'hi', 'gu'];
+export const LOCALE_NAMES = { en: 'English', mr: 'Marathi', hi: 'Hindi', gu: 'Gujarati' };
+
+export const PRODUCT_TRANSLATABLE_FIELDS = ['title', 'description'];
+
+const parseJson = (val, fallback) => {
+    if (val && typeof val === 'object') return val;
+    try { return JSON.parse(val) ?? fallback; } catch { return fallback; }
+};
+
+// "mr-IN,mr;q=0.9,en;q=0.8" -> 'mr'. Unsupported or missing headers give English.
+export const resolveLocale = (header) => {
+    const ranked = String(header || '')
+        .split(',')
+        .map((part, i) => {
+            const [tag, ...params] = part.trim().split(';');
+            const q = params.find(p => p.trim().startsWith('q='));
+            return { lang: tag.trim().toLowerCase().split('-')[0], q: q ? Number(q.trim().slice(2)) || 0 : 1, i };
+        })
+        .filter(entry => entry.lang && entry.q > 0)
+        .sort((a, b) => b.q - a.q || a.i - b.i);
+    return ranked.find(entry => SUPPORTED_LOCALES.includes(entry.lang))?.lang || DEFAULT_LOCALE;
+};
+
+// Resolves the request locale and marks the response as varying by it, so shared caches
+// never hand a Marathi page to an English reader
+export const negotiateLocale = (req, res) => {
+    const locale = resolveLocale(req.headers['accept-language']);
+    res.vary('Accept-Language');
+    res.set('Content-Language', locale);
+    return locale;
+};
+
+// Keeps supported non-English locales and the given fields, trimmed, dropping empty values
+export const cleanTranslations = (value, fields) => {
+    const translations = parseJson(value, {});
+    const clean = {};
+    if (!translations || typeof translations !== 'object') return clean;
+    for (const locale of SUPPORTED_LOCALES) {
+        if (locale === DEFAULT_LOCALE || !translations[locale]) continue;
+        const entry = {};
+        for (const field of fields) {
+            const text = translations[locale][field];
+            if (typeof text === 'string' && text.trim()) entry[field] = text.trim();
+        }
+        if (Object.keys(entry).length > 0) clean[locale] = entry;
+    }
+    return clean;
+};
+
+export const parseTranslations = (value) => parseJson(value, {}) || {};
+
+// A product with its title and description in the requested locale where a translation exists
+export const localizeProduct = (product, locale) => {
+    if (!product || locale === DEFAULT_LOCALE) return product;
+    const entry = parseTranslations(product.translations)[locale];
+    if (!entry) return product;
+    const localized = { ...product };
+    PRODUCT_TRANSLATABLE_FIELDS.forEach(field => { if (entry[field]) localized[field] = entry[field]; });
+    return localized;
+};
+
+// A category or sub-category name in the requested locale, or the English name
+export const localizeName = (name, translations, locale) => {
+    if (locale === DEFAULT_LOCALE) return name;
+    return parseTranslations(translations)[locale]?.name || name;
+};
@@ -0,0 +1,55 @@
+// Stock tag labels.
+// Each physical piece gets a tag number; labels carry a QR code that opens the staff scan route
+// and a Code 128 barcode of the tag for handheld scanners. Sheets are A4, 3 x 8 labels.
+import PDFDocument from 'pdfkit';
+import bwipjs from 'bwip-js';
+
+export const STOCK_LOCATIONS = ['showroom', 'locker', 'supplier'];
+export const STOCK_STATUSES = ['in_stock', 'on_approval', 'sold'];
+
+export const formatTagNumber = (id) => `SJT-${String(id).padStart(5, '0')}`;
+
+const LABEL_COLUMNS = 3;
+const LABEL_ROWS = 8;
+
+export const renderLabelSheet = async (units, scanBaseUrl) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 24, info: { Title: 'Stock Labels', Author: 'Sanghavi Jewellers' } });
+    const chunks = [];
+    doc.on('data', c => chunks.push(c));
+    const done = new Promise(resolve => doc.on('end', () => resolve(Buffer.concat(chunks))));
+
+    const left = doc.page.margins.left;
+    const top = doc.page.margins.top;
+    const cellWidth = (doc.page.width - left - doc.page.margins.right) / LABEL_COLUMNS;
+    const cellHeight = (doc.page.height - top - doc.page.margins.bottom) / LABEL_ROWS;
+    const pad = 6;
+
+    for (let i = 0; i < units.length; i++) {
+        const unit = units[i];
+        const slot = i % (LABEL_COLUMNS * LABEL_ROWS);
+        if (i > 0 && slot === 0) doc.addPage();
+
+        const x = left + (slot % LABEL_COLUMNS) * cellWidth;
+        const y = top + Math.floor(slot / LABEL_COLUMNS) * cellHeight;
+        doc.rect(x, y, cellWidth, cellHeight).strokeColor('#E7E5E4').lineWidth(0.5).stroke();
+
+        const [qr, barcode] = await Promise.all([
+            bwipjs.toBuffer({ bcid: 'qrcode', text: `${scanBaseUrl}/${encodeURIComponent(unit.tagNumber)}`, scale: 3 }),
+            bwipjs.toBuffer({ bcid: 'code128', text: unit.tagNumber, scale: 2, height: 6 })
+        ]);
+
+        const qrSize = cellHeight - pad * 2;
+        doc.image(qr, x + pad, y + pad, { fit: [qrSize, qrSize] });
+
+        const textX = x + pad * 2 + qrSize;
+        const textWidth = cellWidth - qrSize - pad * 3;
+        doc.fillColor('#1C1917').font('Helvetica-Bold').fontSize(9).text(unit.tagNumber, textX, y + pad, { width: textWidth, lineBreak: false });
+        doc.fillColor('#78716C').font('Helvetica').fontSize(6)
+            .text(unit.productTitle || '', textX, y + pad + 12, { width: textWidth, height: 8, ellipsis: true, lineBreak: false })
+            .text(`G ${Number(unit.grossWeight || 0).toFixed(2)}g  N ${Number(unit.netWeight || 0).toFixed(2)}g`, textX, y + pad + 21, { width: textWidth, lineBreak: false });
+        doc.image(barcode, textX, y + cellHeight - pad - 22, { fit: [textWidth, 22] });
+    }
+
+    doc.end();
+    return done;
+};
@@ -0,0 +1,216 @@
+// Uploaded image processing.
+// Every image is stored at each configured width (imageWidths in Settings) as both AVIF and WebP,
+// named by content hash so re-uploading the same photo reuses the existing files. The widest WebP
+// is the product's image and the 600w WebP its thumbnail; the rest are listed in the image's
+// manifest so clients can pick the smallest file that fills the slot.
+import path from 'path';
+import crypto from 'crypto';
+import { existsSync, writeFileSync, mkdirSync, readdirSync, renameSync } from 'fs';
+
+export const DEFAULT_IMAGE_WIDTHS = [300, 600, 720, 1080];
+export const THUMBNAIL_WIDTH = 600;
+
+// Preferred first: browsers take the first <source> they support
+export const IMAGE_FORMATS = [
+    { format: 'avif', quality: 55 },
+    { format: 'webp', quality: 90 }
+];
+
+export const contentHash = (buffer) => crypto.createHash('md5').update(buffer).digest('hex').substring(0, 12);
+
+export const safeFileName = (name) => name.replace(/[^a-zA-Z0-9.-]/g, '_');
+
+const parseJson = (val, fallback) => {
+    if (val && typeof val === 'object') return val;
+    try { return JSON.parse(val) ?? fallback; } catch { return fallback; }
+};
+
+// Whole pixel widths between 100 and 4000, smallest first
+export const cleanImageWidths = (widths) => {
+    const clean = (Array.isArray(widths) ? widths : [])
+        .map(w => parseInt(w))
+        .filter(w => w >= 100 && w <= 4000);
+    return [...new Set(clean)].sort((a, b) => a - b);
+};
+
+export const parseImageWidths = (val) => {
+    const widths = cleanImageWidths(parseJson(val, null));
+    return widths.length ? widths : DEFAULT_IMAGE_WIDTHS;
+};
+
+export const getImageWidths = async (pool) => {
+    const [rows] = await pool.query('SELECT setting_value FROM system_settings WHERE setting_key = "imageWidths"');
+    return rows.length ? parseImageWidths(rows[0].setting_value) : DEFAULT_IMAGE_WIDTHS;
+};
+
+// "/uploads/1080/3f2a9c01d4e5-ring.jpg-1080w.webp" -> { stem: "3f2a9c01d4e5-ring.jpg", width: 1080, format: "webp" }
+const VARIANT_PATTERN = /^\/uploads\/(\d+)\/(.+)-(\d+)w\.(webp|avif)$/;
+export const parseVariantUrl = (url) => {
+    const match = typeof url === 'string' ? url.match(VARIANT_PATTERN) : null;
+    return match ? { stem: match[2], width: Number(match[3]), format: match[4] } : null;
+};
+
+// The part of a variant's file name shared by all its widths and formats
+export const variantStem = (filename) => filename.match(/^(.+)-\d+w\.(webp|avif)$/)?.[1] || null;
+
+const variantUrl = (stem, width, format) => `/uploads/${width}/${stem}-${width}w.${format}`;
+
+// The variants on disk, by stem. The width folders are listed once, on first use, and every
+// upload after that is added as it is saved, so serialising a product never touches the disk.
+let variantIndex = null;
+let hashIndex = null;
+
+const formatOrder = (format) => IMAGE_FORMATS.findIndex(f => f.format === format);
+const byWidthThenFormat = (a, b) => a.width - b.width || formatOrder(a.format) - formatOrder(b.format);
+
+const indexVariants = (stem, variants) => {
+    hashIndex.set(stem.slice(0, 12), stem);
+    const known = variantIndex.get(stem) || [];
+    const merged = [...known, ...variants.filter(v => !known.some(k => k.url === v.url))];
+    variantIndex.set(stem, merged.sort(byWidthThenFormat));
+};
+
+const loadVariantIndex = (uploadsRoot) => {
+    if (variantIndex) return variantIndex;
+    variantIndex = new Map();
+    hashIndex = new Map();
+    let folders = [];
+    try { folders = readdirSync(uploadsRoot).filter(name => /^\d+$/.test(name)); } catch (e) { return variantIndex; }
+    for (const folder of folders) {
+        let files = [];
+        try { files = readdirSync(path.join(uploadsRoot, folder)); } catch (e) { continue; }
+        for (const file of files) {
+            const parsed = parseVariantUrl(`/uploads/${folder}/${file}`);
+            if (parsed && String(parsed.width) === folder) indexVariants(parsed.stem, [{ format: parsed.format, width: parsed.width, url: variantUrl(parsed.stem, parsed.width, parsed.format) }]);
+        }
+    }
+    return variantIndex;
+};
+
+// For maintenance that deletes or renames files outside of uploads; the next lookup lists the folders again
+export const resetVariantIndex = () => {
+    variantIndex = null;
+    hashIndex = null;
+};
+
+// The variants that exist for one stored image. Images that are not hash-named uploads (videos,
+// streamed blobs, external URLs) get a manifest with no variants, so clients use the src as is.
+export const getImageManifest = (url, uploadsRoot) => {
+    const parsed = parseVariantUrl(url);
+    if (!parsed) return { src: url, variants: [] };
+    const variants = loadVariantIndex(uploadsRoot).get(parsed.stem);
+    return { src: url, variants: variants ? [...variants] : [{ format: parsed.format, width: parsed.width, url }] };
+};
+
+// The smallest WebP at least THUMBNAIL_WIDTH wide, else the widest; the src itself when the
+// image has no variants
+export const thumbnailOf = (manifest) => {
+    const webp = manifest.variants.filter(v => v.format === 'webp').sort((a, b) => a.width - b.width);
+    return (webp.find(v => v.width >= THUMBNAIL_WIDTH) || webp[webp.length - 1])?.url || manifest.src;
+};
+
+export const saveImageVariants = async (buffer, originalName, uploadsRoot, widths = DEFAULT_IMAGE_WIDTHS) => {
+    const hash = contentHash(buffer);
+    const stem = `${hash}-${safeFileName(originalName)}`;
+
+    const processVariant = async (width, format, quality) => {
+        const dir = path.join(uploadsRoot, width.toString());
+        if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+        const filepath = path.join(dir, `${stem}-${width}w.${format}`);
+        const url = variantUrl(stem, width, format);
+        if (existsSync(filepath)) return { format, width, url };
+        try {
+            const { default: sharp } = await import('sharp');
+            await sharp(buffer).rotate().resize(width, null, { withoutEnlargement: true }).sharpen({ sigma: 0.8, m1: 0.5, m2: 0.5 }).toFormat(format, { quality }).toFile(filepath);
+        } catch (e) {
+            // Without sharp only the WebP names are written, holding the original bytes
+            if (format !== 'webp') return null;
+            writeFileSync(filepath, buffer);
+        }
+        return { format, width, url };
+    };
+
+    // One width at a time: AVIF encoding is CPU heavy and the upload box is small
+    const variants = [];
+    for (const width of widths) {
+        for (const { format, quality } of IMAGE_FORMATS) {
+            const variant = await processVariant(width, format, width === widths[widths.length - 1] && format === 'webp' ? 95 : quality);
+            if (variant) variants.push(variant);
+        }
+    }
+
+    const webp = variants.filter(v => v.format === 'webp');
+    const primary = webp[webp.length - 1].url;
+    const manifest = { src: primary, variants };
+    const thumbnail = thumbnailOf(manifest);
+    loadVariantIndex(uploadsRoot);
+    indexVariants(stem, variants);
+    return { primary, thumbnail, manifest };
+};
+
+// On-the-fly transforms (GET /api/media/img/:hash). Sizes are whitelisted so the cache can't be
+// filled with every width a crawler asks for; results are stored under uploads/cache by a hash
+// of the source and the options, so a transform is only ever computed once.
+export const RESIZE_CACHE_DIR = 'cache';
+export const ALLOWED_RESIZE_SIZES = [64, 96, 150, 200, 300, 400, 600, 720, 800, 1080, 1440];
+export const RESIZE_FITS = ['inside', 'cover', 'contain'];
+export const RESIZE_FORMATS = { webp: 'image/webp', avif: 'image/avif', jpeg: 'image/jpeg', png: 'image/png' };
+
+// Validated transform options from a query string, or { error } naming the first bad parameter.
+// Width or height may be left out to keep the aspect ratio.
+export const parseResizeOptions = (query) => {
+    const size = (value) => (value === undefined || value === '' ? null : parseInt(value));
+    const width = size(query.w);
+    const height = size(query.h);
+    const fit = query.fit || 'inside';
+    const format = query.format || 'webp';
+    if (!width && !height) return { error: 'w or h is required' };
+    if ([width, height].some(n => n !== null && !ALLOWED_RESIZE_SIZES.includes(n))) return { error: `w and h must be one of ${ALLOWED_RESIZE_SIZES.join(', ')}` };
+    if (!RESIZE_FITS.includes(fit)) return { error: `fit must be one of ${RESIZE_FITS.join(', ')}` };
+    if (!RESIZE_FORMATS[format]) return { error: `format must be one of ${Object.keys(RESIZE_FORMATS).join(', ')}` };
+    const quality = Math.min(95, Math.max(30, parseInt(query.q) || 80));
+    return { options: { width, height, fit, format, quality } };
+};
+
+// The largest stored file for a content hash, looked up in the variant index so unknown hashes
+// cost nothing
+const findSourceFile = (hash, uploadsRoot) => {
+    loadVariantIndex(uploadsRoot);
+    const stem = hashIndex.get(hash);
+    const variants = stem ? variantIndex.get(stem) : [];
+    const source = [...variants].reverse().find(v => v.format === 'webp') || variants[variants.length - 1];
+    return source ? path.join(uploadsRoot, String(source.width), `${stem}-${source.width}w.${source.format}`) : null;
+};
+
+const inFlight = new Map();
+
+// Returns { file, key, contentType, source } for the transformed image, rendering it on the first
+// request. Null when no stored image has this content hash.
+export const getResizedImage = async (hash, options, uploadsRoot) => {
+    const source = /^[0-9a-f]{12}$/.test(hash) ? findSourceFile(hash, uploadsRoot) : null;
+    if (!source) return null;
+
+    const { width, height, fit, format, quality } = options;
+    const key = crypto.createHash('sha1').update([hash, width, height, fit, format, quality].join('|')).digest('hex');
+    const dir = path.join(uploadsRoot, RESIZE_CACHE_DIR, key.slice(0, 2));
+    const file = path.join(dir, `${key}.${format}`);
+    const result = { file, key, contentType: RESIZE_FORMATS[format], source };
+    if (existsSync(file)) return result;
+
+    // Concurrent requests for the same transform share one render
+    if (!inFlight.has(key)) {
+        inFlight.set(key, (async () => {
+            const { default: sharp } = await import('sharp');
+            if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+            const buffer = await sharp(source)
+                .resize(width, height, { fit, withoutEnlargement: true, background: { r: 255, g: 255, b: 255, alpha: format === 'jpeg' ? 1 : 0 } })
+                .toFormat(format, { quality })
+                .toBuffer();
+            // Written whole so a half-finished file is never served
+            writeFileSync(`${file}.tmp`, buffer);
+            renameSync(`${file}.tmp`, file);
+        })().finally(() => inFlight.delete(key)));
+    }
+    await inFlight.get(key);
+    return result;
+};
@@ -0,0 +1,153 @@
+// Server-side pricing engine.
+// This is the single trusted source for product prices: wishlists, price-drop alerts and
+// campaigns store and compare values computed here instead of numbers sent by the browser.
+// The formula mirrors storeService.calculatePrice on the client, which remains only as an
+// instant preview while the server price loads.
+
+const PRICING_KEYS = ['goldRate22k', 'goldRate24k', 'gstPercent', 'makingChargeSegments', 'defaultMakingChargeSegmentId', 'purityFineness'];
+
+export const GOLD_PURITIES = ['9KT', '14KT', '18KT', '22KT', '24KT'];
+
+// Gold content relative to the 24K rate. 22K and 24K use the quoted rates directly;
+// lower purities are derived from the 24K rate with these ratios.
+export const DEFAULT_PURITY_FINENESS = {
+    '9KT': 0.375,
+    '14KT': 0.585,
+    '18KT': 0.75,
+    '22KT': 0.916,
+    '24KT': 1
+};
+
+const DEFAULT_PRICING = {
+    goldRate22k: 6500,
+    goldRate24k: 7200,
+    gstPercent: 3,
+    makingChargeSegments: [
+        { id: 'classic', name: 'Classic', percent: 10 },
+        { id: 'premium', name: 'Premium', percent: 12 },
+        { id: 'antique', name: 'Antique', percent: 13 }
+    ],
+    defaultMakingChargeSegmentId: 'premium',
+    purityFineness: DEFAULT_PURITY_FINENESS
+};
+
+const FALLBACK_MAKING_PERCENT = 12;
+
+// Stones are weighed in carats; 1 ct = 0.2 g of the gross weight that is not gold.
+export const CARAT_TO_GRAMS = 0.2;
+
+const parseJson = (val, fallback) => {
+    if (val && typeof val === 'object') return val;
+    try { return JSON.parse(val) || fallback; } catch { return fallback; }
+};
+
+export const getPricingConfig = async (pool) => {
+    const [rows] = await pool.query('SELECT setting_key, setting_value FROM system_settings WHERE setting_key IN (?)', [PRICING_KEYS]);
+    const config = { ...DEFAULT_PRICING };
+    rows.forEach(r => {
+        if (r.setting_key === 'makingChargeSegments') config.makingChargeSegments = parseJson(r.setting_value, []);
+        else if (r.setting_key === 'defaultMakingChargeSegmentId') config.defaultMakingChargeSegmentId = r.setting_value;
+        else if (r.setting_key === 'purityFineness') config.purityFineness = { ...DEFAULT_PURITY_FINENESS, ...parseJson(r.setting_value, {}) };
+        else {
+            // A configured 0 (no GST, say) is kept; only blank or invalid values fall back
+            const value = r.setting_value === null || String(r.setting_value).trim() === '' ? NaN : Number(r.setting_value);
+            config[r.setting_key] = Number.isFinite(value) ? value : DEFAULT_PRICING[r.setting_key];
+        }
+    });
+    return config;
+};
+
+export const getDefaultPurity = (product) => {
+    const meta = parseJson(product.meta, {});
+    if (GOLD_PURITIES.includes(meta.purity)) return meta.purity;
+    // Legacy products encoded 24K in the category name
+    return product.category?.toLowerCase()?.includes('24k') ? '24KT' : '22KT';
+};
+
+// Purities the piece is offered in; without a list only its default purity
+export const getAvailablePurities = (product) => {
+    const meta = parseJson(product.meta, {});
+    const available = Array.isArray(meta.availablePurities) ? meta.availablePurities.filter(p => GOLD_PURITIES.includes(p)) : [];
+    return available.length > 0 ? available : [getDefaultPurity(product)];
+};
+
+export const getPurityRate = (purity, config) => {
+    if (purity === '22KT') return config.goldRate22k;
+    if (purity === '24KT') return config.goldRate24k;
+    const fineness = config.purityFineness?.[purity] ?? DEFAULT_PURITY_FINENESS[purity];
+    return config.goldRate24k * fineness;
+};
+
+export const getStoneLines = (meta) => {
+    const stones = Array.isArray(meta.stones) ? meta.stones : [];
+    return stones.map(s => {
+        const caratWeight = Number(s.caratWeight) || 0;
+        const ratePerCarat = Number(s.ratePerCarat) || 0;
+        return {
+            id: s.id,
+            type: s.type,
+            count: Number(s.count) || 0,
+            caratWeight,
+            grade: s.grade || undefined,
+            ratePerCarat,
+            value: caratWeight * ratePerCarat
+        };
+    });
+};
+
+// Gold is charged on net weight: gross minus the stone weight, unless staff entered
+// a measured net weight (e.g. for pearls or enamel that are not weighed in carats).
+export const getNetWeight = (grossWeight, meta, stoneWeight) => {
+    const measured = Number(meta.netWeight);
+    if (measured > 0) return Math.min(measured, grossWeight);
+    return Math.max(0, grossWeight - stoneWeight);
+};
+
+export const calculatePrice = (product, config, purity) => {
+    const meta = parseJson(product.meta, {});
+    const grossWeight = Number(product.weight) || 0;
+    const stoneLines = getStoneLines(meta);
+    const stoneWeight = stoneLines.reduce((sum, l) => sum + l.caratWeight * CARAT_TO_GRAMS, 0);
+    const netWeight = getNetWeight(grossWeight, meta, stoneWeight);
+    // A purity the piece is not offered in is never quoted; it falls back to the default
+    const selectedPurity = getAvailablePurities(product).includes(purity) ? purity : getDefaultPurity(product);
+    const goldRate = getPurityRate(selectedPurity, config);
+    const basePrice = netWeight * goldRate;
+
+    let makingPercent = FALLBACK_MAKING_PERCENT;
+    if (meta.makingChargePercent !== undefined && meta.makingChargePercent !== null) {
+        makingPercent = Number(meta.makingChargePercent);
+    } else {
+        const segmentId = meta.makingChargeSegmentId || config.defaultMakingChargeSegmentId;
+        const segment = (config.makingChargeSegments || []).find(s => s.id === segmentId);
+        if (segment) makingPercent = Number(segment.percent);
+    }
+
+    const makingCharges = basePrice * (makingPercent / 100);
+    const otherCharges = Number(meta.otherCharges) || 0;
+    const stoneCharges = stoneLines.reduce((sum, l) => sum + l.value, 0);
+    const subtotal = basePrice + makingCharges + stoneCharges + otherCharges;
+    const gst = subtotal * (config.gstPercent / 100);
+    const total = subtotal + gst;
+
+    return {
+        basePrice, makingCharges, makingPercent, otherCharges, gst, total, goldRate, purity: selectedPurity,
+        grossWeight, netWeight, stoneWeight, stoneCharges, stoneLines
+    };
+};
+
+// A set is priced as the sum of its pieces, each at its default purity, less the set discount
+export const calculateSetPrice = (products, config, discountPercent = 0) => {
+    const itemsTotal = products.reduce((sum, p) => sum + calculatePrice(p, config).total, 0);
+    const discount = itemsTotal * (Math.min(Math.max(Number(discountPercent) || 0, 0), 100) / 100);
+    return { itemsTotal, discount, total: itemsTotal - discount };
+};
+
+// Resolves the live price of a single product, or null when the product does not exist.
+// Without a purity, or with one the product is not offered in, the default purity is used.
+export const getProductPrice = async (pool, productId, config, purity) => {
+    const [rows] = await pool.query('SELECT id, category, weight, meta FROM products WHERE id = ? AND deletedAt IS NULL', [productId]);
+    if (rows.length === 0) return null;
+    const pricing = config || await getPricingConfig(pool);
+    return calculatePrice(rows[0], pricing, purity);
+};
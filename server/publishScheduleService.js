@@ -0,0 +1,40 @@
+// Scheduled publishing.
+// A product may carry publishAt and/or unpublishAt. Public listings show it only inside that
+// window (and only when it is not hidden), so a drop can be loaded in advance and go live on
+// time with nobody online. Staff views ignore the window.
+import cron from 'node-cron';
+
+// SQL condition appended to public queries, e.g. `WHERE isHidden = 0${publishWindow('p.')}`
+export const publishWindow = (prefix = '') =>
+    ` AND (${prefix}publishAt IS NULL OR ${prefix}publishAt <= NOW()) AND (${prefix}unpublishAt IS NULL OR ${prefix}unpublishAt > NOW())`;
+
+// The same check for rows already in memory (the search index)
+export const isInPublishWindow = (product, now = Date.now()) => {
+    const publishAt = product.publishAt ? new Date(product.publishAt).getTime() : null;
+    const unpublishAt = product.unpublishAt ? new Date(product.unpublishAt).getTime() : null;
+    return (publishAt === null || publishAt <= now) && (unpublishAt === null || unpublishAt > now);
+};
+
+// Curated rows and listing counts are cached for minutes at a time; drop them as soon as a
+// product's window opens or closes so the change shows up on the minute
+export const initPublishScheduler = (pool, CACHE) => {
+    let lastCheck = new Date();
+    cron.schedule('* * * * *', async () => {
+        const now = new Date();
+        try {
+            const [rows] = await pool.query(
+                `SELECT id FROM products WHERE deletedAt IS NULL
+                 AND ((publishAt > ? AND publishAt <= ?) OR (unpublishAt > ? AND unpublishAt <= ?))`,
+                [lastCheck, now, lastCheck, now]
+            );
+            lastCheck = now;
+            if (rows.length > 0) {
+                CACHE.curated.data = null;
+                CACHE.counts.data = null;
+                console.log(`[Publish] ${rows.length} scheduled product(s) went live or expired`);
+            }
+        } catch (e) {
+            console.error('[Publish] Schedule check failed:', e.message);
+        }
+    });
+};
@@ -0,0 +1,139 @@
+// Customer estimates.
+// A quote freezes the server price breakdown at the moment it is issued; the PDF is rendered
+// on demand from that snapshot so a re-download always shows exactly what the customer was sent.
+import PDFDocument from 'pdfkit';
+import path from 'path';
+import { existsSync } from 'fs';
+
+export const DEFAULT_QUOTE_VALIDITY_HOURS = 24;
+
+// A quote also lapses early when the gold rate moves this far from the rate it was issued at
+export const QUOTE_RATE_TOLERANCE_PERCENT = 2;
+
+export const formatQuoteNumber = (id, date = new Date()) => `SJ-Q-${date.getFullYear()}-${String(id).padStart(5, '0')}`;
+
+export const getQuoteValidity = (quote, currentRate) => {
+    if (new Date(quote.validUntil).getTime() < Date.now()) return { isValid: false, reason: 'expired' };
+    const issuedRate = Number(quote.goldRate);
+    if (issuedRate && currentRate) {
+        const moved = Math.abs(currentRate - issuedRate) / issuedRate * 100;
+        if (moved > QUOTE_RATE_TOLERANCE_PERCENT) return { isValid: false, reason: 'rate_moved' };
+    }
+    return { isValid: true, reason: null };
+};
+
+// Maps any stored image path to the 1080px rendition on disk, converted to JPEG for the PDF
+const loadQuoteImage = async (imagePath, UPLOADS_ROOT) => {
+    if (!imagePath || !imagePath.includes('/uploads/')) return null;
+    const relative = imagePath.split('/uploads/')[1].replace(/^(300|600|720)\//, '1080/');
+    const filePath = path.join(UPLOADS_ROOT, relative);
+    if (!filePath.startsWith(UPLOADS_ROOT) || !existsSync(filePath)) return null;
+    if (/\.(mp4|webm|mov)$/i.test(filePath)) return null;
+    // Without sharp the estimate is rendered without photos: pdfkit can't read the stored WebP files
+    try {
+        const { default: sharp } = await import('sharp');
+        return await sharp(filePath).resize(1080, 1080, { fit: 'inside' }).jpeg({ quality: 82 }).toBuffer();
+    } catch {
+        return null;
+    }
+};
+
+const rupees = (value) => `Rs. ${Math.round(Number(value) || 0).toLocaleString('en-IN')}`;
+
+export const renderQuotePdf = async (quote, UPLOADS_ROOT) => {
+    const pricing = typeof quote.pricing === 'string' ? JSON.parse(quote.pricing) : quote.pricing;
+    const images = typeof quote.images === 'string' ? JSON.parse(quote.images || '[]') : (quote.images || []);
+    const plan = typeof quote.paymentPlan === 'string' ? JSON.parse(quote.paymentPlan || 'null') : quote.paymentPlan;
+
+    const imageBuffers = (await Promise.all(images.slice(0, 2).map(img => loadQuoteImage(img, UPLOADS_ROOT)))).filter(Boolean);
+
+    const doc = new PDFDocument({ size: 'A4', margin: 48, info: { Title: `Estimate ${quote.quoteNumber}`, Author: 'Sanghavi Jewellers' } });
+    const chunks = [];
+    doc.on('data', c => chunks.push(c));
+    const done = new Promise(resolve => doc.on('end', () => resolve(Buffer.concat(chunks))));
+
+    const gold = '#B8860B';
+    const dark = '#1C1917';
+    const muted = '#78716C';
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    // Header
+    doc.fillColor(gold).font('Helvetica-Bold').fontSize(20).text('SANGHAVI JEWELLERS', left, 48);
+    doc.fillColor(muted).font('Helvetica').fontSize(8).text('ESTIMATE / QUOTATION', { characterSpacing: 2 });
+    doc.fillColor(dark).font('Helvetica-Bold').fontSize(10).text(quote.quoteNumber, left, 52, { width, align: 'right' });
+    doc.fillColor(muted).font('Helvetica').fontSize(8)
+        .text(`Issued ${new Date(quote.createdAt).toLocaleString('en-IN')}`, left, 66, { width, align: 'right' })
+        .text(`Valid until ${new Date(quote.validUntil).toLocaleString('en-IN')}`, { width, align: 'right' });
+    doc.moveTo(left, 96).lineTo(left + width, 96).strokeColor(gold).lineWidth(1).stroke();
+
+    let y = 110;
+    if (quote.customerName || quote.customerPhone) {
+        doc.fillColor(muted).fontSize(8).text('PREPARED FOR', left, y, { characterSpacing: 1 });
+        doc.fillColor(dark).font('Helvetica-Bold').fontSize(11).text([quote.customerName, quote.customerPhone].filter(Boolean).join('  |  '), left, y + 12);
+        doc.font('Helvetica');
+        y += 40;
+    }
+
+    // Product images side by side
+    if (imageBuffers.length > 0) {
+        const gap = 12;
+        const imgWidth = (width - gap * (imageBuffers.length - 1)) / imageBuffers.length;
+        const imgHeight = Math.min(240, imgWidth);
+        imageBuffers.forEach((buf, i) => {
+            doc.image(buf, left + i * (imgWidth + gap), y, { fit: [imgWidth, imgHeight], align: 'center', valign: 'center' });
+        });
+        y += imgHeight + 16;
+    }
+
+    doc.fillColor(dark).font('Helvetica-Bold').fontSize(16).text(quote.productTitle || 'Bespoke Piece', left, y);
+    y = doc.y + 4;
+    const specs = [
+        `Ref ${String(quote.productId).slice(-8).toUpperCase()}`,
+        `Gross ${Number(pricing.grossWeight ?? 0).toFixed(2)} g`,
+        `Net ${Number(pricing.netWeight ?? 0).toFixed(2)} g`,
+        `Purity ${pricing.purity}`
+    ];
+    doc.fillColor(muted).font('Helvetica').fontSize(9).text(specs.join('   |   '), left, y);
+    y = doc.y + 16;
+
+    // Price breakdown table
+    const row = (label, value, opts = {}) => {
+        doc.fillColor(opts.color || dark).font(opts.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(opts.size || 10);
+        doc.text(label, left, y, { width: width * 0.7 });
+        doc.text(value, left, y, { width, align: 'right' });
+        y += (opts.size || 10) + 8;
+    };
+
+    row(`Gold value (${Number(pricing.netWeight ?? 0).toFixed(2)} g @ ${rupees(pricing.goldRate)}/g, ${pricing.purity})`, rupees(pricing.basePrice));
+    row(`Making charges (${pricing.makingPercent}%)`, rupees(pricing.makingCharges));
+    (pricing.stoneLines || []).forEach(line => {
+        row(`${line.type} x ${line.count} (${line.caratWeight} ct${line.grade ? ` ${line.grade}` : ''} @ ${rupees(line.ratePerCarat)}/ct)`, rupees(line.value));
+    });
+    if (Number(pricing.otherCharges) > 0) row('Other charges', rupees(pricing.otherCharges));
+    row(`GST (${quote.gstPercent}%)`, rupees(pricing.gst));
+    doc.moveTo(left, y).lineTo(left + width, y).strokeColor('#E7E5E4').lineWidth(0.5).stroke();
+    y += 8;
+    row('Estimated Total', rupees(pricing.total), { bold: true, size: 13, color: gold });
+
+    if (plan) {
+        y += 8;
+        const advance = pricing.total * (plan.advancePercent / 100);
+        doc.fillColor(muted).font('Helvetica').fontSize(8).text('PAYMENT PLAN', left, y, { characterSpacing: 1 });
+        y += 14;
+        row(`${plan.months} month plan - booking advance (${plan.advancePercent}%)`, rupees(advance));
+        row('Balance payable', rupees(pricing.total - advance));
+    }
+
+    // Validity terms tied to the gold rate
+    y += 12;
+    doc.fillColor(muted).font('Helvetica').fontSize(8).text(
+        `This estimate is based on the ${pricing.purity} gold rate of ${rupees(pricing.goldRate)}/g at the time of issue. ` +
+        `It is valid until ${new Date(quote.validUntil).toLocaleString('en-IN')} or until the gold rate moves more than ${QUOTE_RATE_TOLERANCE_PERCENT}%, whichever is earlier. ` +
+        'Final invoice value is calculated on the actual weight at delivery.',
+        left, y, { width, lineGap: 2 }
+    );
+
+    doc.end();
+    return done;
+};
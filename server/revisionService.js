@@ -0,0 +1,106 @@
+// Product revision history and trash.
+// Every staff change stores a snapshot of the product as it stood afterwards, plus the field-level
+// diff from the previous version, so any revision can be restored with one click. Deleting a
+// product only moves it to the trash (deletedAt); the trash is purged after trashRetentionDays.
+// Availability is left out: it tracks stock and orders, and restoring an old edit must not
+// put a sold piece back on sale.
+// Variants stay linked to a trashed main piece, so restoring it brings the family back; while it
+// is in the trash they are listed as standalone pieces.
+import cron from 'node-cron';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const TRACKED_FIELDS = ['title', 'category', 'subCategory', 'weight', 'description', 'tags', 'images', 'thumbnails', 'supplier', 'isHidden', 'publishAt', 'unpublishAt', 'dateTaken', 'parentId', 'variantLabel', 'size', 'meta', 'translations'];
+export const FAMILY_FIELDS = ['parentId', 'variantLabel', 'size'];
+const JSON_FIELDS = ['tags', 'images', 'thumbnails', 'meta', 'translations'];
+const OBJECT_FIELDS = ['meta', 'translations'];
+const DATETIME_FIELDS = ['publishAt', 'unpublishAt'];
+
+const parseJson = (val, fallback) => {
+    if (val && typeof val === 'object') return val;
+    try { return JSON.parse(val) ?? fallback; } catch { return fallback; }
+};
+
+const normalize = (field, value) => {
+    if (JSON_FIELDS.includes(field)) return parseJson(value, OBJECT_FIELDS.includes(field) ? {} : []);
+    if (field === 'isHidden') return !!value;
+    if (field === 'weight') return Number(value) || 0;
+    if (DATETIME_FIELDS.includes(field)) return value ? new Date(value).toISOString() : null;
+    if (field === 'dateTaken' && value instanceof Date) return value.toISOString().split('T')[0];
+    return value ?? null;
+};
+
+// The tracked columns of a products row, with JSON columns parsed
+export const snapshotOf = (row) => Object.fromEntries(TRACKED_FIELDS.map(field => [field, normalize(field, row[field])]));
+
+// Column values for UPDATE products SET ? from a stored snapshot. Snapshots taken before a field
+// was tracked leave that column as it is.
+export const snapshotColumns = (snapshot) => Object.fromEntries(TRACKED_FIELDS.filter(field => field in snapshot).map(field => {
+    if (JSON_FIELDS.includes(field)) return [field, JSON.stringify(snapshot[field] ?? (OBJECT_FIELDS.includes(field) ? {} : []))];
+    if (DATETIME_FIELDS.includes(field)) return [field, snapshot[field] ? new Date(snapshot[field]) : null];
+    return [field, snapshot[field]];
+}));
+
+export const diffSnapshots = (before, after) => TRACKED_FIELDS
+    .filter(field => JSON.stringify(before?.[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({ field, from: before?.[field] ?? null, to: after[field] ?? null }));
+
+// Records a revision inside the caller's connection or transaction. Products that predate the
+// history get a baseline revision of their prior state first, so the original can be restored too.
+export const recordRevision = async (db, { productId, action, before, after, userId, restoredFrom = null }) => {
+    const changes = diffSnapshots(before, after);
+    if (action === 'update' && changes.length === 0) return null;
+
+    if (before) {
+        const [existing] = await db.query('SELECT id FROM product_revisions WHERE productId = ? LIMIT 1', [productId]);
+        if (existing.length === 0) {
+            await db.query(
+                'INSERT INTO product_revisions (productId, action, snapshot, changes, createdAt) VALUES (?, "baseline", ?, "[]", NOW())',
+                [productId, JSON.stringify(before)]
+            );
+        }
+    }
+
+    const [result] = await db.query(
+        `INSERT INTO product_revisions (productId, action, snapshot, changes, restoredFrom, changedBy, changedByName, createdAt)
+         VALUES (?, ?, ?, ?, ?, ?, (SELECT name FROM staff WHERE id = ?), NOW())`,
+        [productId, action, JSON.stringify(after), JSON.stringify(changes), restoredFrom, userId || null, userId || null]
+    );
+    return result.insertId;
+};
+
+// SQL condition for pieces listed on their own: main pieces, and variants whose main piece is
+// in the trash or gone
+export const standalonePiece = (prefix = '') =>
+    ` AND (${prefix}parentId IS NULL OR ${prefix}parentId NOT IN (SELECT id FROM products WHERE deletedAt IS NULL))`;
+
+// Before trashed products are deleted for good, their variants are unlinked from them
+export const unlinkVariantsOf = async (db, where, params) => {
+    await db.query(`UPDATE products SET parentId = NULL, variantLabel = NULL, size = NULL WHERE parentId IN (SELECT id FROM (SELECT id FROM products WHERE ${where}) AS gone)`, params);
+};
+
+export const getTrashRetentionDays = async (pool) => {
+    const [rows] = await pool.query('SELECT setting_value FROM system_settings WHERE setting_key = "trashRetentionDays"');
+    return parseInt(rows[0]?.setting_value) || DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+// Permanently removes trashed products older than the retention window. Revisions, wishlist
+// entries and stock units go with them through their foreign keys.
+export const purgeTrash = async (pool) => {
+    const days = await getTrashRetentionDays(pool);
+    await unlinkVariantsOf(pool, 'deletedAt IS NOT NULL AND deletedAt < NOW() - INTERVAL ? DAY', [days]);
+    const [result] = await pool.query('DELETE FROM products WHERE deletedAt IS NOT NULL AND deletedAt < NOW() - INTERVAL ? DAY', [days]);
+    return { purged: result.affectedRows, retentionDays: days };
+};
+
+export const initTrashPurge = (pool) => {
+    // Nightly at 3:30 AM IST (22:00 UTC)
+    cron.schedule('0 22 * * *', async () => {
+        try {
+            const res = await purgeTrash(pool);
+            if (res.purged > 0) console.log('[Trash] Purged:', res);
+        } catch (e) {
+            console.error('[Trash] Purge failed:', e.message);
+        }
+    });
+};
@@ -4,6 +4,7 @@ import { existsSync, mkdirSync, readdirSync, statSync, readFileSync, writeFileSy
 import path from 'path';
 import crypto from 'crypto';
 import { requireAdmin } from '../auth.js';
+import { variantStem, resetVariantIndex } from '../mediaService.js';
 
 export default function adminRoutes(pool, UPLOADS_ROOT, DATA_ROOT) {
     const router = express.Router();
@@ -152,6 +153,19 @@ export default function adminRoutes(pool, UPLOADS_ROOT, DATA_ROOT) {
                 images.forEach(i => usedFiles.add(path.basename(i)));
                 thumb.forEach(t => usedFiles.add(path.basename(t)));
             }
+            // Keep files that older revisions point at, so restoring a revision never loses its images
+            const [revisions] = await pool.query("SELECT JSON_EXTRACT(snapshot, '$.images') as images, JSON_EXTRACT(snapshot, '$.thumbnails') as thumbnails FROM product_revisions");
+            const asList = (val) => (Array.isArray(val) ? val : safeParse(val || '[]') || []);
+            for (const r of revisions) {
+                [...asList(r.images), ...asList(r.thumbnails)].forEach(f => typeof f === 'string' && usedFiles.add(path.basename(f)));
+            }
+
+            // The other widths and formats of a used image are kept with it
+            const usedStems = new Set();
+            usedFiles.forEach(file => {
+                const stem = variantStem(file);
+                if (stem) usedStems.add(stem);
+            });
 
             let deletedCount = 0;
             let bytesFreed = 0;
@@ -162,7 +176,7 @@ export default function adminRoutes(pool, UPLOADS_ROOT, DATA_ROOT) {
                 if (existsSync(dir)) {
                     const files = readdirSync(dir);
                     for (const file of files) {
-                        if (!usedFiles.has(file)) {
+                        if (!usedFiles.has(file) && !usedStems.has(variantStem(file))) {
                             const filepath = path.join(dir, file);
                             const stats = statSync(filepath);
                             if (!stats.isDirectory()) {
@@ -175,6 +189,7 @@ export default function adminRoutes(pool, UPLOADS_ROOT, DATA_ROOT) {
                 }
             }
 
+            resetVariantIndex();
             res.json({ success: true, deletedCount, bytesFreed });
         } catch (e) {
             res.status(500).json({ error: 'Internal server error' });
@@ -248,6 +263,7 @@ router.post('/api/admin/deduplicate-storage', requireAdmin, async (req, res) =>
                 }
             }
 
+            resetVariantIndex();
             res.json({ success: true, message: "Deduplication complete", dbUpdates, spaceSaved });
         } catch (e) {
             res.status(500).json({ error: 'Internal server error' });
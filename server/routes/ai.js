@@ -4,6 +4,8 @@ import jwt from 'jsonwebtoken';
 import rateLimit from 'express-rate-limit';
 import fs from 'fs';
 import path from 'path';
+import { publishWindow } from '../publishScheduleService.js';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, LOCALE_NAMES, PRODUCT_TRANSLATABLE_FIELDS, cleanTranslations } from '../i18nService.js';
 
 export default function aiRoutes(pool) {
     const router = express.Router();
@@ -88,9 +90,24 @@ export default function aiRoutes(pool) {
         };
     };
 
+    // Draft translations are asked for in the same call as the analysis: one object per locale
+    // holding the translated title and description, for staff to review before saving
+    const translationTargets = (locales) => (Array.isArray(locales) ? locales : []).filter(l => l !== DEFAULT_LOCALE && SUPPORTED_LOCALES.includes(l));
+    const translationSchema = (locales) => ({
+        type: Type.OBJECT,
+        properties: Object.fromEntries(locales.map(l => [l, {
+            type: Type.OBJECT,
+            properties: { title: { type: Type.STRING }, description: { type: Type.STRING } },
+            required: ['title', 'description']
+        }])),
+        required: locales
+    });
+    const translationPrompt = (locales) => `Also translate the title and description into ${locales.map(l => `${LOCALE_NAMES[l]} (${l})`).join(', ')} in native script, keyed by language code under "translations". Keep the tone of a luxury jeweller and leave purity marks such as 22KT unchanged.`;
+
     router.post('/ai/analyze-image', async (req, res) => {
         try {
             const { base64Image, mimeType: providedMimeType, promptOverride } = req.body;
+            const locales = translationTargets(req.body.translate);
             const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY });
             const config = await getAIConfig();
             
@@ -102,7 +119,7 @@ export default function aiRoutes(pool) {
               contents: {
                 parts: [
                   { inlineData: { mimeType: mimeType, data: cleanBase64 } },
-                  { text: promptOverride || config.prompts.analysis }
+                  { text: [promptOverride || config.prompts.analysis, locales.length ? translationPrompt(locales) : ''].filter(Boolean).join('\n') }
                 ]
               },
               config: {
@@ -115,7 +132,8 @@ export default function aiRoutes(pool) {
                     subCategory: { type: Type.STRING },
                     weight: { type: Type.NUMBER },
                     description: { type: Type.STRING },
-                    tags: { type: Type.ARRAY, items: { type: Type.STRING } }
+                    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    ...(locales.length && { translations: translationSchema(locales) })
                   },
                   required: ["title", "category", "description"]
                 }
@@ -124,13 +142,42 @@ export default function aiRoutes(pool) {
         
             const text = response.text;
             if (!text) throw new Error("AI returned empty response");
-            res.json({ success: true, data: JSON.parse(text) });
+            const data = JSON.parse(text);
+            if (data.translations) data.translations = cleanTranslations(data.translations, PRODUCT_TRANSLATABLE_FIELDS);
+            res.json({ success: true, data });
         } catch (e) {
             console.error("Analysis Error:", e);
             res.status(500).json({ error: 'Internal server error' });
         }
     });
 
+    // Drafts translations for an existing piece from its English title and description
+    router.post('/ai/translate-product', async (req, res) => {
+        try {
+            const { title, description } = req.body;
+            const locales = translationTargets(req.body.locales);
+            if (!title || locales.length === 0) return res.status(400).json({ error: 'A title and at least one language are required' });
+            const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY });
+            const config = await getAIConfig();
+
+            const response = await ai.models.generateContent({
+              model: config.models.analysis || 'gemini-flash-latest',
+              contents: { parts: [{ text: `Jewellery catalog entry.\nTitle: ${title}\nDescription: ${description || ''}\n${translationPrompt(locales)}` }] },
+              config: {
+                responseMimeType: "application/json",
+                responseSchema: { type: Type.OBJECT, properties: { translations: translationSchema(locales) }, required: ['translations'] }
+              }
+            });
+
+            const text = response.text;
+            if (!text) throw new Error("AI returned empty response");
+            res.json({ success: true, data: cleanTranslations(JSON.parse(text).translations, PRODUCT_TRANSLATABLE_FIELDS) });
+        } catch (e) {
+            console.error("Translation Error:", e);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+
     router.post('/ai/generate-design', async (req, res) => {
         try {
             const { prompt, aspectRatio, templateOverride } = req.body;
@@ -288,7 +335,7 @@ export default function aiRoutes(pool) {
             let rows = [];
             try {
                 const [dbRows] = await pool.query(
-                    'SELECT id, title, category, subCategory, description, tags, thumbnails FROM products WHERE isHidden = 0'
+                    `SELECT id, title, category, subCategory, description, tags, thumbnails FROM products WHERE isHidden = 0 AND deletedAt IS NULL${publishWindow()}`
                 );
                 rows = dbRows;
             } catch (dbErr) {
@@ -1,18 +1,23 @@
 import express from 'express';
 import crypto from 'crypto';
 import { requireStaff } from '../auth.js';
+import { getPricingConfig, calculatePrice, getProductPrice } from '../pricingService.js';
 
 export default function alertsRoutes(pool) {
     const router = express.Router();
 
     router.post('/api/price-drop-alerts', async (req, res) => {
         try {
-            const { customerId, productId, currentPrice } = req.body;
+            const { customerId, productId } = req.body;
             if (!customerId || !productId) return res.status(400).json({ error: 'Missing customerId or productId' });
+
+            const price = await getProductPrice(pool, productId);
+            if (!price) return res.status(404).json({ error: 'Product not found' });
+            const currentPrice = Math.round(price.total);
             
             await pool.query(
                 'INSERT INTO price_drop_alerts (id, customerId, productId, currentPrice, createdAt) VALUES (?, ?, ?, ?, NOW()) ON DUPLICATE KEY UPDATE currentPrice = ?, isActive = true', 
-                [crypto.randomUUID(), customerId, productId, currentPrice || 0, currentPrice || 0]
+                [crypto.randomUUID(), customerId, productId, currentPrice, currentPrice]
             );
             res.json({ success: true });
         } catch (e) { 
@@ -30,9 +35,11 @@ export default function alertsRoutes(pool) {
                 FROM price_drop_alerts a
                 JOIN products p ON a.productId = p.id
                 JOIN customers c ON a.customerId = c.id
+                WHERE p.deletedAt IS NULL
                 ORDER BY a.createdAt DESC
             `);
-            res.json(rows);
+            const pricing = await getPricingConfig(pool);
+            res.json(rows.map(r => ({ ...r, livePrice: Math.round(calculatePrice(r, pricing).total) })));
         } catch (e) { 
             console.error(e);
             res.status(500).json({ error: 'Internal server error' }); 
@@ -41,7 +48,7 @@ export default function alertsRoutes(pool) {
 
     router.post('/api/admin/price-drop-alerts/notify', requireStaff, async (req, res) => {
         try {
-            const { notifications } = req.body; // Array of { alertId, customerId, phone, productTitle, currentPrice }
+            const { notifications } = req.body; // Array of { alertId, customerId, phone, productTitle }
             
             const [configRows] = await pool.query('SELECT setting_key, setting_value FROM system_settings WHERE setting_key IN ("whatsappNumber", "whatsappToken", "whatsappPhoneId", "whatsappWishlistTemplateName")');
             const config = {};
@@ -54,13 +61,20 @@ export default function alertsRoutes(pool) {
                 // return res.status(400).json({ error: 'WhatsApp API is not configured in Settings' });
             }
             
+            const pricing = await getPricingConfig(pool);
+
             for (const notif of notifications) {
                 // Check 24 hours anti spam logic
-                const [a] = await pool.query('SELECT lastNotifiedAt FROM price_drop_alerts WHERE id = ?', [notif.alertId]);
-                if (a[0] && a[0].lastNotifiedAt) {
+                const [a] = await pool.query('SELECT productId, currentPrice, lastNotifiedAt FROM price_drop_alerts WHERE id = ?', [notif.alertId]);
+                if (!a[0]) continue;
+                if (a[0].lastNotifiedAt) {
                     const diffHours = (new Date() - new Date(a[0].lastNotifiedAt)) / (1000 * 60 * 60);
                     if (diffHours < 24) continue; // Skip if notified within last 24 hours
                 }
+
+                // Only notify on a real drop, measured against the server price
+                const price = await getProductPrice(pool, a[0].productId, pricing);
+                if (!price || price.total >= a[0].currentPrice) continue;
                 
                 try {
                     // Call Meta WhatsApp API if configured
@@ -35,7 +35,7 @@ router.get('/api/analytics/user/:userId', requireAdmin, async (req, res) => {
 
 router.get('/api/intelligence', requireAdmin, async (req, res) => {
     try {
-        const [p] = await pool.query('SELECT COUNT(*) as c FROM products');
+        const [p] = await pool.query('SELECT COUNT(*) as c FROM products WHERE deletedAt IS NULL');
         const [cust] = await pool.query('SELECT COUNT(*) as c FROM customers');
         const [inq] = await pool.query('SELECT COUNT(*) as c FROM analytics WHERE type="inquiry"');
         res.json({ summary: { totalInventory: p[0].c, totalLeads: cust[0].c, activeInquiries: inq[0].c } });
@@ -0,0 +1,179 @@
+import express from 'express';
+import multer from 'multer';
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import { readFileSync, unlink } from 'fs';
+import { requireAdmin } from '../auth.js';
+import { getPricingConfig } from '../pricingService.js';
+import { getSearchIndex, searchCatalog } from '../searchService.js';
+import { saveImageVariants, getImageWidths, getImageManifest, thumbnailOf } from '../mediaService.js';
+import { recordRevision, snapshotOf } from '../revisionService.js';
+import { readSheet, readImageArchive, planImport, writeCatalogSheet } from '../catalogImportService.js';
+
+const MAX_IMPORT_ROWS = 5000;
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+export default function catalogRoutes(pool, CACHE, sanitizeProduct, UPLOADS_ROOT) {
+    const router = express.Router();
+    // Sheets and image ZIPs are written to a temp folder rather than held in memory while they upload
+    const upload = multer({ dest: path.join(os.tmpdir(), 'catalog-import'), limits: { fileSize: MAX_UPLOAD_BYTES } });
+
+    // The thumbnail is looked up among the variants stored for the image, whatever the configured widths
+    const thumbnailFor = (url) => thumbnailOf(getImageManifest(url, UPLOADS_ROOT));
+
+    const loadCatalogConfig = async () => {
+        const [categories] = await pool.query('SELECT * FROM categories');
+        const [subCats] = await pool.query('SELECT * FROM sub_categories');
+        const [suppliers] = await pool.query('SELECT name FROM suppliers');
+        const pricing = await getPricingConfig(pool);
+        return {
+            categories: categories.map(c => ({ name: c.name, subCategories: subCats.filter(s => s.categoryId === c.id).map(s => s.name) })),
+            suppliers,
+            segments: pricing.makingChargeSegments || []
+        };
+    };
+
+    // Exports list legacy inline images as stream URLs; map them back to the stored image and thumbnail
+    const resolveImageUrl = async (url) => {
+        const match = url.match(/\/api\/media\/stream\/([^\/]+)\/image\/(\d+)\.webp/);
+        if (!match) return { image: url, thumbnail: thumbnailFor(url) };
+        const [rows] = await pool.query('SELECT images, thumbnails FROM products WHERE id = ?', [match[1]]);
+        if (rows.length === 0) return { image: url, thumbnail: url };
+        const images = typeof rows[0].images === 'string' ? JSON.parse(rows[0].images || '[]') : rows[0].images || [];
+        const thumbnails = typeof rows[0].thumbnails === 'string' ? JSON.parse(rows[0].thumbnails || '[]') : rows[0].thumbnails || [];
+        const index = parseInt(match[2]);
+        return { image: images[index] || url, thumbnail: thumbnails[index] || images[index] || url };
+    };
+
+    // Upload a CSV/XLSX sheet (field "file") and optionally a ZIP of images (field "images").
+    // dryRun (the default) only validates and returns the per-row plan; dryRun=false applies
+    // the valid rows in one transaction and skips rows with errors.
+    router.post('/api/admin/catalog/import', requireAdmin, upload.fields([{ name: 'file', maxCount: 1 }, { name: 'images', maxCount: 1 }]), async (req, res) => {
+        res.on('close', () => Object.values(req.files || {}).flat().forEach(f => unlink(f.path, () => {})));
+        const sheetFile = req.files?.file?.[0];
+        if (!sheetFile) return res.status(400).json({ error: 'Attach a CSV or XLSX file' });
+        const dryRun = req.body.dryRun !== 'false';
+
+        let rows, archive;
+        try {
+            rows = await readSheet(readFileSync(sheetFile.path), sheetFile.originalname);
+            archive = readImageArchive(req.files?.images?.[0]?.path);
+        } catch (e) {
+            return res.status(400).json({ error: `Could not read upload: ${e.message}` });
+        }
+        if (rows.length === 0) return res.status(400).json({ error: 'The sheet has no product rows' });
+        if (rows.length > MAX_IMPORT_ROWS) return res.status(400).json({ error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` });
+
+        let conn;
+        try {
+            const config = await loadCatalogConfig();
+            const ids = [...new Set(rows.map(r => r.data.id).filter(Boolean))];
+            const [existingRows] = ids.length ? await pool.query('SELECT * FROM products WHERE id IN (?)', [ids]) : [[]];
+            const rawRows = new Map(existingRows.map(row => [row.id, row]));
+            const existing = new Map(existingRows.map(row => [row.id, sanitizeProduct(row)]));
+
+            const plan = planImport(rows, { ...config, existing, archive });
+            const summary = { create: 0, update: 0, unchanged: 0, error: 0 };
+            plan.forEach(r => { summary[r.action]++; });
+            const report = plan.map(({ values, ...row }) => row);
+
+            if (dryRun) return res.json({ dryRun: true, summary, rows: report });
+
+            const [staff] = await pool.query('SELECT name FROM staff WHERE id = ?', [req.user?.id]);
+            const uploadedBy = staff[0]?.name || 'Import';
+            const today = new Date().toISOString().split('T')[0];
+
+            const imageWidths = await getImageWidths(pool);
+            conn = await pool.getConnection();
+            await conn.beginTransaction();
+            for (const entry of plan) {
+                if (entry.action !== 'create' && entry.action !== 'update') continue;
+                const { imageRefs, makingChargeSegmentId, tags, ...fields } = entry.values;
+
+                // Images are content-addressed, so files written before a rollback are simply reused next time
+                let media = null;
+                if (imageRefs && entry.changes.some(c => c.field === 'images')) {
+                    media = { images: [], thumbnails: [] };
+                    for (const ref of imageRefs) {
+                        const saved = ref.url
+                            ? await resolveImageUrl(ref.url).then(r => ({ primary: r.image, thumbnail: r.thumbnail }))
+                            : await saveImageVariants(archive.get(ref.file).read(), archive.get(ref.file).name, UPLOADS_ROOT, imageWidths);
+                        media.images.push(saved.primary);
+                        media.thumbnails.push(saved.thumbnail);
+                    }
+                }
+
+                if (entry.action === 'create') {
+                    const id = entry.id || crypto.randomUUID();
+                    const product = {
+                        id, title: fields.title, category: fields.category, subCategory: fields.subCategory || null, weight: fields.weight || 0,
+                        description: fields.description || '', tags: JSON.stringify(tags || []),
+                        images: JSON.stringify(media?.images || []), thumbnails: JSON.stringify(media?.thumbnails || []),
+                        supplier: fields.supplier || null, uploadedBy, isHidden: !!fields.isHidden, createdAt: new Date(), dateTaken: today,
+                        meta: JSON.stringify(makingChargeSegmentId ? { makingChargeSegmentId } : {})
+                    };
+                    await conn.query('INSERT INTO products SET ?', [product]);
+                    await recordRevision(conn, { productId: id, action: 'create', before: null, after: snapshotOf(product), userId: req.user?.id });
+                    entry.id = id;
+                } else {
+                    const current = existing.get(entry.id);
+                    const updates = { ...fields };
+                    if (tags) updates.tags = JSON.stringify(tags);
+                    if (media) {
+                        updates.images = JSON.stringify(media.images);
+                        updates.thumbnails = JSON.stringify(media.thumbnails);
+                    }
+                    if (makingChargeSegmentId) updates.meta = JSON.stringify({ ...current.meta, makingChargeSegmentId });
+                    await conn.query('UPDATE products SET ? WHERE id = ?', [updates, entry.id]);
+                    const [updated] = await conn.query('SELECT * FROM products WHERE id = ?', [entry.id]);
+                    await recordRevision(conn, { productId: entry.id, action: 'update', before: snapshotOf(rawRows.get(entry.id)), after: snapshotOf(updated[0]), userId: req.user?.id });
+                }
+            }
+            await conn.commit();
+
+            CACHE.curated.data = null;
+            CACHE.search.data = null;
+            CACHE.counts.data = null;
+            console.log(`[Catalog] Import by ${uploadedBy}: ${summary.create} created, ${summary.update} updated, ${summary.error} skipped`);
+            res.json({ dryRun: false, summary, rows: plan.map(({ values, ...row }) => row) });
+        } catch (e) {
+            if (conn) await conn.rollback();
+            console.error('[Catalog] Import failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        } finally {
+            conn?.release();
+        }
+    });
+
+    // The catalog as CSV/XLSX, narrowed with the same filters the gallery uses
+    router.get('/api/admin/catalog/export', requireAdmin, async (req, res) => {
+        try {
+            const format = req.query.format === 'csv' ? 'csv' : 'xlsx';
+            const { search, category, subCategory, supplier, makingSegment, weightBucket, priceBucket } = req.query;
+            const toNumber = (v) => (v === undefined || v === '' || isNaN(Number(v)) ? undefined : Number(v));
+            const ranges = { minWeight: toNumber(req.query.minWeight), maxWeight: toNumber(req.query.maxWeight), minPrice: toNumber(req.query.minPrice), maxPrice: toNumber(req.query.maxPrice) };
+
+            const [index, pricingConfig] = await Promise.all([getSearchIndex(pool, CACHE.search), getPricingConfig(pool)]);
+            const { ids } = searchCatalog(index, pricingConfig, {
+                search, category, subCategory, supplier, makingSegment, weightBucket, priceBucket, ...ranges,
+                isPublic: req.query.visibility === 'public'
+            });
+
+            const [rows] = ids.length ? await pool.query('SELECT * FROM products WHERE id IN (?)', [ids]) : [[]];
+            const byId = new Map(rows.map(row => [row.id, sanitizeProduct(row)]));
+            const products = ids.map(id => byId.get(id)).filter(Boolean);
+
+            const buffer = await writeCatalogSheet(products, pricingConfig.makingChargeSegments || [], format);
+            const filename = `catalog-${new Date().toISOString().split('T')[0]}.${format}`;
+            res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+            res.send(Buffer.from(buffer));
+        } catch (e) {
+            console.error('[Catalog] Export failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+
+    return router;
+}
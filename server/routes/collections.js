@@ -0,0 +1,174 @@
+import express from 'express';
+import crypto from 'crypto';
+import { requireStaff } from '../auth.js';
+import { publishWindow } from '../publishScheduleService.js';
+import { DEFAULT_LOCALE, negotiateLocale, localizeProduct } from '../i18nService.js';
+
+const PRODUCT_COLUMNS = 'p.id, p.title, p.category, p.subCategory, p.weight, p.thumbnails, p.isHidden, p.availability, p.createdAt, p.meta, p.translations';
+
+// A collection is live when it is public and today falls inside its optional schedule window
+const ACTIVE_CLAUSE = 'c.isPublic = 1 AND (c.startsAt IS NULL OR c.startsAt <= NOW()) AND (c.endsAt IS NULL OR c.endsAt >= NOW())';
+
+const slugify = (text) => String(text || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80) || 'collection';
+
+export default function collectionsRoutes(pool, sanitizeProduct) {
+    const router = express.Router();
+
+    const shouldHideSold = async () => {
+        const [rows] = await pool.query('SELECT setting_value FROM system_settings WHERE setting_key = "hideSoldInGallery"');
+        return rows[0]?.setting_value === 'true';
+    };
+
+    // Products of a collection in merchandiser order; customers never see hidden pieces
+    const getCollectionProducts = async (collectionId, { publicOnly, limit, locale = DEFAULT_LOCALE } = {}) => {
+        let query = `SELECT ${PRODUCT_COLUMNS} FROM collection_items ci JOIN products p ON p.id = ci.productId WHERE ci.collectionId = ? AND p.deletedAt IS NULL`;
+        if (publicOnly) {
+            query += ` AND p.isHidden = 0${publishWindow('p.')}`;
+            if (await shouldHideSold()) query += " AND (p.availability IS NULL OR p.availability != 'sold')";
+        }
+        query += ' ORDER BY ci.position ASC';
+        if (limit) query += ` LIMIT ${Number(limit)}`;
+        const [rows] = await pool.query(query, [collectionId]);
+        return rows.map(row => localizeProduct(sanitizeProduct(row), locale));
+    };
+
+    const withCover = (collection, products) => ({
+        ...collection,
+        isPublic: !!collection.isPublic,
+        coverImage: collection.coverImage || products[0]?.thumbnails?.[0] || null
+    });
+
+    const uniqueSlug = async (title, excludeId) => {
+        const base = slugify(title);
+        let slug = base;
+        for (let n = 2; ; n++) {
+            const [rows] = await pool.query('SELECT id FROM collections WHERE slug = ? AND id != ?', [slug, excludeId || '']);
+            if (rows.length === 0) return slug;
+            slug = `${base}-${n}`;
+        }
+    };
+
+    const saveItems = async (conn, collectionId, productIds) => {
+        await conn.query('DELETE FROM collection_items WHERE collectionId = ?', [collectionId]);
+        const ids = [...new Set(productIds.filter(Boolean))];
+        if (ids.length > 0) {
+            await conn.query('INSERT INTO collection_items (collectionId, productId, position) VALUES ?', [ids.map((productId, i) => [collectionId, productId, i])]);
+        }
+    };
+
+    const readCollectionBody = (body) => ({
+        title: String(body.title || '').trim(),
+        description: body.description || null,
+        coverImage: body.coverImage || null,
+        isPublic: body.isPublic ? 1 : 0,
+        startsAt: body.startsAt ? new Date(body.startsAt) : null,
+        endsAt: body.endsAt ? new Date(body.endsAt) : null,
+        position: Number(body.position) || 0
+    });
+
+    // Live collections for the landing page and gallery, each with a preview of its first pieces
+    router.get('/api/collections', async (req, res) => {
+        try {
+            const preview = Math.min(parseInt(req.query.preview) || 8, 24);
+            const locale = negotiateLocale(req, res);
+            const [rows] = await pool.query(`
+                SELECT c.*, (SELECT COUNT(*) FROM collection_items ci JOIN products p ON p.id = ci.productId WHERE ci.collectionId = c.id AND p.isHidden = 0 AND p.deletedAt IS NULL${publishWindow('p.')}) as productCount
+                FROM collections c WHERE ${ACTIVE_CLAUSE} ORDER BY c.position ASC, c.createdAt DESC
+            `);
+            const collections = [];
+            for (const row of rows) {
+                const products = await getCollectionProducts(row.id, { publicOnly: true, limit: preview, locale });
+                if (products.length > 0) collections.push({ ...withCover(row, products), products });
+            }
+            res.json(collections);
+        } catch (e) {
+            console.error('[Collections] List failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+
+    // A single collection by id or slug. Private or out-of-window collections open only with a
+    // valid shared link token (?token=), the same way shared product and category links work.
+    router.get('/api/collections/:key', async (req, res) => {
+        try {
+            const [rows] = await pool.query(`SELECT c.*, (${ACTIVE_CLAUSE}) as isActive FROM collections c WHERE c.id = ? OR c.slug = ?`, [req.params.key, req.params.key]);
+            const collection = rows[0];
+            if (!collection) return res.status(404).json({ error: 'Collection not found' });
+
+            if (!collection.isActive) {
+                const [links] = await pool.query('SELECT id FROM links WHERE token = ? AND type = "collection" AND targetId = ? AND expiresAt > NOW()', [req.query.token || '', collection.id]);
+                if (links.length === 0) return res.status(404).json({ error: 'Collection not found' });
+            }
+
+            const products = await getCollectionProducts(collection.id, { publicOnly: true, locale: negotiateLocale(req, res) });
+            res.json({ ...withCover(collection, products), isActive: !!collection.isActive, productCount: products.length, products });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    router.get('/api/admin/collections', requireStaff, async (req, res) => {
+        try {
+            const [rows] = await pool.query(`SELECT c.*, (${ACTIVE_CLAUSE}) as isActive FROM collections c ORDER BY c.position ASC, c.createdAt DESC`);
+            const collections = [];
+            for (const row of rows) {
+                const products = await getCollectionProducts(row.id);
+                collections.push({ ...withCover(row, products), isActive: !!row.isActive, productCount: products.length, productIds: products.map(p => p.id), products });
+            }
+            res.json(collections);
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    router.post('/api/admin/collections', requireStaff, async (req, res) => {
+        const conn = await pool.getConnection();
+        try {
+            const data = readCollectionBody(req.body);
+            if (!data.title) return res.status(400).json({ error: 'Title is required' });
+
+            const id = crypto.randomUUID();
+            const slug = await uniqueSlug(req.body.slug || data.title);
+            await conn.beginTransaction();
+            await conn.query('INSERT INTO collections SET ?, createdAt = NOW(), updatedAt = NOW()', [{ id, slug, ...data, createdBy: req.user?.id || null }]);
+            await saveItems(conn, id, req.body.productIds || []);
+            await conn.commit();
+            res.json({ success: true, id, slug });
+        } catch (e) {
+            await conn.rollback();
+            console.error('[Collections] Create failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        } finally {
+            conn.release();
+        }
+    });
+
+    router.put('/api/admin/collections/:id', requireStaff, async (req, res) => {
+        const conn = await pool.getConnection();
+        try {
+            const [existing] = await conn.query('SELECT id, slug FROM collections WHERE id = ?', [req.params.id]);
+            if (existing.length === 0) return res.status(404).json({ error: 'Collection not found' });
+            const data = readCollectionBody(req.body);
+            if (!data.title) return res.status(400).json({ error: 'Title is required' });
+
+            const slug = req.body.slug && req.body.slug !== existing[0].slug ? await uniqueSlug(req.body.slug, req.params.id) : existing[0].slug;
+            await conn.beginTransaction();
+            await conn.query('UPDATE collections SET ?, updatedAt = NOW() WHERE id = ?', [{ ...data, slug }, req.params.id]);
+            if (Array.isArray(req.body.productIds)) await saveItems(conn, req.params.id, req.body.productIds);
+            await conn.commit();
+            res.json({ success: true, slug });
+        } catch (e) {
+            await conn.rollback();
+            console.error('[Collections] Update failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        } finally {
+            conn.release();
+        }
+    });
+
+    router.delete('/api/admin/collections/:id', requireStaff, async (req, res) => {
+        try {
+            await pool.query('DELETE FROM collections WHERE id = ?', [req.params.id]);
+            await pool.query('DELETE FROM links WHERE type = "collection" AND targetId = ?', [req.params.id]);
+            res.json({ success: true });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    return router;
+}
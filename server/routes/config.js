@@ -1,15 +1,36 @@
 import express from 'express';
 import { requireAdmin } from '../auth.js';
+import { DEFAULT_PURITY_FINENESS } from '../pricingService.js';
+import { recordGoldRate, RATE_SOURCES } from '../goldRateService.js';
+import { DEFAULT_GOLD_RATE_PROVIDERS, DEFAULT_MAX_JUMP_PERCENT } from '../goldRateProviders.js';
+import { DEFAULT_QUOTE_VALIDITY_HOURS } from '../quoteService.js';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../revisionService.js';
+import { DEFAULT_SIZE_CHARTS, parseSizeCharts, cleanSizeCharts } from '../sizeService.js';
+import { DEFAULT_IMAGE_WIDTHS, parseImageWidths, cleanImageWidths } from '../mediaService.js';
+import { DEFAULT_VISIBLE_WATERMARK, parseVisibleWatermark, cleanVisibleWatermark } from '../watermarkService.js';
+import { negotiateLocale, localizeName, parseTranslations, cleanTranslations } from '../i18nService.js';
 
 export default function configRoutes(pool, CACHE) {
     const router = express.Router();
     const CACHE_TTL = 5 * 60 * 1000;
 
+    // Category names stay English (products store them that way); label and subCategoryLabels
+    // carry the display names for the request's locale
+    const localizeConfig = (config, locale) => ({
+        ...config,
+        categories: config.categories.map(c => ({
+            ...c,
+            label: localizeName(c.name, c.translations, locale),
+            subCategoryLabels: Object.fromEntries(c.subCategories.map(sub => [sub, localizeName(sub, c.subCategoryTranslations[sub], locale)]))
+        }))
+    });
+
     router.get('/api/config', async (req, res) => {
         try {
             const now = Date.now();
+            const locale = negotiateLocale(req, res);
             if (CACHE.config.data && (now - CACHE.config.lastFetch < CACHE_TTL)) {
-                return res.json(CACHE.config.data);
+                return res.json(localizeConfig(CACHE.config.data, locale));
             }
 
             // If you use DEMO_MODE, you'll need to pass it or check pool existence.
@@ -20,12 +41,17 @@ export default function configRoutes(pool, CACHE) {
             const [subCats] = await pool.query('SELECT * FROM sub_categories');
             const [settingsRows] = await pool.query('SELECT * FROM system_settings');
 
-            const catMap = categories.map(c => ({
-                id: c.id,
-                name: c.name,
-                isPrivate: !!c.isPrivate,
-                subCategories: subCats.filter(s => s.categoryId === c.id).map(s => s.name)
-            }));
+            const catMap = categories.map(c => {
+                const subs = subCats.filter(s => s.categoryId === c.id);
+                return {
+                    id: c.id,
+                    name: c.name,
+                    isPrivate: !!c.isPrivate,
+                    subCategories: subs.map(s => s.name),
+                    translations: parseTranslations(c.translations),
+                    subCategoryTranslations: Object.fromEntries(subs.map(s => [s.name, parseTranslations(s.translations)]))
+                };
+            });
 
             const config = {
                 suppliers: suppliers.map(s => ({ ...s, isPrivate: !!s.isPrivate })),
@@ -40,6 +66,15 @@ export default function configRoutes(pool, CACHE) {
                     { id: 'antique', name: 'Antique', percent: 13 }
                 ],
                 defaultMakingChargeSegmentId: 'premium',
+                purityFineness: DEFAULT_PURITY_FINENESS,
+                goldRateProviders: DEFAULT_GOLD_RATE_PROVIDERS,
+                goldRateMaxJumpPercent: DEFAULT_MAX_JUMP_PERCENT,
+                quoteValidityHours: DEFAULT_QUOTE_VALIDITY_HOURS,
+                trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+                sizeCharts: DEFAULT_SIZE_CHARTS,
+                imageWidths: DEFAULT_IMAGE_WIDTHS,
+                hideSoldInGallery: false,
+                visibleWatermark: DEFAULT_VISIBLE_WATERMARK,
                 whatsappNumber: '',
                 whatsappPhoneId: '',
                 whatsappToken: '',
@@ -48,6 +83,7 @@ export default function configRoutes(pool, CACHE) {
                 whatsappWabaId: '',
                 whatsappGoldRateTemplateName: 'gold_rate_alert_daily',
                 whatsappWelcomeTemplateName: 'welcome_subscriber',
+                whatsappInstallmentTemplateName: 'installment_due_reminder',
             };
 
             settingsRows.forEach(row => {
@@ -62,6 +98,19 @@ export default function configRoutes(pool, CACHE) {
                     try { config.makingChargeSegments = JSON.parse(row.setting_value); } catch { config.makingChargeSegments = []; }
                 }
                 else if (row.setting_key === 'defaultMakingChargeSegmentId') config.defaultMakingChargeSegmentId = row.setting_value;
+                else if (row.setting_key === 'purityFineness') {
+                    try { config.purityFineness = { ...DEFAULT_PURITY_FINENESS, ...JSON.parse(row.setting_value) }; } catch { config.purityFineness = DEFAULT_PURITY_FINENESS; }
+                }
+                else if (row.setting_key === 'goldRateProviders') {
+                    try { config.goldRateProviders = JSON.parse(row.setting_value); } catch { config.goldRateProviders = DEFAULT_GOLD_RATE_PROVIDERS; }
+                }
+                else if (row.setting_key === 'quoteValidityHours') config.quoteValidityHours = Number(row.setting_value) || DEFAULT_QUOTE_VALIDITY_HOURS;
+                else if (row.setting_key === 'trashRetentionDays') config.trashRetentionDays = Number(row.setting_value) || DEFAULT_TRASH_RETENTION_DAYS;
+                else if (row.setting_key === 'goldRateMaxJumpPercent') config.goldRateMaxJumpPercent = Number(row.setting_value) || DEFAULT_MAX_JUMP_PERCENT;
+                else if (row.setting_key === 'sizeCharts') config.sizeCharts = parseSizeCharts(row.setting_value);
+                else if (row.setting_key === 'imageWidths') config.imageWidths = parseImageWidths(row.setting_value);
+                else if (row.setting_key === 'hideSoldInGallery') config.hideSoldInGallery = row.setting_value === 'true';
+                else if (row.setting_key === 'visibleWatermark') config.visibleWatermark = parseVisibleWatermark(row.setting_value);
                 else config[row.setting_key] = row.setting_value;
             });
             
@@ -77,7 +126,7 @@ export default function configRoutes(pool, CACHE) {
             CACHE.config.data = config;
             CACHE.config.lastFetch = now;
             res.setHeader('Cache-Control', 'public, max-age=60, stale-while-revalidate=300');
-            res.json(config);
+            res.json(localizeConfig(config, locale));
         } catch (e) { 
             res.status(500).json({ error: 'Internal server error' }); 
         }
@@ -88,7 +137,7 @@ export default function configRoutes(pool, CACHE) {
         const conn = await pool.getConnection();
         try {
             await conn.beginTransaction();
-            const { suppliers, categories, makingChargeSegments, defaultMakingChargeSegmentId, linkExpiryHours, goldRate22k, goldRate24k, gstPercent, whatsappNumber, whatsappPhoneId, whatsappToken, whatsappTemplateName, whatsappWishlistTemplateName, whatsappWabaId, whatsappGoldRateTemplateName, whatsappWelcomeTemplateName, instagramHandle, instagramToken, aiConfig, paymentPlans } = req.body;
+            const { suppliers, categories, makingChargeSegments, defaultMakingChargeSegmentId, linkExpiryHours, goldRate22k, goldRate24k, gstPercent, whatsappNumber, whatsappPhoneId, whatsappToken, whatsappTemplateName, whatsappWishlistTemplateName, whatsappWabaId, whatsappGoldRateTemplateName, whatsappWelcomeTemplateName, whatsappInstallmentTemplateName, instagramHandle, instagramToken, aiConfig, paymentPlans, purityFineness, goldRateProviders, goldRateMaxJumpPercent, quoteValidityHours, trashRetentionDays, sizeCharts, imageWidths, hideSoldInGallery, visibleWatermark } = req.body;
 
             const settings = { 
                 linkExpiryHours, 
@@ -96,6 +145,15 @@ export default function configRoutes(pool, CACHE) {
                 goldRate22k,
                 goldRate24k,
                 paymentPlans: paymentPlans ? JSON.stringify(paymentPlans) : undefined,
+                purityFineness: purityFineness ? JSON.stringify(purityFineness) : undefined,
+                goldRateProviders: goldRateProviders ? JSON.stringify(goldRateProviders) : undefined,
+                goldRateMaxJumpPercent,
+                quoteValidityHours,
+                trashRetentionDays,
+                sizeCharts: Array.isArray(sizeCharts) ? JSON.stringify(cleanSizeCharts(sizeCharts)) : undefined,
+                imageWidths: cleanImageWidths(imageWidths).length ? JSON.stringify(cleanImageWidths(imageWidths)) : undefined,
+                hideSoldInGallery: hideSoldInGallery !== undefined ? String(!!hideSoldInGallery) : undefined,
+                visibleWatermark: visibleWatermark ? JSON.stringify(cleanVisibleWatermark(visibleWatermark)) : undefined,
                 makingChargeSegments: JSON.stringify(makingChargeSegments || []),
                 defaultMakingChargeSegmentId,
                 whatsappNumber, 
@@ -106,6 +164,7 @@ export default function configRoutes(pool, CACHE) {
                 whatsappWabaId,
                 whatsappGoldRateTemplateName,
                 whatsappWelcomeTemplateName,
+                whatsappInstallmentTemplateName,
                 instagramHandle,
                 instagramToken,
                 ai_model_analysis: aiConfig?.models?.analysis,
@@ -122,6 +181,16 @@ export default function configRoutes(pool, CACHE) {
                 ai_templates_design: JSON.stringify(aiConfig?.templates?.design || [])
             };
 
+            // Manual rate overrides go into the ledger alongside the background fetches
+            const [currentRates] = await conn.query('SELECT setting_key, setting_value FROM system_settings WHERE setting_key IN ("goldRate22k", "goldRate24k")');
+            const current = {};
+            currentRates.forEach(r => current[r.setting_key] = Number(r.setting_value));
+            const next22k = goldRate22k !== undefined ? Number(goldRate22k) : current.goldRate22k;
+            const next24k = goldRate24k !== undefined ? Number(goldRate24k) : current.goldRate24k;
+            if (next22k !== current.goldRate22k || next24k !== current.goldRate24k) {
+                await recordGoldRate(conn, { rate22k: next22k, rate24k: next24k, source: RATE_SOURCES.ADMIN, sourceDetail: 'settings', changedBy: req.user?.id });
+            }
+
             for (const [k, v] of Object.entries(settings)) {
                  if (v !== undefined) {
                      await conn.query('INSERT INTO system_settings (setting_key, setting_value) VALUES (?, ?) ON DUPLICATE KEY UPDATE setting_value = ?', [k, String(v || ''), String(v || '')]);
@@ -139,16 +208,17 @@ export default function configRoutes(pool, CACHE) {
             
             if (categories?.length) {
                 for (const c of categories) {
-                    await conn.query('INSERT INTO categories (id, name, isPrivate) VALUES (?, ?, ?)', [c.id, c.name, !!c.isPrivate]);
+                    await conn.query('INSERT INTO categories (id, name, isPrivate, translations) VALUES (?, ?, ?, ?)', [c.id, c.name, !!c.isPrivate, JSON.stringify(cleanTranslations(c.translations, ['name']))]);
                     if (c.subCategories?.length) {
-                        const subValues = c.subCategories.map(name => [c.id, name]);
-                        await conn.query('INSERT INTO sub_categories (categoryId, name) VALUES ?', [subValues]);
+                        const subValues = c.subCategories.map(name => [c.id, name, JSON.stringify(cleanTranslations(c.subCategoryTranslations?.[name], ['name']))]);
+                        await conn.query('INSERT INTO sub_categories (categoryId, name, translations) VALUES ?', [subValues]);
                     }
                 }
             }
 
             await conn.commit();
             CACHE.config.data = null; // Invalidate cache
+            CACHE.curated.data = null;
             res.json({ success: true });
         } catch (e) {
             await conn.rollback();
@@ -3,7 +3,8 @@ import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import rateLimit from 'express-rate-limit';
 import bcrypt from 'bcryptjs';
-import { requireAdmin } from '../auth.js';
+import { requireAdmin, requireCustomerOrStaff, signCustomerToken } from '../auth.js';
+import { getSizeCharts, cleanCustomerSizes, parseCustomerSizes } from '../sizeService.js';
 
 export default function customersRoutes(pool) {
     const router = express.Router();
@@ -40,12 +41,35 @@ router.post('/api/customers/login', authLimiter, async (req, res) => {
             await pool.query('UPDATE customers SET name = COALESCE(?, name), pincode = COALESCE(?, pincode) WHERE phone = ?', [name, pincode, phone]);
             user.name = name || user.name;
         }
+        user.sizes = parseCustomerSizes(user.sizes);
         // Identity unverified via OTP
         user.verified = false;
+        user.token = signCustomerToken(user);
         res.json({ user });
     } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
 });
 
+// Measured ring and bangle sizes, keyed by size chart id (e.g. { ring: '12', bangle: '2.6' }).
+// A customer reads and saves only their own; staff can reach anyone's.
+router.get('/api/customers/:id/sizes', requireCustomerOrStaff, async (req, res) => {
+    if (req.customer && req.params.id !== req.customer.id) return res.status(403).json({ error: 'Forbidden: Not your account' });
+    try {
+        const [rows] = await pool.query('SELECT sizes FROM customers WHERE id = ?', [req.params.id]);
+        if (rows.length === 0) return res.status(404).json({ error: 'Customer not found' });
+        res.json({ sizes: parseCustomerSizes(rows[0].sizes) });
+    } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+});
+
+router.put('/api/customers/:id/sizes', requireCustomerOrStaff, async (req, res) => {
+    if (req.customer && req.params.id !== req.customer.id) return res.status(403).json({ error: 'Forbidden: Not your account' });
+    try {
+        const sizes = cleanCustomerSizes(req.body.sizes, await getSizeCharts(pool));
+        const [result] = await pool.query('UPDATE customers SET sizes = ? WHERE id = ?', [JSON.stringify(sizes), req.params.id]);
+        if (result.affectedRows === 0) return res.status(404).json({ error: 'Customer not found' });
+        res.json({ success: true, sizes });
+    } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+});
+
 router.post('/api/login', authLimiter, async (req, res) => {
     try {
         const [rows] = await pool.query('SELECT id, username, password, role, name, isActive FROM staff WHERE username = ?', [req.body.username]);
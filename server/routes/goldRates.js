@@ -0,0 +1,32 @@
+import express from 'express';
+import { requireAdmin } from '../auth.js';
+import { getRateSeries } from '../goldRateService.js';
+
+export default function goldRatesRoutes(pool) {
+    const router = express.Router();
+
+    router.get('/api/admin/gold-rates/history', requireAdmin, async (req, res) => {
+        try {
+            const interval = req.query.interval === 'week' ? 'week' : 'day';
+            const days = Math.min(Math.max(parseInt(req.query.days) || 90, 1), 730);
+            const series = await getRateSeries(pool, interval, days);
+            res.json({ success: true, interval, days, data: series });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    router.get('/api/admin/gold-rates/ledger', requireAdmin, async (req, res) => {
+        try {
+            const limit = Math.min(parseInt(req.query.limit) || 50, 500);
+            const [rows] = await pool.query(`
+                SELECT h.id, h.rate22k, h.rate24k, h.source, h.sourceDetail, h.recordedAt, s.name as changedByName
+                FROM gold_rate_history h
+                LEFT JOIN staff s ON h.changedBy = s.id
+                ORDER BY h.recordedAt DESC
+                LIMIT ?
+            `, [limit]);
+            res.json({ success: true, data: rows });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    return router;
+}
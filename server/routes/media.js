@@ -1,9 +1,11 @@
 import express from 'express';
 import multer from 'multer';
 import path from 'path';
-import { existsSync, writeFileSync, unlinkSync } from 'fs';
-import crypto from 'crypto';
-import { requireStaff } from '../auth.js';
+import { existsSync, writeFileSync } from 'fs';
+import { requireStaff, isStaffRequest, getSessionCustomerId } from '../auth.js';
+import { saveImageVariants, getImageWidths, parseResizeOptions, getResizedImage, RESIZE_FORMATS } from '../mediaService.js';
+import { startVideoJob, getVideoJob } from '../videoService.js';
+import { getViewerMark, getGuestMark, signMark, verifyMarkToken, signStaffPass, verifyStaffPass, findUpload, getWatermarkedImage, getWatermarkedCopy, getVisibleOverlay } from '../watermarkService.js';
 
 export default function (pool, UPLOADS_ROOT) {
   const router = express.Router();
@@ -16,39 +18,15 @@ export default function (pool, UPLOADS_ROOT) {
     try {
       if (!req.files || req.files.length === 0) return res.status(400).json({ error: 'No files uploaded' });
       
+      const widths = await getImageWidths(pool);
       const results = [];
       for (const file of req.files) {
-        const contentHash = crypto.createHash('md5').update(file.buffer).digest('hex').substring(0, 12);
-        const safeName = file.originalname.replace(/[^a-zA-Z0-9.-]/g, '_');
-        
         if (file.mimetype.startsWith('video/')) {
-          // Fallback simple save for video
-          const fallbackFilename = `${contentHash}-${safeName}${path.extname(file.originalname) || '.mp4'}`;
-          const fallbackPath = path.join(UPLOADS_ROOT, '1080', fallbackFilename);
-          if (!existsSync(fallbackPath)) writeFileSync(fallbackPath, file.buffer);
-          results.push({
-              originalName: file.originalname,
-              primary: `/uploads/1080/${fallbackFilename}`,
-              thumbnail: `/uploads/1080/${fallbackFilename}`
-          });
+          // Transcoding runs in the background; the client polls /api/media/jobs/:id for the files
+          results.push({ originalName: file.originalname, jobId: startVideoJob(file.buffer, file.originalname, UPLOADS_ROOT, widths) });
         } else {
-          const processVariant = async (width, format, quality) => {
-            const filename = `${contentHash}-${safeName}-${width}w.${format}`;
-            const filepath = path.join(UPLOADS_ROOT, width.toString(), filename);
-            if (existsSync(filepath)) return `/uploads/${width}/${filename}`;
-            try {
-              const { default: sharp } = await import('sharp');
-              await sharp(file.buffer).rotate().resize(width, null, { withoutEnlargement: true }).sharpen({ sigma: 0.8, m1: 0.5, m2: 0.5 }).toFormat(format, { quality }).toFile(filepath);
-            } catch (e) {
-              writeFileSync(filepath, file.buffer);
-            }
-            return `/uploads/${width}/${filename}`;
-          };
-          const [desktopWebP, mobileThumb] = await Promise.all([
-              processVariant(1080, 'webp', 95),
-              processVariant(600, 'webp', 90)
-          ]);
-          results.push({ originalName: file.originalname, primary: desktopWebP, thumbnail: mobileThumb });
+          const { primary, thumbnail, manifest } = await saveImageVariants(file.buffer, file.originalname, UPLOADS_ROOT, widths);
+          results.push({ originalName: file.originalname, primary, thumbnail, manifest });
         }
       }
       res.json({ success: true, files: results });
@@ -57,6 +35,14 @@ export default function (pool, UPLOADS_ROOT) {
     }
   });
 
+  // Progress of a video upload: status is queued, processing, complete or error, and
+  // result holds the same fields as an image upload plus the video's details once complete
+  router.get('/api/media/jobs/:id', requireStaff, (req, res) => {
+    const job = getVideoJob(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+    res.json(job);
+  });
+
   router.post('/api/settings/logo', requireStaff, upload.single('logo'), async (req, res) => {
       try {
           if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
@@ -87,6 +73,8 @@ export default function (pool, UPLOADS_ROOT) {
           const arr = typeof col === 'string' ? JSON.parse(col) : col;
                     const imgStr = arr[parseInt(index)] || '';
           if (imgStr.includes('/api/media/stream')) return res.redirect('https://cdn-icons-png.flaticon.com/512/2611/2611152.png');
+          const upload = imgStr.match(/^\/uploads\/(\d+\/[^/?]+\.(?:webp|avif|jpe?g|png))$/i);
+          if (upload) return res.redirect(`/api/media/wm/${upload[1]}${req.query.m ? `?m=${encodeURIComponent(req.query.m)}` : ''}`);
           if (!imgStr.startsWith('data:')) return res.redirect(imgStr);
           const matches = imgStr.match(/^data:([a-zA-Z0-9+\/\-]+);base64,(.+)$/);
           if (!matches || matches.length !== 3) return res.status(400).send('Invalid image format');
@@ -96,6 +84,103 @@ export default function (pool, UPLOADS_ROOT) {
       } catch (e) { res.status(500).send('Internal Server Error'); }
   });
 
+  // The viewer's mark from an image URL's ?m= token; a missing or stale token is served as a guest
+  const markFor = async (token) => verifyMarkToken(token) || getGuestMark(pool);
+
+  // Uploads missing here (a fresh dev or staging box) are fetched from the live server, as /uploads
+  // does; the live server itself answers 404 rather than redirecting to itself
+  const LIVE_ORIGIN = 'https://studio.sanghavijewellers.com';
+  const notFoundOrLive = (req, res) => (req.hostname === new URL(LIVE_ORIGIN).hostname
+      ? res.status(404).json({ error: 'Image not found' })
+      : res.redirect(new URL(req.originalUrl, LIVE_ORIGIN).toString()));
+
+  // Any whitelisted size of a stored image, e.g. /api/media/img/3f2a9c01d4e5?w=300&h=300&fit=cover&format=avif.
+  // The hash is the content hash uploads are named by; rendered files are cached on disk for good.
+  // Like full images, renders carry the viewer's watermark unless ?m= is a staff pass.
+  router.get('/api/media/img/:hash', async (req, res) => {
+      try {
+          const { options, error } = parseResizeOptions(req.query);
+          if (error) return res.status(400).json({ error });
+
+          let image = await getResizedImage(req.params.hash, options, UPLOADS_ROOT);
+          if (!image) return notFoundOrLive(req, res);
+          const staff = verifyStaffPass(req.query.m);
+          if (!staff) {
+              const mark = await markFor(req.query.m);
+              const overlay = await getVisibleOverlay(pool, path.relative(UPLOADS_ROOT, image.source), mark);
+              // AVIF is too slow to encode per viewer
+              const format = options.format === 'avif' ? 'webp' : options.format;
+              const marked = await getWatermarkedCopy(image.file, `img/${image.key}`, mark, UPLOADS_ROOT, overlay, format);
+              image = { ...marked, contentType: RESIZE_FORMATS[format], overlay };
+          }
+
+          const etag = `"${image.key}"`;
+          res.setHeader('ETag', etag);
+          res.setHeader('Cache-Control', staff ? 'private, max-age=86400' : image.overlay ? 'private, max-age=3600' : 'private, max-age=2592000, immutable');
+          if (req.headers['if-none-match'] === etag) return res.status(304).end();
+          res.setHeader('Content-Type', image.contentType);
+          res.sendFile(image.file, { etag: false, lastModified: false, cacheControl: false });
+      } catch (e) {
+          console.error('[Media] Resize failed:', e.message);
+          res.status(500).json({ error: 'Internal server error' });
+      }
+  });
+
+  // The token image URLs carry for whoever is viewing: the signed-in customer's mark, a staff pass
+  // for staff, else the mark of the shared link being visited, else the shared guest mark.
+  // Customers are only taken from their session token, never from the request body.
+  router.post('/api/media/viewer-mark', async (req, res) => {
+      try {
+          const customerId = getSessionCustomerId(req);
+          if (customerId) {
+              const [customers] = await pool.query('SELECT id FROM customers WHERE id = ?', [customerId]);
+              if (customers.length) return res.json({ token: signMark(await getViewerMark(pool, 'customer', customerId)) });
+          }
+          if (await isStaffRequest(req)) return res.json({ token: signStaffPass() });
+          const { linkToken } = req.body || {};
+          if (linkToken) {
+              const [links] = await pool.query('SELECT token FROM links WHERE token = ? AND expiresAt > NOW()', [String(linkToken)]);
+              if (links.length) return res.json({ token: signMark(await getViewerMark(pool, 'link', links[0].token)) });
+          }
+          res.json({ token: signMark(await getGuestMark(pool)) });
+      } catch (e) {
+          console.error('[Media] Viewer mark failed:', e.message);
+          res.status(500).json({ error: 'Internal server error' });
+      }
+  });
+
+  // A stored upload with the viewer's invisible watermark, e.g. /api/media/wm/600/3f2a...-600w.webp?m=<token>,
+  // plus the visible one for shared links and private categories when it is turned on. This is
+  // the only way product photos leave the server; /uploads does not serve them.
+  router.get('/api/media/wm/:width/:file', async (req, res) => {
+      try {
+          const relativePath = `${req.params.width}/${req.params.file}`;
+          if (verifyStaffPass(req.query.m)) {
+              const source = findUpload(relativePath, UPLOADS_ROOT);
+              if (!source) return notFoundOrLive(req, res);
+              res.setHeader('Cache-Control', 'private, max-age=86400');
+              return res.sendFile(source);
+          }
+
+          const mark = await markFor(req.query.m);
+          const overlay = await getVisibleOverlay(pool, relativePath, mark);
+          const image = await getWatermarkedImage(relativePath, mark, UPLOADS_ROOT, overlay);
+          if (!image) return notFoundOrLive(req, res);
+
+          const etag = `"${image.key}"`;
+          res.setHeader('ETag', etag);
+          // Private: the file is marked for this one viewer. The visible overlay carries the date,
+          // so those copies are revalidated hourly instead of kept for good.
+          res.setHeader('Cache-Control', overlay ? 'private, max-age=3600' : 'private, max-age=2592000, immutable');
+          if (req.headers['if-none-match'] === etag) return res.status(304).end();
+          res.setHeader('Content-Type', 'image/webp');
+          res.sendFile(image.file, { etag: false, lastModified: false, cacheControl: false });
+      } catch (e) {
+          console.error('[Media] Watermark failed:', e.message);
+          res.status(500).json({ error: 'Internal server error' });
+      }
+  });
+
   router.post('/api/media/deterministic-enhance', requireStaff, async (req, res) => {
       try {
           const { base64Image } = req.body;
@@ -0,0 +1,237 @@
+import express from 'express';
+import crypto from 'crypto';
+import cron from 'node-cron';
+import { requireStaff } from '../auth.js';
+import { getPricingConfig, calculatePrice } from '../pricingService.js';
+
+const DEFAULT_RESERVATION_HOURS = 48;
+
+const formatOrderNumber = (date = new Date()) =>
+    `SJ-O-${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+
+// Sets the availability of an order's pieces once the order and its stock units have changed.
+// Pieces with tagged stock units follow their units: sold once none is left unsold, reserved while
+// open reservations hold every unsold unit, else available. Pieces without units take `fallback`.
+const syncAvailability = async (conn, orderId, fallback) => {
+    const [products] = await conn.query(
+        `SELECT DISTINCT oi.productId,
+            (SELECT COUNT(*) FROM stock_units su WHERE su.productId = oi.productId) AS units,
+            (SELECT COUNT(*) FROM stock_units su WHERE su.productId = oi.productId AND su.status != "sold") AS unsold,
+            (SELECT COUNT(*) FROM order_items ri JOIN orders o ON o.id = ri.orderId WHERE ri.productId = oi.productId AND o.status = "reserved") AS held
+         FROM order_items oi WHERE oi.orderId = ?`,
+        [orderId]
+    );
+    for (const p of products) {
+        const unsold = Number(p.unsold);
+        const availability = Number(p.units) === 0 ? fallback : unsold === 0 ? 'sold' : Number(p.held) >= unsold ? 'reserved' : 'available';
+        await conn.query('UPDATE products SET availability = ? WHERE id = ?', [availability, p.productId]);
+    }
+};
+
+// Selling takes one tagged stock unit of each piece off the shelf; the unit is remembered on the
+// order line so a cancelled sale puts the same unit back. Pieces without stock units are skipped.
+const sellUnits = async (conn, orderId) => {
+    const [items] = await conn.query('SELECT id, productId FROM order_items WHERE orderId = ?', [orderId]);
+    for (const item of items) {
+        const [units] = await conn.query('SELECT id FROM stock_units WHERE productId = ? AND status != "sold" ORDER BY status = "in_stock" DESC, id LIMIT 1 FOR UPDATE', [item.productId]);
+        if (units.length === 0) continue;
+        await conn.query('UPDATE stock_units SET status = "sold", updatedAt = NOW() WHERE id = ?', [units[0].id]);
+        await conn.query('UPDATE order_items SET unitId = ? WHERE id = ?', [units[0].id, item.id]);
+    }
+};
+
+const returnUnits = async (conn, orderId) => {
+    await conn.query('UPDATE stock_units SET status = "in_stock", updatedAt = NOW() WHERE id IN (SELECT unitId FROM order_items WHERE orderId = ? AND unitId IS NOT NULL)', [orderId]);
+    await conn.query('UPDATE order_items SET unitId = NULL WHERE orderId = ?', [orderId]);
+};
+
+// Releases reservations whose hold has lapsed so the pieces show as available again
+export const expireReservations = async (pool) => {
+    const [expired] = await pool.query('SELECT id FROM orders WHERE status = "reserved" AND reservedUntil < NOW()');
+    let count = 0;
+    for (const order of expired) {
+        // Re-checked in the update so an order sold in the meantime is left alone
+        const [result] = await pool.query('UPDATE orders SET status = "expired" WHERE id = ? AND status = "reserved"', [order.id]);
+        if (result.affectedRows === 0) continue;
+        await syncAvailability(pool, order.id, 'available');
+        count++;
+    }
+    return count;
+};
+
+export const initOrderScheduler = (pool, CACHE) => {
+    cron.schedule('*/15 * * * *', async () => {
+        try {
+            const count = await expireReservations(pool);
+            if (count > 0) {
+                CACHE.curated.data = null;
+                CACHE.search.data = null;
+                CACHE.counts.data = null;
+                console.log(`[Orders] Released ${count} expired reservation(s)`);
+            }
+        } catch (e) {
+            console.error('[Orders] Reservation expiry failed:', e.message);
+        }
+    });
+};
+
+export default function ordersRoutes(pool, CACHE) {
+    const router = express.Router();
+
+    const loadOrders = async (where, params) => {
+        const [orders] = await pool.query(`SELECT * FROM orders ${where} ORDER BY createdAt DESC LIMIT 200`, params);
+        if (orders.length === 0) return [];
+        const [items] = await pool.query('SELECT * FROM order_items WHERE orderId IN (?)', [orders.map(o => o.id)]);
+        return orders.map(o => ({
+            ...o,
+            items: items.filter(i => i.orderId === o.id).map(i => ({ ...i, pricing: typeof i.pricing === 'string' ? JSON.parse(i.pricing) : i.pricing }))
+        }));
+    };
+
+    router.get('/api/orders', requireStaff, async (req, res) => {
+        try {
+            const clauses = [];
+            const params = [];
+            if (req.query.status) { clauses.push('status = ?'); params.push(req.query.status); }
+            if (req.query.productId) { clauses.push('id IN (SELECT orderId FROM order_items WHERE productId = ?)'); params.push(req.query.productId); }
+            if (req.query.customerId) { clauses.push('customerId = ?'); params.push(req.query.customerId); }
+            res.json(await loadOrders(clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params));
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    router.get('/api/orders/:id', requireStaff, async (req, res) => {
+        try {
+            const [order] = await loadOrders('WHERE id = ?', [req.params.id]);
+            order ? res.json(order) : res.status(404).json({ error: 'Order not found' });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    // Reserve one or more pieces for a customer. Price, gold rate and GST are locked here.
+    router.post('/api/orders', requireStaff, async (req, res) => {
+        const { productIds, customerId, customerName, customerPhone, advanceAmount, reserveHours, purity, size, notes } = req.body;
+        if (!Array.isArray(productIds) || productIds.length === 0) return res.status(400).json({ error: 'No products selected' });
+
+        const conn = await pool.getConnection();
+        try {
+            await conn.beginTransaction();
+            const [products] = await conn.query('SELECT id, title, category, weight, meta, availability FROM products WHERE id IN (?) AND deletedAt IS NULL FOR UPDATE', [productIds]);
+            if (products.length !== productIds.length) {
+                await conn.rollback();
+                return res.status(404).json({ error: 'Product not found' });
+            }
+            const unavailable = products.filter(p => p.availability && p.availability !== 'available');
+            if (unavailable.length > 0) {
+                await conn.rollback();
+                return res.status(409).json({ error: `Already ${unavailable[0].availability}: ${unavailable[0].title}` });
+            }
+
+            const pricingConfig = await getPricingConfig(conn);
+            const lines = products.map(p => ({ product: p, pricing: calculatePrice(p, pricingConfig, purity) }));
+            const totalAmount = Math.round(lines.reduce((sum, l) => sum + l.pricing.total, 0));
+            // The size the customer asked for: one value for the whole order or a map keyed by product id
+            const lineSize = (product) => String((size && typeof size === 'object' ? size[product.id] : size) || '').trim().slice(0, 50) || null;
+
+            const id = crypto.randomUUID();
+            const createdAt = new Date();
+            const reservedUntil = new Date(createdAt.getTime() + (Number(reserveHours) || DEFAULT_RESERVATION_HOURS) * 60 * 60 * 1000);
+            const orderNumber = formatOrderNumber(createdAt);
+
+            await conn.query(
+                `INSERT INTO orders (id, orderNumber, customerId, customerName, customerPhone, status, advanceAmount, totalAmount, goldRate22k, goldRate24k, gstPercent, reservedUntil, notes, createdBy, createdAt)
+                 VALUES (?, ?, ?, ?, ?, 'reserved', ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [id, orderNumber, customerId || null, customerName || null, customerPhone || null, Number(advanceAmount) || 0, totalAmount,
+                 pricingConfig.goldRate22k, pricingConfig.goldRate24k, pricingConfig.gstPercent, reservedUntil, notes || null, req.user?.id || null, createdAt]
+            );
+            for (const { product, pricing } of lines) {
+                await conn.query(
+                    'INSERT INTO order_items (orderId, productId, productTitle, purity, size, goldRate, weight, pricing, lockedPrice) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+                    [id, product.id, product.title, pricing.purity, lineSize(product), pricing.goldRate, product.weight, JSON.stringify(pricing), Math.round(pricing.total)]
+                );
+            }
+            await syncAvailability(conn, id, 'reserved');
+            await conn.commit();
+            CACHE.curated.data = null;
+            CACHE.search.data = null;
+            CACHE.counts.data = null;
+
+            const [order] = await loadOrders('WHERE id = ?', [id]);
+            res.json({ success: true, order });
+        } catch (e) {
+            await conn.rollback();
+            console.error('[Orders] Reserve failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        } finally {
+            conn.release();
+        }
+    });
+
+    // Sell and cancel lock the order row like reserve does, so two clicks can't both go through
+    // and the order, its pieces and their stock units always change together
+    router.post('/api/orders/:id/sell', requireStaff, async (req, res) => {
+        const conn = await pool.getConnection();
+        try {
+            await conn.beginTransaction();
+            const [rows] = await conn.query('SELECT status, reservedUntil FROM orders WHERE id = ? FOR UPDATE', [req.params.id]);
+            if (rows.length === 0) {
+                await conn.rollback();
+                return res.status(404).json({ error: 'Order not found' });
+            }
+            if (rows[0].status !== 'reserved') {
+                await conn.rollback();
+                return res.status(409).json({ error: `Cannot sell an order that is ${rows[0].status}` });
+            }
+            if (rows[0].reservedUntil && new Date(rows[0].reservedUntil).getTime() < Date.now()) {
+                await conn.rollback();
+                return res.status(409).json({ error: 'The reservation has expired; reserve the pieces again to sell them' });
+            }
+
+            await conn.query('UPDATE orders SET status = "sold", soldAt = NOW() WHERE id = ?', [req.params.id]);
+            await sellUnits(conn, req.params.id);
+            await syncAvailability(conn, req.params.id, 'sold');
+            await conn.commit();
+            CACHE.curated.data = null;
+            CACHE.search.data = null;
+            CACHE.counts.data = null;
+            res.json({ success: true });
+        } catch (e) {
+            await conn.rollback();
+            console.error('[Orders] Sell failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        } finally {
+            conn.release();
+        }
+    });
+
+    router.post('/api/orders/:id/cancel', requireStaff, async (req, res) => {
+        const conn = await pool.getConnection();
+        try {
+            await conn.beginTransaction();
+            const [rows] = await conn.query('SELECT status FROM orders WHERE id = ? FOR UPDATE', [req.params.id]);
+            if (rows.length === 0) {
+                await conn.rollback();
+                return res.status(404).json({ error: 'Order not found' });
+            }
+            if (!['reserved', 'sold'].includes(rows[0].status)) {
+                await conn.rollback();
+                return res.status(409).json({ error: `Order is already ${rows[0].status}` });
+            }
+
+            await conn.query('UPDATE orders SET status = "cancelled", cancelledAt = NOW() WHERE id = ?', [req.params.id]);
+            await returnUnits(conn, req.params.id);
+            await syncAvailability(conn, req.params.id, 'available');
+            await conn.commit();
+            CACHE.curated.data = null;
+            CACHE.search.data = null;
+            CACHE.counts.data = null;
+            res.json({ success: true });
+        } catch (e) {
+            await conn.rollback();
+            console.error('[Orders] Cancel failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        } finally {
+            conn.release();
+        }
+    });
+
+    return router;
+}
@@ -3,16 +3,54 @@ import { existsSync, readFileSync } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { requireStaff } from '../auth.js';
+import { getProductPrice, getPricingConfig } from '../pricingService.js';
+import { getSearchIndex, getPopularityScores, searchCatalog } from '../searchService.js';
+import { recordRevision, snapshotOf, standalonePiece } from '../revisionService.js';
+import { publishWindow } from '../publishScheduleService.js';
+import { DEFAULT_LOCALE, PRODUCT_TRANSLATABLE_FIELDS, negotiateLocale, localizeProduct, cleanTranslations } from '../i18nService.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const DATA_ROOT = path.resolve(__dirname, '..', '..', 'data');
 const DEMO_MODE = false;
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+// Callers that don't page still get the whole catalog, as before cursors existed
+const DEFAULT_PAGE_SIZE = 1000;
+const MAX_PAGE_SIZE = 2000;
+
+// Gallery cards price pieces client-side, so the summary keeps only the meta fields the price needs,
+// plus video details for the card's preview loop
+const SUMMARY_META_KEYS = ['purity', 'availablePurities', 'netWeight', 'stones', 'makingChargePercent', 'makingChargeSegmentId', 'otherCharges', 'videos'];
+
+const toDateOrNull = (value) => (value ? new Date(value) : null);
+
+// Opaque paging cursors. Newest-first listings page by (createdAt, id) so uploads arriving
+// mid-scroll don't repeat or skip items; ranked and sorted search results page by position.
+const encodeCursor = (data) => Buffer.from(JSON.stringify(data)).toString('base64url');
+// Returns { cursor } (null without one) or { error } for a cursor that was not issued by us
+const decodeCursor = (value) => {
+    if (!value) return { cursor: null };
+    let data;
+    try {
+        data = JSON.parse(Buffer.from(String(value), 'base64url').toString('utf8'));
+    } catch { return { error: 'Invalid cursor' }; }
+    if (data && Number.isInteger(data.o) && data.o >= 0) return { cursor: { o: data.o } };
+    const validDate = (typeof data?.c === 'string' || typeof data?.c === 'number') && !Number.isNaN(new Date(data.c).getTime());
+    const validId = (typeof data?.i === 'string' && data.i.length <= 255) || Number.isInteger(data?.i);
+    if (validDate && validId) return { cursor: { c: data.c, i: data.i } };
+    return { error: 'Invalid cursor' };
+};
 
 export default function productsRoutes(pool, CACHE, sanitizeProduct) {
     const router = express.Router();
 
+    // Sold pieces stay visible with a badge unless the store opts to hide them from public listings
+    const shouldHideSold = async () => {
+        const [rows] = await pool.query('SELECT setting_value FROM system_settings WHERE setting_key = "hideSoldInGallery"');
+        return rows[0]?.setting_value === 'true';
+    };
+    const notSold = (col = 'availability') => ` AND (${col} IS NULL OR ${col} != 'sold')`;
+
 router.get('/api/products', async (req, res) => {
   try {
     if (DEMO_MODE) {
@@ -40,54 +78,130 @@ router.get('/api/products', async (req, res) => {
     }
 
     const page = parseInt(req.query.page) || 1;
-    const limit = parseInt(req.query.limit) || 1000;
+    const limit = Math.min(parseInt(req.query.limit) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
     const offset = (page - 1) * limit;
+    const { cursor, error: cursorError } = decodeCursor(req.query.cursor);
+    if (cursorError) return res.status(400).json({ error: cursorError });
     const isPublic = req.query.public === 'true';
     const category = req.query.category;
     const subCategory = req.query.subCategory;
     const search = req.query.search;
     const summary = req.query.summary === 'true';
+    const locale = negotiateLocale(req, res);
+    const { supplier, makingSegment, weightBucket, priceBucket, sort, order } = req.query;
+    const withFacets = req.query.facets === 'true';
+    const toNumber = (v) => (v === undefined || v === '' || isNaN(Number(v)) ? undefined : Number(v));
+    const ranges = { minWeight: toNumber(req.query.minWeight), maxWeight: toNumber(req.query.maxWeight), minPrice: toNumber(req.query.minPrice), maxPrice: toNumber(req.query.maxPrice) };
+    const hasRange = Object.values(ranges).some(v => v !== undefined);
+    // Cards show only the first thumbnail; the visual search index asks for all of them
+    const allThumbnails = req.query.thumbnails === 'all';
+    const thumbnailColumn = allThumbnails ? 'thumbnails' : "IF(JSON_LENGTH(thumbnails) > 0, JSON_ARRAY(JSON_EXTRACT(thumbnails, '$[0]')), JSON_ARRAY()) as thumbnails";
+    // Summaries carry translations only when a translated title is needed, and drop them after use
+    const columns = summary ? `id, title, category, subCategory, weight, ${thumbnailColumn}, isHidden, publishAt, unpublishAt, parentId, variantLabel, size, availability, createdAt, meta${locale !== DEFAULT_LOCALE ? ', translations' : ''}` : '*';
+    const toListItem = (row) => {
+        const product = localizeProduct(sanitizeProduct(row), locale);
+        if (!summary) return product;
+        const meta = {};
+        SUMMARY_META_KEYS.forEach(key => { if (product.meta[key] !== undefined) meta[key] = product.meta[key]; });
+        const { translations, media, ...item } = product;
+        // The visual search index reads raw thumbnails and has no use for display variants
+        return allThumbnails ? { ...item, meta } : { ...item, media, meta };
+    };
+
+    // Text search, facet and range filters and non-default sorts are answered by the in-memory
+    // search index, since price depends on the live gold rate rather than a stored column
+    if (search || supplier || makingSegment || weightBucket || priceBucket || hasRange || withFacets || (sort && (sort !== 'newest' || order === 'asc'))) {
+        const [index, pricingConfig, popularity] = await Promise.all([
+            getSearchIndex(pool, CACHE.search),
+            getPricingConfig(pool),
+            sort === 'popularity' ? getPopularityScores(pool) : null
+        ]);
+        const result = searchCatalog(index, pricingConfig, {
+            search, category, subCategory, supplier, makingSegment, weightBucket, priceBucket, ...ranges,
+            isPublic, hideSold: isPublic && await shouldHideSold()
+        }, { withFacets, sort, order, popularity });
+
+        const isNewestOrder = !search && (!sort || sort === 'newest') && order !== 'asc';
+        let start = offset;
+        if (cursor?.o !== undefined) {
+            start = cursor.o;
+        } else if (cursor?.c !== undefined) {
+            start = result.ids.findIndex(id => {
+                const doc = index.docs.get(id);
+                return doc.createdAt < cursor.c || (doc.createdAt === cursor.c && doc.id < cursor.i);
+            });
+            if (start === -1) start = result.ids.length;
+        }
+
+        const pageIds = result.ids.slice(start, start + limit);
+        let rows = [];
+        if (pageIds.length > 0) {
+            [rows] = await pool.query(`SELECT ${columns} FROM products WHERE id IN (?)`, [pageIds]);
+            const position = new Map(pageIds.map((id, i) => [id, i]));
+            rows.sort((a, b) => position.get(a.id) - position.get(b.id));
+        }
 
-    let query = summary 
-        ? 'SELECT id, title, category, subCategory, weight, thumbnails, isHidden, createdAt, meta FROM products WHERE 1=1'
-        : 'SELECT * FROM products WHERE 1=1';
+        const hasMore = start + limit < result.ids.length;
+        const lastDoc = index.docs.get(pageIds[pageIds.length - 1]);
+        const nextCursor = hasMore ? encodeCursor(isNewestOrder ? { c: lastDoc.createdAt, i: lastDoc.id } : { o: start + limit }) : null;
+        return res.json({
+            items: rows.map(toListItem),
+            meta: { page, limit, totalPages: Math.ceil(result.total / limit), totalItems: result.total, hasMore, nextCursor, ...(withFacets && { facets: result.facets }) }
+        });
+    }
+
+    let where = 'WHERE deletedAt IS NULL';
     const params = [];
 
     if (isPublic) {
-        query += ' AND isHidden = 0';
+        where += ` AND isHidden = 0${standalonePiece()}${publishWindow()}`;
+        if (await shouldHideSold()) where += notSold();
     }
     
     if (category && category !== 'All') {
-        query += ' AND category = ?';
+        where += ' AND category = ?';
         params.push(category);
     }
 
     if (subCategory) {
-        query += ' AND subCategory = ?';
+        where += ' AND subCategory = ?';
         params.push(subCategory);
     }
 
-    if (search) {
-        query += ' AND (title LIKE ? OR tags LIKE ?)';
-        const likeSearch = `%${search}%`;
-        params.push(likeSearch, likeSearch);
+    // Totals only change with the catalog, so they are cached per filter combination
+    if (!CACHE.counts.data || Date.now() - CACHE.counts.lastFetch > CACHE_TTL) {
+        CACHE.counts.data = new Map();
+        CACHE.counts.lastFetch = Date.now();
+    }
+    const countKey = JSON.stringify([where, params]);
+    let total = CACHE.counts.data.get(countKey);
+    if (total === undefined) {
+        const [count] = await pool.query(`SELECT COUNT(*) as total FROM products ${where}`, params);
+        total = count[0].total;
+        CACHE.counts.data.set(countKey, total);
     }
 
-    // Clone query for count BEFORE adding limit/offset
-    const countQuery = query.replace(/^SELECT .* FROM products/, 'SELECT COUNT(*) as total FROM products');
-    
-    query += ' ORDER BY createdAt DESC LIMIT ? OFFSET ?';
-    params.push(limit, offset);
-    
-    const [rows] = await pool.query(query, params);
-    
-    // Count parameter handling: params for count query don't include limit/offset
-    const countParams = params.slice(0, params.length - 2); 
-    const [count] = await pool.query(countQuery, countParams);
+    // Keyset paging when a cursor is given; page/offset remains for older callers
+    let pageWhere = where;
+    const pageParams = [...params];
+    if (cursor?.c !== undefined) {
+        const after = new Date(cursor.c);
+        pageWhere += ' AND (createdAt < ? OR (createdAt = ? AND id < ?))';
+        pageParams.push(after, after, String(cursor.i));
+    }
+    pageParams.push(limit + 1, cursor?.o !== undefined ? cursor.o : cursor ? 0 : offset);
+
+    const [rows] = await pool.query(`SELECT ${columns} FROM products ${pageWhere} ORDER BY createdAt DESC, id DESC LIMIT ? OFFSET ?`, pageParams);
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
     
     res.json({ 
-        items: rows.map(sanitizeProduct), 
-        meta: { page, limit, totalPages: Math.ceil(count[0].total / limit), totalItems: count[0].total } 
+        items: items.map(toListItem), 
+        meta: {
+            page, limit, totalPages: Math.ceil(total / limit), totalItems: total, hasMore,
+            nextCursor: hasMore ? encodeCursor({ c: new Date(last.createdAt).getTime(), i: last.id }) : null
+        }
     });
   } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
 });
@@ -95,8 +209,11 @@ router.get('/api/products', async (req, res) => {
 router.get('/api/products/curated', async (req, res) => {
     try {
         const now = Date.now();
+        // The cache holds the English rows; each response is localized on the way out
+        const locale = negotiateLocale(req, res);
+        const localized = (curated) => Object.fromEntries(Object.entries(curated).map(([key, items]) => [key, items.map(p => localizeProduct(p, locale))]));
         if (CACHE.curated.data && (now - CACHE.curated.lastFetch < CACHE_TTL)) {
-            return res.json(CACHE.curated.data);
+            return res.json(localized(CACHE.curated.data));
         }
 
         if (DEMO_MODE) {
@@ -115,15 +232,17 @@ router.get('/api/products/curated', async (req, res) => {
             }
         }
         
+        const hideSold = await shouldHideSold();
+
         // 1. Latest Arrivals
-        const [latestRows] = await pool.query('SELECT * FROM products WHERE isHidden = 0 ORDER BY createdAt DESC LIMIT 8');
+        const [latestRows] = await pool.query(`SELECT * FROM products WHERE isHidden = 0 AND deletedAt IS NULL${standalonePiece()}${publishWindow()}${hideSold ? notSold() : ''} ORDER BY createdAt DESC LIMIT 8`);
         
         // 2. Loved (Most Liked)
         const [lovedRows] = await pool.query(`
             SELECT p.*, 
             (SELECT COUNT(*) FROM analytics a WHERE a.productId = p.id AND a.type = 'like') as likeCount 
             FROM products p 
-            WHERE p.isHidden = 0 
+            WHERE p.isHidden = 0 AND p.deletedAt IS NULL${standalonePiece('p.')}${publishWindow('p.')}${hideSold ? notSold('p.availability') : ''} 
             ORDER BY likeCount DESC, p.createdAt DESC 
             LIMIT 8
         `);
@@ -141,7 +260,7 @@ router.get('/api/products/curated', async (req, res) => {
                 END
             ), 0) FROM analytics a WHERE a.productId = p.id AND a.timestamp > DATE_SUB(NOW(), INTERVAL 30 DAY)) as activityScore 
             FROM products p 
-            WHERE p.isHidden = 0 
+            WHERE p.isHidden = 0 AND p.deletedAt IS NULL${standalonePiece('p.')}${publishWindow('p.')}${hideSold ? notSold('p.availability') : ''} 
             ORDER BY activityScore DESC, p.createdAt DESC 
             LIMIT 8
         `);
@@ -149,7 +268,7 @@ router.get('/api/products/curated', async (req, res) => {
         // 4. Ideal (Random selection to keep it fresh for the user, or fallback to oldest/classic pieces)
         const [idealRows] = await pool.query(`
             SELECT * FROM products 
-            WHERE isHidden = 0 
+            WHERE isHidden = 0 AND deletedAt IS NULL${standalonePiece()}${publishWindow()}${hideSold ? notSold() : ''} 
             ORDER BY createdAt ASC 
             LIMIT 20
         `);
@@ -166,14 +285,22 @@ router.get('/api/products/curated', async (req, res) => {
         CACHE.curated.data = curated;
         CACHE.curated.lastFetch = now;
         res.setHeader('Cache-Control', 'public, max-age=60, stale-while-revalidate=300');
-        res.json(curated);
+        res.json(localized(curated));
     } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
 });
 
 router.get('/api/products/:id', async (req, res) => {
     try {
-        const [rows] = await pool.query('SELECT * FROM products WHERE id = ?', [req.params.id]);
-        rows[0] ? res.json(sanitizeProduct(rows[0])) : res.status(404).json({ error: 'Not found' });
+        const locale = negotiateLocale(req, res);
+        const [rows] = await pool.query('SELECT * FROM products WHERE id = ? AND deletedAt IS NULL', [req.params.id]);
+        if (rows.length === 0) return res.status(404).json({ error: 'Not found' });
+        const product = sanitizeProduct(rows[0]);
+        // A variant whose main piece is in the trash stands on its own until that is restored
+        if (product.parentId) {
+            const [parents] = await pool.query('SELECT id FROM products WHERE id = ? AND deletedAt IS NULL', [product.parentId]);
+            if (parents.length === 0) product.parentId = null;
+        }
+        res.json(localizeProduct(product, locale));
     } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
 });
 
@@ -181,21 +308,33 @@ router.get('/api/products/:id/stats', async (req, res) => {
     try {
         const [rows] = await pool.query('SELECT type, COUNT(*) as c FROM analytics WHERE productId = ? GROUP BY type', [req.params.id]);
         const stats = { like: 0, dislike: 0, inquiry: 0, sold: 0, view: 0 };
-        rows.forEach(r => { if(stats.hasOwnProperty(r.type)) stats[r.type] = r.c; });
+        rows.forEach(r => { if(stats.hasOwnProperty(r.type) && r.type !== 'sold') stats[r.type] = r.c; });
+        // Sales come from completed orders rather than the legacy 'sold' analytics event
+        const [sold] = await pool.query('SELECT COUNT(*) as c FROM order_items oi JOIN orders o ON o.id = oi.orderId WHERE oi.productId = ? AND o.status = "sold"', [req.params.id]);
+        stats.sold = sold[0].c;
         res.json(stats);
     } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
 });
 
+router.get('/api/products/:id/price', async (req, res) => {
+    try {
+        const price = await getProductPrice(pool, req.params.id, null, req.query.purity);
+        if (!price) return res.status(404).json({ error: 'Not found' });
+        if (req.query.purity && price.purity !== req.query.purity) return res.status(400).json({ error: 'Purity not offered for this product' });
+        res.json(price);
+    } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+});
+
 router.get('/api/products/:id/related', async (req, res) => {
     try {
-        const [productRows] = await pool.query('SELECT category, tags FROM products WHERE id = ?', [req.params.id]);
+        const [productRows] = await pool.query('SELECT category, tags FROM products WHERE id = ? AND deletedAt IS NULL', [req.params.id]);
         if (productRows.length === 0) return res.json([]);
         
         const { category, tags: tagsJson } = productRows[0];
         const tags = safeParse(tagsJson, []);
         
         // Find products in same category, excluding current one
-        let query = 'SELECT * FROM products WHERE id != ? AND isHidden = 0';
+        let query = `SELECT * FROM products WHERE id != ? AND isHidden = 0 AND deletedAt IS NULL${standalonePiece()}${publishWindow()}`;
         const params = [req.params.id];
         
         if (category) {
@@ -206,8 +345,9 @@ router.get('/api/products/:id/related', async (req, res) => {
         // Fetch latest 20 in same category to filter/sort by tags
         query += ' ORDER BY createdAt DESC LIMIT 20';
         
+        const locale = negotiateLocale(req, res);
         const [rows] = await pool.query(query, params);
-        let related = rows.map(sanitizeProduct);
+        let related = rows.map(row => localizeProduct(sanitizeProduct(row), locale));
         
         // Simple tag matching boost if tags exist
         if (tags && tags.length > 0) {
@@ -264,12 +404,18 @@ router.post('/api/products', requireStaff, async (req, res) => {
             supplier: p.supplier,
             uploadedBy: p.uploadedBy,
             isHidden: p.isHidden,
+            publishAt: toDateOrNull(p.publishAt),
+            unpublishAt: toDateOrNull(p.unpublishAt),
             createdAt: p.createdAt,
             dateTaken: p.dateTaken,
-            meta: JSON.stringify(p.meta || {})
+            meta: JSON.stringify(p.meta || {}),
+            translations: JSON.stringify(cleanTranslations(p.translations, PRODUCT_TRANSLATABLE_FIELDS))
         };
         await pool.query('INSERT INTO products SET ?', productData);
+        await recordRevision(pool, { productId: p.id, action: 'create', before: null, after: snapshotOf(productData), userId: req.user?.id });
         CACHE.curated.data = null; // Invalidate cache
+        CACHE.search.data = null;
+        CACHE.counts.data = null;
         res.status(201).json({ success: true });
     } catch (e) { 
         console.error('Product save error:', e);
@@ -282,41 +428,85 @@ router.put('/api/products/:id', requireStaff, async (req, res) => {
         const p = req.body;
         
         // Fetch existing to restore stream URLs to data URLs
-        const [existing] = await pool.query('SELECT images, thumbnails FROM products WHERE id = ?', [req.params.id]);
-        if (existing.length > 0) {
-            const exImages = typeof existing[0].images === 'string' ? JSON.parse(existing[0].images || '[]') : existing[0].images;
-            const exThumbnails = typeof existing[0].thumbnails === 'string' ? JSON.parse(existing[0].thumbnails || '[]') : existing[0].thumbnails;
-            
-            if (p.images) {
-                p.images = p.images.map((img) => {
-                    const match = typeof img === 'string' && img.match(/\/api\/media\/stream\/[^\/]+\/image\/(\d+)\.webp/);
-                    if (match) return exImages[parseInt(match[1])];
-                    return img;
-                });
-            }
-            if (p.thumbnails) {
-                p.thumbnails = p.thumbnails.map((img) => {
-                    const match = typeof img === 'string' && img.match(/\/api\/media\/stream\/[^\/]+\/thumb\/(\d+)\.webp/);
-                    if (match) return exThumbnails[parseInt(match[1])];
-                    return img;
-                });
-            }
+        const [existing] = await pool.query('SELECT * FROM products WHERE id = ? AND deletedAt IS NULL', [req.params.id]);
+        if (existing.length === 0) return res.status(404).json({ error: 'Not found' });
+        const exImages = typeof existing[0].images === 'string' ? JSON.parse(existing[0].images || '[]') : existing[0].images;
+        const exThumbnails = typeof existing[0].thumbnails === 'string' ? JSON.parse(existing[0].thumbnails || '[]') : existing[0].thumbnails;
+        
+        if (p.images) {
+            p.images = p.images.map((img) => {
+                const match = typeof img === 'string' && img.match(/\/api\/media\/stream\/[^\/]+\/image\/(\d+)\.webp/);
+                if (match) return exImages[parseInt(match[1])];
+                return img;
+            });
+        }
+        if (p.thumbnails) {
+            p.thumbnails = p.thumbnails.map((img) => {
+                const match = typeof img === 'string' && img.match(/\/api\/media\/stream\/[^\/]+\/thumb\/(\d+)\.webp/);
+                if (match) return exThumbnails[parseInt(match[1])];
+                return img;
+            });
         }
 
-        await pool.query('UPDATE products SET ? WHERE id = ?', [{
+        const updates = {
             title: p.title, category: p.category, subCategory: p.subCategory, weight: p.weight, description: p.description,
             tags: JSON.stringify(p.tags || []), images: JSON.stringify(p.images || []), thumbnails: JSON.stringify(p.thumbnails || []), 
             isHidden: p.isHidden, dateTaken: p.dateTaken, meta: JSON.stringify(p.meta || {})
-        }, req.params.id]);
+        };
+        // Older clients don't send the schedule; leave it as it is rather than clearing it
+        if (p.publishAt !== undefined) updates.publishAt = toDateOrNull(p.publishAt);
+        if (p.unpublishAt !== undefined) updates.unpublishAt = toDateOrNull(p.unpublishAt);
+        if (p.translations !== undefined) updates.translations = JSON.stringify(cleanTranslations(p.translations, PRODUCT_TRANSLATABLE_FIELDS));
+        await pool.query('UPDATE products SET ? WHERE id = ?', [updates, req.params.id]);
+        const [updated] = await pool.query('SELECT * FROM products WHERE id = ?', [req.params.id]);
+        await recordRevision(pool, { productId: req.params.id, action: 'update', before: snapshotOf(existing[0]), after: snapshotOf(updated[0]), userId: req.user?.id });
         CACHE.curated.data = null; // Invalidate cache
+        CACHE.search.data = null;
+        CACHE.counts.data = null;
         res.json({ success: true });
     } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
 });
 
+// Bulk category move; only the category columns change, so the rest of each row is never
+// rewritten from the slimmed listing data the dashboard holds
+router.post('/api/products/bulk-move', requireStaff, async (req, res) => {
+    const conn = await pool.getConnection();
+    try {
+        const { ids, category, subCategory } = req.body;
+        if (!Array.isArray(ids) || ids.length === 0 || !category) return res.status(400).json({ error: 'Products and a category are required' });
+
+        await conn.beginTransaction();
+        const [rows] = await conn.query('SELECT * FROM products WHERE id IN (?) AND deletedAt IS NULL FOR UPDATE', [ids]);
+        for (const row of rows) {
+            await conn.query('UPDATE products SET category = ?, subCategory = ? WHERE id = ?', [category, subCategory || null, row.id]);
+            const before = snapshotOf(row);
+            await recordRevision(conn, { productId: row.id, action: 'update', before, after: { ...before, category, subCategory: subCategory || null }, userId: req.user?.id });
+        }
+        await conn.commit();
+        CACHE.curated.data = null; // Invalidate cache
+        CACHE.search.data = null;
+        CACHE.counts.data = null;
+        res.json({ success: true, moved: rows.length });
+    } catch (e) {
+        await conn.rollback();
+        res.status(500).json({ error: 'Internal server error' });
+    } finally {
+        conn.release();
+    }
+});
+
+// Deleting moves the product to the trash; it can be restored until the nightly purge
 router.delete('/api/products/:id', requireStaff, async (req, res) => {
     try {
-        await pool.query('DELETE FROM products WHERE id = ?', [req.params.id]);
+        const [rows] = await pool.query('SELECT * FROM products WHERE id = ? AND deletedAt IS NULL', [req.params.id]);
+        if (rows.length === 0) return res.status(404).json({ error: 'Not found' });
+        // Its variants keep their link and are listed on their own while it is in the trash
+        await pool.query('UPDATE products SET deletedAt = NOW(), deletedBy = ? WHERE id = ?', [req.user?.id || null, req.params.id]);
+        const snapshot = snapshotOf(rows[0]);
+        await recordRevision(pool, { productId: req.params.id, action: 'delete', before: snapshot, after: snapshot, userId: req.user?.id });
         CACHE.curated.data = null; // Invalidate cache
+        CACHE.search.data = null;
+        CACHE.counts.data = null;
         res.json({ success: true });
     } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
 });
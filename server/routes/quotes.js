@@ -0,0 +1,92 @@
+import express from 'express';
+import crypto from 'crypto';
+import { requireStaff } from '../auth.js';
+import { getPricingConfig, calculatePrice, getPurityRate } from '../pricingService.js';
+import { renderQuotePdf, formatQuoteNumber, getQuoteValidity, DEFAULT_QUOTE_VALIDITY_HOURS } from '../quoteService.js';
+
+export default function quotesRoutes(pool, UPLOADS_ROOT) {
+    const router = express.Router();
+
+    const parseJson = (val, fallback) => {
+        if (val && typeof val === 'object') return val;
+        try { return JSON.parse(val) ?? fallback; } catch { return fallback; }
+    };
+
+    const withValidity = (quote, pricingConfig) => {
+        const currentRate = getPurityRate(quote.purity, pricingConfig);
+        return { ...quote, pricing: parseJson(quote.pricing, {}), paymentPlan: parseJson(quote.paymentPlan, null), images: undefined, ...getQuoteValidity(quote, currentRate) };
+    };
+
+    router.post('/api/products/:id/quote', requireStaff, async (req, res) => {
+        try {
+            const { customerId, customerName, customerPhone, purity, planMonths } = req.body;
+            const [products] = await pool.query('SELECT id, title, category, weight, meta, images FROM products WHERE id = ? AND deletedAt IS NULL', [req.params.id]);
+            if (products.length === 0) return res.status(404).json({ error: 'Product not found' });
+            const product = products[0];
+
+            const pricingConfig = await getPricingConfig(pool);
+            const pricing = calculatePrice(product, pricingConfig, purity);
+
+            const [settingRows] = await pool.query('SELECT setting_key, setting_value FROM system_settings WHERE setting_key IN ("paymentPlans", "quoteValidityHours")');
+            const settings = {};
+            settingRows.forEach(r => settings[r.setting_key] = r.setting_value);
+            const plans = parseJson(settings.paymentPlans, []);
+            const paymentPlan = planMonths ? (plans.find(p => Number(p.months) === Number(planMonths)) || null) : null;
+            const validityHours = Number(settings.quoteValidityHours) || DEFAULT_QUOTE_VALIDITY_HOURS;
+
+            const createdAt = new Date();
+            const validUntil = new Date(createdAt.getTime() + validityHours * 60 * 60 * 1000);
+            const token = crypto.randomBytes(16).toString('hex');
+
+            const [result] = await pool.query(
+                `INSERT INTO quotes (token, productId, productTitle, images, customerId, customerName, customerPhone, purity, goldRate, gstPercent, pricing, paymentPlan, total, validUntil, createdBy, createdAt)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [token, product.id, product.title, JSON.stringify(parseJson(product.images, [])), customerId || null, customerName || null, customerPhone || null,
+                 pricing.purity, pricing.goldRate, pricingConfig.gstPercent, JSON.stringify(pricing), paymentPlan ? JSON.stringify(paymentPlan) : null,
+                 Math.round(pricing.total), validUntil, req.user?.id || null, createdAt]
+            );
+            const quoteNumber = formatQuoteNumber(result.insertId, createdAt);
+            await pool.query('UPDATE quotes SET quoteNumber = ? WHERE id = ?', [quoteNumber, result.insertId]);
+
+            res.json({
+                success: true,
+                quote: { id: result.insertId, quoteNumber, token, productId: product.id, purity: pricing.purity, total: Math.round(pricing.total), validUntil, paymentPlan, pricing }
+            });
+        } catch (e) {
+            console.error('[Quotes] Create failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+
+    router.get('/api/products/:id/quotes', requireStaff, async (req, res) => {
+        try {
+            const [rows] = await pool.query('SELECT * FROM quotes WHERE productId = ? ORDER BY createdAt DESC LIMIT 50', [req.params.id]);
+            const pricingConfig = await getPricingConfig(pool);
+            res.json(rows.map(q => withValidity(q, pricingConfig)));
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    // Public by unguessable token so the PDF link can be shared with the customer
+    router.get('/api/quotes/:token/pdf', async (req, res) => {
+        try {
+            const [rows] = await pool.query('SELECT * FROM quotes WHERE token = ?', [req.params.token]);
+            if (rows.length === 0) return res.status(404).json({ error: 'Quote not found' });
+            const pdf = await renderQuotePdf(rows[0], UPLOADS_ROOT);
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `inline; filename="${rows[0].quoteNumber}.pdf"`);
+            res.send(pdf);
+        } catch (e) {
+            console.error('[Quotes] Render failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+
+    router.post('/api/quotes/:id/sent', requireStaff, async (req, res) => {
+        try {
+            await pool.query('UPDATE quotes SET sentAt = NOW() WHERE id = ?', [req.params.id]);
+            res.json({ success: true });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    return router;
+}
@@ -0,0 +1,126 @@
+import express from 'express';
+import { requireStaff, requireAdmin } from '../auth.js';
+import { recordRevision, snapshotOf, snapshotColumns, getTrashRetentionDays, unlinkVariantsOf, FAMILY_FIELDS } from '../revisionService.js';
+
+const parseJson = (val, fallback) => {
+    if (val && typeof val === 'object') return val;
+    try { return JSON.parse(val) ?? fallback; } catch { return fallback; }
+};
+
+// Legacy products can hold inline base64 images; the history list only needs to show that they changed
+const slimImages = (value) => Array.isArray(value)
+    ? value.map(img => (typeof img === 'string' && img.startsWith('data:') ? '[inline image]' : img))
+    : value;
+
+export default function revisionsRoutes(pool, CACHE, sanitizeProduct) {
+    const router = express.Router();
+
+    const invalidateCatalog = () => {
+        CACHE.curated.data = null;
+        CACHE.search.data = null;
+        CACHE.counts.data = null;
+    };
+
+    router.get('/api/products/:id/revisions', requireStaff, async (req, res) => {
+        try {
+            const [rows] = await pool.query(
+                'SELECT id, productId, action, changes, restoredFrom, changedBy, changedByName, createdAt FROM product_revisions WHERE productId = ? ORDER BY id DESC LIMIT 200',
+                [req.params.id]
+            );
+            res.json(rows.map(r => ({
+                ...r,
+                changes: parseJson(r.changes, []).map(c => (c.field === 'images' || c.field === 'thumbnails' ? { ...c, from: slimImages(c.from), to: slimImages(c.to) } : c))
+            })));
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    // Puts the product back to the state saved in a revision; the restore is itself a new revision
+    router.post('/api/products/:id/revisions/:revisionId/restore', requireStaff, async (req, res) => {
+        const conn = await pool.getConnection();
+        try {
+            await conn.beginTransaction();
+            const [products] = await conn.query('SELECT * FROM products WHERE id = ? FOR UPDATE', [req.params.id]);
+            if (products.length === 0) {
+                await conn.rollback();
+                return res.status(404).json({ error: 'Product not found' });
+            }
+            if (products[0].deletedAt) {
+                await conn.rollback();
+                return res.status(409).json({ error: 'Restore the product from the trash first' });
+            }
+            const [revisions] = await conn.query('SELECT id, snapshot FROM product_revisions WHERE id = ? AND productId = ?', [req.params.revisionId, req.params.id]);
+            if (revisions.length === 0) {
+                await conn.rollback();
+                return res.status(404).json({ error: 'Revision not found' });
+            }
+
+            const snapshot = parseJson(revisions[0].snapshot, {});
+            const columns = snapshotColumns(snapshot);
+            // Families are one level deep: an old link is only restored to a live main piece, and
+            // not onto a piece that has variants of its own by now
+            if (columns.parentId) {
+                const [parents] = await conn.query('SELECT id FROM products WHERE id = ? AND parentId IS NULL AND deletedAt IS NULL', [columns.parentId]);
+                const [children] = await conn.query('SELECT id FROM products WHERE parentId = ? LIMIT 1', [req.params.id]);
+                if (parents.length === 0 || children.length > 0 || columns.parentId === req.params.id) FAMILY_FIELDS.forEach(field => delete columns[field]);
+            }
+            await conn.query('UPDATE products SET ? WHERE id = ?', [columns, req.params.id]);
+            const [updated] = await conn.query('SELECT * FROM products WHERE id = ?', [req.params.id]);
+            await recordRevision(conn, {
+                productId: req.params.id, action: 'restore', before: snapshotOf(products[0]), after: snapshotOf(updated[0]),
+                userId: req.user?.id, restoredFrom: revisions[0].id
+            });
+            await conn.commit();
+            invalidateCatalog();
+            res.json({ success: true, product: sanitizeProduct(updated[0]) });
+        } catch (e) {
+            await conn.rollback();
+            console.error('[Revisions] Restore failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        } finally {
+            conn.release();
+        }
+    });
+
+    router.get('/api/admin/trash', requireStaff, async (req, res) => {
+        try {
+            const retentionDays = await getTrashRetentionDays(pool);
+            const [rows] = await pool.query(`
+                SELECT p.id, p.title, p.category, p.subCategory, p.weight, p.thumbnails, p.deletedAt, p.deletedBy, s.name as deletedByName,
+                DATE_ADD(p.deletedAt, INTERVAL ? DAY) as purgeAt
+                FROM products p LEFT JOIN staff s ON s.id = p.deletedBy
+                WHERE p.deletedAt IS NOT NULL ORDER BY p.deletedAt DESC
+            `, [retentionDays]);
+            res.json({
+                retentionDays,
+                items: rows.map(row => {
+                    const product = sanitizeProduct(row);
+                    return { ...product, thumbnails: product.thumbnails.slice(0, 1) };
+                })
+            });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    router.post('/api/admin/trash/:id/restore', requireStaff, async (req, res) => {
+        try {
+            const [rows] = await pool.query('SELECT * FROM products WHERE id = ? AND deletedAt IS NOT NULL', [req.params.id]);
+            if (rows.length === 0) return res.status(404).json({ error: 'Not in trash' });
+            await pool.query('UPDATE products SET deletedAt = NULL, deletedBy = NULL WHERE id = ?', [req.params.id]);
+            const snapshot = snapshotOf(rows[0]);
+            await recordRevision(pool, { productId: req.params.id, action: 'undelete', before: snapshot, after: snapshot, userId: req.user?.id });
+            invalidateCatalog();
+            res.json({ success: true });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    // Permanent delete ahead of the nightly purge
+    router.delete('/api/admin/trash/:id', requireAdmin, async (req, res) => {
+        try {
+            await unlinkVariantsOf(pool, 'id = ? AND deletedAt IS NOT NULL', [req.params.id]);
+            const [result] = await pool.query('DELETE FROM products WHERE id = ? AND deletedAt IS NOT NULL', [req.params.id]);
+            if (result.affectedRows === 0) return res.status(404).json({ error: 'Not in trash' });
+            res.json({ success: true });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    return router;
+}
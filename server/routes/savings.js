@@ -0,0 +1,213 @@
+import express from 'express';
+import crypto from 'crypto';
+import cron from 'node-cron';
+import { requireStaff, requireCustomerOrStaff } from '../auth.js';
+import { getPricingConfig, calculatePrice, getPurityRate, GOLD_PURITIES } from '../pricingService.js';
+import { buildInstallmentSchedule, gramsForAmount, PLAN_TYPES, INSTALLMENT_REMINDER_DAYS, MAX_SAVINGS_MONTHS } from '../savingsService.js';
+import { sendWhatsAppTemplate } from './whatsapp.js';
+
+// Reminds customers about installments due within the next few days, once per installment
+export const sendInstallmentReminders = async (pool) => {
+    const [tplRows] = await pool.query('SELECT setting_value FROM system_settings WHERE setting_key = "whatsappInstallmentTemplateName"');
+    const templateName = tplRows[0]?.setting_value || 'installment_due_reminder';
+
+    const [due] = await pool.query(
+        `SELECT i.id, i.installmentNo, i.amount, i.dueDate, p.customerName, p.customerPhone, p.planType, p.productTitle
+         FROM savings_installments i JOIN savings_plans p ON p.id = i.planId
+         WHERE p.status = 'active' AND i.status = 'pending' AND i.reminderSentAt IS NULL
+         AND i.dueDate <= DATE_ADD(CURDATE(), INTERVAL ? DAY)`,
+        [INSTALLMENT_REMINDER_DAYS]
+    );
+
+    let sentCount = 0;
+    for (const inst of due) {
+        if (!inst.customerPhone) continue;
+        const planLabel = inst.planType === PLAN_TYPES.PRODUCT ? (inst.productTitle || 'jewellery') : 'gold savings';
+        const result = await sendWhatsAppTemplate(pool, {
+            phone: inst.customerPhone,
+            name: inst.customerName || 'Valued Customer',
+            templateName,
+            variables: [inst.customerName || 'Valued Customer', inst.installmentNo, Math.round(inst.amount).toLocaleString('en-IN'), planLabel, new Date(inst.dueDate).toLocaleDateString('en-IN')],
+            messageType: 'installment_reminder'
+        });
+        // Simulated sends (no WhatsApp credentials yet) don't count, so the reminder still goes out later
+        if (result.success) {
+            await pool.query('UPDATE savings_installments SET reminderSentAt = NOW() WHERE id = ?', [inst.id]);
+            sentCount++;
+        }
+    }
+    return { success: true, sentCount, dueCount: due.length };
+};
+
+export const initSavingsScheduler = (pool) => {
+    // Daily at 10:30 AM IST (05:00 UTC), after the morning gold rate broadcast
+    cron.schedule('0 5 * * *', async () => {
+        try {
+            const res = await sendInstallmentReminders(pool);
+            console.log('[Savings] Installment reminders:', res);
+        } catch (e) {
+            console.error('[Savings] Installment reminders failed:', e.message);
+        }
+    });
+};
+
+export default function savingsRoutes(pool) {
+    const router = express.Router();
+
+    const parseJson = (val, fallback) => {
+        if (val && typeof val === 'object') return val;
+        try { return JSON.parse(val) ?? fallback; } catch { return fallback; }
+    };
+
+    const loadPlans = async (where, params) => {
+        const [plans] = await pool.query(`SELECT * FROM savings_plans ${where} ORDER BY createdAt DESC LIMIT 200`, params);
+        if (plans.length === 0) return [];
+        const [installments] = await pool.query('SELECT * FROM savings_installments WHERE planId IN (?) ORDER BY installmentNo ASC', [plans.map(p => p.id)]);
+        return plans.map(p => ({ ...p, installments: installments.filter(i => i.planId === p.id) }));
+    };
+
+    // Enrol a customer: either a paymentPlans entry against a product, or a fixed monthly savings amount.
+    // Customers can only enrol themselves; staff enrol anyone by id or phone.
+    router.post('/api/savings-plans', requireCustomerOrStaff, async (req, res) => {
+        const { customerId, customerPhone, productId, months, monthlyAmount, purity } = req.body;
+        if (req.customer && customerId && customerId !== req.customer.id) return res.status(403).json({ error: 'Forbidden: Not your account' });
+        try {
+            const [customers] = req.customer || customerId
+                ? await pool.query('SELECT id, name, phone FROM customers WHERE id = ?', [req.customer?.id || customerId])
+                : await pool.query('SELECT id, name, phone FROM customers WHERE phone = ?', [String(customerPhone || '').trim()]);
+            if (customers.length === 0) return res.status(404).json({ error: 'Customer not found' });
+            const customer = customers[0];
+
+            const pricingConfig = await getPricingConfig(pool);
+            const planId = crypto.randomUUID();
+            let plan;
+
+            if (productId) {
+                const [products] = await pool.query('SELECT id, title, category, weight, meta FROM products WHERE id = ? AND deletedAt IS NULL', [productId]);
+                if (products.length === 0) return res.status(404).json({ error: 'Product not found' });
+                const [settingRows] = await pool.query('SELECT setting_value FROM system_settings WHERE setting_key = "paymentPlans"');
+                const paymentPlan = parseJson(settingRows[0]?.setting_value, []).find(p => Number(p.months) === Number(months));
+                if (!paymentPlan) return res.status(400).json({ error: 'Unknown payment plan' });
+
+                const pricing = calculatePrice(products[0], pricingConfig, purity);
+                plan = {
+                    planType: PLAN_TYPES.PRODUCT, productId, productTitle: products[0].title, purity: pricing.purity,
+                    months: Number(paymentPlan.months), advancePercent: Number(paymentPlan.advancePercent), targetAmount: Math.round(pricing.total)
+                };
+            } else {
+                if (!(Number(monthlyAmount) > 0) || !(Number(months) > 0)) return res.status(400).json({ error: 'Monthly amount and duration are required' });
+                if (Math.round(Number(months)) > MAX_SAVINGS_MONTHS) return res.status(400).json({ error: `Savings plans run for at most ${MAX_SAVINGS_MONTHS} months` });
+                plan = {
+                    planType: PLAN_TYPES.SAVINGS, productId: null, productTitle: null, purity: GOLD_PURITIES.includes(purity) ? purity : '22KT',
+                    months: Math.round(Number(months)), advancePercent: 0, targetAmount: Math.round(Number(monthlyAmount)) * Math.round(Number(months))
+                };
+            }
+
+            const schedule = buildInstallmentSchedule({ ...plan, totalAmount: plan.targetAmount, monthlyAmount });
+            if (schedule.length === 0 || plan.targetAmount <= 0) return res.status(400).json({ error: 'Nothing to pay: the plan comes to ₹0' });
+            const startDate = new Date();
+
+            await pool.query(
+                `INSERT INTO savings_plans (id, customerId, customerName, customerPhone, planType, productId, productTitle, purity, months, advancePercent, targetAmount, amountPaid, gramsAccrued, status, startDate, createdAt)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 'active', ?, NOW())`,
+                [planId, customer.id, customer.name, customer.phone, plan.planType, plan.productId, plan.productTitle, plan.purity,
+                 plan.months, plan.advancePercent, plan.targetAmount, startDate]
+            );
+            await pool.query(
+                'INSERT INTO savings_installments (planId, installmentNo, dueDate, amount, status) VALUES ?',
+                [schedule.map(s => [planId, s.installmentNo, s.dueDate, s.amount, 'pending'])]
+            );
+
+            const [created] = await loadPlans('WHERE id = ?', [planId]);
+            res.json({ success: true, plan: created });
+        } catch (e) {
+            console.error('[Savings] Enrolment failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+
+    // A customer sees only their own plans; staff see anyone's
+    router.get('/api/savings-plans/customer/:customerId', requireCustomerOrStaff, async (req, res) => {
+        if (req.customer && req.params.customerId !== req.customer.id) return res.status(403).json({ error: 'Forbidden: Not your account' });
+        try {
+            res.json(await loadPlans('WHERE customerId = ?', [req.params.customerId]));
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    router.get('/api/admin/savings-plans', requireStaff, async (req, res) => {
+        try {
+            const status = req.query.status;
+            res.json(await loadPlans(status ? 'WHERE status = ?' : '', status ? [status] : []));
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    // Records a payment against the next pending installment (or a specific one) and accrues grams at today's rate
+    router.post('/api/admin/savings-plans/:id/payments', requireStaff, async (req, res) => {
+        const { installmentId, amount, paymentMode } = req.body;
+        const conn = await pool.getConnection();
+        try {
+            await conn.beginTransaction();
+            const [plans] = await conn.query('SELECT * FROM savings_plans WHERE id = ? FOR UPDATE', [req.params.id]);
+            if (plans.length === 0) {
+                await conn.rollback();
+                return res.status(404).json({ error: 'Plan not found' });
+            }
+            const plan = plans[0];
+            if (plan.status !== 'active') {
+                await conn.rollback();
+                return res.status(409).json({ error: `Plan is ${plan.status}` });
+            }
+
+            const [pending] = installmentId
+                ? await conn.query('SELECT * FROM savings_installments WHERE id = ? AND planId = ? AND status = "pending"', [installmentId, plan.id])
+                : await conn.query('SELECT * FROM savings_installments WHERE planId = ? AND status = "pending" ORDER BY installmentNo ASC LIMIT 1', [plan.id]);
+            if (pending.length === 0) {
+                await conn.rollback();
+                return res.status(409).json({ error: 'No pending installment' });
+            }
+            const installment = pending[0];
+
+            const paid = Number(amount) > 0 ? Math.round(Number(amount)) : installment.amount;
+            const rate = getPurityRate(plan.purity, await getPricingConfig(conn));
+            const grams = gramsForAmount(paid, rate);
+
+            await conn.query(
+                'UPDATE savings_installments SET status = "paid", paidAmount = ?, goldRate = ?, grams = ?, paymentMode = ?, receivedBy = ?, paidAt = NOW() WHERE id = ?',
+                [paid, rate, grams, paymentMode || 'cash', req.user?.id || null, installment.id]
+            );
+            const [remaining] = await conn.query('SELECT COUNT(*) as c FROM savings_installments WHERE planId = ? AND status = "pending"', [plan.id]);
+            await conn.query(
+                'UPDATE savings_plans SET amountPaid = amountPaid + ?, gramsAccrued = gramsAccrued + ?, status = ? WHERE id = ?',
+                [paid, grams, remaining[0].c === 0 ? 'completed' : 'active', plan.id]
+            );
+            await conn.commit();
+
+            const [updated] = await loadPlans('WHERE id = ?', [plan.id]);
+            res.json({ success: true, plan: updated });
+        } catch (e) {
+            await conn.rollback();
+            console.error('[Savings] Payment failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        } finally {
+            conn.release();
+        }
+    });
+
+    router.post('/api/admin/savings-plans/:id/cancel', requireStaff, async (req, res) => {
+        try {
+            await pool.query('UPDATE savings_plans SET status = "cancelled" WHERE id = ? AND status = "active"', [req.params.id]);
+            res.json({ success: true });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    router.post('/api/admin/savings-plans/reminders', requireStaff, async (req, res) => {
+        try {
+            res.json(await sendInstallmentReminders(pool));
+        } catch (e) {
+            console.error('[Savings] Reminder trigger failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+
+    return router;
+}
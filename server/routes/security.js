@@ -1,9 +1,12 @@
 import express from 'express';
 import crypto from 'crypto';
-import { requireStaff } from '../auth.js';
+import multer from 'multer';
+import { requireStaff, requireAdmin } from '../auth.js';
+import { decodeWatermark, findViewer } from '../watermarkService.js';
 
 export default function securityRoutes(pool) {
     const router = express.Router();
+    const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 25 * 1024 * 1024 } });
 
     router.get('/api/security/trace', requireStaff, async (req, res) => {
         try {
@@ -71,5 +74,20 @@ export default function securityRoutes(pool) {
         }
     });
 
+    // Reads the invisible watermark from a leaked image and names the customer or shared link it
+    // was served to. found is false when no mark could be read.
+    router.post('/api/admin/identify-leak', requireAdmin, upload.single('image'), async (req, res) => {
+        try {
+            if (!req.file) return res.status(400).json({ error: 'No image uploaded' });
+            const decoded = await decodeWatermark(req.file.buffer);
+            if (!decoded) return res.json({ found: false });
+            const viewer = await findViewer(pool, decoded.mark);
+            res.json({ found: true, mark: decoded.mark, confidence: decoded.confidence, viewer });
+        } catch (e) {
+            console.error('[Security] Leak identification failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+
     return router;
 }
@@ -0,0 +1,129 @@
+import express from 'express';
+import { requireStaff } from '../auth.js';
+import { formatTagNumber, renderLabelSheet, STOCK_LOCATIONS, STOCK_STATUSES } from '../labelService.js';
+
+export default function stockRoutes(pool) {
+    const router = express.Router();
+
+    const parseJson = (val, fallback) => {
+        if (val && typeof val === 'object') return val;
+        try { return JSON.parse(val) ?? fallback; } catch { return fallback; }
+    };
+
+    const UNIT_SELECT = 'SELECT u.*, p.title as productTitle FROM stock_units u LEFT JOIN products p ON p.id = u.productId';
+
+    router.get('/api/stock-units', requireStaff, async (req, res) => {
+        try {
+            const clauses = [];
+            const params = [];
+            if (req.query.status) { clauses.push('u.status = ?'); params.push(req.query.status); }
+            if (req.query.location) { clauses.push('u.location = ?'); params.push(req.query.location); }
+            if (req.query.search) {
+                clauses.push('(u.tagNumber LIKE ? OR u.sku LIKE ? OR p.title LIKE ?)');
+                const like = `%${req.query.search}%`;
+                params.push(like, like, like);
+            }
+            const [rows] = await pool.query(`${UNIT_SELECT} ${clauses.length ? `WHERE ${clauses.join(' AND ')}` : ''} ORDER BY u.id DESC LIMIT 500`, params);
+            res.json(rows);
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    router.get('/api/products/:id/stock-units', requireStaff, async (req, res) => {
+        try {
+            const [rows] = await pool.query(`${UNIT_SELECT} WHERE u.productId = ? ORDER BY u.id ASC`, [req.params.id]);
+            res.json(rows);
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    router.post('/api/products/:id/stock-units', requireStaff, async (req, res) => {
+        try {
+            const { tagNumber, sku, grossWeight, netWeight, location, status, notes } = req.body;
+            const [products] = await pool.query('SELECT id, weight, meta FROM products WHERE id = ? AND deletedAt IS NULL', [req.params.id]);
+            if (products.length === 0) return res.status(404).json({ error: 'Product not found' });
+            const meta = parseJson(products[0].meta, {});
+            // Scanners and imports often send the tag as a number
+            const tag = String(tagNumber ?? '').trim();
+
+            if (tag) {
+                const [dupe] = await pool.query('SELECT id FROM stock_units WHERE tagNumber = ?', [tag]);
+                if (dupe.length > 0) return res.status(409).json({ error: `Tag ${tag} is already in use` });
+            }
+
+            const [result] = await pool.query(
+                'INSERT INTO stock_units (productId, tagNumber, sku, grossWeight, netWeight, location, status, notes, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW(), NOW())',
+                [req.params.id, tag || null, sku || null,
+                 Number(grossWeight) || products[0].weight || 0, Number(netWeight) || meta.netWeight || null,
+                 STOCK_LOCATIONS.includes(location) ? location : 'showroom', STOCK_STATUSES.includes(status) ? status : 'in_stock', notes || null]
+            );
+            // Tags default to a running number when the store doesn't supply its own
+            if (!tag) await pool.query('UPDATE stock_units SET tagNumber = ? WHERE id = ?', [formatTagNumber(result.insertId), result.insertId]);
+
+            const [rows] = await pool.query(`${UNIT_SELECT} WHERE u.id = ?`, [result.insertId]);
+            res.json({ success: true, unit: rows[0] });
+        } catch (e) {
+            console.error('[Stock] Create failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+
+    router.put('/api/stock-units/:id', requireStaff, async (req, res) => {
+        try {
+            const { tagNumber, sku, grossWeight, netWeight, location, status, notes } = req.body;
+            if (location !== undefined && !STOCK_LOCATIONS.includes(location)) return res.status(400).json({ error: 'Invalid location' });
+            if (status !== undefined && !STOCK_STATUSES.includes(status)) return res.status(400).json({ error: 'Invalid status' });
+            const tag = String(tagNumber ?? '').trim();
+            if (tag) {
+                const [dupe] = await pool.query('SELECT id FROM stock_units WHERE tagNumber = ? AND id != ?', [tag, req.params.id]);
+                if (dupe.length > 0) return res.status(409).json({ error: `Tag ${tag} is already in use` });
+            }
+
+            const updates = { tagNumber: tagNumber === undefined ? undefined : tag || null, sku, grossWeight, netWeight, location, status, notes };
+            Object.keys(updates).forEach(k => updates[k] === undefined && delete updates[k]);
+            await pool.query('UPDATE stock_units SET ?, updatedAt = NOW() WHERE id = ?', [updates, req.params.id]);
+
+            const [rows] = await pool.query(`${UNIT_SELECT} WHERE u.id = ?`, [req.params.id]);
+            rows[0] ? res.json({ success: true, unit: rows[0] }) : res.status(404).json({ error: 'Stock unit not found' });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    router.delete('/api/stock-units/:id', requireStaff, async (req, res) => {
+        try {
+            await pool.query('DELETE FROM stock_units WHERE id = ?', [req.params.id]);
+            res.json({ success: true });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    // Resolves a scanned tag number or SKU to its product for the staff scan screen
+    router.get('/api/stock-units/lookup/:code', requireStaff, async (req, res) => {
+        try {
+            const code = req.params.code.trim();
+            const [rows] = await pool.query(`${UNIT_SELECT} WHERE u.tagNumber = ? OR u.sku = ? LIMIT 1`, [code, code]);
+            rows[0] ? res.json({ productId: rows[0].productId, unit: rows[0] }) : res.status(404).json({ error: `No stock unit tagged ${code}` });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    // Printable label sheet for selected units (?ids=1,2,3) or every unit of a product (?productId=...)
+    router.get('/api/stock-units/labels', requireStaff, async (req, res) => {
+        try {
+            let rows = [];
+            if (req.query.ids) {
+                const ids = String(req.query.ids).split(',').map(Number).filter(Boolean);
+                if (ids.length > 0) [rows] = await pool.query(`${UNIT_SELECT} WHERE u.id IN (?) ORDER BY u.id ASC`, [ids]);
+            } else if (req.query.productId) {
+                [rows] = await pool.query(`${UNIT_SELECT} WHERE u.productId = ? ORDER BY u.id ASC`, [req.query.productId]);
+            }
+            if (rows.length === 0) return res.status(404).json({ error: 'No stock units selected' });
+
+            const origin = typeof req.query.origin === 'string' && /^https?:\/\//.test(req.query.origin) ? req.query.origin : `${req.protocol}://${req.get('host')}`;
+            const pdf = await renderLabelSheet(rows, `${origin.replace(/\/$/, '')}/#/admin/scan`);
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', 'inline; filename="stock-labels.pdf"');
+            res.send(pdf);
+        } catch (e) {
+            console.error('[Stock] Label render failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,96 @@
+import express from 'express';
+import crypto from 'crypto';
+import { requireStaff, requireCustomerOrStaff, getSessionCustomerId } from '../auth.js';
+
+const SUGGESTION_STATUSES = ['new', 'in_review', 'done'];
+
+export default function suggestionsRoutes(pool) {
+    const router = express.Router();
+
+    // Logged-in customers ask for variations of a piece ("make this in 18KT", "lighter version").
+    // The customer comes from the session token, never from the request body.
+    router.post('/api/products/:id/suggestions', async (req, res) => {
+        try {
+            const customerId = getSessionCustomerId(req);
+            const { suggestion } = req.body;
+            if (!customerId) return res.status(401).json({ error: 'Please log in to send a request' });
+            if (!suggestion || !String(suggestion).trim()) return res.status(400).json({ error: 'Suggestion text is required' });
+
+            const [customers] = await pool.query('SELECT id, name, phone FROM customers WHERE id = ?', [customerId]);
+            if (customers.length === 0) return res.status(404).json({ error: 'Customer not found' });
+            const [products] = await pool.query('SELECT id, title FROM products WHERE id = ? AND deletedAt IS NULL', [req.params.id]);
+            if (products.length === 0) return res.status(404).json({ error: 'Product not found' });
+
+            const id = crypto.randomUUID();
+            await pool.query(
+                'INSERT INTO product_suggestions (id, productId, productTitle, userId, userName, userPhone, suggestion, status, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, "new", NOW(), NOW())',
+                [id, products[0].id, products[0].title, customers[0].id, customers[0].name, customers[0].phone, String(suggestion).trim().slice(0, 1000)]
+            );
+            const [rows] = await pool.query('SELECT * FROM product_suggestions WHERE id = ?', [id]);
+            res.json({ success: true, suggestion: rows[0] });
+        } catch (e) {
+            console.error('[Suggestions] Create failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+
+    // A customer's own requests for a product, so they can see the status; staff may pass ?customerId
+    router.get('/api/products/:id/suggestions', requireCustomerOrStaff, async (req, res) => {
+        try {
+            const customerId = req.customer ? req.customer.id : req.query.customerId;
+            if (!customerId) return res.json([]);
+            const [rows] = await pool.query('SELECT * FROM product_suggestions WHERE productId = ? AND userId = ? ORDER BY createdAt DESC', [req.params.id, customerId]);
+            res.json(rows);
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    router.get('/api/admin/suggestions', requireStaff, async (req, res) => {
+        try {
+            const status = req.query.status;
+            const [rows] = await pool.query(
+                `SELECT s.*, f.title as fulfilledByTitle FROM product_suggestions s LEFT JOIN products f ON f.id = s.fulfilledByProductId
+                 ${status ? 'WHERE s.status = ?' : ''} ORDER BY s.createdAt DESC LIMIT 300`,
+                status ? [status] : []
+            );
+            res.json(rows);
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    // Status changes and linking the product that fulfils the request (which closes it)
+    router.put('/api/admin/suggestions/:id', requireStaff, async (req, res) => {
+        try {
+            const { status, fulfilledByProductId } = req.body;
+            if (status !== undefined && !SUGGESTION_STATUSES.includes(status)) return res.status(400).json({ error: 'Invalid status' });
+
+            const updates = {};
+            if (status !== undefined) updates.status = status;
+            if (fulfilledByProductId !== undefined) {
+                if (fulfilledByProductId) {
+                    const [products] = await pool.query('SELECT id FROM products WHERE id = ? AND deletedAt IS NULL', [fulfilledByProductId]);
+                    if (products.length === 0) return res.status(404).json({ error: 'Linked product not found' });
+                    if (status === undefined) updates.status = 'done';
+                }
+                updates.fulfilledByProductId = fulfilledByProductId || null;
+            }
+            if (Object.keys(updates).length === 0) return res.status(400).json({ error: 'Nothing to update' });
+
+            await pool.query('UPDATE product_suggestions SET ?, updatedAt = NOW() WHERE id = ?', [updates, req.params.id]);
+            res.json({ success: true });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    // Records the staff reply after it has been sent over WhatsApp
+    router.post('/api/admin/suggestions/:id/reply', requireStaff, async (req, res) => {
+        try {
+            const { message } = req.body;
+            if (!message) return res.status(400).json({ error: 'Reply text is required' });
+            await pool.query(
+                'UPDATE product_suggestions SET staffReply = ?, repliedBy = ?, repliedAt = NOW(), status = IF(status = "new", "in_review", status), updatedAt = NOW() WHERE id = ?',
+                [message, req.user?.id || null, req.params.id]
+            );
+            res.json({ success: true });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    return router;
+}
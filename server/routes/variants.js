@@ -0,0 +1,243 @@
+import express from 'express';
+import crypto from 'crypto';
+import { requireStaff } from '../auth.js';
+import { getPricingConfig, calculatePrice, calculateSetPrice } from '../pricingService.js';
+import { isInPublishWindow } from '../publishScheduleService.js';
+import { DEFAULT_LOCALE, negotiateLocale, localizeProduct } from '../i18nService.js';
+import { recordRevision, snapshotOf } from '../revisionService.js';
+
+// Variants are full products (own weight, photos and pricing) that point at a main piece through
+// parentId; only the main piece is listed in the gallery. Sets group separate pieces, such as a
+// necklace and its earrings, and are offered together at a combined price.
+const MEMBER_COLUMNS = 'p.id, p.title, p.category, p.subCategory, p.weight, p.thumbnails, p.isHidden, p.publishAt, p.unpublishAt, p.availability, p.parentId, p.variantLabel, p.size, p.meta, p.translations';
+
+const cleanText = (value, max) => (value === undefined || value === null || String(value).trim() === '' ? null : String(value).trim().slice(0, max));
+
+export default function variantsRoutes(pool, CACHE, sanitizeProduct) {
+    const router = express.Router();
+
+    const invalidateCatalog = () => {
+        CACHE.curated.data = null;
+        CACHE.search.data = null;
+        CACHE.counts.data = null;
+    };
+
+    const isVisible = (row) => !row.isHidden && isInPublishWindow(row);
+
+    // Card-sized entry with its live price at the default purity
+    const toMember = (row, pricing, locale = DEFAULT_LOCALE) => {
+        const product = localizeProduct(sanitizeProduct(row), locale);
+        return {
+            id: product.id, title: product.title, category: product.category, subCategory: product.subCategory,
+            weight: product.weight, availability: product.availability, isHidden: !!product.isHidden,
+            parentId: product.parentId, variantLabel: product.variantLabel, size: product.size,
+            thumbnail: product.thumbnails[0] || null,
+            price: Math.round(calculatePrice(row, pricing).total)
+        };
+    };
+
+    const loadSets = async ({ productIds, publicOnly, pricing, locale }) => {
+        const [setRows] = productIds
+            ? await pool.query('SELECT s.* FROM product_sets s WHERE s.id IN (SELECT setId FROM product_set_items WHERE productId IN (?)) ORDER BY s.createdAt DESC', [productIds])
+            : await pool.query('SELECT * FROM product_sets ORDER BY createdAt DESC');
+
+        const sets = [];
+        for (const set of setRows) {
+            const [itemRows] = await pool.query(
+                `SELECT ${MEMBER_COLUMNS} FROM product_set_items si JOIN products p ON p.id = si.productId WHERE si.setId = ? AND p.deletedAt IS NULL ORDER BY si.position ASC`,
+                [set.id]
+            );
+            const items = publicOnly ? itemRows.filter(isVisible) : itemRows;
+            if (publicOnly && items.length < 2) continue;
+            // Only pieces still on sale are priced; the set discount needs at least two of them
+            const onSale = items.filter(row => !row.availability || row.availability === 'available');
+            const price = calculateSetPrice(onSale, pricing, onSale.length >= 2 ? set.discountPercent : 0);
+            sets.push({
+                id: set.id, title: set.title, description: set.description, discountPercent: Number(set.discountPercent) || 0,
+                items: items.map(row => toMember(row, pricing, locale)),
+                itemsTotal: Math.round(price.itemsTotal),
+                setPrice: Math.round(price.total)
+            });
+        }
+        return sets;
+    };
+
+    // The variants of a piece (including the piece itself) and the sets it belongs to.
+    // ?public=true leaves out hidden and unscheduled pieces other than the one being viewed.
+    router.get('/api/products/:id/family', async (req, res) => {
+        try {
+            const publicOnly = req.query.public === 'true';
+            const locale = negotiateLocale(req, res);
+            // A variant whose main piece is in the trash is its own root until that is restored
+            const [rows] = await pool.query(
+                'SELECT p.id, parent.id AS liveParentId FROM products p LEFT JOIN products parent ON parent.id = p.parentId AND parent.deletedAt IS NULL WHERE p.id = ? AND p.deletedAt IS NULL',
+                [req.params.id]
+            );
+            if (rows.length === 0) return res.status(404).json({ error: 'Not found' });
+            const rootId = rows[0].liveParentId || rows[0].id;
+
+            const pricing = await getPricingConfig(pool);
+            const [variantRows] = await pool.query(
+                `SELECT ${MEMBER_COLUMNS} FROM products p WHERE (p.id = ? OR p.parentId = ?) AND p.deletedAt IS NULL ORDER BY p.weight ASC, p.id ASC`,
+                [rootId, rootId]
+            );
+            const variants = variantRows.filter(row => !publicOnly || row.id === req.params.id || isVisible(row));
+            const sets = await loadSets({ productIds: [...new Set([rootId, ...variantRows.map(r => r.id)])], publicOnly, pricing, locale });
+
+            res.json({
+                rootId,
+                variants: variants.length > 1 ? variants.map(row => toMember(row, pricing, locale)) : [],
+                sets
+            });
+        } catch (e) {
+            console.error('[Variants] Family lookup failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+
+    // Replaces the variant list of a main piece. Pieces left out are released back to standalone
+    // products; the body carries the main piece's own label and size as well.
+    router.put('/api/products/:id/variants', requireStaff, async (req, res) => {
+        const { variants } = req.body;
+        if (!Array.isArray(variants)) return res.status(400).json({ error: 'variants must be a list' });
+        const rootId = req.params.id;
+        const entries = variants.filter(v => v?.id && v.id !== rootId);
+        const ids = [...new Set(entries.map(v => v.id))];
+
+        const conn = await pool.getConnection();
+        try {
+            await conn.beginTransaction();
+            const [roots] = await conn.query('SELECT id, parentId FROM products WHERE id = ? AND deletedAt IS NULL FOR UPDATE', [rootId]);
+            if (roots.length === 0) {
+                await conn.rollback();
+                return res.status(404).json({ error: 'Product not found' });
+            }
+            if (roots[0].parentId) {
+                await conn.rollback();
+                return res.status(400).json({ error: 'This piece is a variant; edit the variants on its main piece' });
+            }
+            if (ids.length > 0) {
+                const [found] = await conn.query(
+                    'SELECT p.id, parent.id AS liveParentId FROM products p LEFT JOIN products parent ON parent.id = p.parentId AND parent.deletedAt IS NULL WHERE p.id IN (?) AND p.deletedAt IS NULL FOR UPDATE',
+                    [ids]
+                );
+                if (found.length !== ids.length) {
+                    await conn.rollback();
+                    return res.status(400).json({ error: 'Some of the chosen pieces no longer exist' });
+                }
+                if (found.some(row => row.liveParentId && row.liveParentId !== rootId)) {
+                    await conn.rollback();
+                    return res.status(400).json({ error: 'A piece that is already a variant of another main piece cannot be added' });
+                }
+                const [parents] = await conn.query('SELECT DISTINCT parentId FROM products WHERE parentId IN (?)', [ids]);
+                if (parents.length > 0) {
+                    await conn.rollback();
+                    return res.status(400).json({ error: 'A piece that has its own variants cannot become a variant' });
+                }
+            }
+
+            // Every piece whose family fields may change, for the revision history
+            const [beforeRows] = await conn.query(`SELECT * FROM products WHERE id = ? OR parentId = ?${ids.length ? ' OR id IN (?)' : ''}`, ids.length ? [rootId, rootId, ids] : [rootId, rootId]);
+
+            await conn.query(
+                `UPDATE products SET parentId = NULL, variantLabel = NULL, size = NULL WHERE parentId = ?${ids.length ? ' AND id NOT IN (?)' : ''}`,
+                ids.length ? [rootId, ids] : [rootId]
+            );
+            await conn.query('UPDATE products SET variantLabel = ?, size = ? WHERE id = ?', [cleanText(req.body.variantLabel, 100), cleanText(req.body.size, 50), rootId]);
+            for (const id of ids) {
+                const entry = entries.find(v => v.id === id);
+                await conn.query('UPDATE products SET parentId = ?, variantLabel = ?, size = ? WHERE id = ?', [rootId, cleanText(entry.variantLabel, 100), cleanText(entry.size, 50), id]);
+            }
+            const [afterRows] = await conn.query('SELECT * FROM products WHERE id IN (?)', [beforeRows.map(r => r.id)]);
+            for (const before of beforeRows) {
+                const after = afterRows.find(r => r.id === before.id);
+                await recordRevision(conn, { productId: before.id, action: 'update', before: snapshotOf(before), after: snapshotOf(after), userId: req.user?.id });
+            }
+            await conn.commit();
+            invalidateCatalog();
+            res.json({ success: true });
+        } catch (e) {
+            await conn.rollback();
+            console.error('[Variants] Save failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        } finally {
+            conn.release();
+        }
+    });
+
+    const readSetBody = (body) => ({
+        title: String(body.title || '').trim().slice(0, 255),
+        description: body.description || null,
+        discountPercent: Math.min(Math.max(Number(body.discountPercent) || 0, 0), 100)
+    });
+
+    const saveSetItems = async (conn, setId, productIds) => {
+        await conn.query('DELETE FROM product_set_items WHERE setId = ?', [setId]);
+        await conn.query('INSERT INTO product_set_items (setId, productId, position) VALUES ?', [productIds.map((productId, i) => [setId, productId, i])]);
+    };
+
+    router.get('/api/admin/product-sets', requireStaff, async (req, res) => {
+        try {
+            const pricing = await getPricingConfig(pool);
+            res.json(await loadSets({ productIds: req.query.productId ? [req.query.productId] : null, publicOnly: false, pricing }));
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    router.post('/api/admin/product-sets', requireStaff, async (req, res) => {
+        const data = readSetBody(req.body);
+        const productIds = [...new Set((req.body.productIds || []).filter(Boolean))];
+        if (!data.title) return res.status(400).json({ error: 'Title is required' });
+        if (productIds.length < 2) return res.status(400).json({ error: 'A set needs at least two pieces' });
+
+        const conn = await pool.getConnection();
+        try {
+            const id = crypto.randomUUID();
+            await conn.beginTransaction();
+            await conn.query('INSERT INTO product_sets SET ?, createdAt = NOW(), updatedAt = NOW()', [{ id, ...data, createdBy: req.user?.id || null }]);
+            await saveSetItems(conn, id, productIds);
+            await conn.commit();
+            res.json({ success: true, id });
+        } catch (e) {
+            await conn.rollback();
+            console.error('[Variants] Set create failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        } finally {
+            conn.release();
+        }
+    });
+
+    router.put('/api/admin/product-sets/:id', requireStaff, async (req, res) => {
+        const data = readSetBody(req.body);
+        const productIds = [...new Set((req.body.productIds || []).filter(Boolean))];
+        if (!data.title) return res.status(400).json({ error: 'Title is required' });
+        if (productIds.length < 2) return res.status(400).json({ error: 'A set needs at least two pieces' });
+
+        const conn = await pool.getConnection();
+        try {
+            await conn.beginTransaction();
+            const [result] = await conn.query('UPDATE product_sets SET ?, updatedAt = NOW() WHERE id = ?', [data, req.params.id]);
+            if (result.affectedRows === 0) {
+                await conn.rollback();
+                return res.status(404).json({ error: 'Set not found' });
+            }
+            await saveSetItems(conn, req.params.id, productIds);
+            await conn.commit();
+            res.json({ success: true });
+        } catch (e) {
+            await conn.rollback();
+            console.error('[Variants] Set update failed:', e.message);
+            res.status(500).json({ error: 'Internal server error' });
+        } finally {
+            conn.release();
+        }
+    });
+
+    router.delete('/api/admin/product-sets/:id', requireStaff, async (req, res) => {
+        try {
+            await pool.query('DELETE FROM product_sets WHERE id = ?', [req.params.id]);
+            res.json({ success: true });
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    return router;
+}
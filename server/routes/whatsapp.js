@@ -204,6 +204,98 @@ export async function executeGoldRateBroadcast(pool) {
     }
 }
 
+// Sends one message through the Cloud API: a template when templateName is given, free text
+// otherwise. Without credentials the send is simulated. Either way the outcome is written to
+// whatsapp_logs; `simulated` tells callers that nothing actually reached the customer.
+export async function sendWhatsAppMessage(pool, { phone, name, messageType, templateName = null, templateLang = 'en', variables = [], messageBody = '' }) {
+    const [rows] = await pool.query('SELECT setting_key, setting_value FROM system_settings WHERE setting_key IN ("whatsappToken", "whatsappPhoneId")');
+    const config = {};
+    rows.forEach(r => config[r.setting_key] = r.setting_value);
+
+    const cleanPhone = String(phone || '').trim().replace(/\D/g, '');
+    let status = 'sent';
+    let errMsg = null;
+    const simulated = !(config.whatsappToken && config.whatsappPhoneId);
+
+    if (!simulated) {
+        const requestBody = templateName
+            ? {
+                messaging_product: "whatsapp",
+                to: cleanPhone,
+                type: "template",
+                template: {
+                    name: templateName,
+                    language: { code: templateLang },
+                    components: [
+                        {
+                            type: "body",
+                            parameters: variables.map(v => ({ type: 'text', text: String(v) }))
+                        }
+                    ]
+                }
+            }
+            : {
+                messaging_product: "whatsapp",
+                recipient_type: "individual",
+                to: cleanPhone,
+                type: "text",
+                text: { preview_url: false, body: messageBody }
+            };
+        try {
+            const response = await fetch(`https://graph.facebook.com/v17.0/${config.whatsappPhoneId}/messages`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${config.whatsappToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify(requestBody)
+            });
+
+            if (!response.ok) {
+                status = 'failed';
+                errMsg = await response.text();
+                console.error('[WhatsApp Send Error]', errMsg);
+            }
+        } catch (apiErr) {
+            status = 'failed';
+            errMsg = apiErr.message;
+            console.error('[WhatsApp Send API Crash]', apiErr);
+        }
+    } else {
+        messageBody += " (SIMULATED - WhatsApp API credentials missing)";
+    }
+
+    try {
+        await pool.query(
+            'INSERT INTO whatsapp_logs (recipient_phone, recipient_name, message_type, template_name, message_body, status, errorMessage, sentAt) VALUES (?, ?, ?, ?, ?, ?, ?, NOW())',
+            [cleanPhone, name, messageType, templateName, messageBody, status, errMsg]
+        );
+    } catch (dbErr) {
+        console.error('[WhatsApp Log Error]', dbErr);
+    }
+
+    return { status, errMsg, messageBody, simulated };
+}
+
+// Sends a single approved template message by name. Variables fill {{1}}, {{2}}, ... in order.
+// Only a real delivery counts as success, so callers that record a send (reminders) retry
+// once credentials are configured instead of treating a simulated send as done.
+export async function sendWhatsAppTemplate(pool, { phone, name, templateName, variables = [], messageType = 'template_message' }) {
+    let templateLang = 'en';
+    let messageBody = '';
+    const [tplRows] = await pool.query('SELECT language, body_text FROM whatsapp_templates WHERE name = ?', [templateName]);
+    if (tplRows.length > 0) {
+        if (tplRows[0].language) templateLang = tplRows[0].language;
+        messageBody = tplRows[0].body_text || '';
+    }
+    variables.forEach((v, idx) => {
+        messageBody = messageBody.replace(new RegExp(`\\{\\{${idx + 1}\\}\\}`, 'g'), String(v));
+    });
+
+    const result = await sendWhatsAppMessage(pool, { phone, name, messageType, templateName, templateLang, variables, messageBody });
+    return { ...result, success: result.status === 'sent' && !result.simulated };
+}
+
 export default function whatsappRoutes(pool) {
     const router = express.Router();
 
@@ -232,6 +324,15 @@ export default function whatsappRoutes(pool) {
                         status: 'Approved',
                         is_synced: 1
                     },
+                    {
+                        id: 'installment_due_reminder',
+                        name: 'installment_due_reminder',
+                        category: 'UTILITY',
+                        body_text: "Hello {{1}},\n\nThis is a gentle reminder that installment {{2}} of ₹{{3}} for your {{4}} plan at Sanghavi Jewel Studio is due on {{5}}.\n\nThank you for saving with us!",
+                        buttons: JSON.stringify([]),
+                        status: 'Approved',
+                        is_synced: 1
+                    },
                     {
                         id: 'welcome_subscriber',
                         name: 'welcome_subscriber',
@@ -746,7 +847,6 @@ export default function whatsappRoutes(pool) {
 
             const cleanPhone = phone.trim().replace(/\s+/g, '');
             const recName = name || 'Valued Customer';
-            const config = await getWhatsAppConfig();
 
             let messageBody = customText || '';
             let templateName = '';
@@ -766,75 +866,21 @@ export default function whatsappRoutes(pool) {
                 }
             }
 
-            let status = 'sent';
-            let errMsg = null;
-
-            if (config.whatsappToken && config.whatsappPhoneId) {
-                try {
-                    let requestBody = {};
-                    if (type === 'template') {
-                        const payloadVars = (variables || []).map(v => ({ type: 'text', text: String(v) }));
-                        requestBody = {
-                            messaging_product: "whatsapp",
-                            to: cleanPhone,
-                            type: "template",
-                            template: {
-                                name: templateName,
-                                language: { code: templateLang },
-                                components: [
-                                    {
-                                        type: "body",
-                                        parameters: payloadVars
-                                    }
-                                ]
-                            }
-                        };
-                    } else {
-                        requestBody = {
-                            messaging_product: "whatsapp",
-                            recipient_type: "individual",
-                            to: cleanPhone,
-                            type: "text",
-                            text: { preview_url: false, body: messageBody }
-                        };
-                    }
-
-                    const response = await fetch(`https://graph.facebook.com/v17.0/${config.whatsappPhoneId}/messages`, {
-                        method: 'POST',
-                        headers: {
-                            'Authorization': `Bearer ${config.whatsappToken}`,
-                            'Content-Type': 'application/json'
-                        },
-                        body: JSON.stringify(requestBody)
-                    });
-
-                    if (!response.ok) {
-                        const textErr = await response.text();
-                        status = 'failed';
-                        errMsg = textErr;
-                        console.error('[WhatsApp Manual Send Error]', textErr);
-                    }
-                } catch (metaErr) {
-                    status = 'failed';
-                    errMsg = metaErr.message;
-                    console.error('[WhatsApp Manual Send API Crash]', metaErr);
-                }
-            } else {
-                status = 'sent'; // Simulated
-                messageBody += " (SIMULATED - WhatsApp API details not configured in settings)";
-            }
-
-            // Write to logs
-            await pool.query(
-                'INSERT INTO whatsapp_logs (recipient_phone, recipient_name, message_type, template_name, message_body, status, errorMessage, sentAt) VALUES (?, ?, ?, ?, ?, ?, ?, NOW())',
-                [cleanPhone, recName, type === 'template' ? 'template_message' : 'manual_message', templateName || null, messageBody, status, errMsg]
-            );
+            const { status, errMsg, messageBody: loggedBody } = await sendWhatsAppMessage(pool, {
+                phone: cleanPhone,
+                name: recName,
+                messageType: type === 'template' ? 'template_message' : 'manual_message',
+                templateName: type === 'template' ? templateName || null : null,
+                templateLang,
+                variables: type === 'template' ? (variables || [recName]) : [],
+                messageBody
+            });
 
             if (status === 'failed') {
                 return res.status(400).json({ error: 'Meta API call failed', message: errMsg });
             }
 
-            res.json({ success: true, status, messageBody });
+            res.json({ success: true, status, messageBody: loggedBody });
         } catch (e) {
             console.error(e);
             res.status(500).json({ error: 'Internal server error', message: e.message });
@@ -1,17 +1,40 @@
 import express from 'express';
 import { requireStaff } from '../auth.js';
+import { getPricingConfig, calculatePrice, getProductPrice, getPurityRate, getDefaultPurity } from '../pricingService.js';
+import { getRateAt } from '../goldRateService.js';
+import { negotiateLocale, localizeProduct } from '../i18nService.js';
 
 export default function wishlistRoutes(pool, sanitizeProduct) {
     const router = express.Router();
 
+    const parsePreferences = (val) => {
+        if (val && typeof val === 'object') return val;
+        try { return JSON.parse(val) || {}; } catch { return {}; }
+    };
+
+    // Per-gram rate for the wishlisted purity at the moment the entry was created, so a
+    // price drop (or rise) can be explained as a gold rate movement
+    const getRateWhenWishlisted = async (row, pricing, purity) => {
+        const then = await getRateAt(pool, row.createdAt);
+        if (!then) return null;
+        const historic = { ...pricing, goldRate22k: Number(then.rate22k) || pricing.goldRate22k, goldRate24k: Number(then.rate24k) || pricing.goldRate24k };
+        return { rate: Math.round(getPurityRate(purity, historic)), source: then.source, recordedAt: then.recordedAt };
+    };
+
     router.post('/wishlist', async (req, res) => {
         try {
-            const { customerId, productId, priceWhenWishlisted, preferences } = req.body;
+            const { customerId, productId, preferences } = req.body;
             if (!customerId || !productId) return res.status(400).json({ error: 'Missing customerId or productId' });
+
+            // Never trust a client-supplied price: snapshot the live server price instead
+            const price = await getProductPrice(pool, productId, null, preferences?.purity);
+            if (!price) return res.status(404).json({ error: 'Product not found' });
+            if (preferences?.purity && price.purity !== preferences.purity) return res.status(400).json({ error: 'Purity not offered for this product' });
+            const priceWhenWishlisted = Math.round(price.total);
             
             await pool.query(
                 'INSERT INTO wishlist (customerId, productId, priceWhenWishlisted, preferences, createdAt) VALUES (?, ?, ?, ?, NOW()) ON DUPLICATE KEY UPDATE priceWhenWishlisted = ?, preferences = ?', 
-                [customerId, productId, priceWhenWishlisted || 0, JSON.stringify(preferences || {}), priceWhenWishlisted || 0, JSON.stringify(preferences || {})]
+                [customerId, productId, priceWhenWishlisted, JSON.stringify(preferences || {}), priceWhenWishlisted, JSON.stringify(preferences || {})]
             );
             res.json({ success: true });
         } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
@@ -27,34 +50,68 @@ export default function wishlistRoutes(pool, sanitizeProduct) {
 
     router.get('/wishlist/:customerId', async (req, res) => {
         try {
+            const locale = negotiateLocale(req, res);
             const [rows] = await pool.query(`
                 SELECT p.*, w.priceWhenWishlisted, w.preferences, w.createdAt as wishlistedAt 
                 FROM wishlist w 
                 JOIN products p ON w.productId = p.id 
-                WHERE w.customerId = ? 
+                WHERE w.customerId = ? AND p.deletedAt IS NULL
                 ORDER BY w.createdAt DESC
             `, [req.params.customerId]);
-            res.json(rows.map(sanitizeProduct).map((p, i) => ({ ...p, priceWhenWishlisted: rows[i].priceWhenWishlisted, preferences: rows[i].preferences, wishlistedAt: rows[i].wishlistedAt })));
+            res.json(rows.map(row => localizeProduct(sanitizeProduct(row), locale)).map((p, i) => ({ ...p, priceWhenWishlisted: rows[i].priceWhenWishlisted, preferences: parsePreferences(rows[i].preferences), wishlistedAt: rows[i].wishlistedAt })));
         } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
     });
 
     router.get('/admin/wishlists/all', requireStaff, async (req, res) => {
         try {
             const [rows] = await pool.query(`
-                SELECT w.id as wishlistId, w.customerId, w.productId, w.priceWhenWishlisted, w.createdAt, w.lastNotifiedAt,
+                SELECT w.id as wishlistId, w.customerId, w.productId, w.priceWhenWishlisted, w.preferences, w.createdAt, w.lastNotifiedAt,
                        p.title, p.category, p.meta, p.weight, p.images, p.thumbnails, p.isHidden,
                        c.phone, c.name as customerName
                 FROM wishlist w
                 JOIN products p ON w.productId = p.id
                 JOIN customers c ON w.customerId = c.id
+                WHERE p.deletedAt IS NULL
             `);
-            res.json(rows);
+            const pricing = await getPricingConfig(pool);
+            res.json(await Promise.all(rows.map(async r => {
+                const price = calculatePrice(r, pricing, parsePreferences(r.preferences).purity);
+                const rateThen = await getRateWhenWishlisted(r, pricing, price.purity);
+                return { ...r, currentPrice: Math.round(price.total), rateNow: Math.round(price.goldRate), rateWhenWishlisted: rateThen?.rate ?? null };
+            })));
+        } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
+    });
+
+    router.get('/wishlist/:customerId/:productId/rate-context', async (req, res) => {
+        try {
+            const [rows] = await pool.query(`
+                SELECT w.priceWhenWishlisted, w.preferences, w.createdAt, p.id, p.category, p.weight, p.meta
+                FROM wishlist w
+                JOIN products p ON w.productId = p.id
+                WHERE w.customerId = ? AND w.productId = ?
+            `, [req.params.customerId, req.params.productId]);
+            if (rows.length === 0) return res.status(404).json({ error: 'Wishlist entry not found' });
+
+            const row = rows[0];
+            const pricing = await getPricingConfig(pool);
+            const purity = parsePreferences(row.preferences).purity || getDefaultPurity(row);
+            const price = calculatePrice(row, pricing, purity);
+            const rateThen = await getRateWhenWishlisted(row, pricing, price.purity);
+            res.json({
+                purity: price.purity,
+                wishlistedAt: row.createdAt,
+                priceWhenWishlisted: row.priceWhenWishlisted,
+                currentPrice: Math.round(price.total),
+                rateWhenWishlisted: rateThen?.rate ?? null,
+                rateSource: rateThen?.source ?? null,
+                rateNow: Math.round(price.goldRate)
+            });
         } catch (e) { res.status(500).json({ error: 'Internal server error' }); }
     });
 
     router.post('/admin/wishlists/notify', requireStaff, async (req, res) => {
         try {
-            const { notifications } = req.body; // Array of { wishlistId, customerId, phone, productTitle, currentPrice }
+            const { notifications } = req.body; // Array of { wishlistId, customerId, phone, productTitle }
             
             const [configRows] = await pool.query('SELECT setting_key, setting_value FROM system_settings WHERE setting_key IN ("whatsappNumber", "whatsappToken", "whatsappPhoneId", "whatsappWishlistTemplateName")');
             const config = {};
@@ -67,15 +124,22 @@ export default function wishlistRoutes(pool, sanitizeProduct) {
             }
             
             const templateName = config.whatsappWishlistTemplateName || 'wishlist_price_drop';
+            const pricing = await getPricingConfig(pool);
 
             for (const notif of notifications) {
                 // Check 3 day anti spam logic again
-                const [w] = await pool.query('SELECT lastNotifiedAt FROM wishlist WHERE id = ?', [notif.wishlistId]);
-                if (w[0] && w[0].lastNotifiedAt) {
+                const [w] = await pool.query('SELECT productId, priceWhenWishlisted, preferences, lastNotifiedAt FROM wishlist WHERE id = ?', [notif.wishlistId]);
+                if (!w[0]) continue;
+                if (w[0].lastNotifiedAt) {
                     const diffDays = (new Date() - new Date(w[0].lastNotifiedAt)) / (1000 * 60 * 60 * 24);
                     if (diffDays < 3) continue; // Skip if notified within last 3 days
                 }
 
+                // Re-verify the drop against the server price rather than the value the client sent
+                const price = await getProductPrice(pool, w[0].productId, pricing, parsePreferences(w[0].preferences).purity);
+                if (!price || price.total >= w[0].priceWhenWishlisted) continue;
+                const currentPrice = Math.round(price.total);
+
                 try {
                     // Rate Limiting (Optimization) avoiding hitting API too fast
                     await new Promise(r => setTimeout(r, 200));
@@ -100,7 +164,7 @@ export default function wishlistRoutes(pool, sanitizeProduct) {
                                         parameters: [
                                             { type: "text", text: String(notif.customerName || "Customer").substring(0, 30) },
                                             { type: "text", text: String(notif.productTitle).substring(0, 30) }, // Limit length for safety
-                                            { type: "text", text: "₹" + String(notif.currentPrice) }
+                                            { type: "text", text: "₹" + String(currentPrice) }
                                         ]
                                     },
                                     {
@@ -110,7 +174,7 @@ export default function wishlistRoutes(pool, sanitizeProduct) {
                                         parameters: [
                                             {
                                                 type: "text",
-                                                text: String(notif.productId)
+                                                text: String(w[0].productId)
                                             }
                                         ]
                                     }
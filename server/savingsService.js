@@ -0,0 +1,50 @@
+// Gold savings / installment plans.
+// A plan is either tied to a product (booking advance + balance spread over paymentPlans months)
+// or a free monthly savings amount. Every payment is converted to grams at that day's rate.
+
+export const PLAN_TYPES = { PRODUCT: 'product', SAVINGS: 'savings' };
+
+// WhatsApp reminders go out this many days ahead of a due date
+export const INSTALLMENT_REMINDER_DAYS = 3;
+
+// Longest free savings plan; each month is one installment row
+export const MAX_SAVINGS_MONTHS = 60;
+
+const toDateString = (date) => date.toISOString().slice(0, 10);
+
+// Calendar month step that clamps to the last day (31 Jan + 1 month = 28/29 Feb)
+const addMonths = (date, months) => {
+    const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+    const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+    d.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+    return d;
+};
+
+// Splits an amount into whole-rupee parts; the last part absorbs the rounding difference
+const splitAmount = (total, parts) => {
+    const each = Math.floor(total / parts);
+    return Array.from({ length: parts }, (_, i) => (i === parts - 1 ? total - each * (parts - 1) : each));
+};
+
+export const buildInstallmentSchedule = ({ planType, months, advancePercent = 0, totalAmount = 0, monthlyAmount = 0, startDate = new Date() }) => {
+    const start = new Date(Date.UTC(startDate.getFullYear(), startDate.getMonth(), startDate.getDate()));
+    const count = Math.max(1, Math.round(Number(months) || 1));
+
+    if (planType === PLAN_TYPES.SAVINGS) {
+        const amount = Math.round(Number(monthlyAmount) || 0);
+        return Array.from({ length: count }, (_, i) => ({ installmentNo: i + 1, dueDate: toDateString(addMonths(start, i)), amount }));
+    }
+
+    const total = Math.round(Number(totalAmount) || 0);
+    const advance = Math.round(total * (Number(advancePercent) || 0) / 100);
+    const schedule = [];
+    if (advance > 0) schedule.push({ installmentNo: 1, dueDate: toDateString(start), amount: advance });
+    if (total - advance > 0) {
+        splitAmount(total - advance, count).forEach((amount, i) => {
+            schedule.push({ installmentNo: schedule.length + 1, dueDate: toDateString(addMonths(start, i + 1)), amount });
+        });
+    }
+    return schedule;
+};
+
+export const gramsForAmount = (amount, rate) => (rate > 0 ? Math.round((Number(amount) / rate) * 1000) / 1000 : 0);
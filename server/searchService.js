@@ -0,0 +1,289 @@
+// Catalog search.
+// An in-memory inverted index over title, tags, category, sub-category and description, rebuilt
+// from MySQL when it goes stale. Queries are ranked by field-weighted TF-IDF, expanded with
+// jewellery synonyms (kada <-> bangle) and tolerate small typos. Facet counts are computed over
+// the same filtered set so the gallery can show how many pieces each chip leads to.
+import { calculatePrice } from './pricingService.js';
+import { isInPublishWindow } from './publishScheduleService.js';
+
+const INDEX_TTL = 5 * 60 * 1000;
+
+const FIELD_WEIGHTS = { title: 3, tags: 2, category: 2, subCategory: 2, description: 1 };
+
+// Expanded terms score lower than the word the customer actually typed
+const SYNONYM_WEIGHT = 0.8;
+const PREFIX_WEIGHT = 0.6;
+const FUZZY_WEIGHT = 0.5;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'for', 'in', 'with', 'to', 'on', 'me', 'show', 'under']);
+
+// Regional names customers use interchangeably with catalog categories
+const SYNONYM_GROUPS = [
+    ['kada', 'bangle', 'kangan', 'chudi', 'choodi'],
+    ['jhumka', 'jhumki', 'earring', 'bali', 'karanphool'],
+    ['necklace', 'haar', 'hara', 'mala'],
+    ['ring', 'anguthi', 'angoothi'],
+    ['anklet', 'payal', 'pajeb'],
+    ['nath', 'nathni', 'nosering', 'nosepin'],
+    ['pendant', 'locket'],
+    ['tikka', 'maangtikka', 'maang'],
+    ['bracelet', 'lucky'],
+    ['diamond', 'heera'],
+    ['gold', 'sona']
+];
+
+export const WEIGHT_BUCKETS = [
+    { value: '0-5', label: 'Under 5g', min: 0, max: 5 },
+    { value: '5-10', label: '5 - 10g', min: 5, max: 10 },
+    { value: '10-20', label: '10 - 20g', min: 10, max: 20 },
+    { value: '20-50', label: '20 - 50g', min: 20, max: 50 },
+    { value: '50+', label: '50g+', min: 50, max: Infinity }
+];
+
+export const PRICE_BUCKETS = [
+    { value: '0-25000', label: 'Under ₹25K', min: 0, max: 25000 },
+    { value: '25000-50000', label: '₹25K - 50K', min: 25000, max: 50000 },
+    { value: '50000-100000', label: '₹50K - 1L', min: 50000, max: 100000 },
+    { value: '100000-200000', label: '₹1L - 2L', min: 100000, max: 200000 },
+    { value: '200000+', label: '₹2L+', min: 200000, max: Infinity }
+];
+
+const parseJson = (val, fallback) => {
+    if (val && typeof val === 'object') return val;
+    try { return JSON.parse(val) ?? fallback; } catch { return fallback; }
+};
+
+// Lowercase word tokens with a light plural strip so "bangles" finds "bangle". Letters and
+// combining marks of any script count, so translated Marathi, Hindi and Gujarati titles index too.
+export const tokenize = (text) => String(text || '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(t => t && !STOP_WORDS.has(t))
+    .map(t => (t.length > 3 && t.endsWith('s') && !t.endsWith('ss') ? t.slice(0, -1) : t));
+
+const SYNONYMS = new Map();
+SYNONYM_GROUPS.forEach(group => group.forEach(term => SYNONYMS.set(term, group.filter(t => t !== term))));
+
+const editDistance = (a, b, limit) => {
+    if (Math.abs(a.length - b.length) > limit) return limit + 1;
+    let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const curr = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            rowMin = Math.min(rowMin, curr[j]);
+        }
+        if (rowMin > limit) return limit + 1;
+        prev = curr;
+    }
+    return prev[b.length];
+};
+
+export const buildSearchIndex = (rows) => {
+    const docs = new Map();
+    const postings = new Map();
+
+    for (const row of rows) {
+        const meta = parseJson(row.meta, {});
+        docs.set(row.id, {
+            id: row.id,
+            category: row.category || '',
+            subCategory: row.subCategory || '',
+            supplier: row.supplier || '',
+            weight: Number(row.weight) || 0,
+            isHidden: !!row.isHidden,
+            publishAt: row.publishAt ? new Date(row.publishAt).getTime() : null,
+            unpublishAt: row.unpublishAt ? new Date(row.unpublishAt).getTime() : null,
+            parentId: row.parentId || null,
+            availability: row.availability || 'available',
+            createdAt: new Date(row.createdAt || 0).getTime(),
+            meta,
+            pricingInput: { category: row.category, weight: row.weight, meta }
+        });
+
+        const translations = Object.values(parseJson(row.translations, {}) || {});
+        const fields = {
+            title: [row.title, ...translations.map(t => t.title)].join(' '),
+            tags: parseJson(row.tags, []).join(' '),
+            category: row.category,
+            subCategory: row.subCategory,
+            description: [row.description, ...translations.map(t => t.description)].join(' ')
+        };
+        for (const [field, text] of Object.entries(fields)) {
+            for (const term of tokenize(text)) {
+                if (!postings.has(term)) postings.set(term, new Map());
+                const list = postings.get(term);
+                list.set(row.id, (list.get(row.id) || 0) + FIELD_WEIGHTS[field]);
+            }
+        }
+    }
+
+    return { docs, postings, vocabulary: [...postings.keys()] };
+};
+
+// Every index term a query token can match, with how much a hit on it is worth
+const expandToken = (index, token) => {
+    const matches = new Map();
+    const add = (term, weight) => {
+        if (index.postings.has(term) && (matches.get(term) || 0) < weight) matches.set(term, weight);
+    };
+
+    add(token, 1);
+    (SYNONYMS.get(token) || []).forEach(s => add(s, SYNONYM_WEIGHT));
+
+    if (token.length >= 3) {
+        const maxTypos = token.length >= 7 ? 2 : token.length >= 4 ? 1 : 0;
+        for (const term of index.vocabulary) {
+            if (term !== token && term.startsWith(token)) add(term, PREFIX_WEIGHT);
+            else if (maxTypos && editDistance(token, term, maxTypos) <= maxTypos) {
+                add(term, FUZZY_WEIGHT);
+                (SYNONYMS.get(term) || []).forEach(s => add(s, FUZZY_WEIGHT * SYNONYM_WEIGHT));
+            }
+        }
+    }
+    return matches;
+};
+
+// Returns a Map of productId -> relevance score. Every query word must match unless that
+// leaves nothing, in which case pieces matching any word are returned.
+export const rankQuery = (index, query) => {
+    const tokens = [...new Set(tokenize(query))];
+    if (tokens.length === 0) return null;
+
+    const total = index.docs.size || 1;
+    const perToken = tokens.map(token => {
+        const scores = new Map();
+        for (const [term, weight] of expandToken(index, token)) {
+            const list = index.postings.get(term);
+            const idf = Math.log(1 + total / list.size);
+            for (const [docId, tf] of list) scores.set(docId, (scores.get(docId) || 0) + tf * idf * weight);
+        }
+        return scores;
+    });
+
+    const combine = (requireAll) => {
+        const result = new Map();
+        for (const scores of perToken) {
+            for (const [docId, score] of scores) result.set(docId, (result.get(docId) || 0) + score);
+        }
+        if (requireAll) {
+            for (const docId of result.keys()) {
+                if (!perToken.every(s => s.has(docId))) result.delete(docId);
+            }
+        }
+        return result;
+    };
+
+    const strict = combine(true);
+    return strict.size > 0 ? strict : combine(false);
+};
+
+const findBucket = (buckets, value) => buckets.find(b => value >= b.min && value < b.max);
+
+// Same order as the SQL listing (createdAt DESC, id DESC) so cursors work across both
+const newestFirst = (a, b) => b.createdAt - a.createdAt || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+const inRange = (value, min, max) => (min === undefined || value >= min) && (max === undefined || value <= max);
+
+export const SORT_OPTIONS = ['newest', 'weight', 'price', 'popularity'];
+
+// Direction used when the request names a sort but no order
+const DEFAULT_SORT_ORDER = { newest: 'desc', popularity: 'desc', weight: 'asc', price: 'asc' };
+
+const makingSegmentOf = (doc, config) => doc.meta.makingChargeSegmentId || config.defaultMakingChargeSegmentId;
+
+const countBy = (docs, keyOf) => {
+    const counts = new Map();
+    for (const doc of docs) {
+        const key = keyOf(doc);
+        if (key) counts.set(key, (counts.get(key) || 0) + 1);
+    }
+    return counts;
+};
+
+/**
+ * Runs a catalog search against the index.
+ * filters: { search, category, subCategory, supplier, makingSegment, weightBucket, priceBucket,
+ *            minWeight, maxWeight, minPrice, maxPrice, isPublic, hideSold }
+ * options: { withFacets, sort, order, popularity } where popularity maps productId -> score.
+ * Without a sort, text searches are ordered by relevance and everything else by newest first.
+ * Returns the ordered list of matching ids and, when requested, facet counts. Each facet is
+ * counted with every filter applied except its own, so picking a chip never hides its siblings.
+ */
+export const searchCatalog = (index, pricingConfig, filters, { withFacets = false, sort, order, popularity } = {}) => {
+    const scores = filters.search ? rankQuery(index, filters.search) : null;
+
+    const candidates = [];
+    for (const doc of index.docs.values()) {
+        // Variants are reached through their main piece, so public results list only main pieces
+        // (and variants whose main piece is in the trash)
+        if (filters.isPublic && (doc.isHidden || (doc.parentId && index.docs.has(doc.parentId)) || !isInPublishWindow(doc))) continue;
+        if (filters.hideSold && doc.availability === 'sold') continue;
+        if (scores && !scores.has(doc.id)) continue;
+        candidates.push(doc);
+    }
+
+    // Prices move with the gold rate, so they are computed per search rather than indexed
+    const prices = new Map();
+    const priceOf = (doc) => {
+        if (!prices.has(doc.id)) prices.set(doc.id, Math.round(calculatePrice(doc.pricingInput, pricingConfig).total));
+        return prices.get(doc.id);
+    };
+
+    const predicates = {
+        category: doc => !filters.category || filters.category === 'All' || doc.category === filters.category,
+        subCategory: doc => !filters.subCategory || doc.subCategory === filters.subCategory,
+        supplier: doc => !filters.supplier || doc.supplier === filters.supplier,
+        makingSegment: doc => !filters.makingSegment || makingSegmentOf(doc, pricingConfig) === filters.makingSegment,
+        weight: doc => (!filters.weightBucket || findBucket(WEIGHT_BUCKETS, doc.weight)?.value === filters.weightBucket)
+            && inRange(doc.weight, filters.minWeight, filters.maxWeight),
+        price: doc => (!filters.priceBucket || findBucket(PRICE_BUCKETS, priceOf(doc))?.value === filters.priceBucket)
+            && (filters.minPrice === undefined && filters.maxPrice === undefined || inRange(priceOf(doc), filters.minPrice, filters.maxPrice))
+    };
+    const matchesExcept = (doc, skip) => Object.entries(predicates).every(([key, test]) => key === skip || test(doc));
+
+    const matched = candidates.filter(doc => matchesExcept(doc, null));
+    if (SORT_OPTIONS.includes(sort)) {
+        const keyOf = { newest: d => d.createdAt, weight: d => d.weight, price: priceOf, popularity: d => popularity?.get(d.id) || 0 }[sort];
+        const direction = (order === 'asc' || order === 'desc' ? order : DEFAULT_SORT_ORDER[sort]) === 'asc' ? 1 : -1;
+        matched.sort((a, b) => (keyOf(a) - keyOf(b)) * direction || newestFirst(a, b));
+    } else {
+        matched.sort((a, b) => (scores ? scores.get(b.id) - scores.get(a.id) : 0) || newestFirst(a, b));
+    }
+
+    let facets;
+    if (withFacets) {
+        const toList = (counts) => [...counts.entries()].map(([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count);
+        const toBuckets = (buckets, counts) => buckets.map(b => ({ value: b.value, label: b.label, count: counts.get(b.value) || 0 }));
+        facets = {
+            category: toList(countBy(candidates.filter(d => matchesExcept(d, 'category')), d => d.category)),
+            subCategory: toList(countBy(candidates.filter(d => matchesExcept(d, 'subCategory')), d => d.subCategory)),
+            weight: toBuckets(WEIGHT_BUCKETS, countBy(candidates.filter(d => matchesExcept(d, 'weight')), d => findBucket(WEIGHT_BUCKETS, d.weight)?.value)),
+            price: toBuckets(PRICE_BUCKETS, countBy(candidates.filter(d => matchesExcept(d, 'price')), d => findBucket(PRICE_BUCKETS, priceOf(d))?.value))
+        };
+    }
+
+    return { ids: matched.map(d => d.id), total: matched.length, facets };
+};
+
+// All-time engagement per product, weighted the same way as the curated "trending" shelf
+export const getPopularityScores = async (pool) => {
+    const [rows] = await pool.query(`
+        SELECT productId, SUM(CASE WHEN type = 'inquiry' THEN 5 WHEN type = 'screenshot' THEN 4 WHEN type = 'like' THEN 3 WHEN type = 'view' THEN 1 ELSE 0 END) as score
+        FROM analytics WHERE productId IS NOT NULL GROUP BY productId
+    `);
+    return new Map(rows.map(r => [r.productId, Number(r.score) || 0]));
+};
+
+/**
+ * Returns the cached index, rebuilding it from the products table when it has been
+ * invalidated (cache.data = null) or is older than INDEX_TTL.
+ */
+export const getSearchIndex = async (pool, cache) => {
+    if (cache.data && Date.now() - cache.lastFetch < INDEX_TTL) return cache.data;
+    const [rows] = await pool.query('SELECT id, title, description, tags, category, subCategory, weight, supplier, isHidden, publishAt, unpublishAt, parentId, availability, createdAt, meta, translations FROM products WHERE deletedAt IS NULL');
+    cache.data = buildSearchIndex(rows);
+    cache.lastFetch = Date.now();
+    return cache.data;
+};
@@ -0,0 +1,74 @@
+// Ring and bangle sizing.
+// Size charts are configured per category in Settings (sizeCharts). Each chart lists its sizes
+// smallest first with the inner diameter, so a piece can be matched against a customer's saved
+// size and, where the chart allows it, resized a few steps up or down.
+
+const ringSize = (n) => ({ label: String(n), diameterMm: Math.round((13 + (n - 1) * 0.33) * 10) / 10 });
+
+// Indian ring sizes 1-30 (about 0.33 mm of inner diameter per step) and bangle sizes in
+// inches-and-sixteenths (2.6 = 2 6/16")
+export const DEFAULT_SIZE_CHARTS = [
+    {
+        id: 'ring',
+        name: 'Ring (Indian)',
+        categories: ['Ring', 'Rings'],
+        resizeSteps: 2,
+        sizes: Array.from({ length: 30 }, (_, i) => ringSize(i + 1))
+    },
+    {
+        id: 'bangle',
+        name: 'Bangle',
+        categories: ['Bangle', 'Bangles', 'Kada', 'Kadas'],
+        resizeSteps: 0,
+        sizes: [
+            { label: '2.2', diameterMm: 54.0 },
+            { label: '2.4', diameterMm: 57.2 },
+            { label: '2.6', diameterMm: 60.3 },
+            { label: '2.8', diameterMm: 63.5 },
+            { label: '2.10', diameterMm: 66.7 },
+            { label: '2.12', diameterMm: 69.9 }
+        ]
+    }
+];
+
+const parseJson = (val, fallback) => {
+    if (val && typeof val === 'object') return val;
+    try { return JSON.parse(val) ?? fallback; } catch { return fallback; }
+};
+
+export const parseSizeCharts = (val) => {
+    const charts = parseJson(val, null);
+    return Array.isArray(charts) ? charts : DEFAULT_SIZE_CHARTS;
+};
+
+export const getSizeCharts = async (pool) => {
+    const [rows] = await pool.query('SELECT setting_value FROM system_settings WHERE setting_key = "sizeCharts"');
+    return rows.length ? parseSizeCharts(rows[0].setting_value) : DEFAULT_SIZE_CHARTS;
+};
+
+// Drops blank sizes and keeps the fields the size guide reads
+export const cleanSizeCharts = (charts) => charts
+    .filter(c => c && c.id && c.name)
+    .map(c => ({
+        id: String(c.id),
+        name: String(c.name).trim(),
+        categories: (Array.isArray(c.categories) ? c.categories : []).map(cat => String(cat).trim()).filter(Boolean),
+        resizeSteps: Math.max(0, parseInt(c.resizeSteps) || 0),
+        sizes: (Array.isArray(c.sizes) ? c.sizes : [])
+            .filter(s => s && String(s.label ?? '').trim())
+            .map(s => ({ label: String(s.label).trim(), diameterMm: Number(s.diameterMm) || 0 }))
+    }));
+
+// Keeps only chart ids that exist and sizes listed on that chart; an empty value clears the size
+export const cleanCustomerSizes = (sizes, charts) => {
+    const clean = {};
+    if (!sizes || typeof sizes !== 'object') return clean;
+    for (const chart of charts) {
+        const value = sizes[chart.id];
+        if (value === undefined || value === null || value === '') continue;
+        if (chart.sizes.some(s => s.label === String(value))) clean[chart.id] = String(value);
+    }
+    return clean;
+};
+
+export const parseCustomerSizes = (val) => parseJson(val, {}) || {};
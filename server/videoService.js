@@ -0,0 +1,187 @@
+// Uploaded video processing.
+// Each video is transcoded to an H.264 MP4 (the product's media) and a VP9 WebM, capped at
+// 1280px on the long side, plus a 3 second muted loop for gallery cards and a poster frame saved
+// like any other image. Transcoding takes a while, so uploads get a job id and clients poll
+// GET /api/media/jobs/:id for progress and the finished files.
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import { existsSync, writeFileSync, mkdirSync, readFileSync, unlinkSync, renameSync } from 'fs';
+import ffmpeg from 'fluent-ffmpeg';
+import { contentHash, safeFileName, saveImageVariants, DEFAULT_IMAGE_WIDTHS } from './mediaService.js';
+
+export const VIDEO_DIR = 'video';
+export const MAX_VIDEO_SIDE = 1280;
+export const PREVIEW_SIDE = 480;
+export const PREVIEW_SECONDS = 3;
+
+// Long side capped without upscaling; both sides kept even, as the encoders require
+const scaleFilter = (maxSide) =>
+    `scale='if(gte(iw,ih),trunc(min(${maxSide},iw)/2)*2,-2)':'if(gte(iw,ih),-2,trunc(min(${maxSide},ih)/2)*2)'`;
+
+const OUTPUTS = {
+    mp4: [
+        '-c:v libx264', '-preset veryfast', '-profile:v high', '-pix_fmt yuv420p',
+        '-crf 23', '-maxrate 2500k', '-bufsize 5000k',
+        '-c:a aac', '-b:a 128k', '-ac 2',
+        '-movflags +faststart'
+    ],
+    // Realtime VP9 settings; the upload box has a single core
+    webm: [
+        '-c:v libvpx-vp9', '-deadline realtime', '-cpu-used 8', '-row-mt 1', '-pix_fmt yuv420p',
+        '-crf 34', '-b:v 1800k', '-maxrate 2000k',
+        '-c:a libopus', '-b:a 96k', '-ac 2'
+    ],
+    preview: [
+        '-c:v libx264', '-preset veryfast', '-pix_fmt yuv420p', '-crf 28', '-maxrate 800k', '-bufsize 1600k',
+        '-an', '-movflags +faststart'
+    ]
+};
+
+// "00:01:02.50" -> 62.5
+const parseTimemark = (mark) => {
+    const [h, m, s] = String(mark || '0:0:0').split(':').map(Number);
+    return Math.round(((h || 0) * 3600 + (m || 0) * 60 + (s || 0)) * 100) / 100;
+};
+
+// Runs one ffmpeg command. Resolves with the input's duration and frame size from the stream
+// header, which is all we need from it and saves shipping ffprobe.
+const runFfmpeg = (input, output, { duration, frames, filter, options = [] }, onProgress) => new Promise((resolve, reject) => {
+    let probe = { duration: 0, width: 0, height: 0 };
+    const command = ffmpeg(input);
+    if (duration) command.duration(duration);
+    if (frames) command.frames(frames);
+    if (filter) command.videoFilters(filter);
+    command
+        .outputOptions(options)
+        .on('codecData', (data) => {
+            const size = String(data.video_details || '').match(/(\d{2,5})x(\d{2,5})/);
+            probe = { duration: parseTimemark(data.duration), width: size ? Number(size[1]) : 0, height: size ? Number(size[2]) : 0 };
+        })
+        .on('progress', (p) => {
+            if (onProgress && probe.duration) onProgress(Math.min(1, parseTimemark(p.timemark) / (duration || probe.duration)));
+        })
+        .on('error', reject)
+        .on('end', () => resolve(probe))
+        .save(output);
+});
+
+const jobs = new Map();
+const JOB_TTL_MS = 60 * 60 * 1000;
+// Videos are transcoded one at a time so an upload batch can't starve the API of CPU
+let queueTail = Promise.resolve();
+
+const publicJob = (job) => ({
+    id: job.id,
+    originalName: job.originalName,
+    status: job.status,
+    stage: job.stage,
+    progress: Math.round(job.progress * 100),
+    result: job.result,
+    error: job.error
+});
+
+export const getVideoJob = (id) => {
+    const job = jobs.get(id);
+    return job ? publicJob(job) : null;
+};
+
+// Share of the overall progress each stage accounts for
+const STAGES = [
+    { stage: 'mp4', weight: 0.55 },
+    { stage: 'webm', weight: 0.35 },
+    { stage: 'preview', weight: 0.05 },
+    { stage: 'poster', weight: 0.05 }
+];
+
+const processVideo = async (job, buffer, uploadsRoot, widths) => {
+    const dir = path.join(uploadsRoot, VIDEO_DIR);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    const stem = `${contentHash(buffer)}-${safeFileName(job.originalName).replace(/\.[^.]+$/, '')}`;
+    const file = (suffix) => path.join(dir, `${stem}${suffix}`);
+    const url = (suffix) => `/uploads/${VIDEO_DIR}/${stem}${suffix}`;
+
+    const source = path.join(os.tmpdir(), `upload-${job.id}${path.extname(job.originalName) || '.mp4'}`);
+    writeFileSync(source, buffer);
+
+    let done = 0;
+    const step = async (index, run) => {
+        const { stage, weight } = STAGES[index];
+        job.stage = stage;
+        const result = await run((fraction) => { job.progress = done + weight * fraction; });
+        done += weight;
+        job.progress = done;
+        return result;
+    };
+
+    // Written under a temporary name so a half-finished file is never served
+    const encode = (input, suffix, settings, onProgress) => {
+        const target = file(suffix);
+        if (existsSync(target)) return Promise.resolve(null);
+        const partial = file(`.part${suffix}`);
+        return runFfmpeg(input, partial, settings, onProgress).then((probe) => {
+            renameSync(partial, target);
+            return probe;
+        });
+    };
+
+    try {
+        const filter = scaleFilter(MAX_VIDEO_SIDE);
+        await step(0, (onProgress) => encode(source, '.mp4', { filter, options: OUTPUTS.mp4 }, onProgress));
+        await step(1, (onProgress) => encode(source, '.webm', { filter, options: OUTPUTS.webm }, onProgress));
+        await step(2, (onProgress) => encode(file('.mp4'), '-preview.mp4', { duration: PREVIEW_SECONDS, filter: scaleFilter(PREVIEW_SIDE), options: OUTPUTS.preview }, onProgress));
+
+        // Read back from the transcoded file so the size reflects rotation and the cap.
+        // ffmpeg's thumbnail filter picks the most representative of the opening frames.
+        const poster = await step(3, async () => {
+            const frame = path.join(os.tmpdir(), `poster-${job.id}.png`);
+            try {
+                const probe = await runFfmpeg(file('.mp4'), frame, { frames: 1, filter: 'thumbnail', options: ['-f image2', '-vcodec png'] });
+                const saved = await saveImageVariants(readFileSync(frame), `${safeFileName(path.parse(job.originalName).name)}-poster.png`, uploadsRoot, widths);
+                return { ...saved, probe };
+            } finally {
+                if (existsSync(frame)) unlinkSync(frame);
+            }
+        });
+
+        job.result = {
+            originalName: job.originalName,
+            primary: url('.mp4'),
+            thumbnail: poster.thumbnail,
+            manifest: { src: url('.mp4'), variants: [] },
+            video: {
+                webm: url('.webm'),
+                preview: url('-preview.mp4'),
+                poster: poster.thumbnail,
+                duration: poster.probe.duration,
+                width: poster.probe.width,
+                height: poster.probe.height
+            }
+        };
+        job.status = 'complete';
+    } catch (e) {
+        console.error('[Video] Transcode failed:', e.message);
+        job.status = 'error';
+        job.error = 'Video could not be processed';
+        for (const suffix of ['.part.mp4', '.part.webm', '.part-preview.mp4']) {
+            if (existsSync(file(suffix))) unlinkSync(file(suffix));
+        }
+    } finally {
+        if (existsSync(source)) unlinkSync(source);
+        job.finishedAt = Date.now();
+    }
+};
+
+// Queues a video for transcoding and returns its job id straight away
+export const startVideoJob = (buffer, originalName, uploadsRoot, widths = DEFAULT_IMAGE_WIDTHS) => {
+    for (const [id, job] of jobs) {
+        if (job.finishedAt && Date.now() - job.finishedAt > JOB_TTL_MS) jobs.delete(id);
+    }
+    const job = { id: crypto.randomUUID(), originalName, status: 'queued', stage: null, progress: 0, result: null, error: null, finishedAt: null };
+    jobs.set(job.id, job);
+    queueTail = queueTail.then(() => {
+        job.status = 'processing';
+        return processVideo(job, buffer, uploadsRoot, widths);
+    });
+    return job.id;
+};
@@ -0,0 +1,484 @@
+// Invisible forensic watermarking of product images.
+// Every customer and shared link gets a numeric mark (viewer_marks). Images served to them carry
+// the mark as a faint keyed noise pattern in the brightness: the frame is split into a 24x24 grid
+// of cells, each cell carries one bit of the 32-bit mark or its 16-bit checksum, and every bit is
+// spread over 12 cells. The pattern is laid out relative to the frame, so it survives resizing,
+// recompression (JPEG, WebP) and screenshots that trim a few percent off the edges, though not
+// heavy cropping.
+// Decoding correlates a found image against the same pattern and recovers the mark.
+// Product photos are only served through the marking routes: guests share one anonymous mark, and
+// staff hold a short-lived signed pass that returns the files as stored.
+//
+// Private categories and shared links can also get a visible watermark (visibleWatermark in
+// Settings): the shop logo with the viewer's phone last 4 digits and the date, drawn under the
+// invisible mark.
+import path from 'path';
+import crypto from 'crypto';
+import cron from 'node-cron';
+import { existsSync, mkdirSync, writeFileSync, renameSync, readFileSync, readdirSync, statSync, unlinkSync } from 'fs';
+import { RESIZE_CACHE_DIR, variantStem } from './mediaService.js';
+
+const GRID = 24;
+const CHIPS_PER_CELL = 4;
+const SIDE = GRID * CHIPS_PER_CELL; // Pattern resolution in chips per side
+const MARK_BITS = 32;
+const CHECK_BITS = 16;
+const PAYLOAD_BITS = MARK_BITS + CHECK_BITS;
+// Brightness change in 0-255 levels; busy areas take more than flat ones before it shows
+const MIN_STRENGTH = 2;
+const MAX_STRENGTH = 7;
+const TEXTURE_GAIN = 0.6;
+const DECODE_SIZE = SIDE * 4;
+
+const secret = () => process.env.WATERMARK_SECRET || process.env.JWT_SECRET;
+
+// Deterministic stream of 32-bit numbers from the secret, so embed and decode share one pattern
+const keyedStream = (label) => {
+    let counter = 0;
+    let block = Buffer.alloc(0);
+    let offset = 0;
+    return () => {
+        if (offset >= block.length) {
+            block = crypto.createHmac('sha256', secret()).update(`${label}:${counter++}`).digest();
+            offset = 0;
+        }
+        const value = block.readUInt32BE(offset);
+        offset += 4;
+        return value;
+    };
+};
+
+let pattern = null;
+
+// Chip signs (+1/-1) and which payload bit each chip carries, built once per process
+const getPattern = () => {
+    if (pattern) return pattern;
+    const next = keyedStream('watermark-pattern');
+    const signs = new Int8Array(SIDE * SIDE);
+    for (let i = 0; i < signs.length; i++) signs[i] = next() & 1 ? 1 : -1;
+
+    // Cells are dealt to bits round-robin in a keyed shuffle so each bit is scattered over the frame
+    const cells = Array.from({ length: GRID * GRID }, (_, i) => i);
+    for (let i = cells.length - 1; i > 0; i--) {
+        const j = next() % (i + 1);
+        [cells[i], cells[j]] = [cells[j], cells[i]];
+    }
+    const cellBit = new Uint8Array(GRID * GRID);
+    cells.forEach((cell, i) => { cellBit[cell] = i % PAYLOAD_BITS; });
+
+    const chipBit = new Uint8Array(SIDE * SIDE);
+    for (let y = 0; y < SIDE; y++) {
+        for (let x = 0; x < SIDE; x++) {
+            chipBit[y * SIDE + x] = cellBit[Math.floor(y / CHIPS_PER_CELL) * GRID + Math.floor(x / CHIPS_PER_CELL)];
+        }
+    }
+    pattern = { signs, chipBit };
+    return pattern;
+};
+
+// CRC-16/CCITT of the mark; a random read matches it one time in 65536
+const checksum = (value) => {
+    let crc = 0xffff;
+    for (let i = 3; i >= 0; i--) {
+        crc ^= ((value >>> (i * 8)) & 0xff) << 8;
+        for (let b = 0; b < 8; b++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+    return crc;
+};
+
+const toBits = (mark) => {
+    const bits = [];
+    for (let i = MARK_BITS - 1; i >= 0; i--) bits.push((mark >>> i) & 1);
+    const check = checksum(mark);
+    for (let i = CHECK_BITS - 1; i >= 0; i--) bits.push((check >>> i) & 1);
+    return bits;
+};
+
+// Grey levels of an image and of a blurred copy; the difference is the fine detail
+const readLuma = async (sharp, width, height, blur) => {
+    const grey = await sharp.clone().greyscale().raw().toBuffer();
+    const smooth = await sharp.clone().greyscale().blur(blur).raw().toBuffer();
+    return { grey, smooth, width, height };
+};
+
+// Returns the image re-encoded with the viewer's mark. `format` is a sharp output format.
+export const embedWatermark = async (input, mark, { format = 'webp', quality = 90 } = {}) => {
+    const { default: sharp } = await import('sharp');
+    const base = sharp(input).rotate().removeAlpha();
+    const { data, info } = await base.clone().raw().toBuffer({ resolveWithObject: true });
+    const { width, height, channels } = info;
+    const { grey, smooth } = await readLuma(base, width, height, 2);
+    const { signs, chipBit } = getPattern();
+    const bits = toBits(mark);
+
+    const chipAt = (x, y) => Math.min(SIDE - 1, Math.floor((y * SIDE) / height)) * SIDE + Math.min(SIDE - 1, Math.floor((x * SIDE) / width));
+
+    // Stronger where the photo already has detail to hide it in
+    const texture = new Float32Array(SIDE * SIDE);
+    const counts = new Uint32Array(SIDE * SIDE);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const chip = chipAt(x, y);
+            texture[chip] += Math.abs(grey[y * width + x] - smooth[y * width + x]);
+            counts[chip]++;
+        }
+    }
+    const delta = new Float32Array(SIDE * SIDE);
+    for (let chip = 0; chip < delta.length; chip++) {
+        const strength = Math.min(MAX_STRENGTH, MIN_STRENGTH + TEXTURE_GAIN * (texture[chip] / (counts[chip] || 1)));
+        delta[chip] = strength * signs[chip] * (bits[chipBit[chip]] ? 1 : -1);
+    }
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const d = delta[chipAt(x, y)];
+            const i = (y * width + x) * channels;
+            for (let c = 0; c < 3; c++) data[i + c] = Math.max(0, Math.min(255, Math.round(data[i + c] + d)));
+        }
+    }
+
+    return sharp(data, { raw: { width, height, channels } }).toFormat(format, { quality }).toBuffer();
+};
+
+// Sums the detail under each chip for one guess at which part of the original frame the found
+// image shows (x0..x1, y0..y1 as fractions), and reads the payload from it
+const readPayload = (detail, [x0, y0, x1, y1]) => {
+    const { signs, chipBit } = getPattern();
+    const scores = new Float64Array(PAYLOAD_BITS);
+    const energy = new Float64Array(PAYLOAD_BITS);
+    const toPixel = (chip, from, to) => Math.round((((chip + 0.5) / SIDE - from) / (to - from)) * DECODE_SIZE - 1);
+    for (let cy = 0; cy < SIDE; cy++) {
+        const py = toPixel(cy, y0, y1);
+        if (py < 0 || py > DECODE_SIZE - 2) continue;
+        for (let cx = 0; cx < SIDE; cx++) {
+            const px = toPixel(cx, x0, x1);
+            if (px < 0 || px > DECODE_SIZE - 2) continue;
+            // Centre of the chip only; its edges blur into the neighbours after resizing
+            const i = py * DECODE_SIZE + px;
+            const sum = detail[i] + detail[i + 1] + detail[i + DECODE_SIZE] + detail[i + DECODE_SIZE + 1];
+            const chip = cy * SIDE + cx;
+            scores[chipBit[chip]] += sum * signs[chip];
+            energy[chipBit[chip]] += sum * sum;
+        }
+    }
+
+    let mark = 0;
+    let check = 0;
+    let confidence = Infinity;
+    for (let b = 0; b < PAYLOAD_BITS; b++) {
+        const bit = scores[b] > 0 ? 1 : 0;
+        if (b < MARK_BITS) mark = (mark * 2) + bit;
+        else check = (check << 1) | bit;
+        // A sum of random-sign terms spreads by sqrt(energy); a real bit stands clear of it
+        confidence = Math.min(confidence, Math.abs(scores[b]) / (Math.sqrt(energy[b]) || 1));
+    }
+    return checksum(mark) === check ? { mark, confidence: Math.round(confidence * 100) / 100 } : null;
+};
+
+// Screenshots often trim a little off the edges, so up to 4% per side is tried
+const TRIMS = [0, 0.01, 0.02, 0.03, 0.04];
+// Trimmed guesses are many, so a checksum match there also needs every bit clear of noise
+const MIN_TRIMMED_CONFIDENCE = 0.1;
+
+// Reads the mark back from a found image. Returns { mark, confidence } where confidence is how far
+// the weakest bit stood from chance (above ~1 is a clean read), or null when no mark was found:
+// the image carries none, or too little of it survived.
+export const decodeWatermark = async (input) => {
+    const { default: sharp } = await import('sharp');
+    const base = sharp(input).rotate().removeAlpha().resize(DECODE_SIZE, DECODE_SIZE, { fit: 'fill' });
+    const { grey, smooth } = await readLuma(base, DECODE_SIZE, DECODE_SIZE, 3);
+    const detail = new Float32Array(grey.length);
+    for (let i = 0; i < detail.length; i++) detail[i] = grey[i] - smooth[i];
+
+    const full = readPayload(detail, [0, 0, 1, 1]);
+    if (full) return full;
+
+    let best = null;
+    for (const left of TRIMS) for (const top of TRIMS) for (const right of TRIMS) for (const bottom of TRIMS) {
+        if (!left && !top && !right && !bottom) continue;
+        const read = readPayload(detail, [left, top, 1 - right, 1 - bottom]);
+        if (read && read.confidence >= MIN_TRIMMED_CONFIDENCE && (!best || read.confidence > best.confidence)) best = read;
+    }
+    return best;
+};
+
+// Marks are random so one can't be guessed from another; a customer or link keeps theirs for good
+export const getViewerMark = async (pool, viewerType, viewerId) => {
+    const [rows] = await pool.query('SELECT mark FROM viewer_marks WHERE viewerType = ? AND viewerId = ?', [viewerType, viewerId]);
+    if (rows.length) return Number(rows[0].mark);
+    for (let attempt = 0; attempt < 5; attempt++) {
+        const mark = crypto.randomInt(1, 2 ** 32);
+        try {
+            await pool.query('INSERT INTO viewer_marks (mark, viewerType, viewerId, createdAt) VALUES (?, ?, ?, NOW())', [mark, viewerType, viewerId]);
+            return mark;
+        } catch (e) {
+            if (e.code !== 'ER_DUP_ENTRY') throw e;
+            // Either the number is taken or a parallel request just created this viewer's mark
+            const [existing] = await pool.query('SELECT mark FROM viewer_marks WHERE viewerType = ? AND viewerId = ?', [viewerType, viewerId]);
+            if (existing.length) return Number(existing[0].mark);
+        }
+    }
+    throw new Error('Could not allocate a viewer mark');
+};
+
+let guestMark = null;
+
+// The one mark every guest shares; a leak carrying it came from someone who wasn't signed in
+export const getGuestMark = async (pool) => {
+    if (!guestMark) guestMark = await getViewerMark(pool, 'guest', 'public');
+    return guestMark;
+};
+
+// Who a decoded mark was issued to, with enough detail for staff to follow it up
+export const findViewer = async (pool, mark) => {
+    const [rows] = await pool.query('SELECT viewerType, viewerId, createdAt FROM viewer_marks WHERE mark = ?', [mark]);
+    if (!rows.length) return null;
+    const { viewerType, viewerId, createdAt } = rows[0];
+    const viewer = { type: viewerType, id: viewerId, markedSince: createdAt };
+    if (viewerType === 'guest') return viewer;
+    if (viewerType === 'customer') {
+        const [customers] = await pool.query('SELECT name, phone, pincode FROM customers WHERE id = ?', [viewerId]);
+        return { ...viewer, ...customers[0] };
+    }
+    const [links] = await pool.query('SELECT type as linkType, targetId, createdAt as linkCreatedAt, expiresAt FROM links WHERE token = ?', [viewerId]);
+    return { ...viewer, ...links[0] };
+};
+
+// Image URLs carry the mark signed, so a viewer can't swap in someone else's
+const signature = (mark) => crypto.createHmac('sha256', secret()).update(`mark:${mark}`).digest('base64url').slice(0, 16);
+
+export const signMark = (mark) => `${mark.toString(36)}.${signature(mark)}`;
+
+export const verifyMarkToken = (token) => {
+    const [encoded, sig] = String(token || '').split('.');
+    const mark = parseInt(encoded, 36);
+    if (!mark || !sig) return null;
+    const given = Buffer.from(sig);
+    const expected = Buffer.from(signature(mark));
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected) ? mark : null;
+};
+
+const STAFF_PASS_TTL_MS = 24 * 60 * 60 * 1000;
+const staffSignature = (expires) => crypto.createHmac('sha256', secret()).update(`staff:${expires}`).digest('base64url').slice(0, 16);
+
+// "s.<expiry>.<signature>": lets staff tools load the photos as stored, so edits never carry a mark
+export const signStaffPass = () => {
+    const expires = (Date.now() + STAFF_PASS_TTL_MS).toString(36);
+    return `s.${expires}.${staffSignature(expires)}`;
+};
+
+export const verifyStaffPass = (token) => {
+    const [prefix, expires, sig] = String(token || '').split('.');
+    if (prefix !== 's' || !expires || !sig || parseInt(expires, 36) < Date.now()) return false;
+    const given = Buffer.from(sig);
+    const expected = Buffer.from(staffSignature(expires));
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+const parseJson = (val, fallback) => {
+    if (val && typeof val === 'object') return val;
+    try { return JSON.parse(val) ?? fallback; } catch { return fallback; }
+};
+
+export const WATERMARK_POSITIONS = ['bottom-right', 'bottom-left', 'top-right', 'top-left', 'center', 'tiled'];
+export const DEFAULT_VISIBLE_WATERMARK = { enabled: false, opacity: 0.35, position: 'bottom-right' };
+
+export const cleanVisibleWatermark = (value) => {
+    const settings = value && typeof value === 'object' ? value : {};
+    const opacity = Number(settings.opacity);
+    return {
+        enabled: !!settings.enabled,
+        opacity: Number.isFinite(opacity) && opacity > 0 ? Math.min(1, Math.max(0.05, opacity)) : DEFAULT_VISIBLE_WATERMARK.opacity,
+        position: WATERMARK_POSITIONS.includes(settings.position) ? settings.position : DEFAULT_VISIBLE_WATERMARK.position
+    };
+};
+
+export const parseVisibleWatermark = (val) => cleanVisibleWatermark(parseJson(val, null));
+
+export const getVisibleWatermark = async (pool) => {
+    const [rows] = await pool.query('SELECT setting_value FROM system_settings WHERE setting_key = "visibleWatermark"');
+    return rows.length ? parseVisibleWatermark(rows[0].setting_value) : DEFAULT_VISIBLE_WATERMARK;
+};
+
+// Images of pieces in private categories, by file stem so every width and format matches.
+// Reloaded every few minutes rather than per request.
+const PRIVATE_STEMS_TTL_MS = 5 * 60 * 1000;
+let privateStems = { stems: new Set(), loadedAt: 0 };
+
+const getPrivateImageStems = async (pool) => {
+    if (Date.now() - privateStems.loadedAt < PRIVATE_STEMS_TTL_MS) return privateStems.stems;
+    const [rows] = await pool.query('SELECT p.images, p.thumbnails FROM products p JOIN categories c ON c.name = p.category WHERE c.isPrivate = 1 AND p.deletedAt IS NULL');
+    const stems = new Set();
+    for (const row of rows) {
+        for (const url of [...parseJson(row.images, []), ...parseJson(row.thumbnails, [])]) {
+            if (typeof url !== 'string') continue;
+            const file = path.basename(url);
+            stems.add(variantStem(file) || file);
+        }
+    }
+    privateStems = { stems, loadedAt: Date.now() };
+    return stems;
+};
+
+// "•••• 4321" for a customer, "Link 3f2a9c" for a shared link visitor, "Guest" otherwise.
+// Remembered for a few minutes so a changed phone number shows up, and capped in size.
+const VIEWER_LABEL_TTL_MS = 10 * 60 * 1000;
+const MAX_VIEWER_LABELS = 1000;
+const viewerLabels = new Map();
+const getViewerLabel = async (pool, mark) => {
+    const cached = viewerLabels.get(mark);
+    if (cached && Date.now() - cached.loadedAt < VIEWER_LABEL_TTL_MS) return cached.viewer;
+    viewerLabels.delete(mark);
+    const [rows] = await pool.query('SELECT m.viewerType, m.viewerId, c.phone FROM viewer_marks m LEFT JOIN customers c ON m.viewerType = "customer" AND c.id = m.viewerId WHERE m.mark = ?', [mark]);
+    if (!rows.length) return null;
+    const { viewerType, viewerId, phone } = rows[0];
+    const viewer = {
+        type: viewerType,
+        label: viewerType === 'customer' ? `•••• ${String(phone || '').replace(/\D/g, '').slice(-4) || '----'}`
+            : viewerType === 'link' ? `Link ${viewerId.slice(0, 6)}` : 'Guest'
+    };
+    // Oldest first in insertion order, so the first key is the one to drop
+    if (viewerLabels.size >= MAX_VIEWER_LABELS) viewerLabels.delete(viewerLabels.keys().next().value);
+    viewerLabels.set(mark, { viewer, loadedAt: Date.now() });
+    return viewer;
+};
+
+// The visible watermark for one viewer and image, or null when none applies: it is drawn for
+// shared link visitors, and for customers and guests only on pieces in private categories
+export const getVisibleOverlay = async (pool, relativePath, mark) => {
+    const settings = await getVisibleWatermark(pool);
+    if (!settings.enabled) return null;
+    const viewer = await getViewerLabel(pool, mark);
+    if (!viewer) return null;
+    if (viewer.type !== 'link') {
+        const file = path.basename(relativePath);
+        if (!(await getPrivateImageStems(pool)).has(variantStem(file) || file)) return null;
+    }
+    const date = new Date().toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' });
+    return { text: viewer.label, date, opacity: settings.opacity, position: settings.position };
+};
+
+const escapeXml = (text) => String(text).replace(/[<>&"']/g, ch => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[ch]));
+
+// Logo and two lines of text as an SVG overlay the size of the image
+const overlaySvg = (width, height, { text, date, opacity, position }, logo) => {
+    const unit = Math.max(12, Math.round(Math.min(width, height) * 0.04));
+    const logoSize = logo ? unit * 2.4 : 0;
+    const gap = logo ? unit * 0.6 : 0;
+    const badgeWidth = logoSize + gap + unit * 7;
+    const badgeHeight = Math.max(logoSize, unit * 2.4);
+    const textStyle = `font-family="sans-serif" font-weight="bold" fill="#ffffff" stroke="#000000" stroke-opacity="0.6" stroke-width="${Math.max(1, unit / 14)}" paint-order="stroke"`;
+    const badge = `
+        ${logo ? `<image href="data:image/png;base64,${logo}" x="0" y="${(badgeHeight - logoSize) / 2}" width="${logoSize}" height="${logoSize}" />` : ''}
+        <text x="${logoSize + gap}" y="${badgeHeight / 2 - unit * 0.15}" font-size="${unit}" ${textStyle}>${escapeXml(text)}</text>
+        <text x="${logoSize + gap}" y="${badgeHeight / 2 + unit * 0.95}" font-size="${unit * 0.8}" ${textStyle}>${escapeXml(date)}</text>`;
+
+    if (position === 'tiled') {
+        const tileWidth = badgeWidth + unit * 4;
+        const tileHeight = badgeHeight + unit * 4;
+        return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+            <defs><pattern id="wm" width="${tileWidth}" height="${tileHeight}" patternUnits="userSpaceOnUse" patternTransform="rotate(-30)">${badge}</pattern></defs>
+            <rect width="${width}" height="${height}" fill="url(#wm)" opacity="${opacity}" />
+        </svg>`;
+    }
+
+    const margin = unit;
+    const x = position.endsWith('left') ? margin : position === 'center' ? (width - badgeWidth) / 2 : width - badgeWidth - margin;
+    const y = position.startsWith('top') ? margin : position === 'center' ? (height - badgeHeight) / 2 : height - badgeHeight - margin;
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+        <g transform="translate(${x}, ${y})" opacity="${opacity}">${badge}</g>
+    </svg>`;
+};
+
+// Draws the visible watermark; returns a lossless PNG for the invisible mark to go on top of
+export const renderVisibleWatermark = async (input, overlay, uploadsRoot) => {
+    const { default: sharp } = await import('sharp');
+    const { data, info } = await sharp(input).rotate().removeAlpha().raw().toBuffer({ resolveWithObject: true });
+    const logoFile = path.join(uploadsRoot, 'custom_logo.png');
+    const logo = existsSync(logoFile) ? readFileSync(logoFile).toString('base64') : null;
+    const svg = overlaySvg(info.width, info.height, overlay, logo);
+    return sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+        .composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+        .png({ compressionLevel: 0 })
+        .toBuffer();
+};
+
+const SOURCE_PATTERN = /^(\d+)\/([^/]+\.(webp|avif|jpe?g|png))$/i;
+const inFlight = new Map();
+
+// The stored file for an upload path such as "1080/3f2a...-1080w.webp", or null when there is none
+export const findUpload = (relativePath, uploadsRoot) => {
+    const match = relativePath.match(SOURCE_PATTERN);
+    if (!match) return null;
+    const source = path.join(uploadsRoot, match[1], match[2]);
+    return existsSync(source) ? source : null;
+};
+
+// Returns { file, key } for an image file marked for one viewer, cached under uploads/cache/wm by
+// `id`, the mark and the overlay so each copy is made once
+export const getWatermarkedCopy = async (source, id, mark, uploadsRoot, overlay = null, format = 'webp') => {
+    const key = crypto.createHash('sha1').update(`wm|${id}|${mark}|${overlay ? JSON.stringify(overlay) : ''}`).digest('hex');
+    const dir = path.join(uploadsRoot, RESIZE_CACHE_DIR, 'wm', key.slice(0, 2));
+    const file = path.join(dir, `${key}.${format}`);
+    if (existsSync(file)) return { file, key };
+
+    if (!inFlight.has(key)) {
+        inFlight.set(key, (async () => {
+            const base = overlay ? await renderVisibleWatermark(source, overlay, uploadsRoot) : source;
+            const buffer = await embedWatermark(base, mark, { format });
+            if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+            writeFileSync(`${file}.tmp`, buffer);
+            renameSync(`${file}.tmp`, file);
+        })().finally(() => inFlight.delete(key)));
+    }
+    await inFlight.get(key);
+    return { file, key };
+};
+
+// Returns { file, key } for a stored upload ("1080/3f2a...-1080w.webp") marked for one viewer, or
+// null when there is no such upload. Output is always WebP: AVIF is too slow to encode per viewer.
+// Copies with a visible overlay are made once per viewer per day, since the overlay carries the date.
+export const getWatermarkedImage = async (relativePath, mark, uploadsRoot, overlay = null) => {
+    const source = findUpload(relativePath, uploadsRoot);
+    return source ? getWatermarkedCopy(source, relativePath, mark, uploadsRoot, overlay) : null;
+};
+
+// Marked copies are cheap to make again, and overlay copies go stale daily with their date, so
+// any copy not written in the last week is removed
+export const WATERMARK_CACHE_DAYS = 7;
+
+export const cleanWatermarkCache = (uploadsRoot, maxAgeDays = WATERMARK_CACHE_DAYS) => {
+    const root = path.join(uploadsRoot, RESIZE_CACHE_DIR, 'wm');
+    if (!existsSync(root)) return { removed: 0 };
+    const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+    let removed = 0;
+    for (const bucket of readdirSync(root)) {
+        const dir = path.join(root, bucket);
+        let files = [];
+        try { files = readdirSync(dir); } catch (e) { continue; }
+        for (const file of files) {
+            const filepath = path.join(dir, file);
+            try {
+                if (statSync(filepath).mtimeMs < cutoff) {
+                    unlinkSync(filepath);
+                    removed++;
+                }
+            } catch (e) {
+                // Removed by a parallel render's rename or another sweep
+            }
+        }
+    }
+    return { removed };
+};
+
+export const initWatermarkCacheCleanup = (uploadsRoot) => {
+    // Nightly at 4:00 AM IST (22:30 UTC), after the trash purge
+    cron.schedule('30 22 * * *', () => {
+        try {
+            const res = cleanWatermarkCache(uploadsRoot);
+            if (res.removed > 0) console.log('[Watermark] Cache cleaned:', res);
+        } catch (e) {
+            console.error('[Watermark] Cache cleanup failed:', e.message);
+        }
+    });
+};
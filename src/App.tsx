@@ -5,6 +5,7 @@ import { Navigation } from '@/components/Navigation.tsx';
 import { storeService } from '@/services/storeService.ts';
 import { User } from '@/types.ts';
 import { UploadProvider } from '@/contexts/UploadContext.tsx';
+import { LocaleProvider, useLocale } from '@/contexts/LocaleContext.tsx';
 
 // Safe Loader Component (No external dependencies)
 const SafeLoader = () => (
@@ -90,6 +91,8 @@ const StaffLogin = lazy(() => import('@/pages/StaffLogin.tsx').then(m => ({ defa
 const ProductDetails = lazy(() => import('@/pages/ProductDetails.tsx').then(m => ({ default: m.ProductDetails })));
 const Wishlist = lazy(() => import('@/pages/Wishlist.tsx'));
 const SharedLanding = lazy(() => import('@/pages/SharedLanding.tsx').then(m => ({ default: m.SharedLanding })));
+const CollectionView = lazy(() => import('@/pages/CollectionView.tsx').then(m => ({ default: m.CollectionView })));
+const ScanTag = lazy(() => import('@/pages/ScanTag.tsx').then(m => ({ default: m.ScanTag })));
 
 interface AuthGuardProps {
   children?: ReactNode;
@@ -116,6 +119,7 @@ function AppContent() {
   const [isInitializing, setIsInitializing] = useState(true);
   const location = useLocation();
   const navigate = useNavigate();
+  const { locale } = useLocale();
 
   useEffect(() => {
     window.scrollTo(0, 0);
@@ -134,6 +138,10 @@ function AppContent() {
                 } else {
                     setUser(currentUser);
                 }
+            } else if (currentUser?.role === 'customer' && !currentUser.token) {
+                // Customer sessions from before sign-in issued tokens sign in again
+                storeService.logout();
+                setUser(null);
             } else {
                 setUser(currentUser);
             }
@@ -166,7 +174,8 @@ function AppContent() {
     <div className={`min-h-screen transition-colors duration-500 ${isStaffRoute ? 'bg-slate-950 text-slate-100' : 'bg-stone-50 text-stone-900'}`}>
       <SecurityLayer />
       <SecurityBlackout user={user} />
-      <main className="pb-20 md:pb-0">
+      {/* Keyed by language so open pages refetch their catalog text on a switch */}
+      <main key={locale} className="pb-20 md:pb-0">
         <Suspense fallback={<SafeLoader />}>
           <Routes>
             <Route path="/" element={<Landing />} />
@@ -174,6 +183,7 @@ function AppContent() {
             <Route path="/gallery" element={<Navigate to="/collection" replace />} />
             <Route path="/wishlist" element={<Wishlist user={user} />} />
             <Route path="/product/:id" element={<ProductDetails />} />
+            <Route path="/collections/:slug" element={<CollectionView />} />
             <Route path="/shared/:token" element={<SharedLanding />} />
             <Route 
                 path="/login" 
@@ -189,6 +199,8 @@ function AppContent() {
             <Route path="/admin/dashboard" element={<AuthGuard user={user} allowedRoles={['admin', 'contributor']}><AdminDashboard onNavigate={(p) => navigate(`/admin/${p}`)} /></AuthGuard>} />
             <Route path="/admin/upload" element={<AuthGuard user={user} allowedRoles={['admin', 'contributor']}><UploadWizard /></AuthGuard>} />
             <Route path="/admin/studio" element={<AuthGuard user={user} allowedRoles={['admin']}><DesignStudio /></AuthGuard>} />
+            <Route path="/admin/scan" element={<AuthGuard user={user} allowedRoles={['admin', 'contributor']}><ScanTag /></AuthGuard>} />
+            <Route path="/admin/scan/:code" element={<AuthGuard user={user} allowedRoles={['admin', 'contributor']}><ScanTag /></AuthGuard>} />
             <Route path="/admin/settings" element={<AuthGuard user={user} allowedRoles={['admin']}><Settings onBack={() => navigate(-1)} /></AuthGuard>} />
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
@@ -205,11 +217,13 @@ function AppContent() {
 export default function App() {
   return (
     <ErrorBoundary>
-      <UploadProvider>
-        <SecurityProvider>
-          <AppContent />
-        </SecurityProvider>
-      </UploadProvider>
+      <LocaleProvider>
+        <UploadProvider>
+          <SecurityProvider>
+            <AppContent />
+          </SecurityProvider>
+        </UploadProvider>
+      </LocaleProvider>
     </ErrorBoundary>
   );
 }
@@ -1,6 +1,9 @@
 import React from 'react';
-import { Settings, Save, Loader2, Gem, Tag, TrendingUp, DollarSign } from 'lucide-react';
-import { Product, AppConfig } from '@/types.ts';
+import { Settings, Save, Loader2, Gem, Tag, TrendingUp, DollarSign, Award, Scale, CalendarClock, CalendarX } from 'lucide-react';
+import { Product, AppConfig, GoldPurity } from '@/types.ts';
+import { GOLD_PURITIES, getDefaultPurity, getNetWeight, toLocalDateTimeInput, fromLocalDateTimeInput } from '@/services/storeService.ts';
+import { StoneEditor } from '@/components/StoneEditor.tsx';
+import { ProductTranslationsEditor } from '@/components/ProductTranslationsEditor.tsx';
 
 interface AdminEditControlsProps {
     editForm: Partial<Product>;
@@ -11,6 +14,17 @@ interface AdminEditControlsProps {
 }
 
 export const AdminEditControls: React.FC<AdminEditControlsProps> = ({ editForm, setEditForm, config, isSaving, onSave }) => {
+    const defaultPurity = getDefaultPurity(editForm as Product);
+    const availablePurities = editForm.meta?.availablePurities?.length ? editForm.meta.availablePurities : [defaultPurity];
+
+    const toggleAvailablePurity = (purity: GoldPurity) => {
+        if (purity === defaultPurity) return; // The default purity is always available
+        const next = availablePurities.includes(purity)
+            ? availablePurities.filter(p => p !== purity)
+            : GOLD_PURITIES.filter(p => p === purity || availablePurities.includes(p));
+        setEditForm({...editForm, meta: {...(editForm.meta || {}), availablePurities: next}});
+    };
+
     return (
         <div className="bg-stone-50 p-6 rounded-3xl border border-stone-100 space-y-6 animate-in fade-in slide-in-from-top-4">
             <div className="flex items-center justify-between">
@@ -35,7 +49,7 @@ export const AdminEditControls: React.FC<AdminEditControlsProps> = ({ editForm,
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div className="space-y-2">
-                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest ml-1">Gold Weight (g)</label>
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest ml-1">Gross Weight (g)</label>
                         <div className="flex items-center gap-3 bg-white p-4 rounded-2xl border border-stone-100">
                             <Gem size={22} className="text-brand-gold" />
                             <input 
@@ -48,6 +62,21 @@ export const AdminEditControls: React.FC<AdminEditControlsProps> = ({ editForm,
                         </div>
                     </div>
 
+                    <div className="space-y-2">
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest ml-1">Net Gold Weight (g)</label>
+                        <div className="flex items-center gap-3 bg-white p-4 rounded-2xl border border-stone-100">
+                            <Scale size={22} className="text-brand-gold" />
+                            <input 
+                                type="number" 
+                                step="0.01"
+                                value={editForm.meta?.netWeight || ''} 
+                                onChange={e => setEditForm({...editForm, meta: {...(editForm.meta || {}), netWeight: parseFloat(e.target.value) || undefined}})}
+                                className="flex-1 bg-transparent outline-none font-mono font-bold text-brand-dark text-lg"
+                                placeholder={`${getNetWeight(editForm as Product).toFixed(2)} (auto)`}
+                            />
+                        </div>
+                    </div>
+
                     <div className="space-y-2">
                         <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest ml-1">Making Segment</label>
                         <div className="flex items-center gap-3 bg-white p-4 rounded-2xl border border-stone-100">
@@ -81,6 +110,40 @@ export const AdminEditControls: React.FC<AdminEditControlsProps> = ({ editForm,
                         </div>
                     )}
 
+                    <div className="space-y-2">
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest ml-1">Default Purity</label>
+                        <div className="flex items-center gap-3 bg-white p-4 rounded-2xl border border-stone-100">
+                            <Award size={22} className="text-brand-gold" />
+                            <select 
+                                value={defaultPurity}
+                                onChange={e => {
+                                    const purity = e.target.value as GoldPurity;
+                                    const purities = availablePurities.includes(purity) ? availablePurities : GOLD_PURITIES.filter(p => p === purity || availablePurities.includes(p));
+                                    setEditForm({...editForm, meta: {...(editForm.meta || {}), purity, availablePurities: purities}});
+                                }}
+                                className="flex-1 bg-transparent outline-none text-xs font-bold uppercase tracking-widest"
+                            >
+                                {GOLD_PURITIES.map(p => <option key={p} value={p}>{p}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest ml-1">Can Be Made In</label>
+                        <div className="flex flex-wrap gap-2 bg-white p-4 rounded-2xl border border-stone-100">
+                            {GOLD_PURITIES.map(p => (
+                                <button
+                                    type="button"
+                                    key={p}
+                                    onClick={() => toggleAvailablePurity(p)}
+                                    className={`px-3 py-1.5 rounded-lg text-[9px] font-bold uppercase tracking-widest border transition-all ${availablePurities.includes(p) ? 'bg-brand-dark text-white border-brand-dark' : 'bg-stone-50 text-stone-400 border-stone-100 hover:border-brand-gold'}`}
+                                >
+                                    {p}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
                     <div className="space-y-2">
                         <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest ml-1">Other Charges (₹)</label>
                         <div className="flex items-center gap-3 bg-white p-4 rounded-2xl border border-stone-100">
@@ -93,7 +156,45 @@ export const AdminEditControls: React.FC<AdminEditControlsProps> = ({ editForm,
                             />
                         </div>
                     </div>
+
+                    <div className="space-y-2">
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest ml-1">Publish At</label>
+                        <div className="flex items-center gap-3 bg-white p-4 rounded-2xl border border-stone-100">
+                            <CalendarClock size={22} className="text-brand-gold" />
+                            <input 
+                                type="datetime-local"
+                                value={toLocalDateTimeInput(editForm.publishAt)}
+                                onChange={e => setEditForm({...editForm, publishAt: fromLocalDateTimeInput(e.target.value)})}
+                                className="flex-1 bg-transparent outline-none text-xs font-bold text-brand-dark"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest ml-1">Unpublish At</label>
+                        <div className="flex items-center gap-3 bg-white p-4 rounded-2xl border border-stone-100">
+                            <CalendarX size={22} className="text-brand-gold" />
+                            <input 
+                                type="datetime-local"
+                                value={toLocalDateTimeInput(editForm.unpublishAt)}
+                                onChange={e => setEditForm({...editForm, unpublishAt: fromLocalDateTimeInput(e.target.value)})}
+                                className="flex-1 bg-transparent outline-none text-xs font-bold text-brand-dark"
+                            />
+                        </div>
+                    </div>
                 </div>
+
+                <StoneEditor
+                    stones={editForm.meta?.stones || []}
+                    onChange={stones => setEditForm({...editForm, meta: {...(editForm.meta || {}), stones}})}
+                />
+
+                <ProductTranslationsEditor
+                    title={editForm.title || ''}
+                    description={editForm.description || ''}
+                    translations={editForm.translations || {}}
+                    onChange={translations => setEditForm({...editForm, translations})}
+                />
             </div>
         </div>
     );
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Gem, Image as ImageIcon } from 'lucide-react';
+import { ProductSet } from '@/types.ts';
+import { storeService, getResizedImageUrl } from '@/services/storeService.ts';
+import { variantName } from '@/components/VariantPicker.tsx';
+import { useLocale } from '@/contexts/LocaleContext.tsx';
+
+interface CompleteTheSetProps {
+    sets: ProductSet[];
+    currentId: string;
+    showPrices: boolean;
+    onOpen: (id: string) => void;
+}
+
+export const CompleteTheSet: React.FC<CompleteTheSetProps> = ({ sets, currentId, showPrices, onOpen }) => {
+    const { t } = useLocale();
+    return (
+        <div className="space-y-4">
+            {sets.map(set => (
+                <div key={set.id} className="bg-white rounded-3xl p-6 space-y-4 border border-stone-100 shadow-sm">
+                    <div className="flex items-start justify-between gap-4">
+                        <div>
+                            <h3 className="text-[9px] font-bold text-brand-gold uppercase tracking-[0.3em] flex items-center gap-2"><Gem size={17} /> {t('product.completeSet')}</h3>
+                            <p className="font-serif text-xl text-brand-dark mt-1">{set.title}</p>
+                            {set.description && <p className="text-xs text-stone-500 mt-1">{set.description}</p>}
+                        </div>
+                        {showPrices && (
+                            <div className="text-right shrink-0">
+                                <p className="text-[9px] font-bold text-stone-400 uppercase tracking-widest">Set Price</p>
+                                <p className="font-mono font-bold text-brand-dark text-lg">₹{set.setPrice.toLocaleString('en-IN')}</p>
+                                {set.setPrice < set.itemsTotal && (
+                                    <p className="text-[10px] text-emerald-600 font-bold">
+                                        <span className="line-through text-stone-400 font-normal mr-1">₹{set.itemsTotal.toLocaleString('en-IN')}</span>
+                                        Save {set.discountPercent}%
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                        {set.items.map(item => (
+                            <button
+                                key={item.id}
+                                onClick={() => item.id !== currentId && onOpen(item.id)}
+                                className={`text-left rounded-2xl border overflow-hidden transition-all ${item.id === currentId ? 'border-brand-gold ring-1 ring-brand-gold' : 'border-stone-100 hover:border-brand-gold/50'}`}
+                            >
+                                <div className="aspect-square bg-stone-50 flex items-center justify-center">
+                                    {item.thumbnail ? <img src={getResizedImageUrl(item.thumbnail, { w: 200, h: 200, fit: 'cover' })} alt={item.title} className="w-full h-full object-cover" loading="lazy" /> : <ImageIcon size={20} className="text-stone-300" />}
+                                </div>
+                                <div className="p-2">
+                                    <p className="text-[10px] font-bold text-stone-700 truncate">{item.title}</p>
+                                    <p className="text-[9px] text-stone-400 font-mono">
+                                        {item.id === currentId ? 'Viewing' : item.variantLabel || item.size ? variantName(item) : item.subCategory || item.category}
+                                        {showPrices && ` · ₹${item.price.toLocaleString('en-IN')}`}
+                                    </p>
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
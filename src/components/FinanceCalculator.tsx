@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
-import { Product, AppConfig } from '@/types.ts';
-import { Calculator, ArrowRight, Wallet, Percent, Scale, RefreshCw } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Product, AppConfig, GoldPurity, SavingsPlan } from '@/types.ts';
+import { Calculator, ArrowRight, Wallet, Percent, Scale, RefreshCw, Loader2, CheckCircle } from 'lucide-react';
+import { storeService } from '@/services/storeService.ts';
 
 interface FinanceCalculatorProps {
   product: Product;
@@ -14,11 +15,23 @@ interface FinanceCalculatorProps {
     makingPercent: number;
   };
   showFullDetails: boolean;
+  purity?: GoldPurity;
 }
 
-export const FinanceCalculator: React.FC<FinanceCalculatorProps> = ({ product, config, priceData, showFullDetails }) => {
+export const FinanceCalculator: React.FC<FinanceCalculatorProps> = ({ product, config, priceData, showFullDetails, purity }) => {
   const [exchangeWeight, setExchangeWeight] = useState<string>('');
   const [exchangePurity, setExchangePurity] = useState<'22K' | '20K' | '18K'>('22K');
+  const [activePlan, setActivePlan] = useState<SavingsPlan | null>(null);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const user = storeService.getCurrentUser();
+  const isCustomer = user?.role === 'customer';
+
+  useEffect(() => {
+      if (!isCustomer || !user) return;
+      storeService.getCustomerSavingsPlans(user.id).then(plans => {
+          setActivePlan(plans.find(p => p.productId === product.id && p.status === 'active') || null);
+      });
+  }, [product.id, isCustomer]);
   
   if (!showFullDetails) {
       return (
@@ -38,6 +51,18 @@ export const FinanceCalculator: React.FC<FinanceCalculatorProps> = ({ product, c
   const advanceAmount = priceData.total * (advancePercent / 100);
   const balanceAmount = priceData.total - advanceAmount;
   
+  const handleEnrol = async () => {
+      if (!user) return;
+      setIsEnrolling(true);
+      try {
+          setActivePlan(await storeService.enrolSavingsPlan({ customerId: user.id, productId: product.id, months: selectedPlan.months, purity }));
+      } catch (e: any) {
+          alert(e.message || 'Could not start the plan');
+      } finally {
+          setIsEnrolling(false);
+      }
+  };
+
   const goldRate24k = config.goldRate24k || (config.goldRate22k * (24/22));
   
   const getExchangeRate = (purity: '22K' | '20K' | '18K') => {
@@ -92,6 +117,25 @@ export const FinanceCalculator: React.FC<FinanceCalculatorProps> = ({ product, c
                     );
                 })}
             </div>
+
+            {isCustomer && (
+                activePlan ? (
+                    <div className="mt-4 p-3 bg-emerald-50 border border-emerald-100 rounded-lg flex items-center gap-2 text-[10px] text-emerald-700">
+                        <CheckCircle size={14} />
+                        <span>
+                            Enrolled in {activePlan.months} month plan · Paid ₹{Math.round(activePlan.amountPaid).toLocaleString('en-IN')} of ₹{Math.round(activePlan.targetAmount).toLocaleString('en-IN')}
+                            {(() => {
+                                const next = activePlan.installments.find(i => i.status === 'pending');
+                                return next ? ` · Next ₹${Math.round(next.amount).toLocaleString('en-IN')} due ${new Date(next.dueDate).toLocaleDateString()}` : '';
+                            })()}
+                        </span>
+                    </div>
+                ) : (
+                    <button onClick={handleEnrol} disabled={isEnrolling} className="mt-4 w-full py-2.5 bg-brand-dark text-white rounded-lg text-[10px] font-bold uppercase tracking-widest flex items-center justify-center gap-2 disabled:opacity-50">
+                        {isEnrolling ? <Loader2 size={14} className="animate-spin" /> : <ArrowRight size={14} />} Start {selectedPlan.months} Month Plan
+                    </button>
+                )
+            )}
         </div>
 
         {/* Exchange Calculator */}
@@ -1,10 +1,15 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { X, ZoomIn, ZoomOut, ChevronLeft, ChevronRight, RotateCcw, ChevronUp, ChevronDown, AlertCircle, Download } from 'lucide-react';
-import { apiFetch } from '@/services/storeService';
+import { apiFetch, getImageUrl } from '@/services/storeService';
+import { ImageManifest, VideoDetails } from '@/types';
+import { ResponsiveImage } from '@/components/ResponsiveImage';
+import { ResponsiveVideo } from '@/components/ResponsiveVideo';
 
 interface ImageViewerProps {
   images: string[];
+  media?: ImageManifest[]; // Index-aligned with images
+  videos?: (VideoDetails | undefined)[]; // Index-aligned with images
   initialIndex?: number;
   title?: string;
   onClose: () => void;
@@ -16,6 +21,8 @@ interface ImageViewerProps {
 
 export const ImageViewer: React.FC<ImageViewerProps> = ({ 
   images, 
+  media,
+  videos,
   initialIndex = 0, 
   title, 
   onClose,
@@ -38,10 +45,15 @@ export const ImageViewer: React.FC<ImageViewerProps> = ({
   // If currentIndex is out of bounds (e.g. data changed), default to 0 to prevent crashes/broken images
   const safeIndex = currentIndex < images.length ? currentIndex : 0;
   const activeImageSrc = images[safeIndex];
+  // Stored variants let the browser choose the file for the screen, so there is nothing to optimize
+  const activeManifest = media?.[safeIndex];
+  const hasVariants = !!activeManifest && activeManifest.variants.length > 1 && getImageUrl(activeManifest.src) === activeImageSrc;
+  // Transcoded videos are already sized for the web
+  const activeVideo = videos?.[safeIndex];
 
   useEffect(() => {
       const checkAndOptimize = async () => {
-          if (!activeImageSrc || activeImageSrc.startsWith('data:') || activeImageSrc.includes('/api/media/resize')) {
+          if (!activeImageSrc || hasVariants || activeVideo || activeImageSrc.startsWith('data:') || activeImageSrc.includes('/api/media/resize')) {
               setOptimizedSrc(activeImageSrc);
               return;
           }
@@ -59,7 +71,7 @@ export const ImageViewer: React.FC<ImageViewerProps> = ({
           }
       };
       checkAndOptimize();
-  }, [activeImageSrc]);
+  }, [activeImageSrc, hasVariants, activeVideo]);
 
   // Lock body scroll when viewer is open
   useEffect(() => {
@@ -415,9 +427,10 @@ export const ImageViewer: React.FC<ImageViewerProps> = ({
              (() => {
                  const isVideo = activeImageSrc.includes('video/') || activeImageSrc.endsWith('.webm') || activeImageSrc.endsWith('.mp4') || activeImageSrc.endsWith('.mov');
                  return isVideo ? (
-                     <video 
+                     <ResponsiveVideo 
                         key={safeIndex} 
                         src={optimizedSrc || activeImageSrc} 
+                        details={activeVideo}
                         draggable={false}
                         onError={() => setLoadError(true)}
                         onContextMenu={(e) => {
@@ -432,9 +445,11 @@ export const ImageViewer: React.FC<ImageViewerProps> = ({
                         }}
                      />
                  ) : (
-                     <img 
+                     <ResponsiveImage 
                         key={safeIndex} 
-                        src={optimizedSrc || activeImageSrc} 
+                        src={hasVariants ? activeManifest!.src : (optimizedSrc || activeImageSrc)} 
+                        manifest={hasVariants ? activeManifest : undefined}
+                        sizes="100vw"
                         alt="Zoom View"
                         draggable={false}
                         onError={() => setLoadError(true)}
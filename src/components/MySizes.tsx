@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { Ruler, Loader2, Save } from 'lucide-react';
+import { User, SizeChart, CustomerSizes } from '@/types.ts';
+import { storeService } from '@/services/storeService.ts';
+
+interface MySizesProps {
+    user: User;
+}
+
+// The customer's measured sizes, one per size chart
+export const MySizes: React.FC<MySizesProps> = ({ user }) => {
+    const [charts, setCharts] = useState<SizeChart[]>([]);
+    const [sizes, setSizes] = useState<CustomerSizes>(storeService.getCurrentUser()?.sizes || user.sizes || {});
+    const [isSaving, setIsSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        storeService.getConfig().then(config => setCharts(config.sizeCharts || []));
+    }, []);
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            setSizes(await storeService.saveCustomerSizes(user.id, sizes));
+            setSaved(true);
+        } catch (e: any) {
+            alert(e.message || 'Could not save your sizes');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (charts.length === 0) return null;
+
+    return (
+        <div className="bg-white rounded-3xl p-6 border border-stone-100 shadow-sm mb-10 max-w-2xl mx-auto">
+            <h3 className="text-[9px] font-bold text-brand-gold uppercase tracking-[0.3em] flex items-center gap-2 mb-4"><Ruler size={17} /> My Sizes</h3>
+            <div className="grid grid-cols-2 gap-4">
+                {charts.map(chart => (
+                    <div key={chart.id}>
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1.5 ml-1">{chart.name}</label>
+                        <select
+                            value={sizes[chart.id] || ''}
+                            onChange={e => { setSizes({ ...sizes, [chart.id]: e.target.value }); setSaved(false); }}
+                            className="w-full p-3 bg-stone-50 border border-stone-100 rounded-xl text-sm font-mono outline-none focus:border-brand-gold"
+                        >
+                            <option value="">Not measured</option>
+                            {chart.sizes.map(s => <option key={s.label} value={s.label}>{s.label} · {s.diameterMm} mm</option>)}
+                        </select>
+                    </div>
+                ))}
+            </div>
+            <div className="flex items-center justify-end gap-3 mt-4">
+                {saved && <span className="text-[10px] text-emerald-600 font-bold">Saved</span>}
+                <button onClick={handleSave} disabled={isSaving} className="px-5 py-2.5 bg-brand-dark text-white rounded-full font-bold uppercase text-[9px] tracking-widest flex items-center gap-2 disabled:opacity-50">
+                    {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save Sizes
+                </button>
+            </div>
+        </div>
+    );
+};
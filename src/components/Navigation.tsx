@@ -1,10 +1,12 @@
 
 import React, { useEffect, useState } from 'react';
-import { Home, Sparkles, Upload, LayoutDashboard, LogIn, LogOut, Settings, LayoutGrid, Heart } from 'lucide-react';
-import { User } from '@/types.ts';
+import { Home, Sparkles, Upload, LayoutDashboard, LogIn, LogOut, Settings, LayoutGrid, Heart, ScanLine, Languages } from 'lucide-react';
+import { User, Locale } from '@/types.ts';
 import { storeService } from '@/services/storeService.ts';
 import { useLocation, useNavigate, Link } from 'react-router-dom';
 import { Logo } from './Logo';
+import { useLocale } from '@/contexts/LocaleContext.tsx';
+import { LOCALES } from '@/services/i18n.ts';
 
 interface NavigationProps {
   user: User | null;
@@ -15,6 +17,7 @@ export const Navigation: React.FC<NavigationProps> = ({ user, onLogout }) => {
   const location = useLocation();
   const navigate = useNavigate();
   const [isOnline, setIsOnline] = useState(storeService.getIsOnline());
+  const { locale, setLocale, t } = useLocale();
   
   useEffect(() => {
     return storeService.subscribeStatus(setIsOnline);
@@ -24,20 +27,36 @@ export const Navigation: React.FC<NavigationProps> = ({ user, onLogout }) => {
   const isStaffRoute = location.pathname.startsWith('/admin') || location.pathname === '/staff';
 
   const customerTabs = [
-    { id: 'landing', path: '/', icon: Home, label: 'Studio' },
-    { id: 'gallery', path: '/collection', icon: LayoutGrid, label: 'Catalog' },
-    { id: 'wishlist', path: '/wishlist', icon: Heart, label: 'Wishlist' },
+    { id: 'landing', path: '/', icon: Home, label: t('nav.studio') },
+    { id: 'gallery', path: '/collection', icon: LayoutGrid, label: t('nav.catalog') },
+    { id: 'wishlist', path: '/wishlist', icon: Heart, label: t('nav.wishlist') },
   ];
 
   const staffTabs = [
     { id: 'dashboard', path: '/admin/dashboard', icon: LayoutDashboard, label: 'Admin' },
     { id: 'upload', path: '/admin/upload', icon: Upload, label: 'Stock' },
+    { id: 'scan', path: '/admin/scan', icon: ScanLine, label: 'Scan' },
     { id: 'studio', path: '/admin/studio', icon: Sparkles, label: 'Studio' },
     { id: 'settings', path: '/admin/settings', icon: Settings, label: 'Prefs' },
   ];
 
   const activeTabs = isStaff ? [...customerTabs, ...staffTabs] : customerTabs;
 
+  // Staff always work on the English catalog, so only shoppers get the language picker
+  const languagePicker = !isStaff && (
+    <label className="flex items-center gap-1.5 text-stone-400" title={t('nav.language')}>
+      <Languages size={17} />
+      <select
+        value={locale}
+        onChange={e => setLocale(e.target.value as Locale)}
+        aria-label={t('nav.language')}
+        className="bg-transparent text-[9px] uppercase font-bold tracking-widest outline-none cursor-pointer hover:text-brand-gold"
+      >
+        {LOCALES.map(l => <option key={l.id} value={l.id}>{l.nativeName}</option>)}
+      </select>
+    </label>
+  );
+
   const isActive = (path: string) => {
     if (path === '/' && location.pathname !== '/') return false;
     return location.pathname.startsWith(path);
@@ -78,16 +97,17 @@ export const Navigation: React.FC<NavigationProps> = ({ user, onLogout }) => {
             </button>
           ))}
           
-          <div className="md:hidden flex items-center pl-4 ml-2 border-l border-stone-200/20">
+          <div className="md:hidden flex items-center gap-4 pl-4 ml-2 border-l border-stone-200/20">
+             {languagePicker}
              {user ? (
                 <button onClick={onLogout} className="flex flex-col items-center gap-1.5 text-brand-red">
                   <LogOut size={22} />
-                  <span className="text-[8px] uppercase font-bold tracking-widest">Exit</span>
+                  <span className="text-[8px] uppercase font-bold tracking-widest">{t('nav.exit')}</span>
                 </button>
              ) : (
                 <button onClick={() => navigate('/login')} className="flex flex-col items-center gap-1.5 text-brand-gold">
                   <LogIn size={22} />
-                  <span className="text-[8px] uppercase font-bold tracking-widest">Login</span>
+                  <span className="text-[8px] uppercase font-bold tracking-widest">{t('nav.login')}</span>
                 </button>
              )}
           </div>
@@ -95,17 +115,18 @@ export const Navigation: React.FC<NavigationProps> = ({ user, onLogout }) => {
 
         {/* Auth Actions (Desktop) */}
         <div className="hidden md:flex items-center gap-8 shrink-0">
+          {languagePicker}
           <div className="flex items-center gap-2">
             <div className={`w-1.5 h-1.5 rounded-full ${isOnline ? 'bg-emerald-500' : 'bg-rose-500'} shadow-[0_0_8px_rgba(16,185,129,0.5)]`} />
-            <span className="text-[8px] uppercase font-bold tracking-widest text-stone-400">{isOnline ? 'Studio Online' : 'Offline'}</span>
+            <span className="text-[8px] uppercase font-bold tracking-widest text-stone-400">{isOnline ? t('nav.online') : t('nav.offline')}</span>
           </div>
           {user ? (
             <button onClick={onLogout} className="text-[10px] uppercase font-bold tracking-[0.2em] text-stone-400 hover:text-brand-red transition-all flex items-center gap-2 group">
-              <LogOut size={17} className="group-hover:-translate-x-1 transition-transform" /> Sign Out
+              <LogOut size={17} className="group-hover:-translate-x-1 transition-transform" /> {t('nav.signOut')}
             </button>
           ) : (
             <Link to="/login" className="text-[10px] uppercase font-bold tracking-[0.2em] text-stone-400 hover:text-brand-gold transition-all flex items-center gap-2 group">
-              <LogIn size={17} className="group-hover:translate-x-1 transition-transform" /> Member Access
+              <LogIn size={17} className="group-hover:translate-x-1 transition-transform" /> {t('nav.memberAccess')}
             </Link>
           )}
         </div>
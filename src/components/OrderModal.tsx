@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { X, ShoppingBag, Loader2, CheckCircle, Ban, Clock } from 'lucide-react';
+import { Product, GoldPurity, Order, ProductAvailability } from '@/types.ts';
+import { storeService } from '@/services/storeService.ts';
+
+interface OrderModalProps {
+    product: Product;
+    purity: GoldPurity;
+    onClose: () => void;
+    onAvailabilityChange: (availability: ProductAvailability) => void;
+}
+
+const STATUS_STYLES: Record<Order['status'], string> = {
+    reserved: 'text-brand-gold',
+    sold: 'text-emerald-600',
+    cancelled: 'text-stone-300',
+    expired: 'text-stone-300'
+};
+
+export const OrderModal: React.FC<OrderModalProps> = ({ product, purity, onClose, onAvailabilityChange }) => {
+    const [customerName, setCustomerName] = useState('');
+    const [customerPhone, setCustomerPhone] = useState('');
+    const [advanceAmount, setAdvanceAmount] = useState<number | ''>('');
+    const [reserveHours, setReserveHours] = useState<number>(48);
+    const [size, setSize] = useState(product.size || '');
+    const [isSaving, setIsSaving] = useState(false);
+    const [orders, setOrders] = useState<Order[]>([]);
+
+    const loadOrders = () => storeService.getOrders({ productId: product.id }).then(setOrders);
+
+    useEffect(() => { loadOrders(); }, [product.id]);
+
+    const active = orders.find(o => o.status === 'reserved');
+
+    const run = async (action: () => Promise<unknown>, availability: ProductAvailability) => {
+        setIsSaving(true);
+        try {
+            await action();
+            onAvailabilityChange(availability);
+            await loadOrders();
+        } catch (e: any) {
+            alert(e.message || 'Order update failed');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleReserve = () => run(() => storeService.reserveProducts([product.id], {
+        customerName: customerName || undefined,
+        customerPhone: customerPhone || undefined,
+        advanceAmount: advanceAmount || undefined,
+        reserveHours,
+        purity,
+        size: size || undefined
+    }), 'reserved');
+
+    const lockedItem = active?.items.find(i => i.productId === product.id);
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in">
+            <div className="bg-white rounded-2xl p-6 w-full max-w-md shadow-2xl relative max-h-[90vh] overflow-y-auto">
+                <button onClick={onClose} className="absolute top-4 right-4 text-stone-400 hover:text-stone-800"><X size={20}/></button>
+                <div className="flex items-center gap-3 mb-6">
+                    <div className="w-10 h-10 bg-brand-gold/10 text-brand-gold rounded-full flex items-center justify-center"><ShoppingBag size={20} /></div>
+                    <div>
+                        <h3 className="font-serif text-xl font-bold text-stone-800">Reservation & Sale</h3>
+                        <p className="text-stone-500 text-xs">{product.title} · {product.availability || 'available'}</p>
+                    </div>
+                </div>
+
+                {active ? (
+                    <div className="space-y-4">
+                        <div className="p-4 bg-stone-50 border border-stone-100 rounded-xl space-y-1">
+                            <p className="text-[9px] font-bold uppercase text-stone-400 tracking-widest">{active.orderNumber} · Reserved</p>
+                            <p className="text-2xl font-serif font-bold text-brand-dark">₹{Math.round(active.totalAmount).toLocaleString('en-IN')}</p>
+                            {lockedItem && <p className="text-[10px] text-stone-500">Locked at ₹{Math.round(lockedItem.goldRate).toLocaleString('en-IN')}/g ({lockedItem.purity}) · GST {active.gstPercent}%{lockedItem.size ? ` · Size ${lockedItem.size}` : ''}</p>}
+                            <p className="text-[10px] text-stone-500">{active.customerName || 'Walk-in'}{active.customerPhone ? ` · ${active.customerPhone}` : ''} · Advance ₹{Math.round(active.advanceAmount).toLocaleString('en-IN')}</p>
+                            <p className="text-[10px] text-stone-400 flex items-center gap-1.5"><Clock size={12} /> Held until {new Date(active.reservedUntil).toLocaleString()}</p>
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={() => run(() => storeService.markOrderSold(active.id), 'sold')} disabled={isSaving} className="flex-1 py-3 bg-stone-900 text-white rounded-xl font-bold uppercase text-[10px] tracking-widest flex items-center justify-center gap-2 disabled:opacity-50">
+                                {isSaving ? <Loader2 size={17} className="animate-spin" /> : <CheckCircle size={17} />} Mark Sold
+                            </button>
+                            <button onClick={() => run(() => storeService.cancelOrder(active.id), 'available')} disabled={isSaving} className="flex-1 py-3 bg-rose-50 text-rose-600 rounded-xl font-bold uppercase text-[10px] tracking-widest border border-rose-100 flex items-center justify-center gap-2 disabled:opacity-50">
+                                <Ban size={17} /> Cancel
+                            </button>
+                        </div>
+                    </div>
+                ) : product.availability === 'sold' ? (
+                    <p className="p-4 bg-emerald-50 border border-emerald-100 rounded-xl text-xs text-emerald-700 font-bold">This piece has been sold.</p>
+                ) : (
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1.5 ml-1">Customer Name</label>
+                            <input value={customerName} onChange={e => setCustomerName(e.target.value)} className="w-full p-3 bg-stone-50 border border-stone-100 rounded-xl text-sm outline-none focus:border-brand-gold" />
+                        </div>
+                        <div>
+                            <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1.5 ml-1">Phone</label>
+                            <input value={customerPhone} onChange={e => setCustomerPhone(e.target.value)} className="w-full p-3 bg-stone-50 border border-stone-100 rounded-xl text-sm font-mono outline-none focus:border-brand-gold" placeholder="91..." />
+                        </div>
+                        <div>
+                            <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1.5 ml-1">Size</label>
+                            <input value={size} onChange={e => setSize(e.target.value)} className="w-full p-3 bg-stone-50 border border-stone-100 rounded-xl text-sm font-mono outline-none focus:border-brand-gold" placeholder={product.size ? `Piece is size ${product.size}` : 'e.g. 12 or 2.6'} />
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1.5 ml-1">Advance (₹)</label>
+                                <input type="number" value={advanceAmount} onChange={e => setAdvanceAmount(e.target.value ? Number(e.target.value) : '')} className="w-full p-3 bg-stone-50 border border-stone-100 rounded-xl text-sm outline-none focus:border-brand-gold" placeholder="0" />
+                            </div>
+                            <div>
+                                <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1.5 ml-1">Hold (Hours)</label>
+                                <input type="number" value={reserveHours} onChange={e => setReserveHours(Number(e.target.value) || 48)} className="w-full p-3 bg-stone-50 border border-stone-100 rounded-xl text-sm outline-none focus:border-brand-gold" />
+                            </div>
+                        </div>
+                        <p className="text-[10px] text-stone-400">Price, gold rate ({purity}) and GST are locked when the reservation is made.</p>
+                        <button onClick={handleReserve} disabled={isSaving} className="w-full py-3 bg-stone-900 text-white rounded-xl font-bold uppercase text-[10px] tracking-widest flex items-center justify-center gap-2 disabled:opacity-50">
+                            {isSaving ? <Loader2 size={17} className="animate-spin" /> : <ShoppingBag size={17} />} Reserve Piece
+                        </button>
+                    </div>
+                )}
+
+                {orders.length > 0 && (
+                    <div className="mt-6 pt-4 border-t border-stone-100 space-y-2">
+                        <p className="text-[9px] font-bold uppercase text-stone-400 tracking-widest">Order History</p>
+                        {orders.map(o => (
+                            <div key={o.id} className="flex items-center justify-between p-2 rounded-lg hover:bg-stone-50 text-xs">
+                                <span className="font-mono text-stone-600">{o.orderNumber}</span>
+                                <span className="text-stone-400 truncate mx-2 flex-1">{o.customerName || '—'}</span>
+                                <span className={`text-[9px] font-bold uppercase tracking-widest ${STATUS_STYLES[o.status]}`}>{o.status}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
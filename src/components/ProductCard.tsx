@@ -3,6 +3,7 @@ import React, { useState, useEffect } from 'react';
 import { Product } from '@/types.ts';
 import { Heart, Lock } from 'lucide-react';
 import { storeService } from '@/services/storeService.ts';
+import { ResponsiveImage } from '@/components/ResponsiveImage.tsx';
 
 interface ProductCardProps {
   product: Product;
@@ -33,7 +34,8 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onClick, prio
   const showDetails = !isGuest || isUnlocked;
 
   const rawImage = product.thumbnails?.[0] || product.images?.[0] || '';
-  const displayImage = storeService.getImageUrl ? storeService.getImageUrl(rawImage) : rawImage;
+  // A video's thumbnail is its poster frame; its muted loop plays over it once the poster is in
+  const preview = Object.values(product.meta?.videos || {}).find(v => v.poster === rawImage)?.preview;
   const config = storeService.getCached().config;
   const priceData = config ? storeService.calculatePrice(product, config) : null;
 
@@ -52,8 +54,10 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onClick, prio
       }}
     >
       <div className="relative aspect-[3/4] overflow-hidden bg-stone-50">
-        <img 
-            src={displayImage} 
+        <ResponsiveImage 
+            src={rawImage} 
+            manifest={product.media?.[0]}
+            sizes="(min-width: 1024px) 25vw, (min-width: 768px) 33vw, 50vw"
             alt={product.title} 
             onLoad={() => setIsLoaded(true)}
             decoding="async" 
@@ -65,6 +69,17 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onClick, prio
             className={`w-full h-full object-contain pointer-events-none select-none transition-all duration-700 group-hover:scale-110 ${isLoaded ? 'opacity-100' : 'opacity-0'}`} 
         />
         
+        {preview && isLoaded && (
+          <video
+            src={storeService.getImageUrl(preview)}
+            autoPlay muted loop playsInline
+            preload="auto"
+            disablePictureInPicture
+            onContextMenu={(e) => e.preventDefault()}
+            className="absolute inset-0 w-full h-full object-contain pointer-events-none select-none transition-transform duration-700 group-hover:scale-110"
+          />
+        )}
+
         <div className="absolute inset-0 bg-black/0 group-hover:bg-black/5 transition-colors duration-500"></div>
 
         {!isLoaded && (
@@ -86,6 +101,12 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onClick, prio
           </div>
         )}
 
+        {product.availability && product.availability !== 'available' && (
+          <div className={`absolute bottom-3 left-3 px-2 py-1 backdrop-blur-md rounded text-[8px] font-bold uppercase tracking-[0.2em] pointer-events-none z-10 ${product.availability === 'sold' ? 'bg-stone-900/80 text-white' : 'bg-brand-gold/90 text-white'}`}>
+            {product.availability === 'sold' ? 'Sold' : 'Reserved'}
+          </div>
+        )}
+
         {/* Quick View Overlay */}
         <div className="absolute inset-x-0 bottom-0 p-4 translate-y-full group-hover:translate-y-0 transition-transform duration-500 z-20">
             <div className="w-full py-3 bg-white/90 backdrop-blur-md text-brand-dark text-[10px] font-bold uppercase tracking-[0.2em] text-center rounded-xl shadow-xl">
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { Layers, Loader2, Plus, Search, X, Save, Trash2, Gem } from 'lucide-react';
+import { Product, ProductFamily, ProductSet } from '@/types.ts';
+import { storeService, getResizedImageUrl } from '@/services/storeService.ts';
+
+interface ProductFamilyEditorProps {
+    product: Product;
+    family: ProductFamily | null;
+    onOpen: (id: string) => void;
+    onChanged: () => void;
+}
+
+interface PieceDraft {
+    id: string;
+    title: string;
+    thumbnail: string | null;
+    variantLabel: string;
+    size: string;
+}
+
+interface SetDraft {
+    id?: string;
+    title: string;
+    description: string;
+    discountPercent: number;
+    pieces: PieceDraft[];
+}
+
+const toPiece = (p: { id: string; title: string; thumbnail?: string | null; thumbnails?: string[]; variantLabel?: string | null; size?: string | null }): PieceDraft => ({
+    id: p.id, title: p.title, thumbnail: p.thumbnail ?? p.thumbnails?.[0] ?? null, variantLabel: p.variantLabel || '', size: p.size || ''
+});
+
+// Catalog search shared by the variant and set editors
+const PiecePicker: React.FC<{ exclude: string[]; onPick: (p: Product) => void }> = ({ exclude, onPick }) => {
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<Product[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+
+    const search = async () => {
+        if (!query.trim()) return;
+        setIsSearching(true);
+        const res = await storeService.getProducts(1, 12, { search: query, publicOnly: false });
+        setResults(res.items);
+        setIsSearching(false);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex gap-2">
+                <input value={query} onChange={e => setQuery(e.target.value)} onKeyDown={e => e.key === 'Enter' && search()} placeholder="Search catalog to add..." className="flex-1 p-2 border border-stone-200 rounded-lg text-xs" />
+                <button onClick={search} className="px-3 bg-stone-900 text-white rounded-lg">{isSearching ? <Loader2 size={14} className="animate-spin" /> : <Search size={14} />}</button>
+            </div>
+            {results.length > 0 && (
+                <div className="grid grid-cols-4 gap-2 max-h-56 overflow-y-auto">
+                    {results.map(p => {
+                        const added = exclude.includes(p.id);
+                        return (
+                            <button key={p.id} onClick={() => onPick(p)} disabled={added} className={`relative rounded-xl overflow-hidden border text-left ${added ? 'border-brand-gold opacity-50' : 'border-stone-100 hover:border-brand-gold'}`}>
+                                <img src={storeService.getImageUrl(p.thumbnails?.[0] || '')} alt="" className="w-full aspect-square object-cover bg-stone-50" />
+                                <p className="p-1 text-[9px] text-stone-600 truncate">{p.title}</p>
+                                {!added && <span className="absolute top-1 right-1 w-5 h-5 bg-white/90 rounded-full flex items-center justify-center text-brand-gold"><Plus size={12} /></span>}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const ProductFamilyEditor: React.FC<ProductFamilyEditorProps> = ({ product, family, onOpen, onChanged }) => {
+    const [mainLabel, setMainLabel] = useState('');
+    const [mainSize, setMainSize] = useState('');
+    const [variants, setVariants] = useState<PieceDraft[]>([]);
+    const [sets, setSets] = useState<ProductSet[]>([]);
+    const [setDraft, setSetDraft] = useState<SetDraft | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const isVariant = !!product.parentId;
+
+    useEffect(() => {
+        setMainLabel(product.variantLabel || '');
+        setMainSize(product.size || '');
+        setVariants((family?.variants || []).filter(v => v.id !== product.id).map(toPiece));
+    }, [product, family]);
+
+    useEffect(() => {
+        storeService.getProductSets(product.id).then(setSets);
+        setSetDraft(null);
+    }, [product.id]);
+
+    const updateVariant = (id: string, updates: Partial<PieceDraft>) => setVariants(variants.map(v => (v.id === id ? { ...v, ...updates } : v)));
+
+    const handleSaveVariants = async () => {
+        setIsSaving(true);
+        try {
+            await storeService.saveProductVariants(product.id, { variantLabel: mainLabel, size: mainSize }, variants.map(({ id, variantLabel, size }) => ({ id, variantLabel, size })));
+            onChanged();
+        } catch (e: any) {
+            alert(e.message || 'Failed to save variants');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSaveSet = async () => {
+        if (!setDraft) return;
+        setIsSaving(true);
+        try {
+            await storeService.saveProductSet({
+                id: setDraft.id, title: setDraft.title, description: setDraft.description || null,
+                discountPercent: setDraft.discountPercent, productIds: setDraft.pieces.map(p => p.id)
+            });
+            setSetDraft(null);
+            setSets(await storeService.getProductSets(product.id));
+            onChanged();
+        } catch (e: any) {
+            alert(e.message || 'Failed to save set');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDeleteSet = async () => {
+        if (!setDraft?.id || !confirm(`Delete the set "${setDraft.title}"? The pieces themselves are kept.`)) return;
+        await storeService.deleteProductSet(setDraft.id);
+        setSetDraft(null);
+        setSets(await storeService.getProductSets(product.id));
+        onChanged();
+    };
+
+    return (
+        <div className="bg-white rounded-3xl p-6 space-y-6 border border-stone-100 shadow-lg mt-6">
+            <h3 className="text-[9px] font-bold text-brand-gold uppercase tracking-[0.3em] flex items-center gap-2">
+                <Layers size={17} /> Variants & Sets
+            </h3>
+
+            {isVariant ? (
+                <p className="text-xs text-stone-500">
+                    This piece is a variant{product.variantLabel ? ` (${product.variantLabel})` : ''}.{' '}
+                    <button onClick={() => onOpen(product.parentId!)} className="font-bold text-brand-gold underline">Open the main piece</button> to change its variants.
+                </p>
+            ) : (
+                <div className="space-y-3">
+                    <p className="text-[9px] font-bold uppercase text-stone-400 tracking-widest">Sizes & Options</p>
+                    <div className="flex items-center gap-2 p-2 bg-stone-50 border border-stone-100 rounded-xl">
+                        <span className="flex-1 text-xs font-bold text-stone-700 truncate">This piece</span>
+                        <input value={mainLabel} onChange={e => setMainLabel(e.target.value)} placeholder="Label" className="w-28 p-1.5 border border-stone-200 rounded-lg text-xs" />
+                        <input value={mainSize} onChange={e => setMainSize(e.target.value)} placeholder="Size" className="w-16 p-1.5 border border-stone-200 rounded-lg text-xs" />
+                        <span className="w-6" />
+                    </div>
+                    {variants.map(v => (
+                        <div key={v.id} className="flex items-center gap-2 p-2 bg-stone-50 border border-stone-100 rounded-xl">
+                            <img src={getResizedImageUrl(v.thumbnail || '', { w: 64, h: 64, fit: 'cover' })} alt="" className="w-8 h-8 rounded-lg object-cover bg-white" />
+                            <button onClick={() => onOpen(v.id)} className="flex-1 text-left text-xs text-stone-700 truncate hover:text-brand-gold">{v.title}</button>
+                            <input value={v.variantLabel} onChange={e => updateVariant(v.id, { variantLabel: e.target.value })} placeholder="Label" className="w-28 p-1.5 border border-stone-200 rounded-lg text-xs" />
+                            <input value={v.size} onChange={e => updateVariant(v.id, { size: e.target.value })} placeholder="Size" className="w-16 p-1.5 border border-stone-200 rounded-lg text-xs" />
+                            <button onClick={() => setVariants(variants.filter(x => x.id !== v.id))} className="p-1 text-stone-300 hover:text-rose-500"><X size={14} /></button>
+                        </div>
+                    ))}
+                    <PiecePicker exclude={[product.id, ...variants.map(v => v.id)]} onPick={p => setVariants([...variants, toPiece(p)])} />
+                    <div className="flex justify-end">
+                        <button onClick={handleSaveVariants} disabled={isSaving} className="px-4 py-2 bg-brand-dark text-white rounded-lg text-[9px] font-bold uppercase tracking-widest flex items-center gap-2 disabled:opacity-50">
+                            {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save Variants
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="space-y-3 pt-4 border-t border-stone-100">
+                <div className="flex items-center justify-between">
+                    <p className="text-[9px] font-bold uppercase text-stone-400 tracking-widest">Sets</p>
+                    {!setDraft && (
+                        <button onClick={() => setSetDraft({ title: '', description: '', discountPercent: 0, pieces: [toPiece(product)] })} className="text-[9px] font-bold uppercase tracking-widest text-brand-gold flex items-center gap-1">
+                            <Plus size={12} /> New Set
+                        </button>
+                    )}
+                </div>
+
+                {!setDraft && sets.length === 0 && <p className="text-xs text-stone-400">Not part of any set.</p>}
+                {!setDraft && sets.map(s => (
+                    <button
+                        key={s.id}
+                        onClick={() => setSetDraft({ id: s.id, title: s.title, description: s.description || '', discountPercent: s.discountPercent, pieces: s.items.map(toPiece) })}
+                        className="w-full flex items-center gap-3 p-3 border border-stone-100 rounded-xl text-left hover:border-brand-gold"
+                    >
+                        <Gem size={16} className="text-brand-gold shrink-0" />
+                        <span className="flex-1 text-xs font-bold text-stone-700 truncate">{s.title}</span>
+                        <span className="text-[10px] text-stone-400">{s.items.length} pieces{s.discountPercent ? ` · ${s.discountPercent}% off` : ''}</span>
+                        <span className="text-[10px] font-mono text-stone-600">₹{s.setPrice.toLocaleString('en-IN')}</span>
+                    </button>
+                ))}
+
+                {setDraft && (
+                    <div className="space-y-3 p-4 bg-stone-50 border border-stone-100 rounded-2xl">
+                        <div className="grid grid-cols-3 gap-2">
+                            <input value={setDraft.title} onChange={e => setSetDraft({ ...setDraft, title: e.target.value })} placeholder="Set title, e.g. Bridal Choker Set" className="col-span-2 p-2 border border-stone-200 rounded-lg text-xs" />
+                            <div className="flex items-center gap-1 bg-white border border-stone-200 rounded-lg px-2">
+                                <input type="number" min={0} max={100} value={setDraft.discountPercent || ''} onChange={e => setSetDraft({ ...setDraft, discountPercent: Number(e.target.value) || 0 })} placeholder="0" className="w-full py-2 text-xs outline-none" />
+                                <span className="text-[10px] text-stone-400">% off</span>
+                            </div>
+                        </div>
+                        <textarea value={setDraft.description} onChange={e => setSetDraft({ ...setDraft, description: e.target.value })} rows={2} placeholder="Description (optional)" className="w-full p-2 border border-stone-200 rounded-lg text-xs resize-none" />
+                        {setDraft.pieces.map(p => (
+                            <div key={p.id} className="flex items-center gap-2 p-2 bg-white border border-stone-100 rounded-xl">
+                                <img src={getResizedImageUrl(p.thumbnail || '', { w: 64, h: 64, fit: 'cover' })} alt="" className="w-8 h-8 rounded-lg object-cover bg-stone-50" />
+                                <span className="flex-1 text-xs text-stone-700 truncate">{p.title}</span>
+                                <button onClick={() => setSetDraft({ ...setDraft, pieces: setDraft.pieces.filter(x => x.id !== p.id) })} className="p-1 text-stone-300 hover:text-rose-500"><X size={14} /></button>
+                            </div>
+                        ))}
+                        <PiecePicker exclude={setDraft.pieces.map(p => p.id)} onPick={p => setSetDraft({ ...setDraft, pieces: [...setDraft.pieces, toPiece(p)] })} />
+                        <div className="flex gap-2">
+                            {setDraft.id && <button onClick={handleDeleteSet} className="px-3 py-2 text-rose-500 rounded-lg text-[9px] font-bold uppercase tracking-widest flex items-center gap-1 hover:bg-rose-50"><Trash2 size={12} /> Delete</button>}
+                            <div className="flex-1" />
+                            <button onClick={() => setSetDraft(null)} className="px-3 py-2 text-stone-400 text-[9px] font-bold uppercase tracking-widest">Cancel</button>
+                            <button onClick={handleSaveSet} disabled={isSaving || !setDraft.title.trim() || setDraft.pieces.length < 2} className="px-4 py-2 bg-brand-dark text-white rounded-lg text-[9px] font-bold uppercase tracking-widest flex items-center gap-2 disabled:opacity-50">
+                                {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save Set
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
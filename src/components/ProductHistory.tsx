@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { History, Loader2, RotateCcw, ChevronDown, ChevronUp } from 'lucide-react';
+import { Product, ProductRevision, ProductRevisionAction } from '@/types.ts';
+import { storeService } from '@/services/storeService.ts';
+
+interface ProductHistoryProps {
+    product: Product;
+    onRestored: (product: Product) => void;
+}
+
+const ACTION_LABELS: Record<ProductRevisionAction, string> = {
+    baseline: 'Original',
+    create: 'Created',
+    update: 'Edited',
+    delete: 'Moved to trash',
+    undelete: 'Restored from trash',
+    restore: 'Reverted'
+};
+
+const FIELD_LABELS: Record<string, string> = { subCategory: 'Sub-category', isHidden: 'Hidden', dateTaken: 'Date taken', publishAt: 'Publish at', unpublishAt: 'Unpublish at', meta: 'Pricing & details', parentId: 'Main piece', variantLabel: 'Variant label' };
+
+const formatValue = (field: string, value: any): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'images' || field === 'thumbnails') return `${value.length} ${value.length === 1 ? 'image' : 'images'}`;
+    if (field === 'publishAt' || field === 'unpublishAt') return new Date(value).toLocaleString();
+    if (Array.isArray(value)) return value.join(', ') || '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'object') {
+        const entries = Object.entries(value).filter(([, v]) => v !== undefined && v !== null && v !== '');
+        return entries.map(([k, v]) => `${k}: ${typeof v === 'object' ? JSON.stringify(v) : v}`).join('; ') || '—';
+    }
+    return String(value);
+};
+
+export const ProductHistory: React.FC<ProductHistoryProps> = ({ product, onRestored }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [revisions, setRevisions] = useState<ProductRevision[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [restoringId, setRestoringId] = useState<number | null>(null);
+
+    // Reload after every save so the newest edit shows up
+    useEffect(() => {
+        if (!isOpen) return;
+        setIsLoading(true);
+        storeService.getProductRevisions(product.id).then(r => { setRevisions(r); setIsLoading(false); });
+    }, [isOpen, product]);
+
+    const handleRestore = async (revision: ProductRevision) => {
+        if (!confirm(`Restore this piece to how it was on ${new Date(revision.createdAt).toLocaleString()}? The current version stays in the history.`)) return;
+        setRestoringId(revision.id);
+        try {
+            const res = await storeService.restoreProductRevision(product.id, revision.id);
+            onRestored(res.product);
+        } catch (e: any) {
+            alert(e.message || 'Restore failed');
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-3xl p-6 space-y-4 border border-stone-100 shadow-lg mt-6">
+            <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between">
+                <h3 className="text-[9px] font-bold text-brand-gold uppercase tracking-[0.3em] flex items-center gap-2">
+                    <History size={17} /> Edit History
+                </h3>
+                {isOpen ? <ChevronUp size={16} className="text-stone-400" /> : <ChevronDown size={16} className="text-stone-400" />}
+            </button>
+
+            {isOpen && (isLoading && revisions.length === 0 ? (
+                <div className="py-6 flex justify-center"><Loader2 className="animate-spin text-brand-gold" size={20} /></div>
+            ) : revisions.length === 0 ? (
+                <p className="text-xs text-stone-400">No edits recorded yet.</p>
+            ) : (
+                <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+                    {revisions.map((rev, i) => (
+                        <div key={rev.id} className="border border-stone-100 rounded-xl p-3 space-y-2">
+                            <div className="flex items-center gap-2">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-xs font-bold text-stone-700">
+                                        {ACTION_LABELS[rev.action]}
+                                        {rev.restoredFrom && <span className="font-normal text-stone-400"> · to revision #{rev.restoredFrom}</span>}
+                                    </p>
+                                    <p className="text-[10px] text-stone-400">
+                                        #{rev.id} · {new Date(rev.createdAt).toLocaleString()}{rev.changedByName ? ` · ${rev.changedByName}` : ''}
+                                    </p>
+                                </div>
+                                {i > 0 && rev.action !== 'delete' && (
+                                    <button
+                                        onClick={() => handleRestore(rev)}
+                                        disabled={restoringId !== null}
+                                        className="px-2.5 py-1.5 border border-stone-200 rounded-lg text-[9px] font-bold uppercase tracking-widest text-stone-500 hover:border-brand-gold hover:text-brand-gold flex items-center gap-1 disabled:opacity-50"
+                                    >
+                                        {restoringId === rev.id ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />} Restore
+                                    </button>
+                                )}
+                            </div>
+                            {rev.changes.length > 0 && rev.action !== 'create' && (
+                                <div className="grid grid-cols-[6rem_1fr] gap-x-3 gap-y-1 text-[11px]">
+                                    {rev.changes.map(c => (
+                                        <React.Fragment key={c.field}>
+                                            <span className="text-[9px] uppercase tracking-widest text-stone-400 pt-0.5">{FIELD_LABELS[c.field] || c.field}</span>
+                                            <span className="text-stone-600 break-words">
+                                                <span className="line-through text-rose-400 mr-2">{formatValue(c.field, c.from)}</span>
+                                                <span className="text-emerald-600">{formatValue(c.field, c.to)}</span>
+                                            </span>
+                                        </React.Fragment>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            ))}
+        </div>
+    );
+};
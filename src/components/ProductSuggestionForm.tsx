@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Lightbulb, Send, Loader2, CheckCircle } from 'lucide-react';
+import { Product, ProductSuggestion, SuggestionStatus } from '@/types.ts';
+import { storeService } from '@/services/storeService.ts';
+
+interface ProductSuggestionFormProps {
+    product: Product;
+    customerId: string;
+}
+
+const QUICK_REQUESTS = ['Make this in 18KT', 'Lighter version please', 'Can this be customised?', 'Matching earrings?'];
+
+export const SUGGESTION_STATUS_LABELS: Record<SuggestionStatus, string> = { new: 'Received', in_review: 'In Review', done: 'Done' };
+
+export const ProductSuggestionForm: React.FC<ProductSuggestionFormProps> = ({ product, customerId }) => {
+    const [suggestions, setSuggestions] = useState<ProductSuggestion[]>([]);
+    const [text, setText] = useState('');
+    const [isSending, setIsSending] = useState(false);
+
+    useEffect(() => {
+        storeService.getMyProductSuggestions(product.id, customerId).then(setSuggestions);
+    }, [product.id, customerId]);
+
+    const handleSubmit = async () => {
+        if (!text.trim()) return;
+        setIsSending(true);
+        try {
+            const created = await storeService.submitProductSuggestion(product.id, customerId, text);
+            setSuggestions([created, ...suggestions]);
+            setText('');
+        } catch (e: any) {
+            alert(e.message || 'Failed to send request');
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-3xl p-6 space-y-4 border border-stone-100 shadow-lg">
+            <h3 className="text-[9px] font-bold text-brand-gold uppercase tracking-[0.3em] flex items-center gap-2">
+                <Lightbulb size={17} /> Request a Variation
+            </h3>
+            <div className="flex flex-wrap gap-2">
+                {QUICK_REQUESTS.map(q => (
+                    <button key={q} onClick={() => setText(q)} className={`px-3 py-1.5 rounded-full text-[9px] font-bold uppercase tracking-widest border transition-all ${text === q ? 'bg-brand-gold text-white border-brand-gold' : 'bg-stone-50 text-stone-500 border-stone-100 hover:border-brand-gold'}`}>{q}</button>
+                ))}
+            </div>
+            <div className="flex gap-2">
+                <textarea value={text} onChange={e => setText(e.target.value)} rows={2} maxLength={1000} placeholder="Tell us what you'd like changed..." className="flex-1 p-3 bg-stone-50 border border-stone-100 rounded-xl text-sm outline-none focus:border-brand-gold resize-none" />
+                <button onClick={handleSubmit} disabled={isSending || !text.trim()} className="px-4 bg-brand-dark text-white rounded-xl disabled:opacity-50">
+                    {isSending ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+                </button>
+            </div>
+
+            {suggestions.length > 0 && (
+                <div className="space-y-2 pt-2 border-t border-stone-100">
+                    {suggestions.map(s => (
+                        <div key={s.id} className="p-3 bg-stone-50 rounded-xl text-xs space-y-1">
+                            <div className="flex items-start justify-between gap-3">
+                                <p className="text-stone-700">{s.suggestion}</p>
+                                <span className={`shrink-0 text-[8px] font-bold uppercase tracking-widest flex items-center gap-1 ${s.status === 'done' ? 'text-emerald-600' : s.status === 'in_review' ? 'text-brand-gold' : 'text-stone-400'}`}>
+                                    {s.status === 'done' && <CheckCircle size={11} />} {SUGGESTION_STATUS_LABELS[s.status]}
+                                </span>
+                            </div>
+                            {s.staffReply && <p className="text-stone-500 italic">"{s.staffReply}"</p>}
+                            {s.fulfilledByProductId && (
+                                <Link to={`/product/${s.fulfilledByProductId}`} className="inline-block text-[9px] font-bold uppercase tracking-widest text-brand-gold">View the new piece →</Link>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Languages, Wand2, Loader2 } from 'lucide-react';
+import { Locale, ProductTranslations } from '@/types.ts';
+import { TRANSLATION_LOCALES } from '@/services/i18n.ts';
+import { translateProductText } from '@/services/geminiService.ts';
+
+interface ProductTranslationsEditorProps {
+    title: string;
+    description: string;
+    translations: ProductTranslations;
+    onChange: (translations: ProductTranslations) => void;
+}
+
+// Title and description per language. Blank fields fall back to the English text for readers.
+export const ProductTranslationsEditor: React.FC<ProductTranslationsEditorProps> = ({ title, description, translations, onChange }) => {
+    const [activeLocale, setActiveLocale] = useState<Locale>(TRANSLATION_LOCALES[0].id);
+    const [isDrafting, setIsDrafting] = useState(false);
+    const entry = translations[activeLocale] || {};
+
+    const updateEntry = (patch: { title?: string; description?: string }) => {
+        onChange({ ...translations, [activeLocale]: { ...entry, ...patch } });
+    };
+
+    // Drafts every language that is still empty; translations staff already wrote are kept
+    const handleDraft = async () => {
+        const missing = TRANSLATION_LOCALES.map(l => l.id).filter(id => !translations[id]?.title && !translations[id]?.description);
+        const locales = missing.length ? missing : [activeLocale];
+        setIsDrafting(true);
+        try {
+            const drafted = await translateProductText(title, description, locales);
+            onChange({ ...translations, ...drafted });
+        } catch (e: any) {
+            alert(e.message || 'Could not draft translations');
+        } finally {
+            setIsDrafting(false);
+        }
+    };
+
+    const inputClass = "w-full bg-white p-3 rounded-xl border border-stone-100 outline-none focus:border-brand-gold text-sm text-brand-dark";
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest ml-1 flex items-center gap-1.5"><Languages size={14} /> Translations</label>
+                <button type="button" onClick={handleDraft} disabled={isDrafting || !title} className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-widest text-brand-gold hover:text-brand-dark transition-colors disabled:opacity-50">
+                    {isDrafting ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />} Draft with AI
+                </button>
+            </div>
+            <div className="bg-white p-3 rounded-2xl border border-stone-100 space-y-3">
+                <div className="flex gap-2">
+                    {TRANSLATION_LOCALES.map(l => (
+                        <button
+                            type="button"
+                            key={l.id}
+                            onClick={() => setActiveLocale(l.id)}
+                            className={`px-3 py-1.5 rounded-lg text-[9px] font-bold uppercase tracking-widest border transition-all ${activeLocale === l.id ? 'bg-brand-dark text-white border-brand-dark' : 'bg-stone-50 text-stone-400 border-stone-100 hover:border-brand-gold'}`}
+                        >
+                            {l.nativeName}{translations[l.id]?.title ? ' ✓' : ''}
+                        </button>
+                    ))}
+                </div>
+                <input lang={activeLocale} value={entry.title || ''} onChange={e => updateEntry({ title: e.target.value })} placeholder={title || 'Title'} className={inputClass} />
+                <textarea lang={activeLocale} value={entry.description || ''} onChange={e => updateEntry({ description: e.target.value })} placeholder={description || 'Description'} rows={3} className={inputClass} />
+            </div>
+        </div>
+    );
+};
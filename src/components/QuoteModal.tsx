@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { X, FileText, Loader2, Download, Send, Clock } from 'lucide-react';
+import { Product, AppConfig, GoldPurity, Quote } from '@/types.ts';
+import { storeService } from '@/services/storeService.ts';
+
+interface QuoteModalProps {
+    product: Product;
+    config: AppConfig | null;
+    purity: GoldPurity;
+    onClose: () => void;
+}
+
+export const QuoteModal: React.FC<QuoteModalProps> = ({ product, config, purity, onClose }) => {
+    const [customerName, setCustomerName] = useState('');
+    const [customerPhone, setCustomerPhone] = useState('');
+    const [planMonths, setPlanMonths] = useState<number | ''>('');
+    const [isCreating, setIsCreating] = useState(false);
+    const [quote, setQuote] = useState<Quote | null>(null);
+    const [history, setHistory] = useState<Quote[]>([]);
+
+    useEffect(() => {
+        storeService.getProductQuotes(product.id).then(setHistory);
+    }, [product.id, quote]);
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        try {
+            const created = await storeService.createQuote(product.id, {
+                customerName: customerName || undefined,
+                customerPhone: customerPhone || undefined,
+                purity,
+                planMonths: planMonths || undefined
+            });
+            setQuote(created);
+        } catch (e: any) {
+            alert(e.message || 'Failed to create quote');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleSend = async (q: Quote) => {
+        const url = storeService.getQuotePdfUrl(q.token);
+        const text = encodeURIComponent(`Your estimate ${q.quoteNumber} for ${product.title}: ₹${Math.round(q.total).toLocaleString('en-IN')} (valid until ${new Date(q.validUntil).toLocaleString()}).\n${url}`);
+        const phone = (q.customerPhone || customerPhone).replace(/\D/g, '');
+        window.open(`https://wa.me/${phone}?text=${text}`, '_blank');
+        await storeService.markQuoteSent(q.id).catch(() => null);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in">
+            <div className="bg-white rounded-2xl p-6 w-full max-w-md shadow-2xl relative max-h-[90vh] overflow-y-auto">
+                <button onClick={onClose} className="absolute top-4 right-4 text-stone-400 hover:text-stone-800"><X size={20}/></button>
+                <div className="flex items-center gap-3 mb-6">
+                    <div className="w-10 h-10 bg-brand-gold/10 text-brand-gold rounded-full flex items-center justify-center"><FileText size={20} /></div>
+                    <div>
+                        <h3 className="font-serif text-xl font-bold text-stone-800">Customer Estimate</h3>
+                        <p className="text-stone-500 text-xs">{product.title} · {purity}</p>
+                    </div>
+                </div>
+
+                {!quote ? (
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1.5 ml-1">Customer Name</label>
+                            <input value={customerName} onChange={e => setCustomerName(e.target.value)} className="w-full p-3 bg-stone-50 border border-stone-100 rounded-xl text-sm outline-none focus:border-brand-gold" placeholder="Optional" />
+                        </div>
+                        <div>
+                            <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1.5 ml-1">WhatsApp Number</label>
+                            <input value={customerPhone} onChange={e => setCustomerPhone(e.target.value)} className="w-full p-3 bg-stone-50 border border-stone-100 rounded-xl text-sm font-mono outline-none focus:border-brand-gold" placeholder="91..." />
+                        </div>
+                        <div>
+                            <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1.5 ml-1">Payment Plan</label>
+                            <select value={planMonths} onChange={e => setPlanMonths(e.target.value ? Number(e.target.value) : '')} className="w-full p-3 bg-stone-50 border border-stone-100 rounded-xl text-xs font-bold uppercase tracking-widest outline-none">
+                                <option value="">Full Payment</option>
+                                {(config?.paymentPlans || []).map(p => (
+                                    <option key={p.months} value={p.months}>{p.months} Month{p.months > 1 ? 's' : ''} · {p.advancePercent}% Advance</option>
+                                ))}
+                            </select>
+                        </div>
+                        <p className="text-[10px] text-stone-400 flex items-center gap-1.5"><Clock size={12} /> Valid for {config?.quoteValidityHours || 24} hours at today's gold rate.</p>
+                        <button onClick={handleCreate} disabled={isCreating} className="w-full py-3 bg-stone-900 text-white rounded-xl font-bold uppercase text-[10px] tracking-widest flex items-center justify-center gap-2 disabled:opacity-50">
+                            {isCreating ? <Loader2 size={17} className="animate-spin" /> : <FileText size={17} />} Generate Estimate
+                        </button>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="p-4 bg-stone-50 border border-stone-100 rounded-xl">
+                            <p className="text-[9px] font-bold uppercase text-stone-400 tracking-widest">{quote.quoteNumber}</p>
+                            <p className="text-2xl font-serif font-bold text-brand-dark">₹{Math.round(quote.total).toLocaleString('en-IN')}</p>
+                            <p className="text-[10px] text-stone-500">Valid until {new Date(quote.validUntil).toLocaleString()}</p>
+                        </div>
+                        <div className="flex gap-2">
+                            <a href={storeService.getQuotePdfUrl(quote.token)} target="_blank" rel="noreferrer" className="flex-1 py-3 bg-stone-900 text-white rounded-xl font-bold uppercase text-[10px] tracking-widest flex items-center justify-center gap-2">
+                                <Download size={17} /> Open PDF
+                            </a>
+                            <button onClick={() => handleSend(quote)} className="flex-1 py-3 bg-green-50 text-green-700 rounded-xl font-bold uppercase text-[10px] tracking-widest border border-green-100 flex items-center justify-center gap-2">
+                                <Send size={17} /> WhatsApp
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {history.length > 0 && (
+                    <div className="mt-6 pt-4 border-t border-stone-100 space-y-2">
+                        <p className="text-[9px] font-bold uppercase text-stone-400 tracking-widest">Previous Estimates</p>
+                        {history.map(q => (
+                            <a key={q.id} href={storeService.getQuotePdfUrl(q.token)} target="_blank" rel="noreferrer" className="flex items-center justify-between p-2 rounded-lg hover:bg-stone-50 text-xs">
+                                <span className="font-mono text-stone-600">{q.quoteNumber}</span>
+                                <span className="text-stone-400 truncate mx-2 flex-1">{q.customerName || '—'}</span>
+                                <span className={`text-[9px] font-bold uppercase tracking-widest ${q.isValid ? 'text-emerald-600' : 'text-stone-300'}`}>
+                                    {q.isValid ? 'Valid' : q.reason === 'rate_moved' ? 'Rate Moved' : 'Expired'}
+                                </span>
+                            </a>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
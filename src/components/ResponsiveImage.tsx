@@ -0,0 +1,33 @@
+import React from 'react';
+import { ImageManifest } from '@/types.ts';
+import { getImageUrl, hasViewerMark } from '@/services/storeService.ts';
+
+interface ResponsiveImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
+    src: string;
+    manifest?: ImageManifest;
+    // Rendered width of the slot, e.g. "(min-width: 768px) 25vw, 50vw"; the browser picks the smallest file that fills it
+    sizes: string;
+}
+
+// Offers AVIF then WebP at every stored width. Images without variants render as a plain <img>.
+export const ResponsiveImage: React.FC<ResponsiveImageProps> = ({ src, manifest, sizes, ...imgProps }) => {
+    // A manifest only applies to the image it was built for; edits in progress may have swapped the src
+    const belongs = !!manifest && (manifest.src === src || manifest.variants.some(v => v.url === src));
+    const variants = belongs ? manifest!.variants : [];
+    if (variants.length < 2) return <img src={getImageUrl(src)} {...imgProps} />;
+
+    const srcSet = (format: string) => variants
+        .filter(v => v.format === format)
+        .map(v => `${getImageUrl(v.url)} ${v.width}w`)
+        .join(', ');
+
+    return (
+        <picture className="contents">
+            {(hasViewerMark() ? ['webp'] as const : ['avif', 'webp'] as const).map(format => {
+                const set = srcSet(format);
+                return set ? <source key={format} type={`image/${format}`} srcSet={set} sizes={sizes} /> : null;
+            })}
+            <img src={getImageUrl(src)} sizes={sizes} {...imgProps} />
+        </picture>
+    );
+};
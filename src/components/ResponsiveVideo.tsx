@@ -0,0 +1,20 @@
+import React from 'react';
+import { VideoDetails } from '@/types.ts';
+import { getImageUrl } from '@/services/storeService.ts';
+
+interface ResponsiveVideoProps extends React.VideoHTMLAttributes<HTMLVideoElement> {
+    src: string;
+    details?: VideoDetails;
+}
+
+// Offers the VP9 WebM then the H.264 MP4 with the poster frame. Videos uploaded before
+// transcoding have no details and play from the src as is.
+export const ResponsiveVideo: React.FC<ResponsiveVideoProps> = ({ src, details, ...videoProps }) => {
+    if (!details) return <video src={getImageUrl(src)} {...videoProps} />;
+    return (
+        <video poster={getImageUrl(details.poster)} width={details.width} height={details.height} {...videoProps}>
+            <source src={getImageUrl(details.webm)} type="video/webm" />
+            <source src={getImageUrl(src)} type="video/mp4" />
+        </video>
+    );
+};
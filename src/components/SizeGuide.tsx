@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Ruler, X, Loader2, Check, ArrowRight } from 'lucide-react';
+import { Product, ProductFamilyMember, SizeChart } from '@/types.ts';
+import { storeService, getSizeFit } from '@/services/storeService.ts';
+import { variantName } from '@/components/VariantPicker.tsx';
+
+interface SizeGuideProps {
+    product: Product;
+    chart: SizeChart;
+    variants: ProductFamilyMember[];
+    onOpenVariant: (id: string) => void;
+}
+
+const circumference = (diameterMm: number) => Math.round(diameterMm * Math.PI * 10) / 10;
+
+export const SizeGuide: React.FC<SizeGuideProps> = ({ product, chart, variants, onOpenVariant }) => {
+    const user = storeService.getCurrentUser();
+    const isCustomer = user?.role === 'customer';
+    const [savedSize, setSavedSize] = useState<string | undefined>(user?.sizes?.[chart.id]);
+    const [selected, setSelected] = useState<string | undefined>(savedSize || product.size || undefined);
+    const [isOpen, setIsOpen] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const fit = isCustomer ? getSizeFit(product, chart, savedSize, variants) : null;
+
+    const handleSave = async () => {
+        if (!user || !selected) return;
+        setIsSaving(true);
+        try {
+            const sizes = await storeService.saveCustomerSizes(user.id, { ...(user.sizes || {}), [chart.id]: selected });
+            setSavedSize(sizes[chart.id]);
+            setIsOpen(false);
+        } catch (e: any) {
+            alert(e.message || 'Could not save your size');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.3em]">
+                    {chart.name} Size{product.size ? <span className="text-brand-dark font-mono ml-2 tracking-normal">{product.size}</span> : null}
+                </p>
+                <button onClick={() => setIsOpen(true)} className="text-[9px] font-bold text-brand-gold uppercase tracking-widest flex items-center gap-1.5 hover:underline">
+                    <Ruler size={14} /> Size Guide
+                </button>
+            </div>
+
+            {isCustomer && !savedSize && (
+                <button onClick={() => setIsOpen(true)} className="text-[10px] text-stone-500 underline">Save your {chart.name.toLowerCase()} size to see whether this piece fits you</button>
+            )}
+            {fit?.status === 'exact' && (
+                <p className="text-[10px] font-bold text-emerald-600 flex items-center gap-1.5"><Check size={14} /> Available in your size ({savedSize})</p>
+            )}
+            {fit?.status === 'variant' && (
+                <button onClick={() => onOpenVariant(fit.variant.id)} className="text-[10px] font-bold text-emerald-600 flex items-center gap-1.5 hover:underline">
+                    Your size ({savedSize}) is available as {variantName(fit.variant)} <ArrowRight size={12} />
+                </button>
+            )}
+            {fit?.status === 'resizable' && (
+                <p className="text-[10px] font-bold text-brand-gold">Can be resized to your size ({savedSize})</p>
+            )}
+            {fit?.status === 'unavailable' && (
+                <p className="text-[10px] text-stone-500">Not available in your size ({savedSize}). Ask us about making one to order.</p>
+            )}
+
+            {isOpen && (
+                <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in">
+                    <div className="bg-white rounded-2xl p-6 w-full max-w-md shadow-2xl relative max-h-[90vh] overflow-y-auto">
+                        <button onClick={() => setIsOpen(false)} className="absolute top-4 right-4 text-stone-400 hover:text-stone-800"><X size={20} /></button>
+                        <div className="flex items-center gap-3 mb-4">
+                            <div className="w-10 h-10 bg-brand-gold/10 text-brand-gold rounded-full flex items-center justify-center"><Ruler size={20} /></div>
+                            <div>
+                                <h3 className="font-serif text-xl font-bold text-stone-800">{chart.name} Size Guide</h3>
+                                <p className="text-stone-500 text-xs">Measure the inside of a piece that fits you well and match it below.</p>
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-3 text-[9px] font-bold uppercase text-stone-400 tracking-widest px-3 pb-2 border-b border-stone-100">
+                            <span>Size</span><span>Inner Diameter</span><span>Circumference</span>
+                        </div>
+                        <div className="max-h-80 overflow-y-auto">
+                            {chart.sizes.map(s => (
+                                <button
+                                    key={s.label}
+                                    onClick={() => setSelected(s.label)}
+                                    disabled={!isCustomer}
+                                    className={`w-full grid grid-cols-3 text-left px-3 py-2 text-xs font-mono border-b border-stone-50 ${selected === s.label && isCustomer ? 'bg-brand-gold/10 text-brand-dark font-bold' : 'text-stone-600'} ${s.label === product.size ? 'text-brand-gold' : ''}`}
+                                >
+                                    <span>{s.label}{s.label === savedSize ? ' ★' : ''}</span>
+                                    <span>{s.diameterMm} mm</span>
+                                    <span>{circumference(s.diameterMm)} mm</span>
+                                </button>
+                            ))}
+                        </div>
+                        {chart.resizeSteps > 0 && (
+                            <p className="text-[10px] text-stone-400 mt-3">Pieces can usually be resized up to {chart.resizeSteps} {chart.resizeSteps === 1 ? 'size' : 'sizes'} up or down.</p>
+                        )}
+                        {isCustomer ? (
+                            <button onClick={handleSave} disabled={isSaving || !selected} className="w-full mt-4 py-3 bg-stone-900 text-white rounded-xl font-bold uppercase text-[10px] tracking-widest flex items-center justify-center gap-2 disabled:opacity-50">
+                                {isSaving ? <Loader2 size={17} className="animate-spin" /> : <Check size={17} />} Save {selected || ''} as My Size
+                            </button>
+                        ) : (
+                            <p className="text-[10px] text-stone-400 mt-3">Sign in to save your size to your profile.</p>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { Barcode, Plus, Printer, Trash2, Loader2 } from 'lucide-react';
+import { Product, StockUnit, StockLocation, StockStatus } from '@/types.ts';
+import { storeService } from '@/services/storeService.ts';
+
+interface StockUnitsPanelProps {
+    product: Product;
+}
+
+export const STOCK_LOCATION_LABELS: Record<StockLocation, string> = { showroom: 'Showroom', locker: 'Locker', supplier: 'With Supplier' };
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = { in_stock: 'In Stock', on_approval: 'On Approval', sold: 'Sold' };
+
+export const StockUnitsPanel: React.FC<StockUnitsPanelProps> = ({ product }) => {
+    const [units, setUnits] = useState<StockUnit[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [newTag, setNewTag] = useState('');
+    const [newSku, setNewSku] = useState('');
+
+    useEffect(() => {
+        storeService.getProductStockUnits(product.id).then(u => { setUnits(u); setIsLoading(false); });
+    }, [product.id]);
+
+    const handleAdd = async () => {
+        setIsSaving(true);
+        try {
+            const unit = await storeService.createStockUnit(product.id, { tagNumber: newTag || undefined, sku: newSku || undefined });
+            setUnits([...units, unit]);
+            setNewTag('');
+            setNewSku('');
+        } catch (e: any) {
+            alert(e.message || 'Failed to add stock unit');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleUpdate = async (unit: StockUnit, updates: Partial<StockUnit>) => {
+        setUnits(units.map(u => u.id === unit.id ? { ...u, ...updates } : u));
+        try {
+            await storeService.updateStockUnit(unit.id, updates);
+        } catch (e: any) {
+            setUnits(units);
+            alert(e.message || 'Failed to update stock unit');
+        }
+    };
+
+    const handleDelete = async (unit: StockUnit) => {
+        if (!confirm(`Remove tag ${unit.tagNumber}?`)) return;
+        await storeService.deleteStockUnit(unit.id);
+        setUnits(units.filter(u => u.id !== unit.id));
+    };
+
+    const handlePrint = () => storeService.openStockLabels({ productId: product.id }).catch((e: any) => alert(e.message));
+
+    return (
+        <div className="bg-white rounded-3xl p-6 space-y-4 border border-stone-100 shadow-lg mt-6">
+            <div className="flex items-center justify-between">
+                <h3 className="text-[9px] font-bold text-brand-gold uppercase tracking-[0.3em] flex items-center gap-2">
+                    <Barcode size={17} /> Stock Units
+                </h3>
+                {units.length > 0 && (
+                    <button onClick={handlePrint} className="px-3 py-1.5 bg-stone-900 text-white rounded-lg text-[9px] font-bold uppercase tracking-widest flex items-center gap-1.5">
+                        <Printer size={13} /> Print Labels
+                    </button>
+                )}
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center py-4"><Loader2 size={18} className="animate-spin text-stone-300" /></div>
+            ) : (
+                <div className="space-y-2">
+                    {units.map(unit => (
+                        <div key={unit.id} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center p-2 bg-stone-50 rounded-xl border border-stone-100 text-xs">
+                            <span className="font-mono font-bold text-brand-dark">{unit.tagNumber}</span>
+                            <input value={unit.sku || ''} onChange={e => setUnits(units.map(u => u.id === unit.id ? { ...u, sku: e.target.value } : u))} onBlur={e => handleUpdate(unit, { sku: e.target.value })} placeholder="SKU" className="p-1.5 border border-stone-200 rounded-lg font-mono" />
+                            <div className="flex gap-1">
+                                <input type="number" step="0.001" value={unit.grossWeight ?? ''} onChange={e => setUnits(units.map(u => u.id === unit.id ? { ...u, grossWeight: Number(e.target.value) } : u))} onBlur={e => handleUpdate(unit, { grossWeight: Number(e.target.value) })} title="Gross (g)" className="w-full p-1.5 border border-stone-200 rounded-lg" />
+                                <input type="number" step="0.001" value={unit.netWeight ?? ''} onChange={e => setUnits(units.map(u => u.id === unit.id ? { ...u, netWeight: Number(e.target.value) } : u))} onBlur={e => handleUpdate(unit, { netWeight: Number(e.target.value) || null })} title="Net (g)" className="w-full p-1.5 border border-stone-200 rounded-lg" />
+                            </div>
+                            <select value={unit.location} onChange={e => handleUpdate(unit, { location: e.target.value as StockLocation })} className="p-1.5 border border-stone-200 rounded-lg">
+                                {(Object.keys(STOCK_LOCATION_LABELS) as StockLocation[]).map(l => <option key={l} value={l}>{STOCK_LOCATION_LABELS[l]}</option>)}
+                            </select>
+                            <select value={unit.status} onChange={e => handleUpdate(unit, { status: e.target.value as StockStatus })} className="p-1.5 border border-stone-200 rounded-lg">
+                                {(Object.keys(STOCK_STATUS_LABELS) as StockStatus[]).map(s => <option key={s} value={s}>{STOCK_STATUS_LABELS[s]}</option>)}
+                            </select>
+                            <button onClick={() => handleDelete(unit)} className="justify-self-end p-1.5 text-stone-300 hover:text-rose-500"><Trash2 size={15} /></button>
+                        </div>
+                    ))}
+
+                    <div className="flex gap-2 pt-2">
+                        <input value={newTag} onChange={e => setNewTag(e.target.value)} placeholder="Tag no. (auto if blank)" className="flex-1 p-2 bg-stone-50 border border-stone-100 rounded-xl text-xs font-mono outline-none focus:border-brand-gold" />
+                        <input value={newSku} onChange={e => setNewSku(e.target.value)} placeholder="SKU" className="flex-1 p-2 bg-stone-50 border border-stone-100 rounded-xl text-xs font-mono outline-none focus:border-brand-gold" />
+                        <button onClick={handleAdd} disabled={isSaving} className="px-3 bg-brand-gold text-white rounded-xl text-[9px] font-bold uppercase tracking-widest flex items-center gap-1 disabled:opacity-50">
+                            {isSaving ? <Loader2 size={13} className="animate-spin" /> : <Plus size={13} />} Add
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
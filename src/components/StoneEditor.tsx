@@ -0,0 +1,65 @@
+import React from 'react';
+import { Diamond, Plus, Trash2 } from 'lucide-react';
+import { ProductStone, StoneType } from '@/types.ts';
+import { STONE_TYPES } from '@/services/storeService.ts';
+
+interface StoneEditorProps {
+    stones: ProductStone[];
+    onChange: (stones: ProductStone[]) => void;
+}
+
+export const StoneEditor: React.FC<StoneEditorProps> = ({ stones, onChange }) => {
+    const updateStone = (id: string, patch: Partial<ProductStone>) => {
+        onChange(stones.map(s => s.id === id ? { ...s, ...patch } : s));
+    };
+
+    const addStone = () => {
+        onChange([...stones, { id: Date.now().toString(), type: 'diamond', count: 1, caratWeight: 0, ratePerCarat: 0 }]);
+    };
+
+    const inputClass = "w-full bg-stone-50 p-2 rounded-lg border border-stone-100 outline-none focus:border-brand-gold font-mono text-xs text-brand-dark";
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest ml-1">Stones & Diamonds</label>
+                <button type="button" onClick={addStone} className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-widest text-brand-gold hover:text-brand-dark transition-colors">
+                    <Plus size={12} /> Add Stone
+                </button>
+            </div>
+            {stones.length === 0 ? (
+                <div className="flex items-center gap-3 bg-white p-4 rounded-2xl border border-dashed border-stone-200 text-stone-400 text-[10px] uppercase tracking-widest">
+                    <Diamond size={17} /> Plain gold, no stones
+                </div>
+            ) : (
+                <div className="bg-white p-3 rounded-2xl border border-stone-100 space-y-2">
+                    <div className="grid grid-cols-12 gap-2 px-1 text-[8px] font-bold uppercase tracking-widest text-stone-400">
+                        <span className="col-span-3">Type</span>
+                        <span className="col-span-1">Pcs</span>
+                        <span className="col-span-2">Carat</span>
+                        <span className="col-span-2">Grade</span>
+                        <span className="col-span-3">₹ / Ct</span>
+                    </div>
+                    {stones.map(stone => (
+                        <div key={stone.id} className="grid grid-cols-12 gap-2 items-center">
+                            <select
+                                value={stone.type}
+                                onChange={e => updateStone(stone.id, { type: e.target.value as StoneType })}
+                                className={`${inputClass} col-span-3 font-sans font-bold uppercase tracking-widest text-[9px]`}
+                            >
+                                {STONE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                            </select>
+                            <input type="number" min="0" value={stone.count || ''} onChange={e => updateStone(stone.id, { count: parseInt(e.target.value) || 0 })} className={`${inputClass} col-span-1`} />
+                            <input type="number" min="0" step="0.01" value={stone.caratWeight || ''} onChange={e => updateStone(stone.id, { caratWeight: parseFloat(e.target.value) || 0 })} className={`${inputClass} col-span-2`} placeholder="0.00" />
+                            <input value={stone.grade || ''} onChange={e => updateStone(stone.id, { grade: e.target.value || undefined })} className={`${inputClass} col-span-2 font-sans`} placeholder="VVS-EF" />
+                            <input type="number" min="0" value={stone.ratePerCarat || ''} onChange={e => updateStone(stone.id, { ratePerCarat: parseFloat(e.target.value) || 0 })} className={`${inputClass} col-span-3`} placeholder="0" />
+                            <button type="button" onClick={() => onChange(stones.filter(s => s.id !== stone.id))} className="col-span-1 p-2 text-stone-300 hover:text-brand-red transition-colors">
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
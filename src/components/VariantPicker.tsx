@@ -0,0 +1,39 @@
+import React from 'react';
+import { ProductFamilyMember } from '@/types.ts';
+import { useLocale } from '@/contexts/LocaleContext.tsx';
+
+interface VariantPickerProps {
+    variants: ProductFamilyMember[];
+    currentId: string;
+    showDetails: boolean;
+    onSelect: (id: string) => void;
+}
+
+export const variantName = (v: Pick<ProductFamilyMember, 'variantLabel' | 'size' | 'title'>) =>
+    v.variantLabel || (v.size ? `Size ${v.size}` : v.title);
+
+// Each variant is its own product page, so picking one navigates to it
+export const VariantPicker: React.FC<VariantPickerProps> = ({ variants, currentId, showDetails, onSelect }) => {
+    const { t } = useLocale();
+    return (
+        <div className="space-y-2">
+            <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.3em]">{t('product.selectOption')}</p>
+            <div className="flex flex-wrap gap-2">
+                {variants.map(v => (
+                    <button
+                        key={v.id}
+                        onClick={() => v.id !== currentId && onSelect(v.id)}
+                        className={`px-4 py-2 rounded-2xl text-left border transition-all ${v.id === currentId ? 'bg-brand-dark text-white border-brand-dark' : 'bg-white text-stone-500 border-stone-200 hover:border-brand-gold hover:text-brand-gold'} ${v.availability === 'sold' ? 'opacity-50' : ''}`}
+                    >
+                        <span className="block text-[10px] font-bold uppercase tracking-widest">{variantName(v)}</span>
+                        {showDetails && (
+                            <span className={`block text-[9px] font-mono ${v.id === currentId ? 'text-white/70' : 'text-stone-400'}`}>
+                                {v.weight}g · ₹{v.price.toLocaleString('en-IN')}{v.availability === 'sold' ? ' · Sold' : ''}
+                            </span>
+                        )}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
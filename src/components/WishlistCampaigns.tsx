@@ -1,8 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { apiFetch } from '@/services/storeService';
 import { Loader2, Megaphone, CheckCircle2, TrendingDown } from 'lucide-react';
-import { Product } from '@/types';
-import { storeService } from '@/services/storeService';
 
 export const WishlistCampaigns = ({ config }: { config: any }) => {
     const [wishlists, setWishlists] = useState<any[]>([]);
@@ -20,39 +18,17 @@ export const WishlistCampaigns = ({ config }: { config: any }) => {
             const data = await apiFetch('/admin/wishlists/all');
             setWishlists(data);
             
-            // Calculate which ones to notify
+            // currentPrice is computed by the server pricing engine
             const toNotify = [];
             for (const item of data) {
-                // Mock product for calculation
-                const p: Product = {
-                    id: item.productId,
-                    title: item.title,
-                    category: item.category,
-                    weight: item.weight,
-                    meta: typeof item.meta === 'string' ? JSON.parse(item.meta || '{}') : (item.meta || {}),
-                    isHidden: item.isHidden,
-                    images: typeof item.images === 'string' ? JSON.parse(item.images || '[]') : (item.images || []),
-                    thumbnails: typeof item.thumbnails === 'string' ? JSON.parse(item.thumbnails || '[]') : (item.thumbnails || []),
-                    tags: [],
-                    createdAt: new Date().toISOString(),
-                    description: '',
-                    subCategory: ''
-                };
-                
-                const currentPriceData = storeService.calculatePrice(p, config);
-                const currentPrice = currentPriceData.total;
-                
                 // Only consider if current price is less than requested price
-                if (currentPrice < item.priceWhenWishlisted) {
+                if (item.currentPrice < item.priceWhenWishlisted) {
                     // Check if not notified in last 3 days
                     if (item.lastNotifiedAt) {
                         const diffDays = (Date.now() - new Date(item.lastNotifiedAt).getTime()) / (1000 * 60 * 60 * 24);
                         if (diffDays < 3) continue;
                     }
-                    toNotify.push({
-                        ...item,
-                        currentPrice: Math.round(currentPrice)
-                    });
+                    toNotify.push(item);
                 }
             }
             setCandidates(toNotify);
@@ -79,8 +55,7 @@ export const WishlistCampaigns = ({ config }: { config: any }) => {
                 customerName: c.customerName,
                 phone: c.phone,
                 productTitle: c.title,
-                productId: c.productId,
-                currentPrice: c.currentPrice
+                productId: c.productId
             }));
             
             const res = await apiFetch('/admin/wishlists/notify', {
@@ -129,6 +104,7 @@ export const WishlistCampaigns = ({ config }: { config: any }) => {
                             <th className="p-4 font-bold">Item</th>
                             <th className="p-4 font-bold">Wishlist Price</th>
                             <th className="p-4 font-bold text-green-600">Current Price</th>
+                            <th className="p-4 font-bold">Gold Rate (Then → Now)</th>
                             <th className="p-4 font-bold">Last Notified</th>
                             <th className="p-4 font-bold text-center">Eligibility</th>
                         </tr>
@@ -148,6 +124,9 @@ export const WishlistCampaigns = ({ config }: { config: any }) => {
                                     <td className="p-4 text-xs font-mono text-green-600 font-bold">
                                         {candidate ? `₹${candidate.currentPrice.toLocaleString('en-IN')}` : '-'}
                                     </td>
+                                    <td className="p-4 text-xs font-mono text-stone-500">
+                                        {w.rateWhenWishlisted ? `₹${w.rateWhenWishlisted} → ₹${w.rateNow}` : `₹${w.rateNow}`}
+                                    </td>
                                     <td className="p-4 text-xs text-stone-400">
                                         {w.lastNotifiedAt ? new Date(w.lastNotifiedAt).toLocaleDateString() : 'Never'}
                                     </td>
@@ -163,7 +142,7 @@ export const WishlistCampaigns = ({ config }: { config: any }) => {
                         })}
                         {wishlists.length === 0 && (
                             <tr>
-                                <td colSpan={6} className="p-8 text-center text-stone-400 text-xs uppercase tracking-widest">No wishlist data available</td>
+                                <td colSpan={7} className="p-8 text-center text-stone-400 text-xs uppercase tracking-widest">No wishlist data available</td>
                             </tr>
                         )}
                     </tbody>
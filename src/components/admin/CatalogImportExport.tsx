@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { storeService } from '@/services/storeService.ts';
+import { AppConfig, CatalogImportAction, CatalogImportResult, CatalogExportFilters } from '@/types.ts';
+import { FileSpreadsheet, Upload, Download, Loader2, CheckCircle2, AlertTriangle, FileArchive, X } from 'lucide-react';
+
+const ACTION_STYLES: Record<CatalogImportAction, { label: string; className: string }> = {
+    create: { label: 'New', className: 'bg-emerald-50 text-emerald-600' },
+    update: { label: 'Update', className: 'bg-blue-50 text-blue-600' },
+    unchanged: { label: 'No change', className: 'bg-stone-100 text-stone-400' },
+    error: { label: 'Error', className: 'bg-rose-50 text-rose-500' }
+};
+
+export const CatalogImportExport: React.FC = () => {
+    const [config, setConfig] = useState<AppConfig | null>(null);
+    const [sheet, setSheet] = useState<File | null>(null);
+    const [imagesZip, setImagesZip] = useState<File | null>(null);
+    const [result, setResult] = useState<CatalogImportResult | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [showOnly, setShowOnly] = useState<CatalogImportAction | ''>('');
+
+    const [exportFilters, setExportFilters] = useState<CatalogExportFilters>({ visibility: 'all' });
+    const [isExporting, setIsExporting] = useState(false);
+
+    useEffect(() => { storeService.getConfig().then(setConfig).catch(() => null); }, []);
+
+    const runImport = async (dryRun: boolean) => {
+        if (!sheet) return;
+        setIsWorking(true);
+        setError(null);
+        try {
+            setResult(await storeService.importCatalog(sheet, imagesZip, dryRun));
+        } catch (e: any) {
+            setError(e.message || 'Import failed');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleApply = () => {
+        if (!result) return;
+        if (!confirm(`Create ${result.summary.create} and update ${result.summary.update} products?${result.summary.error ? ` ${result.summary.error} rows with errors will be skipped.` : ''}`)) return;
+        runImport(false);
+    };
+
+    const resetImport = () => {
+        setSheet(null);
+        setImagesZip(null);
+        setResult(null);
+        setError(null);
+    };
+
+    const handleExport = async (format: 'csv' | 'xlsx') => {
+        setIsExporting(true);
+        try {
+            await storeService.exportCatalog(format, exportFilters);
+        } catch (e: any) {
+            alert(e.message || 'Export failed');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const visibleRows = result?.rows.filter(r => !showOnly || r.action === showOnly) || [];
+    const selectedCategory = config?.categories.find(c => c.name === exportFilters.category);
+
+    return (
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+            <div className="xl:col-span-2 bg-white p-6 rounded-2xl border border-stone-100 shadow-sm space-y-5">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-bold text-stone-700 flex items-center gap-2"><Upload size={20} className="text-brand-gold" /> Bulk Import</h3>
+                    {(sheet || result) && <button onClick={resetImport} className="p-2 text-stone-400 hover:text-stone-700"><X size={18} /></button>}
+                </div>
+                <p className="text-xs text-stone-500 leading-relaxed">
+                    One product per row with columns <span className="font-mono text-stone-700">title, category, subCategory, weight, supplier, tags, makingSegment, description, images, isHidden</span>.
+                    Rows with the <span className="font-mono text-stone-700">id</span> of an existing product update it; blank cells are left unchanged.
+                    List image file names (separated by <span className="font-mono">;</span>) and attach them as a ZIP, or give image URLs.
+                </p>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <label className={`flex items-center gap-3 p-4 border-2 border-dashed rounded-xl cursor-pointer transition-colors ${sheet ? 'border-brand-gold bg-brand-gold/5' : 'border-stone-200 hover:border-brand-gold/50'}`}>
+                        <FileSpreadsheet size={22} className="text-brand-gold shrink-0" />
+                        <span className="text-xs text-stone-600 truncate">{sheet ? sheet.name : 'Choose CSV or XLSX sheet'}</span>
+                        <input type="file" accept=".csv,.xlsx" className="hidden" onChange={e => { setSheet(e.target.files?.[0] || null); setResult(null); }} />
+                    </label>
+                    <label className={`flex items-center gap-3 p-4 border-2 border-dashed rounded-xl cursor-pointer transition-colors ${imagesZip ? 'border-brand-gold bg-brand-gold/5' : 'border-stone-200 hover:border-brand-gold/50'}`}>
+                        <FileArchive size={22} className="text-brand-gold shrink-0" />
+                        <span className="text-xs text-stone-600 truncate">{imagesZip ? imagesZip.name : 'Images ZIP (optional)'}</span>
+                        <input type="file" accept=".zip" className="hidden" onChange={e => { setImagesZip(e.target.files?.[0] || null); setResult(null); }} />
+                    </label>
+                </div>
+
+                {error && <p className="p-3 rounded-xl bg-rose-50 text-rose-500 text-xs font-bold">{error}</p>}
+
+                {result && (
+                    <div className="space-y-3">
+                        {!result.dryRun && (
+                            <p className="p-3 rounded-xl bg-emerald-50 text-emerald-600 text-xs font-bold flex items-center gap-2">
+                                <CheckCircle2 size={16} /> Imported: {result.summary.create} created, {result.summary.update} updated{result.summary.error ? `, ${result.summary.error} skipped` : ''}.
+                            </p>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                            {(['', 'create', 'update', 'unchanged', 'error'] as const).map(action => (
+                                <button
+                                    key={action || 'all'}
+                                    onClick={() => setShowOnly(action)}
+                                    className={`px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest border ${showOnly === action ? 'bg-stone-900 text-white border-stone-900' : 'bg-white text-stone-500 border-stone-200'}`}
+                                >
+                                    {action ? ACTION_STYLES[action].label : 'All'} {action ? result.summary[action] : result.rows.length}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="max-h-[28rem] overflow-y-auto border border-stone-100 rounded-xl divide-y divide-stone-100">
+                            {visibleRows.map(r => (
+                                <div key={r.row} className="p-3 text-xs space-y-1.5">
+                                    <div className="flex items-center gap-2">
+                                        <span className="w-10 font-mono text-stone-400">#{r.row}</span>
+                                        <span className={`px-2 py-0.5 rounded text-[9px] font-bold uppercase tracking-widest ${ACTION_STYLES[r.action].className}`}>{ACTION_STYLES[r.action].label}</span>
+                                        <span className="font-bold text-stone-700 truncate">{r.title || '(untitled)'}</span>
+                                        {r.id && <span className="font-mono text-[10px] text-stone-400 truncate">{r.id}</span>}
+                                    </div>
+                                    {r.errors.map((msg, i) => <p key={`e${i}`} className="ml-12 text-rose-500 flex items-center gap-1"><AlertTriangle size={12} /> {msg}</p>)}
+                                    {r.warnings.map((msg, i) => <p key={`w${i}`} className="ml-12 text-amber-600">{msg}</p>)}
+                                    {r.action !== 'error' && r.changes.length > 0 && (
+                                        <div className="ml-12 grid grid-cols-[7rem_1fr] gap-x-3 gap-y-0.5">
+                                            {r.changes.map(c => (
+                                                <React.Fragment key={c.field}>
+                                                    <span className="text-[10px] uppercase tracking-widest text-stone-400">{c.field}</span>
+                                                    <span className="text-stone-600 break-all">
+                                                        {c.from && <span className="line-through text-stone-400 mr-2">{c.from}</span>}
+                                                        {c.to}
+                                                    </span>
+                                                </React.Fragment>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                            {visibleRows.length === 0 && <p className="p-6 text-center text-stone-400 text-xs">No rows.</p>}
+                        </div>
+                    </div>
+                )}
+
+                <div className="flex gap-3 justify-end">
+                    <button onClick={() => runImport(true)} disabled={!sheet || isWorking} className="px-4 py-2 border border-stone-200 text-stone-600 rounded-lg text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5 disabled:opacity-50">
+                        {isWorking ? <Loader2 size={14} className="animate-spin" /> : <FileSpreadsheet size={14} />} Dry Run
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        disabled={!result?.dryRun || isWorking || result.summary.create + result.summary.update === 0}
+                        className="px-5 py-2 bg-brand-gold text-white rounded-lg text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5 disabled:opacity-50"
+                    >
+                        <Upload size={14} /> Import {result?.dryRun ? result.summary.create + result.summary.update : ''} Rows
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl border border-stone-100 shadow-sm space-y-4 h-fit">
+                <h3 className="font-bold text-stone-700 flex items-center gap-2"><Download size={20} className="text-brand-gold" /> Export Catalog</h3>
+                <p className="text-xs text-stone-500">Exports use the import columns, so a sheet can be edited and imported back.</p>
+
+                <input value={exportFilters.search || ''} onChange={e => setExportFilters({ ...exportFilters, search: e.target.value })} placeholder="Search (optional)" className="w-full p-2 border border-stone-200 rounded-lg text-xs" />
+                <select value={exportFilters.category || ''} onChange={e => setExportFilters({ ...exportFilters, category: e.target.value, subCategory: '' })} className="w-full p-2 border border-stone-200 rounded-lg text-xs bg-white">
+                    <option value="">All categories</option>
+                    {config?.categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+                </select>
+                {selectedCategory && selectedCategory.subCategories.length > 0 && (
+                    <select value={exportFilters.subCategory || ''} onChange={e => setExportFilters({ ...exportFilters, subCategory: e.target.value })} className="w-full p-2 border border-stone-200 rounded-lg text-xs bg-white">
+                        <option value="">All sub-categories</option>
+                        {selectedCategory.subCategories.map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                )}
+                <select value={exportFilters.supplier || ''} onChange={e => setExportFilters({ ...exportFilters, supplier: e.target.value })} className="w-full p-2 border border-stone-200 rounded-lg text-xs bg-white">
+                    <option value="">All suppliers</option>
+                    {config?.suppliers.map(s => <option key={s.id} value={s.name}>{s.name}</option>)}
+                </select>
+                <select value={exportFilters.visibility || 'all'} onChange={e => setExportFilters({ ...exportFilters, visibility: e.target.value as CatalogExportFilters['visibility'] })} className="w-full p-2 border border-stone-200 rounded-lg text-xs bg-white">
+                    <option value="all">Hidden and public pieces</option>
+                    <option value="public">Public pieces only</option>
+                </select>
+
+                <div className="grid grid-cols-2 gap-2 pt-2">
+                    <button onClick={() => handleExport('xlsx')} disabled={isExporting} className="py-2 bg-stone-900 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest disabled:opacity-50">Excel (.xlsx)</button>
+                    <button onClick={() => handleExport('csv')} disabled={isExporting} className="py-2 border border-stone-200 text-stone-600 rounded-lg text-[10px] font-bold uppercase tracking-widest disabled:opacity-50">CSV</button>
+                </div>
+            </div>
+        </div>
+    );
+};
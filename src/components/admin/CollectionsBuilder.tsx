@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { storeService, toLocalDateTimeInput, fromLocalDateTimeInput } from '@/services/storeService.ts';
+import { Product, ProductCollection } from '@/types.ts';
+import { BookOpen, Loader2, Plus, Search, ArrowUp, ArrowDown, X, Trash2, Save, Link as LinkIcon, Image as ImageIcon, Eye, EyeOff } from 'lucide-react';
+
+interface CollectionDraft {
+    id?: string;
+    slug?: string;
+    title: string;
+    description: string;
+    coverImage: string;
+    isPublic: boolean;
+    startsAt: string;
+    endsAt: string;
+    position: number;
+    products: Product[];
+}
+
+const EMPTY_DRAFT: CollectionDraft = { title: '', description: '', coverImage: '', isPublic: true, startsAt: '', endsAt: '', position: 0, products: [] };
+
+const collectionStatus = (c: ProductCollection) => {
+    if (!c.isPublic) return { label: 'Private', className: 'text-stone-400' };
+    if (c.isActive) return { label: 'Live', className: 'text-emerald-600' };
+    if (c.startsAt && new Date(c.startsAt) > new Date()) return { label: 'Scheduled', className: 'text-brand-gold' };
+    return { label: 'Ended', className: 'text-rose-400' };
+};
+
+export const CollectionsBuilder: React.FC = () => {
+    const [collections, setCollections] = useState<ProductCollection[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [draft, setDraft] = useState<CollectionDraft | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [productSearch, setProductSearch] = useState('');
+    const [productResults, setProductResults] = useState<Product[]>([]);
+
+    const fetchCollections = async () => {
+        setLoading(true);
+        setCollections(await storeService.getAdminCollections());
+        setLoading(false);
+    };
+
+    useEffect(() => { fetchCollections(); }, []);
+
+    const editCollection = (c: ProductCollection) => {
+        setDraft({
+            id: c.id, slug: c.slug, title: c.title, description: c.description || '', coverImage: c.coverImage || '',
+            isPublic: c.isPublic, startsAt: toLocalDateTimeInput(c.startsAt), endsAt: toLocalDateTimeInput(c.endsAt), position: c.position || 0,
+            products: c.products || []
+        });
+        setProductResults([]);
+    };
+
+    const handleSearchProducts = async () => {
+        const res = await storeService.getProducts(1, 24, { search: productSearch, publicOnly: false });
+        setProductResults(res.items);
+    };
+
+    const addProduct = (p: Product) => {
+        if (!draft || draft.products.some(x => x.id === p.id)) return;
+        setDraft({ ...draft, products: [...draft.products, p] });
+    };
+
+    const moveProduct = (index: number, delta: number) => {
+        if (!draft) return;
+        const products = [...draft.products];
+        const target = index + delta;
+        if (target < 0 || target >= products.length) return;
+        [products[index], products[target]] = [products[target], products[index]];
+        setDraft({ ...draft, products });
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setIsSaving(true);
+        try {
+            await storeService.saveCollection({
+                id: draft.id, slug: draft.slug, title: draft.title, description: draft.description, coverImage: draft.coverImage || null,
+                isPublic: draft.isPublic, startsAt: fromLocalDateTimeInput(draft.startsAt), endsAt: fromLocalDateTimeInput(draft.endsAt), position: draft.position,
+                productIds: draft.products.map(p => p.id)
+            });
+            setDraft(null);
+            await fetchCollections();
+        } catch (e: any) {
+            alert(e.message || 'Failed to save collection');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!draft?.id || !confirm(`Delete "${draft.title}"? Shared links to it will stop working.`)) return;
+        await storeService.deleteCollection(draft.id);
+        setDraft(null);
+        await fetchCollections();
+    };
+
+    const handleShare = async (c: ProductCollection) => {
+        const url = await storeService.createSharedLink(c.id, 'collection');
+        await navigator.clipboard?.writeText(url).catch(() => {});
+        prompt('Secure collection link (copied):', url);
+    };
+
+    if (draft) {
+        return (
+            <div className="bg-white p-6 rounded-2xl border border-stone-100 shadow-sm space-y-6">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-bold text-stone-700 flex items-center gap-2"><BookOpen size={20} className="text-brand-gold" /> {draft.id ? 'Edit Collection' : 'New Collection'}</h3>
+                    <button onClick={() => setDraft(null)} className="p-2 text-stone-400 hover:text-stone-700"><X size={18} /></button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="md:col-span-2">
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1">Title</label>
+                        <input value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} placeholder="Gudi Padwa Edit" className="w-full p-2 border border-stone-200 rounded-lg text-sm" />
+                    </div>
+                    <div className="md:col-span-2">
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1">Description</label>
+                        <textarea value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} rows={2} className="w-full p-2 border border-stone-200 rounded-lg text-sm resize-none" />
+                    </div>
+                    <div>
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1">Cover Image URL (defaults to first piece)</label>
+                        <input value={draft.coverImage} onChange={e => setDraft({ ...draft, coverImage: e.target.value })} className="w-full p-2 border border-stone-200 rounded-lg text-sm font-mono" />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1">Display Order</label>
+                            <input type="number" value={draft.position} onChange={e => setDraft({ ...draft, position: Number(e.target.value) || 0 })} className="w-full p-2 border border-stone-200 rounded-lg text-sm" />
+                        </div>
+                        <label className="flex items-center gap-2 text-xs font-bold text-stone-600 mt-5 cursor-pointer">
+                            <input type="checkbox" checked={draft.isPublic} onChange={e => setDraft({ ...draft, isPublic: e.target.checked })} />
+                            {draft.isPublic ? <Eye size={14} /> : <EyeOff size={14} />} Public
+                        </label>
+                    </div>
+                    <div>
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1">Starts</label>
+                        <input type="datetime-local" value={draft.startsAt} onChange={e => setDraft({ ...draft, startsAt: e.target.value })} className="w-full p-2 border border-stone-200 rounded-lg text-sm" />
+                    </div>
+                    <div>
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1">Ends</label>
+                        <input type="datetime-local" value={draft.endsAt} onChange={e => setDraft({ ...draft, endsAt: e.target.value })} className="w-full p-2 border border-stone-200 rounded-lg text-sm" />
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                        <p className="text-[9px] font-bold uppercase text-stone-400 tracking-widest">Pieces ({draft.products.length})</p>
+                        {draft.products.length === 0 && <p className="py-6 text-center text-xs text-stone-400 border border-dashed border-stone-200 rounded-xl">Search and add pieces from the catalog.</p>}
+                        {draft.products.map((p, i) => (
+                            <div key={p.id} className="flex items-center gap-3 p-2 bg-stone-50 border border-stone-100 rounded-xl">
+                                <span className="w-5 text-[10px] font-mono text-stone-400 text-right">{i + 1}</span>
+                                <img src={storeService.getImageUrl(p.thumbnails?.[0] || '')} alt="" className="w-10 h-10 rounded-lg object-cover bg-white" />
+                                <span className="flex-1 text-xs text-stone-700 truncate">{p.title}</span>
+                                <button onClick={() => setDraft({ ...draft, coverImage: p.thumbnails?.[0] || '' })} title="Use as cover" className={`p-1 ${draft.coverImage && draft.coverImage === p.thumbnails?.[0] ? 'text-brand-gold' : 'text-stone-300 hover:text-brand-gold'}`}><ImageIcon size={14} /></button>
+                                <button onClick={() => moveProduct(i, -1)} disabled={i === 0} className="p-1 text-stone-400 disabled:opacity-30"><ArrowUp size={14} /></button>
+                                <button onClick={() => moveProduct(i, 1)} disabled={i === draft.products.length - 1} className="p-1 text-stone-400 disabled:opacity-30"><ArrowDown size={14} /></button>
+                                <button onClick={() => setDraft({ ...draft, products: draft.products.filter(x => x.id !== p.id) })} className="p-1 text-stone-300 hover:text-rose-500"><X size={14} /></button>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex gap-2">
+                            <input value={productSearch} onChange={e => setProductSearch(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSearchProducts()} placeholder="Search catalog (e.g. bridal, kada, jhumka)..." className="flex-1 p-2 border border-stone-200 rounded-lg text-xs" />
+                            <button onClick={handleSearchProducts} className="px-3 bg-stone-900 text-white rounded-lg"><Search size={14} /></button>
+                        </div>
+                        <div className="grid grid-cols-3 md:grid-cols-4 gap-2 max-h-96 overflow-y-auto">
+                            {productResults.map(p => {
+                                const added = draft.products.some(x => x.id === p.id);
+                                return (
+                                    <button key={p.id} onClick={() => addProduct(p)} disabled={added} className={`relative rounded-xl overflow-hidden border text-left ${added ? 'border-brand-gold opacity-50' : 'border-stone-100 hover:border-brand-gold'}`}>
+                                        <img src={storeService.getImageUrl(p.thumbnails?.[0] || '')} alt="" className="w-full aspect-square object-cover bg-stone-50" />
+                                        <p className="p-1.5 text-[9px] text-stone-600 truncate">{p.title}</p>
+                                        {!added && <span className="absolute top-1 right-1 w-5 h-5 bg-white/90 rounded-full flex items-center justify-center text-brand-gold"><Plus size={12} /></span>}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex gap-3 pt-2 border-t border-stone-100">
+                    {draft.id && <button onClick={handleDelete} className="px-4 py-2 text-rose-500 rounded-lg text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5 hover:bg-rose-50"><Trash2 size={14} /> Delete</button>}
+                    <div className="flex-1" />
+                    <button onClick={handleSave} disabled={isSaving || !draft.title.trim()} className="px-5 py-2 bg-brand-gold text-white rounded-lg text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5 disabled:opacity-50">
+                        {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save Collection
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-white p-6 rounded-2xl border border-stone-100 shadow-sm">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="font-bold text-stone-700 flex items-center gap-2"><BookOpen size={20} className="text-brand-gold" /> Collections & Lookbooks</h3>
+                <button onClick={() => { setDraft({ ...EMPTY_DRAFT }); setProductResults([]); }} className="px-3 py-2 bg-stone-900 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5"><Plus size={14} /> New Collection</button>
+            </div>
+
+            {loading ? (
+                <div className="py-10 flex justify-center"><Loader2 className="animate-spin text-stone-300" /></div>
+            ) : collections.length === 0 ? (
+                <p className="py-10 text-center text-xs text-stone-400">No collections yet.</p>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                    {collections.map(c => {
+                        const status = collectionStatus(c);
+                        return (
+                            <div key={c.id} className="rounded-2xl border border-stone-100 overflow-hidden">
+                                <button onClick={() => editCollection(c)} className="w-full text-left">
+                                    <div className="aspect-[16/9] bg-stone-100">
+                                        {c.coverImage && <img src={storeService.getImageUrl(c.coverImage)} alt="" className="w-full h-full object-cover" />}
+                                    </div>
+                                    <div className="p-3">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <p className="text-sm font-bold text-stone-800 truncate">{c.title}</p>
+                                            <span className={`text-[9px] font-bold uppercase tracking-widest ${status.className}`}>{status.label}</span>
+                                        </div>
+                                        <p className="text-[10px] text-stone-400">{c.productCount} pieces · /{c.slug}</p>
+                                    </div>
+                                </button>
+                                <div className="px-3 pb-3">
+                                    <button onClick={() => handleShare(c)} className="text-[9px] font-bold uppercase tracking-widest text-brand-gold flex items-center gap-1"><LinkIcon size={12} /> Share Link</button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
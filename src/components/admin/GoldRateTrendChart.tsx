@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { TrendingUp, TrendingDown, Loader2 } from 'lucide-react';
+import { storeService } from '@/services/storeService.ts';
+import { GoldRateCandle } from '@/types.ts';
+
+type Karat = 'k22' | 'k24';
+type Interval = 'day' | 'week';
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 220;
+const PADDING = 24;
+
+export const GoldRateTrendChart: React.FC = () => {
+    const [rateInterval, setRateInterval] = useState<Interval>('day');
+    const [karat, setKarat] = useState<Karat>('k22');
+    const [candles, setCandles] = useState<GoldRateCandle[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        setLoading(true);
+        storeService.getGoldRateHistory(rateInterval, rateInterval === 'week' ? 365 : 90)
+            .then(setCandles)
+            .finally(() => setLoading(false));
+    }, [rateInterval]);
+
+    const series = candles.filter(c => c[karat]).map(c => ({ periodStart: c.periodStart, ...c[karat]! }));
+    const low = series.length ? Math.min(...series.map(s => s.low)) : 0;
+    const high = series.length ? Math.max(...series.map(s => s.high)) : 0;
+    const range = high - low || 1;
+    const slot = (CHART_WIDTH - PADDING * 2) / Math.max(series.length, 1);
+    const y = (v: number) => PADDING + (1 - (v - low) / range) * (CHART_HEIGHT - PADDING * 2);
+
+    const first = series[0];
+    const last = series[series.length - 1];
+    const change = first && last ? last.close - first.open : 0;
+    const changePercent = first ? (change / first.open) * 100 : 0;
+
+    return (
+        <div className="bg-white p-8 rounded-[2rem] shadow-sm border border-stone-100 space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                    <p className="text-stone-400 text-[10px] font-bold uppercase tracking-[0.3em] mb-1">Gold Rate Trend</p>
+                    {last ? (
+                        <div className="flex items-baseline gap-3">
+                            <p className="text-3xl font-serif font-bold text-brand-dark">₹{Math.round(last.close).toLocaleString('en-IN')}<span className="text-sm text-stone-400">/g</span></p>
+                            <span className={`flex items-center gap-1 text-xs font-bold ${change >= 0 ? 'text-emerald-600' : 'text-brand-red'}`}>
+                                {change >= 0 ? <TrendingUp size={14} /> : <TrendingDown size={14} />}
+                                {changePercent.toFixed(2)}%
+                            </span>
+                        </div>
+                    ) : (
+                        <p className="text-sm text-stone-400 font-serif italic">No rate history recorded yet.</p>
+                    )}
+                </div>
+                <div className="flex gap-2">
+                    <div className="flex bg-stone-50 p-1 rounded-xl border border-stone-100">
+                        {(['k22', 'k24'] as Karat[]).map(k => (
+                            <button key={k} onClick={() => setKarat(k)} className={`px-3 py-1.5 rounded-lg text-[9px] font-bold uppercase tracking-widest transition-all ${karat === k ? 'bg-white shadow-sm text-brand-gold' : 'text-stone-400'}`}>
+                                {k === 'k22' ? '22K' : '24K'}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex bg-stone-50 p-1 rounded-xl border border-stone-100">
+                        {(['day', 'week'] as Interval[]).map(i => (
+                            <button key={i} onClick={() => setRateInterval(i)} className={`px-3 py-1.5 rounded-lg text-[9px] font-bold uppercase tracking-widest transition-all ${rateInterval === i ? 'bg-white shadow-sm text-brand-gold' : 'text-stone-400'}`}>
+                                {i === 'day' ? 'Daily' : 'Weekly'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="h-[220px] flex items-center justify-center"><Loader2 className="animate-spin text-brand-gold" /></div>
+            ) : series.length > 0 && (
+                <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-[220px]" preserveAspectRatio="none">
+                    {[high, (high + low) / 2, low].map((v, idx) => (
+                        <g key={idx}>
+                            <line x1={PADDING} x2={CHART_WIDTH - PADDING} y1={y(v)} y2={y(v)} stroke="#f5f5f4" strokeDasharray="4 4" />
+                            <text x={CHART_WIDTH - PADDING} y={y(v) - 4} textAnchor="end" fontSize="9" fill="#a8a29e">₹{Math.round(v)}</text>
+                        </g>
+                    ))}
+                    {series.map((s, idx) => {
+                        const x = PADDING + slot * idx + slot / 2;
+                        const rising = s.close >= s.open;
+                        const color = rising ? '#059669' : '#b91c1c';
+                        const bodyTop = y(Math.max(s.open, s.close));
+                        const bodyHeight = Math.max(1, Math.abs(y(s.open) - y(s.close)));
+                        return (
+                            <g key={s.periodStart}>
+                                <title>{`${new Date(s.periodStart).toLocaleDateString()}  O ${Math.round(s.open)}  H ${Math.round(s.high)}  L ${Math.round(s.low)}  C ${Math.round(s.close)}`}</title>
+                                <line x1={x} x2={x} y1={y(s.high)} y2={y(s.low)} stroke={color} strokeWidth="1" />
+                                <rect x={x - Math.max(1, slot * 0.3)} y={bodyTop} width={Math.max(2, slot * 0.6)} height={bodyHeight} fill={color} rx="1" />
+                            </g>
+                        );
+                    })}
+                </svg>
+            )}
+        </div>
+    );
+};
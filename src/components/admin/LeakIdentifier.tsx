@@ -0,0 +1,107 @@
+import React, { useRef, useState } from 'react';
+import { storeService } from '@/services/storeService.ts';
+import { LeakIdentification } from '@/types.ts';
+import { Fingerprint, Loader2, Upload, User, Link as LinkIcon, AlertCircle } from 'lucide-react';
+
+// Staff drop in an image found outside the studio (a forwarded WhatsApp photo, a competitor's post)
+// and get back the customer or shared link it was served to, from its invisible watermark
+export const LeakIdentifier: React.FC = () => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [preview, setPreview] = useState<string | null>(null);
+    const [result, setResult] = useState<LeakIdentification | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (e.target) e.target.value = '';
+        if (!file) return;
+        if (preview) URL.revokeObjectURL(preview);
+        setPreview(URL.createObjectURL(file));
+        setResult(null);
+        setIsChecking(true);
+        try {
+            setResult(await storeService.identifyLeak(file));
+        } catch (err: any) {
+            alert(err.message || 'Could not read the image');
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    const viewer = result?.viewer;
+
+    return (
+        <div className="bg-white p-6 rounded-2xl border border-stone-100 shadow-sm">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div>
+                    <h3 className="font-sans font-bold text-xl text-brand-dark uppercase tracking-tight flex items-center gap-2">
+                        <Fingerprint size={24} className="text-brand-gold" /> Identify Leak
+                    </h3>
+                    <p className="text-xs text-stone-400 font-bold tracking-widest uppercase mt-1">Trace a found image to the customer or link it was shown to</p>
+                </div>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isChecking}
+                    className="px-4 py-2.5 bg-brand-dark text-white rounded-xl text-[10px] font-bold uppercase tracking-widest flex items-center gap-2 hover:bg-brand-gold transition-colors disabled:opacity-50"
+                >
+                    {isChecking ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />} Upload Found Image
+                </button>
+                <input type="file" ref={fileInputRef} onChange={handleFile} className="hidden" accept="image/*" />
+            </div>
+
+            {preview && (
+                <div className="flex flex-col md:flex-row gap-4">
+                    <img src={preview} alt="Found image" className="w-full md:w-40 h-40 object-contain bg-stone-50 rounded-xl border border-stone-100" />
+                    <div className="flex-1">
+                        {isChecking ? (
+                            <p className="text-xs text-stone-400 font-mono uppercase tracking-widest py-6">Reading watermark...</p>
+                        ) : result && !result.found ? (
+                            <div className="p-4 bg-stone-50 rounded-xl border border-stone-100 text-sm text-stone-500 flex gap-2">
+                                <AlertCircle size={18} className="shrink-0 text-stone-400" />
+                                <p>No watermark found. The image may have been shown to staff, cropped heavily, or heavily edited. Try the least edited copy available, uncropped.</p>
+                            </div>
+                        ) : result?.found && (
+                            <div className="p-4 bg-stone-50 rounded-xl border border-stone-100 space-y-2 text-sm">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-[10px] font-bold uppercase tracking-widest text-stone-400">Mark #{result.mark}</span>
+                                    <span className={`text-[10px] font-bold uppercase tracking-widest ${result.confidence! >= 1 ? 'text-emerald-600' : 'text-amber-600'}`}>
+                                        {result.confidence! >= 1 ? 'Clean read' : 'Weak read'} · {result.confidence}
+                                    </span>
+                                </div>
+                                {!viewer ? (
+                                    <p className="text-stone-500">The mark is not in this studio's records.</p>
+                                ) : viewer.type === 'guest' ? (
+                                    <div className="flex items-start gap-2">
+                                        <User size={18} className="text-stone-400 shrink-0 mt-0.5" />
+                                        <p className="text-stone-500">A guest who was not signed in and came without a shared link. Guests share one mark, so it can't be traced further.</p>
+                                    </div>
+                                ) : viewer.type === 'customer' ? (
+                                    <div className="flex items-start gap-2">
+                                        <User size={18} className="text-brand-gold shrink-0 mt-0.5" />
+                                        <div>
+                                            <p className="font-bold text-brand-dark">{viewer.name || 'Unknown customer'}</p>
+                                            <p className="text-xs text-stone-500 font-mono">{viewer.phone}{viewer.pincode ? ` · ${viewer.pincode}` : ''}</p>
+                                            <p className="text-[10px] text-stone-400 font-mono mt-1">Customer {viewer.id}</p>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <div className="flex items-start gap-2">
+                                        <LinkIcon size={18} className="text-brand-gold shrink-0 mt-0.5" />
+                                        <div>
+                                            <p className="font-bold text-brand-dark">Shared {viewer.linkType || 'link'}{viewer.targetId ? `: ${viewer.targetId}` : ''}</p>
+                                            <p className="text-xs text-stone-500">
+                                                {viewer.linkCreatedAt ? `Created ${new Date(viewer.linkCreatedAt).toLocaleString()}` : 'Link no longer on record'}
+                                                {viewer.expiresAt ? ` · expires ${new Date(viewer.expiresAt).toLocaleString()}` : ''}
+                                            </p>
+                                            <p className="text-[10px] text-stone-400 font-mono mt-1 break-all">Token {viewer.id}</p>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { storeService } from '@/services/storeService.ts';
+import { SavingsPlan, GoldPurity } from '@/types.ts';
+import { PiggyBank, Loader2, Plus, Send, ChevronDown, ChevronUp, CheckCircle, Ban, Coins } from 'lucide-react';
+
+const formatRupees = (value: number) => `₹${Math.round(value || 0).toLocaleString('en-IN')}`;
+
+export const SavingsPlansPanel: React.FC = () => {
+    const [plans, setPlans] = useState<SavingsPlan[]>([]);
+    const [statusFilter, setStatusFilter] = useState<SavingsPlan['status'] | ''>('active');
+    const [loading, setLoading] = useState(true);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [actionLoading, setActionLoading] = useState(false);
+
+    const [showEnrol, setShowEnrol] = useState(false);
+    const [enrolPhone, setEnrolPhone] = useState('');
+    const [enrolAmount, setEnrolAmount] = useState<number | ''>('');
+    const [enrolMonths, setEnrolMonths] = useState<number>(11);
+    const [enrolPurity, setEnrolPurity] = useState<GoldPurity>('22KT');
+
+    const [paymentAmount, setPaymentAmount] = useState<number | ''>('');
+    const [paymentMode, setPaymentMode] = useState('cash');
+
+    const fetchPlans = async () => {
+        setLoading(true);
+        setPlans(await storeService.getSavingsPlans(statusFilter || undefined));
+        setLoading(false);
+    };
+
+    useEffect(() => { fetchPlans(); }, [statusFilter]);
+
+    const runAction = async (action: () => Promise<unknown>) => {
+        setActionLoading(true);
+        try {
+            await action();
+            await fetchPlans();
+        } catch (e: any) {
+            alert(e.message || 'Action failed');
+        } finally {
+            setActionLoading(false);
+        }
+    };
+
+    const handleEnrol = () => runAction(async () => {
+        await storeService.enrolSavingsPlan({ customerPhone: enrolPhone, monthlyAmount: Number(enrolAmount), months: enrolMonths, purity: enrolPurity });
+        setShowEnrol(false);
+        setEnrolPhone('');
+        setEnrolAmount('');
+    });
+
+    const handlePayment = (plan: SavingsPlan) => runAction(async () => {
+        await storeService.recordSavingsPayment(plan.id, { amount: paymentAmount || undefined, paymentMode });
+        setPaymentAmount('');
+    });
+
+    const handleReminders = () => runAction(async () => {
+        const res = await storeService.sendInstallmentReminders();
+        alert(`Sent ${res.sentCount} of ${res.dueCount} due reminders.`);
+    });
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-2xl border border-stone-100 shadow-sm">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                    <h3 className="font-bold text-stone-700 flex items-center gap-2"><PiggyBank size={20} className="text-brand-gold" /> Savings & Installment Plans</h3>
+                    <div className="flex items-center gap-2">
+                        <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as SavingsPlan['status'] | '')} className="p-2 border border-stone-200 rounded-lg text-xs font-bold uppercase tracking-widest text-stone-600">
+                            <option value="active">Active</option>
+                            <option value="completed">Completed</option>
+                            <option value="cancelled">Cancelled</option>
+                            <option value="">All</option>
+                        </select>
+                        <button onClick={handleReminders} disabled={actionLoading} className="px-3 py-2 bg-green-50 text-green-700 border border-green-100 rounded-lg text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5 disabled:opacity-50"><Send size={14} /> Send Reminders</button>
+                        <button onClick={() => setShowEnrol(!showEnrol)} className="px-3 py-2 bg-stone-900 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5"><Plus size={14} /> New Savings Plan</button>
+                    </div>
+                </div>
+
+                {showEnrol && (
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3 p-4 mb-4 bg-stone-50 border border-stone-100 rounded-xl items-end">
+                        <div>
+                            <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1">Customer Phone</label>
+                            <input value={enrolPhone} onChange={e => setEnrolPhone(e.target.value)} className="w-full p-2 border border-stone-200 rounded-lg text-sm font-mono" placeholder="Registered number" />
+                        </div>
+                        <div>
+                            <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1">Monthly Amount (₹)</label>
+                            <input type="number" value={enrolAmount} onChange={e => setEnrolAmount(e.target.value ? Number(e.target.value) : '')} className="w-full p-2 border border-stone-200 rounded-lg text-sm" />
+                        </div>
+                        <div>
+                            <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1">Months</label>
+                            <input type="number" min={1} max={60} value={enrolMonths} onChange={e => setEnrolMonths(Number(e.target.value) || 1)} className="w-full p-2 border border-stone-200 rounded-lg text-sm" />
+                        </div>
+                        <div>
+                            <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1">Accrue As</label>
+                            <select value={enrolPurity} onChange={e => setEnrolPurity(e.target.value as GoldPurity)} className="w-full p-2 border border-stone-200 rounded-lg text-sm">
+                                <option value="22KT">22KT</option>
+                                <option value="24KT">24KT</option>
+                            </select>
+                        </div>
+                        <button onClick={handleEnrol} disabled={actionLoading || !enrolPhone || !enrolAmount} className="py-2 bg-brand-gold text-white rounded-lg text-[10px] font-bold uppercase tracking-widest disabled:opacity-50">Enrol</button>
+                    </div>
+                )}
+
+                {loading ? (
+                    <div className="py-10 flex justify-center"><Loader2 className="animate-spin text-stone-300" /></div>
+                ) : plans.length === 0 ? (
+                    <p className="py-10 text-center text-xs text-stone-400">No plans found.</p>
+                ) : (
+                    <div className="divide-y divide-stone-100">
+                        {plans.map(plan => {
+                            const isExpanded = expandedId === plan.id;
+                            const nextDue = plan.installments.find(i => i.status === 'pending');
+                            return (
+                                <div key={plan.id} className="py-3">
+                                    <button onClick={() => setExpandedId(isExpanded ? null : plan.id)} className="w-full flex items-center gap-4 text-left">
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm font-bold text-stone-800 truncate">{plan.customerName} <span className="font-mono text-[10px] text-stone-400">{plan.customerPhone}</span></p>
+                                            <p className="text-[10px] text-stone-500 truncate">
+                                                {plan.planType === 'product' ? `${plan.productTitle} · ${plan.months} mo plan (${plan.advancePercent}% advance)` : `Gold savings · ${plan.months} months`}
+                                            </p>
+                                        </div>
+                                        <div className="text-right">
+                                            <p className="text-xs font-mono text-stone-700">{formatRupees(plan.amountPaid)} / {formatRupees(plan.targetAmount)}</p>
+                                            <p className="text-[10px] font-bold text-brand-gold">{Number(plan.gramsAccrued).toFixed(3)} g {plan.purity}</p>
+                                        </div>
+                                        <span className={`text-[9px] font-bold uppercase tracking-widest w-20 text-right ${plan.status === 'active' ? 'text-emerald-600' : plan.status === 'completed' ? 'text-brand-gold' : 'text-stone-300'}`}>{plan.status}</span>
+                                        {isExpanded ? <ChevronUp size={16} className="text-stone-400" /> : <ChevronDown size={16} className="text-stone-400" />}
+                                    </button>
+
+                                    {isExpanded && (
+                                        <div className="mt-3 space-y-3">
+                                            <table className="w-full text-xs">
+                                                <thead>
+                                                    <tr className="text-[9px] uppercase tracking-widest text-stone-400 text-left">
+                                                        <th className="py-1">#</th><th>Due</th><th>Amount</th><th>Paid</th><th>Rate</th><th>Grams</th><th>Reminder</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {plan.installments.map(inst => (
+                                                        <tr key={inst.id} className="border-t border-stone-50">
+                                                            <td className="py-1.5 font-mono">{inst.installmentNo}</td>
+                                                            <td>{new Date(inst.dueDate).toLocaleDateString()}</td>
+                                                            <td className="font-mono">{formatRupees(inst.amount)}</td>
+                                                            <td>{inst.status === 'paid' ? <span className="text-emerald-600 flex items-center gap-1"><CheckCircle size={12} /> {formatRupees(inst.paidAmount || 0)}</span> : <span className="text-stone-300">Pending</span>}</td>
+                                                            <td className="font-mono text-stone-500">{inst.goldRate ? `${formatRupees(inst.goldRate)}/g` : '—'}</td>
+                                                            <td className="font-mono text-brand-gold">{inst.grams ? Number(inst.grams).toFixed(3) : '—'}</td>
+                                                            <td className="text-stone-400">{inst.reminderSentAt ? new Date(inst.reminderSentAt).toLocaleDateString() : '—'}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+
+                                            {plan.status === 'active' && nextDue && (
+                                                <div className="flex flex-wrap items-center gap-2 p-3 bg-stone-50 rounded-xl">
+                                                    <Coins size={16} className="text-brand-gold" />
+                                                    <span className="text-xs text-stone-600">Installment {nextDue.installmentNo}</span>
+                                                    <input type="number" value={paymentAmount} onChange={e => setPaymentAmount(e.target.value ? Number(e.target.value) : '')} placeholder={String(Math.round(nextDue.amount))} className="w-28 p-2 border border-stone-200 rounded-lg text-sm" />
+                                                    <select value={paymentMode} onChange={e => setPaymentMode(e.target.value)} className="p-2 border border-stone-200 rounded-lg text-xs">
+                                                        <option value="cash">Cash</option>
+                                                        <option value="upi">UPI</option>
+                                                        <option value="card">Card</option>
+                                                        <option value="bank">Bank Transfer</option>
+                                                    </select>
+                                                    <button onClick={() => handlePayment(plan)} disabled={actionLoading} className="px-3 py-2 bg-stone-900 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest disabled:opacity-50">Record Payment</button>
+                                                    <button onClick={() => confirm('Cancel this plan?') && runAction(() => storeService.cancelSavingsPlan(plan.id))} disabled={actionLoading} className="ml-auto px-3 py-2 text-rose-600 text-[10px] font-bold uppercase tracking-widest flex items-center gap-1"><Ban size={14} /> Cancel Plan</button>
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { storeService } from '@/services/storeService.ts';
+import { Product, ProductSuggestion, SuggestionStatus } from '@/types.ts';
+import { SUGGESTION_STATUS_LABELS } from '@/components/ProductSuggestionForm.tsx';
+import { Lightbulb, Loader2, MessageCircle, Link as LinkIcon, Search, X } from 'lucide-react';
+
+export const SuggestionsInbox: React.FC = () => {
+    const [suggestions, setSuggestions] = useState<ProductSuggestion[]>([]);
+    const [statusFilter, setStatusFilter] = useState<SuggestionStatus | ''>('new');
+    const [loading, setLoading] = useState(true);
+    const [activeId, setActiveId] = useState<string | null>(null);
+    const [actionLoading, setActionLoading] = useState(false);
+
+    const [reply, setReply] = useState('');
+    const [productSearch, setProductSearch] = useState('');
+    const [productResults, setProductResults] = useState<Product[]>([]);
+
+    const fetchSuggestions = async () => {
+        setLoading(true);
+        setSuggestions(await storeService.getSuggestionInbox(statusFilter || undefined));
+        setLoading(false);
+    };
+
+    useEffect(() => { fetchSuggestions(); }, [statusFilter]);
+
+    const openSuggestion = (s: ProductSuggestion) => {
+        setActiveId(activeId === s.id ? null : s.id);
+        setReply('');
+        setProductSearch('');
+        setProductResults([]);
+    };
+
+    const runAction = async (action: () => Promise<unknown>) => {
+        setActionLoading(true);
+        try {
+            await action();
+            await fetchSuggestions();
+        } catch (e: any) {
+            alert(e.message || 'Action failed');
+        } finally {
+            setActionLoading(false);
+        }
+    };
+
+    const handleReply = (s: ProductSuggestion) => runAction(async () => {
+        await storeService.sendManualWhatsApp({ phone: s.userPhone, name: s.userName, type: 'text', customText: reply });
+        await storeService.recordSuggestionReply(s.id, reply);
+        setReply('');
+    });
+
+    const handleSearchProducts = async () => {
+        const res = await storeService.getProducts(1, 10, { search: productSearch, publicOnly: false });
+        setProductResults(res.items);
+    };
+
+    const handleLink = (s: ProductSuggestion, product: Product) => runAction(async () => {
+        await storeService.updateSuggestion(s.id, { fulfilledByProductId: product.id });
+        setProductResults([]);
+        setProductSearch('');
+    });
+
+    return (
+        <div className="bg-white p-6 rounded-2xl border border-stone-100 shadow-sm">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h3 className="font-bold text-stone-700 flex items-center gap-2"><Lightbulb size={20} className="text-brand-gold" /> Customer Suggestions</h3>
+                <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as SuggestionStatus | '')} className="p-2 border border-stone-200 rounded-lg text-xs font-bold uppercase tracking-widest text-stone-600">
+                    <option value="new">New</option>
+                    <option value="in_review">In Review</option>
+                    <option value="done">Done</option>
+                    <option value="">All</option>
+                </select>
+            </div>
+
+            {loading ? (
+                <div className="py-10 flex justify-center"><Loader2 className="animate-spin text-stone-300" /></div>
+            ) : suggestions.length === 0 ? (
+                <p className="py-10 text-center text-xs text-stone-400">No suggestions found.</p>
+            ) : (
+                <div className="divide-y divide-stone-100">
+                    {suggestions.map(s => (
+                        <div key={s.id} className="py-3">
+                            <button onClick={() => openSuggestion(s)} className="w-full flex items-start gap-4 text-left">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-bold text-stone-800 truncate">{s.suggestion}</p>
+                                    <p className="text-[10px] text-stone-500 truncate">
+                                        {s.userName} <span className="font-mono text-stone-400">{s.userPhone}</span> · {s.productTitle} · {new Date(s.createdAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })}
+                                    </p>
+                                </div>
+                                <span className={`text-[9px] font-bold uppercase tracking-widest w-20 text-right ${s.status === 'done' ? 'text-emerald-600' : s.status === 'in_review' ? 'text-brand-gold' : 'text-stone-400'}`}>{SUGGESTION_STATUS_LABELS[s.status]}</span>
+                            </button>
+
+                            {activeId === s.id && (
+                                <div className="mt-3 space-y-3 p-4 bg-stone-50 rounded-xl border border-stone-100">
+                                    <div className="flex flex-wrap items-center gap-3 text-[10px]">
+                                        <Link to={`/product/${s.productId}`} className="font-bold uppercase tracking-widest text-brand-gold">Open Piece</Link>
+                                        <select value={s.status} onChange={e => runAction(() => storeService.updateSuggestion(s.id, { status: e.target.value as SuggestionStatus }))} disabled={actionLoading} className="p-1.5 border border-stone-200 rounded-lg font-bold uppercase tracking-widest text-stone-600">
+                                            {(Object.keys(SUGGESTION_STATUS_LABELS) as SuggestionStatus[]).map(st => <option key={st} value={st}>{SUGGESTION_STATUS_LABELS[st]}</option>)}
+                                        </select>
+                                        {s.repliedAt && <span className="text-stone-400">Replied {new Date(s.repliedAt).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}</span>}
+                                    </div>
+
+                                    {s.staffReply && <p className="text-xs text-stone-500 italic">Last reply: "{s.staffReply}"</p>}
+
+                                    <div className="flex gap-2">
+                                        <textarea value={reply} onChange={e => setReply(e.target.value)} rows={2} placeholder={`Reply to ${s.userName} on WhatsApp...`} className="flex-1 p-2 border border-stone-200 rounded-lg text-sm resize-none" />
+                                        <button onClick={() => handleReply(s)} disabled={actionLoading || !reply.trim() || !s.userPhone} className="px-3 bg-green-600 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5 disabled:opacity-50"><MessageCircle size={14} /> Send</button>
+                                    </div>
+
+                                    {s.fulfilledByProductId ? (
+                                        <div className="flex items-center gap-2 text-xs">
+                                            <LinkIcon size={14} className="text-emerald-600" />
+                                            <span className="text-stone-600">Fulfilled by</span>
+                                            <Link to={`/product/${s.fulfilledByProductId}`} className="font-bold text-emerald-700">{s.fulfilledByTitle || 'linked piece'}</Link>
+                                            <button onClick={() => runAction(() => storeService.updateSuggestion(s.id, { fulfilledByProductId: null }))} className="p-1 text-stone-300 hover:text-rose-500"><X size={13} /></button>
+                                        </div>
+                                    ) : (
+                                        <div className="space-y-2">
+                                            <div className="flex gap-2">
+                                                <input value={productSearch} onChange={e => setProductSearch(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSearchProducts()} placeholder="Find the new piece that fulfils this..." className="flex-1 p-2 border border-stone-200 rounded-lg text-xs" />
+                                                <button onClick={handleSearchProducts} className="px-3 bg-stone-900 text-white rounded-lg"><Search size={14} /></button>
+                                            </div>
+                                            {productResults.map(p => (
+                                                <button key={p.id} onClick={() => handleLink(s, p)} disabled={actionLoading} className="w-full flex items-center justify-between p-2 bg-white border border-stone-100 rounded-lg text-xs hover:border-brand-gold">
+                                                    <span className="truncate text-stone-700">{p.title}</span>
+                                                    <span className="text-[9px] font-bold uppercase tracking-widest text-brand-gold flex items-center gap-1"><LinkIcon size={12} /> Link</span>
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { storeService } from '@/services/storeService.ts';
+import { TrashedProduct } from '@/types.ts';
+import { Trash2, Loader2, RotateCcw, Clock, Image as ImageIcon } from 'lucide-react';
+
+export const TrashBin: React.FC<{ onRestored?: () => void }> = ({ onRestored }) => {
+    const [items, setItems] = useState<TrashedProduct[]>([]);
+    const [retentionDays, setRetentionDays] = useState(30);
+    const [loading, setLoading] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const isAdmin = storeService.getCurrentUser()?.role === 'admin';
+
+    const fetchTrash = async () => {
+        setLoading(true);
+        try {
+            const res = await storeService.getTrash();
+            setItems(res.items);
+            setRetentionDays(res.retentionDays);
+        } catch (e) {
+            console.error(e);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => { fetchTrash(); }, []);
+
+    const handleRestore = async (item: TrashedProduct) => {
+        setBusyId(item.id);
+        try {
+            await storeService.restoreFromTrash(item.id);
+            setItems(prev => prev.filter(i => i.id !== item.id));
+            onRestored?.();
+        } catch (e: any) {
+            alert(e.message || 'Restore failed');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handlePurge = async (item: TrashedProduct) => {
+        if (!confirm(`Permanently delete "${item.title}"? Its history goes with it and this cannot be undone.`)) return;
+        setBusyId(item.id);
+        try {
+            await storeService.purgeFromTrash(item.id);
+            setItems(prev => prev.filter(i => i.id !== item.id));
+        } catch (e: any) {
+            alert(e.message || 'Delete failed');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-2xl border border-stone-100 shadow-sm space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="font-bold text-stone-700 flex items-center gap-2"><Trash2 size={20} className="text-brand-gold" /> Trash</h3>
+                <span className="text-[10px] font-bold uppercase tracking-widest text-stone-400">Purged after {retentionDays} days</span>
+            </div>
+
+            {loading ? (
+                <div className="py-12 flex justify-center"><Loader2 className="animate-spin text-brand-gold" /></div>
+            ) : items.length === 0 ? (
+                <p className="py-12 text-center text-stone-400 text-xs">The trash is empty.</p>
+            ) : (
+                <div className="divide-y divide-stone-100 border border-stone-100 rounded-xl">
+                    {items.map(item => (
+                        <div key={item.id} className="p-3 flex items-center gap-4">
+                            <div className="w-14 h-14 rounded-lg bg-stone-100 overflow-hidden shrink-0 flex items-center justify-center">
+                                {item.thumbnails[0] ? <img src={item.thumbnails[0]} alt="" className="w-full h-full object-cover" /> : <ImageIcon size={18} className="text-stone-300" />}
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <p className="font-bold text-stone-700 text-sm truncate">{item.title}</p>
+                                <p className="text-[10px] text-stone-400 uppercase tracking-widest">{item.category}{item.subCategory ? ` / ${item.subCategory}` : ''} · {item.weight}g</p>
+                                <p className="text-[10px] text-stone-500 mt-0.5">
+                                    Deleted {new Date(item.deletedAt).toLocaleString()}{item.deletedByName ? ` by ${item.deletedByName}` : ''}
+                                    <span className="ml-2 text-rose-400 inline-flex items-center gap-1"><Clock size={10} /> purges {new Date(item.purgeAt).toLocaleDateString()}</span>
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => handleRestore(item)}
+                                disabled={busyId === item.id}
+                                className="px-3 py-2 border border-stone-200 text-stone-600 rounded-lg text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5 hover:border-brand-gold disabled:opacity-50"
+                            >
+                                {busyId === item.id ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />} Restore
+                            </button>
+                            {isAdmin && (
+                                <button onClick={() => handlePurge(item)} disabled={busyId === item.id} className="p-2 text-stone-300 hover:text-rose-500 disabled:opacity-50" title="Delete forever">
+                                    <Trash2 size={16} />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
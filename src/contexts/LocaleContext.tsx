@@ -0,0 +1,40 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
+import { Locale } from '@/types.ts';
+import { getLocale, saveLocale, translate, StringKey } from '@/services/i18n.ts';
+import { storeService } from '@/services/storeService.ts';
+
+interface LocaleContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: StringKey) => string;
+}
+
+const LocaleContext = createContext<LocaleContextType | undefined>(undefined);
+
+export const useLocale = () => {
+  const context = useContext(LocaleContext);
+  if (!context) throw new Error('useLocale must be used within a LocaleProvider');
+  return context;
+};
+
+export const LocaleProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    saveLocale(next);
+    storeService.resetCatalogCache();
+    setLocaleState(next);
+  }, []);
+
+  const t = useCallback((key: StringKey) => translate(locale, key), [locale]);
+
+  return (
+    <LocaleContext.Provider value={{ locale, setLocale, t }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+};
@@ -1,19 +1,21 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
-import { Product, QueueItem } from '@/types.ts';
+import { Product, QueueItem, VideoDetails } from '@/types.ts';
 import { analyzeJewelryImage, enhanceJewelryImage, deterministicEnhance } from '@/services/geminiService.ts';
-import { storeService, apiFetch } from '@/services/storeService.ts';
+import { storeService } from '@/services/storeService.ts';
 
 interface ProcessOptions {
   enhance?: boolean;
   width?: number;
   quality?: number;
   format?: string;
+  onProgress?: (percent: number) => void; // Video transcoding progress, 0-100
 }
 
 interface ImageResult {
     primary: string;
     thumbnail: string;
+    video?: VideoDetails;
 }
 
 interface UploadContextType {
@@ -49,14 +51,14 @@ export const UploadProvider: React.FC<{ children: ReactNode }> = ({ children })
    * AI-Powered Image Pipeline:
    * 1. Input Normalization (File/URL/Base64 -> Blob)
    * 2. AI Enhancement (Gemini Vision -> Buffer) [Optional]
-   * 3. Server Optimization (Sharp -> WebP/AVIF)
+   * 3. Server Optimization (Sharp -> WebP/AVIF, FFmpeg -> MP4/WebM + poster)
    * 4. CDN Delivery (Final URL)
    */
   const processImage = async (
     input: File | string, 
     options: ProcessOptions = {}
   ): Promise<ImageResult> => {
-      const { enhance = false, width = 1600, quality = 0.8, format = 'image/jpeg' } = options;
+      const { enhance = false, width = 1600, quality = 0.8, format = 'image/jpeg', onProgress } = options;
 
       try {
           // STEP 1: Input Normalization -> Blob
@@ -107,23 +109,19 @@ export const UploadProvider: React.FC<{ children: ReactNode }> = ({ children })
              currentBlob = new Blob([byteArray], { type: 'image/jpeg' });
           }
 
-          // STEP 3: Server Optimization (Sharp Engine)
+          // STEP 3: Server Optimization (Sharp / FFmpeg Engine)
           const formData = new FormData();
           formData.append('files', currentBlob, fileName);
 
-          const data = await apiFetch('/media/upload', {
-              method: 'POST',
-              body: formData
-          });
+          const [file] = await storeService.uploadMedia(formData, onProgress);
+          if (!file) throw new Error('Upload Engine Failed');
 
-          if (data && data.success && data.files?.[0]) {
-              // STEP 4: CDN Delivery (Return both Primary and Thumbnail)
-              return {
-                  primary: data.files[0].primary,
-                  thumbnail: data.files[0].thumbnail || data.files[0].primary // Fallback to primary if thumb fails
-              }; 
-          }
-          throw new Error('Upload Engine Failed');
+          // STEP 4: CDN Delivery (Return both Primary and Thumbnail)
+          return {
+              primary: file.primary,
+              thumbnail: file.thumbnail || file.primary, // Fallback to primary if thumb fails
+              video: file.video
+          };
 
       } catch (e) {
           console.warn('Backend Pipeline Failed, falling back to Client-Side Transcoding', e);
@@ -221,7 +219,10 @@ export const UploadProvider: React.FC<{ children: ReactNode }> = ({ children })
         updateQueueItem(nextItem.id, { status: 'analyzing' });
         
         // Use AI Enhancement pipeline if enabled
-        const { primary, thumbnail } = await processImage(nextItem.file, { enhance: enhanceImages });
+        const { primary, thumbnail, video } = await processImage(nextItem.file, {
+          enhance: enhanceImages,
+          onProgress: (progress) => updateQueueItem(nextItem.id, { status: 'transcoding', progress })
+        });
         
         // Metadata Analysis
         let analysis = { title: '', description: "Studio Asset", category: '', subCategory: '', tags: [], weight: 0 };
@@ -255,7 +256,8 @@ export const UploadProvider: React.FC<{ children: ReactNode }> = ({ children })
           dateTaken: new Date().toISOString().split('T')[0],
           meta: { 
             cameraModel: nextItem.device,
-            deviceManufacturer: nextItem.manufacturer
+            deviceManufacturer: nextItem.manufacturer,
+            ...(video ? { videos: { [primary]: video } } : {})
           }
         };
 
@@ -1,7 +1,7 @@
 
 import React, { useEffect, useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { storeService, apiFetch } from '@/services/storeService.ts';
+import { storeService, apiFetch, getPublishState } from '@/services/storeService.ts';
 import { coreEngine } from '@/services/coreEngine.ts';
 import { Product, AnalyticsEvent, User, AppConfig } from '@/types.ts';
 import { PredictiveMarketingPanel } from '@/components/admin/PredictiveMarketingPanel.tsx';
@@ -9,10 +9,17 @@ import { WishlistCampaigns } from '@/components/WishlistCampaigns.tsx';
 import { MigrationDebugger } from '@/components/admin/MigrationDebugger.tsx';
 import { WhatsAppManagementPanel } from '@/components/admin/WhatsAppManagementPanel.tsx';
 import { SystemBackupsPanel } from '@/components/admin/SystemBackupsPanel.tsx';
+import { GoldRateTrendChart } from '@/components/admin/GoldRateTrendChart.tsx';
+import { SavingsPlansPanel } from '@/components/admin/SavingsPlansPanel.tsx';
+import { SuggestionsInbox } from '@/components/admin/SuggestionsInbox.tsx';
+import { CollectionsBuilder } from '@/components/admin/CollectionsBuilder.tsx';
+import { CatalogImportExport } from '@/components/admin/CatalogImportExport.tsx';
+import { TrashBin } from '@/components/admin/TrashBin.tsx';
+import { LeakIdentifier } from '@/components/admin/LeakIdentifier.tsx';
 import { 
   Loader2, Settings, Folder, Trash2, Edit2, Plus, Search, 
   Grid, List as ListIcon, Lock, CheckCircle, X, Tag,
-  LayoutDashboard, FolderOpen, UserCheck, HardDrive, Database, RefreshCw, TrendingUp, BrainCircuit, MapPin, DollarSign, Smartphone, MessageCircle, Save, AlertTriangle, Cpu, Activity, ShieldCheck, Zap, FolderInput, Heart, Eye, ArrowRight, Clock, Camera, Megaphone, Wallet
+  LayoutDashboard, FolderOpen, UserCheck, HardDrive, Database, RefreshCw, TrendingUp, BrainCircuit, MapPin, DollarSign, Smartphone, MessageCircle, Save, AlertTriangle, Cpu, Activity, ShieldCheck, Zap, FolderInput, Heart, Eye, ArrowRight, Clock, Camera, Megaphone, Wallet, PiggyBank, Lightbulb, BookOpen, FileSpreadsheet
 } from 'lucide-react';
 
 import { analyzeInstagramComments } from '@/services/geminiService.ts';
@@ -21,7 +28,7 @@ interface AdminDashboardProps {
   onNavigate?: (tab: string) => void;
 }
 
-type ViewMode = 'overview' | 'files' | 'leads' | 'activity' | 'captures' | 'trends' | 'neural' | 'market' | 'pulse' | 'campaigns' | 'finance' | 'storage' | 'predictive' | 'intelligence' | 'whatsapp';
+type ViewMode = 'overview' | 'files' | 'leads' | 'activity' | 'captures' | 'trends' | 'neural' | 'market' | 'pulse' | 'campaigns' | 'finance' | 'storage' | 'predictive' | 'intelligence' | 'whatsapp' | 'savings' | 'suggestions' | 'collections' | 'catalog' | 'trash';
 
 const StorageView = () => {
     const [storageConfig, setStorageConfig] = useState<any>(null);
@@ -361,7 +368,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onNavigate }) =>
   };
   
   const handleBulkDelete = async () => {
-      if (!confirm(`Permanently delete ${selectedAssets.size} assets? This cannot be undone.`)) return;
+      if (!confirm(`Move ${selectedAssets.size} assets to the trash? They can be restored from the Trash tab until they are purged.`)) return;
       setLoading(true);
       try {
           await Promise.all(Array.from(selectedAssets).map((id) => storeService.deleteProduct(id as string)));
@@ -375,12 +382,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onNavigate }) =>
       if (!moveCategory) return;
       setLoading(true);
       try {
-          const updates = products.filter(p => selectedAssets.has(p.id));
-          await Promise.all(updates.map(p => storeService.updateProduct({
-              ...p,
-              category: moveCategory,
-              subCategory: moveSubCategory
-          })));
+          await storeService.bulkMoveProducts(Array.from(selectedAssets), moveCategory, moveSubCategory);
           setIsMoveModalOpen(false);
           setSelectedAssets(new Set<string>());
           refreshData(true);
@@ -433,6 +435,11 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onNavigate }) =>
               { id: 'whatsapp', icon: MessageCircle, label: 'WhatsApp' },
               { id: 'predictive', icon: Zap, label: 'Predictive Marketing' },
               { id: 'finance', icon: Wallet, label: 'Finance' },
+              { id: 'savings', icon: PiggyBank, label: 'Savings Plans' },
+              { id: 'suggestions', icon: Lightbulb, label: 'Suggestions' },
+              { id: 'collections', icon: BookOpen, label: 'Collections' },
+              { id: 'catalog', icon: FileSpreadsheet, label: 'Import / Export' },
+              { id: 'trash', icon: Trash2, label: 'Trash' },
               { id: 'storage', icon: Database, label: 'Storage' },
               { id: 'intelligence', icon: ShieldCheck, label: 'Security & Insights' },
             ].map(tab => (
@@ -494,6 +501,9 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onNavigate }) =>
                         <p className="text-4xl font-serif font-bold text-brand-dark">Top 10</p>
                     </div>
                 </div>
+                <div className="sm:col-span-2 md:col-span-4">
+                    <GoldRateTrendChart />
+                </div>
           </div>
       )}
 
@@ -901,6 +911,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onNavigate }) =>
 
       {activeView === 'captures' && (
           <div className="space-y-6 animate-fade-in">
+              <LeakIdentifier />
               <div className="bg-white p-6 rounded-2xl border border-stone-100 shadow-sm flex flex-col h-full min-h-[600px]">
                    <div className="flex justify-between items-center mb-6">
                         <div>
@@ -1063,6 +1074,9 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onNavigate }) =>
                             )}
 
                             <div className="absolute inset-x-0 bottom-0 p-2 bg-brand-dark/80 text-white text-[10px] truncate font-bold uppercase tracking-tighter">
+                                {getPublishState(asset) !== 'live' && (
+                                    <span className={`mr-1.5 px-1 rounded text-[8px] ${getPublishState(asset) === 'scheduled' ? 'bg-brand-gold' : 'bg-stone-500'}`}>{getPublishState(asset)}</span>
+                                )}
                                 {asset.title}
                             </div>
                         </div>
@@ -1663,6 +1677,36 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onNavigate }) =>
           </div>
       )}
 
+      {activeView === 'savings' && (
+          <div className="animate-fade-in">
+              <SavingsPlansPanel />
+          </div>
+      )}
+
+      {activeView === 'suggestions' && (
+          <div className="animate-fade-in">
+              <SuggestionsInbox />
+          </div>
+      )}
+
+      {activeView === 'collections' && (
+          <div className="animate-fade-in">
+              <CollectionsBuilder />
+          </div>
+      )}
+
+      {activeView === 'catalog' && (
+          <div className="animate-fade-in">
+              <CatalogImportExport />
+          </div>
+      )}
+
+      {activeView === 'trash' && (
+          <div className="animate-fade-in">
+              <TrashBin onRestored={() => refreshData(true)} />
+          </div>
+      )}
+
       {activeView === 'storage' && <StorageView />}
 
       {activeView === 'finance' && config && (
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ProductCard } from '@/components/ProductCard.tsx';
+import { storeService } from '@/services/storeService.ts';
+import { ProductCollection } from '@/types.ts';
+import { ArrowLeft, BookOpen, Gem, Loader2 } from 'lucide-react';
+
+// A curated lookbook. Private or scheduled collections open when a shared link
+// has left its token in this session (see SharedLanding).
+export const CollectionView: React.FC = () => {
+    const { slug } = useParams<{ slug: string }>();
+    const navigate = useNavigate();
+    const [collection, setCollection] = useState<ProductCollection | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const user = storeService.getCurrentUser();
+    const isAdmin = user?.role === 'admin' || user?.role === 'contributor';
+
+    useEffect(() => {
+        if (!slug) return;
+        setIsLoading(true);
+        setError(null);
+        storeService.getCollection(slug, storeService.getCollectionToken(slug))
+            .then(setCollection)
+            .catch(() => setError('This collection is not available right now.'))
+            .finally(() => setIsLoading(false));
+    }, [slug]);
+
+    if (isLoading) {
+        return <div className="min-h-screen flex items-center justify-center"><Loader2 className="animate-spin text-brand-gold" /></div>;
+    }
+
+    if (error || !collection) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center gap-4 text-center px-6">
+                <Gem size={48} className="text-stone-200" />
+                <p className="text-stone-400 font-serif italic text-xl">{error}</p>
+                <button onClick={() => navigate('/collection')} className="text-[10px] font-bold uppercase tracking-widest text-brand-gold">Browse the Gallery</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen pb-32">
+            <div className="relative h-[45vh] min-h-[320px] bg-brand-dark overflow-hidden">
+                {collection.coverImage && <img src={storeService.getImageUrl(collection.coverImage)} alt={collection.title} className="absolute inset-0 w-full h-full object-cover opacity-60" />}
+                <div className="absolute inset-0 bg-gradient-to-t from-brand-dark via-brand-dark/40 to-transparent" />
+                <button onClick={() => navigate(-1)} className="absolute top-20 left-4 md:left-8 p-2 bg-white/10 backdrop-blur rounded-full text-white"><ArrowLeft size={20} /></button>
+                <div className="absolute bottom-0 inset-x-0 max-w-7xl mx-auto px-4 sm:px-8 lg:px-12 pb-10 text-white">
+                    <p className="text-[10px] uppercase tracking-[0.3em] font-bold text-brand-gold flex items-center gap-2 mb-2"><BookOpen size={14} /> Lookbook · {collection.productCount} Pieces</p>
+                    <h1 className="font-serif text-4xl md:text-6xl font-bold">{collection.title}</h1>
+                    {collection.description && <p className="mt-3 max-w-2xl text-sm text-stone-300 leading-relaxed">{collection.description}</p>}
+                </div>
+            </div>
+
+            <main className="max-w-7xl mx-auto pt-10 px-4 sm:px-8 lg:px-12">
+                {collection.products && collection.products.length > 0 ? (
+                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4 md:gap-8 lg:gap-10 animate-fade-in">
+                        {collection.products.map((p, idx) => (
+                            <ProductCard key={p.id} product={p} isAdmin={isAdmin} onClick={() => navigate(`/product/${p.id}`)} priority={idx < 8} />
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-center py-32 text-stone-300 font-serif italic text-xl">This collection is being curated.</p>
+                )}
+            </main>
+        </div>
+    );
+};
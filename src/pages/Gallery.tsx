@@ -1,11 +1,12 @@
 
 import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
-import { useNavigate, useLocation } from 'react-router-dom';
+import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { ProductCard } from '@/components/ProductCard.tsx';
-import { storeService, CuratedCollections } from '@/services/storeService.ts';
+import { storeService, CuratedCollections, getCategoryLabel, getSubCategoryLabel } from '@/services/storeService.ts';
+import { ResponsiveImage } from '@/components/ResponsiveImage.tsx';
 import { localAIVisualEngine } from '@/services/localAIVisualEngine.ts';
-import { Search, LayoutGrid, RectangleVertical, Clock, Heart, Loader2, Lock, User, RefreshCw, TrendingUp, Gem, ChevronRight, X, Sparkles, MessageCircle, Camera, Upload } from 'lucide-react';
-import { Product, AppConfig } from '@/types.ts';
+import { Search, LayoutGrid, RectangleVertical, Clock, Heart, Loader2, Lock, User, RefreshCw, TrendingUp, Gem, ChevronRight, X, Sparkles, MessageCircle, Camera, Upload, SlidersHorizontal, BookOpen } from 'lucide-react';
+import { Product, AppConfig, ProductFacets, FacetCount, ProductCollection } from '@/types.ts';
 import { usePerformanceMonitor } from '@/hooks/usePerformanceMonitor.ts';
 
 const ProductSkeleton = () => (
@@ -22,23 +23,46 @@ const ProductSkeleton = () => (
   </div>
 );
 
+// Range filters and sort order, kept as strings so they round-trip through the URL unchanged
+type Refinements = { minWeight: string; maxWeight: string; minPrice: string; maxPrice: string; sort: string; order: string };
+const REFINEMENT_KEYS: (keyof Refinements)[] = ['minWeight', 'maxWeight', 'minPrice', 'maxPrice', 'sort', 'order'];
+
+const SORT_CHOICES = [
+  { label: 'Newest', sort: '', order: '' },
+  { label: 'Most Popular', sort: 'popularity', order: '' },
+  { label: 'Weight: Low to High', sort: 'weight', order: 'asc' },
+  { label: 'Weight: High to Low', sort: 'weight', order: 'desc' },
+  { label: 'Price: Low to High', sort: 'price', order: 'asc' },
+  { label: 'Price: High to Low', sort: 'price', order: 'desc' }
+];
+
 export const Gallery: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [products, setProducts] = useState<Product[]>([]);
   const [curated, setCurated] = useState<CuratedCollections>({ latest: [], loved: [], trending: [], ideal: [] });
+  const [collections, setCollections] = useState<ProductCollection[]>([]);
   const [config, setConfig] = useState<AppConfig | null>(null);
   
-  // Filtering State (Persisted)
+  // Filtering State (Persisted). Shared links carry the filters in the URL.
   const getPersisted = (key: string, def: string) => {
       const stateVal = (location.state as any)?.[key];
       if (stateVal) return stateVal;
+      const urlVal = searchParams.get(key);
+      if (urlVal !== null) return urlVal;
       try { return sessionStorage.getItem(`gallery_${key}`) || def; } catch { return def; }
   };
 
   const [activeCategory, _setActiveCategory] = useState<string>(getPersisted('category', 'All'));
   const [activeSubCategory, _setActiveSubCategory] = useState<string>(getPersisted('subCategory', 'All'));
   const [search, _setSearch] = useState<string>(getPersisted('search', ''));
+  const [weightBucket, _setWeightBucket] = useState<string>(getPersisted('weightBucket', ''));
+  const [priceBucket, _setPriceBucket] = useState<string>(getPersisted('priceBucket', ''));
+  const [refinements, _setRefinements] = useState<Refinements>(() => Object.fromEntries(REFINEMENT_KEYS.map(k => [k, getPersisted(k, '')])) as Refinements);
+  const [showFilters, setShowFilters] = useState(false);
+  const [rangeDraft, setRangeDraft] = useState({ minWeight: refinements.minWeight, maxWeight: refinements.maxWeight, minPrice: refinements.minPrice, maxPrice: refinements.maxPrice });
+  const [facets, setFacets] = useState<ProductFacets | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'detail'>('grid');
 
   const setActiveCategory = (val: string) => {
@@ -53,6 +77,19 @@ export const Gallery: React.FC = () => {
       _setSearch(val);
       sessionStorage.setItem('gallery_search', val);
   };
+  const setWeightBucket = (val: string) => {
+      _setWeightBucket(val);
+      sessionStorage.setItem('gallery_weightBucket', val);
+  };
+  const setPriceBucket = (val: string) => {
+      _setPriceBucket(val);
+      sessionStorage.setItem('gallery_priceBucket', val);
+  };
+  const updateRefinements = (updates: Partial<Refinements>) => {
+      _setRefinements(prev => ({ ...prev, ...updates }));
+      Object.entries(updates).forEach(([key, val]) => sessionStorage.setItem(`gallery_${key}`, val || ''));
+  };
+  const hasRefinements = REFINEMENT_KEYS.some(k => refinements[k]);
   
   // Image Search State
   const [isImageSearchOpen, setIsImageSearchOpen] = useState(false);
@@ -81,7 +118,7 @@ export const Gallery: React.FC = () => {
       setTrainingProgress(0);
       setImageSearchError(null);
       // Fetch entire catalog (up to 1000 items) for indexing
-      const allCatalogRes = await storeService.getProducts(1, 1000, { publicOnly: !isAdmin });
+      const allCatalogRes = await storeService.getProducts(1, 1000, { publicOnly: !isAdmin, thumbnails: 'all' });
       const allCatalog = allCatalogRes.items || [];
       await localAIVisualEngine.train(allCatalog, (pct) => setTrainingProgress(pct));
       setLocalStatus(localAIVisualEngine.getStatus());
@@ -115,7 +152,7 @@ export const Gallery: React.FC = () => {
       } else {
         // Local Visual Search Engine
         // 1. Fetch entire catalog to ensure full offline search index is populated
-        const allCatalogRes = await storeService.getProducts(1, 1000, { publicOnly: !isAdmin });
+        const allCatalogRes = await storeService.getProducts(1, 1000, { publicOnly: !isAdmin, thumbnails: 'all' });
         const allCatalog = allCatalogRes.items || [];
         
         // 2. Ensure model has been trained
@@ -188,8 +225,8 @@ export const Gallery: React.FC = () => {
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
   
-  // Pagination State
-  const [page, setPage] = useState(1);
+  // Pagination State (keyset cursor from the previous page's meta.nextCursor)
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(true);
   const [isFetchingMore, setIsFetchingMore] = useState(false);
   const observer = useRef<IntersectionObserver | null>(null);
@@ -251,6 +288,7 @@ export const Gallery: React.FC = () => {
             if (conf) setConfig(conf);
             if (cur) setCurated(cur);
 
+            storeService.getCollections().then(setCollections);
         } catch (e) {
             console.error("Gallery Sync failed", e);
         } finally {
@@ -262,27 +300,33 @@ export const Gallery: React.FC = () => {
 
   // 2. Fetch Products (Reset on filter change)
   const fetchProducts = useCallback(async (reset = false) => {
-      // Don't fetch grid products if we are in 'All' mode without search (Overview Mode)
-      if (activeCategory === 'All' && !search) return;
+      // Don't fetch grid products if we are in 'All' mode without search or filters (Overview Mode)
+      if (activeCategory === 'All' && !search && !weightBucket && !priceBucket && !hasRefinements) return;
 
       if (!reset && (!hasMore || isFetchingMore)) return;
       
-      const targetPage = reset ? 1 : page + 1;
+      const cursor = reset ? null : nextCursor;
       setIsFetchingMore(true);
       
       const fetchFilters = {
           publicOnly: !isAdmin,
           category: (activeCategory !== 'All' && activeCategory !== 'Latest') ? activeCategory : undefined,
           subCategory: activeSubCategory !== 'All' ? activeSubCategory : undefined,
-          search: search || undefined
+          search: search || undefined,
+          weightBucket: weightBucket || undefined,
+          priceBucket: priceBucket || undefined,
+          ...refinements,
+          cursor: cursor || undefined,
+          // Facet counts only change with the filters, so only the first page asks for them
+          facets: !cursor
       };
 
       if (reset) {
           const syncCached = storeService.getCachedProductsSync(1, BATCH_SIZE, fetchFilters);
           if (syncCached) {
               setProducts(syncCached.items);
-              setPage(1);
-              setHasMore(syncCached.items.length === BATCH_SIZE);
+              setNextCursor(syncCached.meta?.nextCursor || null);
+              setHasMore(!!syncCached.meta?.nextCursor);
               setIsLoading(false);
           } else {
               setIsLoading(true);
@@ -292,12 +336,14 @@ export const Gallery: React.FC = () => {
 
       try {
           // Optimized Fetch: Only gets what we need based on category/search
-          const res = await storeService.getProducts(targetPage, BATCH_SIZE, fetchFilters);
+          const res = await storeService.getProducts(1, BATCH_SIZE, fetchFilters);
           
+          if (reset) setFacets(res.meta?.facets || null);
+
           if (res.items && res.items.length > 0) {
               setProducts(prev => reset ? res.items : [...prev, ...res.items]);
-              setPage(targetPage);
-              setHasMore(res.items.length === BATCH_SIZE);
+              setNextCursor(res.meta?.nextCursor || null);
+              setHasMore(!!res.meta?.nextCursor);
           } else {
               setHasMore(false);
               if (reset) setProducts([]);
@@ -308,14 +354,26 @@ export const Gallery: React.FC = () => {
           setIsFetchingMore(false);
           setIsLoading(false);
       }
-  }, [page, hasMore, isFetchingMore, activeCategory, activeSubCategory, search]);
+  }, [nextCursor, hasMore, isFetchingMore, activeCategory, activeSubCategory, search, weightBucket, priceBucket, refinements]);
 
   // Trigger fetch when category or search changes
   useEffect(() => {
-      setPage(0);
+      setNextCursor(null);
       setHasMore(true);
       fetchProducts(true);
-  }, [activeCategory, activeSubCategory, search]);
+  }, [activeCategory, activeSubCategory, search, weightBucket, priceBucket, refinements]);
+
+  // Mirror the filters into the URL so a filtered view can be shared
+  useEffect(() => {
+      const params = new URLSearchParams();
+      if (activeCategory !== 'All') params.set('category', activeCategory);
+      if (activeSubCategory !== 'All') params.set('subCategory', activeSubCategory);
+      if (search) params.set('search', search);
+      if (weightBucket) params.set('weightBucket', weightBucket);
+      if (priceBucket) params.set('priceBucket', priceBucket);
+      REFINEMENT_KEYS.forEach(k => { if (refinements[k]) params.set(k, refinements[k]); });
+      if (params.toString() !== searchParams.toString()) setSearchParams(params, { replace: true });
+  }, [activeCategory, activeSubCategory, search, weightBucket, priceBucket, refinements]);
 
   useEffect(() => {
       const state = location.state as any;
@@ -323,6 +381,8 @@ export const Gallery: React.FC = () => {
           if (state.category && state.category !== activeCategory) setActiveCategory(state.category);
           if (state.subCategory && state.subCategory !== activeSubCategory) setActiveSubCategory(state.subCategory);
           if (state.search && state.search !== search) setSearch(state.search);
+          if (state.weightBucket !== undefined && state.weightBucket !== weightBucket) setWeightBucket(state.weightBucket);
+          if (state.priceBucket !== undefined && state.priceBucket !== priceBucket) setPriceBucket(state.priceBucket);
       }
   }, [location.state]);
 
@@ -353,10 +413,12 @@ export const Gallery: React.FC = () => {
             fromGallery: true,
             category: activeCategory,
             subCategory: activeSubCategory,
-            search: search
+            search: search,
+            weightBucket,
+            priceBucket
         }
     });
-  }, [navigate, activeCategory, activeSubCategory, search]);
+  }, [navigate, activeCategory, activeSubCategory, search, weightBucket, priceBucket]);
 
   const unlockedCats = useMemo(() => storeService.getUnlockedCategories(), []);
   const isCategoryUnlocked = unlockedCats.includes(activeCategory);
@@ -379,7 +441,20 @@ export const Gallery: React.FC = () => {
     // We will handle this by only clearing if the current subcat is not in the new list.
   }, [activeCategory]);
 
-  const isOverviewMode = activeCategory === 'All' && !search;
+  const isOverviewMode = activeCategory === 'All' && !search && !weightBucket && !priceBucket && !hasRefinements;
+
+  const applyRanges = () => {
+      updateRefinements(rangeDraft);
+      setShowFilters(false);
+  };
+  const clearRanges = () => {
+      const cleared = { minWeight: '', maxWeight: '', minPrice: '', maxPrice: '' };
+      setRangeDraft(cleared);
+      updateRefinements(cleared);
+  };
+  const activeRangeCount = (['minWeight', 'maxWeight', 'minPrice', 'maxPrice'] as const).filter(k => refinements[k]).length;
+
+  const facetCount = (list: FacetCount[] | undefined, value: string) => list?.find(f => f.value === value)?.count;
 
   return (
     <div className="min-h-screen bg-stone-50 pb-20 overflow-x-hidden animate-fade-in">
@@ -428,6 +503,15 @@ export const Gallery: React.FC = () => {
                     </div>
                 ) : null}
 
+                <button
+                    onClick={() => setShowFilters(v => !v)}
+                    className={`relative p-3 rounded-xl transition-all shrink-0 ${showFilters || hasRefinements ? 'text-brand-gold bg-brand-gold/5' : 'text-stone-300 hover:text-brand-gold hover:bg-stone-50'}`}
+                    title="Weight, Price & Sort"
+                >
+                    <SlidersHorizontal size={26} />
+                    {activeRangeCount > 0 && <span className="absolute top-1 right-1 w-4 h-4 rounded-full bg-brand-gold text-white text-[8px] font-bold flex items-center justify-center">{activeRangeCount}</span>}
+                </button>
+
                 {!isOverviewMode && (
                     <button 
                     onClick={() => setViewMode(v => v === 'grid' ? 'detail' : 'grid')} 
@@ -439,7 +523,7 @@ export const Gallery: React.FC = () => {
                 )}
             </div>
             <div className="flex gap-3 overflow-x-auto scrollbar-hide px-2 md:px-6 pb-2 pt-2">
-                {[{id: 'All', label: 'Overview'}, {id: 'Latest', label: 'Latest'}, ...categoryList.map(c => ({id: c, label: c}))].map(cat => (
+                {[{id: 'All', label: 'Overview'}, {id: 'Latest', label: 'Latest'}, ...categoryList.map(c => ({id: c, label: getCategoryLabel(config?.categories, c)}))].map(cat => (
                 <button
                     key={cat.id}
                     onClick={() => {
@@ -451,6 +535,7 @@ export const Gallery: React.FC = () => {
                     }`}
                 >
                     {cat.label}
+                    {search && facetCount(facets?.category, cat.id) !== undefined && <span className="ml-1.5 opacity-60">{facetCount(facets?.category, cat.id)}</span>}
                 </button>
                 ))}
                 
@@ -469,11 +554,63 @@ export const Gallery: React.FC = () => {
                             onClick={() => setActiveSubCategory(sub)}
                             className={`px-4 py-1.5 rounded-full text-xs font-bold uppercase tracking-widest transition-all ${activeSubCategory === sub ? 'bg-brand-gold text-white' : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}`}
                         >
-                            {sub}
+                            {sub === 'All' ? sub : getSubCategoryLabel(config?.categories, activeCategory, sub)}
+                            {sub !== 'All' && facetCount(facets?.subCategory, sub) !== undefined && <span className="ml-1.5 opacity-60">{facetCount(facets?.subCategory, sub)}</span>}
                         </button>
                     ))}
                 </div>
             )}
+            {/* Weight / Price Ranges & Sort */}
+            {showFilters && (
+                <div className="px-2 md:px-6 py-3 grid grid-cols-2 md:grid-cols-[1fr_1fr_1fr_auto] gap-3 items-end animate-fade-in">
+                    <div>
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1">Weight (g)</label>
+                        <div className="flex gap-1.5">
+                            <input type="number" min="0" step="0.1" value={rangeDraft.minWeight} onChange={e => setRangeDraft({ ...rangeDraft, minWeight: e.target.value })} placeholder="Min" className="w-full p-2 bg-stone-50 border border-stone-100 rounded-xl text-xs outline-none focus:border-brand-gold" />
+                            <input type="number" min="0" step="0.1" value={rangeDraft.maxWeight} onChange={e => setRangeDraft({ ...rangeDraft, maxWeight: e.target.value })} placeholder="Max" className="w-full p-2 bg-stone-50 border border-stone-100 rounded-xl text-xs outline-none focus:border-brand-gold" />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1">Price (₹, live rate)</label>
+                        <div className="flex gap-1.5">
+                            <input type="number" min="0" step="1000" value={rangeDraft.minPrice} onChange={e => setRangeDraft({ ...rangeDraft, minPrice: e.target.value })} placeholder="Min" className="w-full p-2 bg-stone-50 border border-stone-100 rounded-xl text-xs outline-none focus:border-brand-gold" />
+                            <input type="number" min="0" step="1000" value={rangeDraft.maxPrice} onChange={e => setRangeDraft({ ...rangeDraft, maxPrice: e.target.value })} placeholder="Max" className="w-full p-2 bg-stone-50 border border-stone-100 rounded-xl text-xs outline-none focus:border-brand-gold" />
+                        </div>
+                    </div>
+                    <div className="col-span-2 md:col-span-1">
+                        <label className="block text-[9px] font-bold uppercase text-stone-400 tracking-widest mb-1">Sort By</label>
+                        <select
+                            value={`${refinements.sort}:${refinements.order}`}
+                            onChange={e => { const [sort, order] = e.target.value.split(':'); updateRefinements({ sort, order }); }}
+                            className="w-full p-2 bg-stone-50 border border-stone-100 rounded-xl text-xs outline-none focus:border-brand-gold"
+                        >
+                            {SORT_CHOICES.map(c => <option key={c.label} value={`${c.sort}:${c.order}`}>{c.label}</option>)}
+                        </select>
+                    </div>
+                    <div className="col-span-2 md:col-span-1 flex gap-2">
+                        <button onClick={clearRanges} className="flex-1 px-4 py-2 bg-stone-100 text-stone-500 rounded-xl text-[10px] font-bold uppercase tracking-widest">Clear</button>
+                        <button onClick={applyRanges} className="flex-1 px-4 py-2 bg-brand-dark text-white rounded-xl text-[10px] font-bold uppercase tracking-widest">Apply</button>
+                    </div>
+                </div>
+            )}
+            {/* Weight & Price Facets */}
+            {!isOverviewMode && facets && (
+                <div className="px-2 md:px-6 py-2 flex gap-2 overflow-x-auto scrollbar-hide items-center">
+                    {[
+                        { key: 'weight', values: facets.weight, active: weightBucket, set: setWeightBucket },
+                        { key: 'price', values: facets.price, active: priceBucket, set: setPriceBucket }
+                    ].map(group => group.values.filter(f => f.count > 0 || f.value === group.active).map(f => (
+                        <button
+                            key={`${group.key}-${f.value}`}
+                            onClick={() => group.set(group.active === f.value ? '' : f.value)}
+                            className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest whitespace-nowrap border transition-all flex items-center gap-1.5 ${group.active === f.value ? 'bg-brand-dark text-white border-brand-dark' : 'bg-white text-stone-500 border-stone-200 hover:border-brand-gold/40'}`}
+                        >
+                            {f.label} <span className="opacity-60">{f.count}</span>
+                            {group.active === f.value && <X size={11} />}
+                        </button>
+                    )))}
+                </div>
+            )}
         </div>
       </div>
 
@@ -527,6 +664,33 @@ export const Gallery: React.FC = () => {
                     </section>
                 )}
 
+                {/* Hand-curated collections, in the order merchandisers set */}
+                {collections.map(c => (
+                    <section key={c.id}>
+                        <div className="flex items-center justify-between mb-8">
+                            <div className="space-y-1">
+                                <h3 className="font-sans text-2xl md:text-3xl font-bold flex items-center gap-3 text-brand-dark uppercase tracking-tighter">
+                                    <BookOpen size={29} className="text-brand-gold" /> {c.title}
+                                </h3>
+                                {c.description && <p className="text-[10px] text-stone-400 uppercase tracking-[0.3em] font-bold ml-9 line-clamp-1">{c.description}</p>}
+                            </div>
+                            <button onClick={() => navigate(`/collections/${c.slug}`)} className="text-[10px] font-bold uppercase tracking-widest text-brand-gold flex items-center gap-1 hover:gap-2 transition-all shrink-0">
+                                View All <ChevronRight size={17} />
+                            </button>
+                        </div>
+                        <div className="flex gap-6 md:gap-8 overflow-x-auto pb-8 scrollbar-hide snap-x">
+                            {(c.products || []).map((p, idx) => {
+                                if (isGuest && idx >= 3 && !unlockedCats.includes(p.category)) return null;
+                                return (
+                                    <div key={p.id} className="w-64 md:w-72 shrink-0 snap-start">
+                                        <ProductCard product={p} isAdmin={isAdmin} onClick={() => navigateToProduct(p.id)} />
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </section>
+                ))}
+
                 {/* 2. Trending (Grid 4) */}
                 {(isLoading && curated.trending.length === 0) ? (
                     <section>
@@ -922,8 +1086,10 @@ export const Gallery: React.FC = () => {
                                 {/* Thumbnail */}
                                 <div className="w-16 h-16 rounded-xl bg-stone-50 border border-stone-100 overflow-hidden shrink-0">
                                   {match.product?.thumbnails?.[0] ? (
-                                    <img 
+                                    <ResponsiveImage 
                                       src={match.product.thumbnails[0]} 
+                                      manifest={match.product.media?.[0]}
+                                      sizes="64px"
                                       alt={match.product.title} 
                                       className="w-full h-full object-cover group-hover:scale-105 transition-transform"
                                       referrerPolicy="no-referrer"
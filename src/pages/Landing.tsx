@@ -1,10 +1,18 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { ArrowRight, Sparkles, ShieldCheck, Gem, ChevronRight } from 'lucide-react';
 import { Logo } from '@/components/Logo';
+import { storeService } from '@/services/storeService.ts';
+import { ProductCollection } from '@/types.ts';
 
 export const Landing: React.FC = () => {
+  const [collections, setCollections] = useState<ProductCollection[]>([]);
+
+  useEffect(() => {
+    storeService.getCollections(1).then(setCollections);
+  }, []);
+
   return (
     <div className="min-h-screen bg-[#050505] text-white flex flex-col relative overflow-hidden font-sans">
       {/* Immersive Background */}
@@ -59,6 +67,24 @@ export const Landing: React.FC = () => {
             </Link>
           </div>
         </div>
+
+        {collections.length > 0 && (
+          <section className="w-full max-w-7xl mt-24 text-left animate-fade-in">
+            <h2 className="text-[10px] uppercase tracking-[0.4em] font-bold text-brand-gold mb-6">Curated Collections</h2>
+            <div className="flex gap-6 overflow-x-auto pb-4 scrollbar-hide snap-x">
+              {collections.map(c => (
+                <Link key={c.id} to={`/collections/${c.slug}`} className="group relative w-72 md:w-80 aspect-[4/5] shrink-0 snap-start rounded-3xl overflow-hidden border border-white/10 bg-white/5">
+                  {c.coverImage && <img src={storeService.getImageUrl(c.coverImage)} alt={c.title} className="absolute inset-0 w-full h-full object-cover opacity-70 group-hover:scale-105 group-hover:opacity-90 transition-all duration-700" />}
+                  <div className="absolute inset-0 bg-gradient-to-t from-black via-black/20 to-transparent" />
+                  <div className="absolute bottom-0 inset-x-0 p-6">
+                    <p className="text-[9px] uppercase tracking-[0.3em] font-bold text-white/40 mb-1">{c.productCount} Pieces</p>
+                    <h3 className="text-xl font-bold uppercase tracking-tight flex items-center gap-2">{c.title} <ChevronRight size={18} className="text-brand-gold group-hover:translate-x-1 transition-transform" /></h3>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
       </main>
 
       <footer className="relative z-20 px-8 py-12 border-t border-white/5 bg-black/40 backdrop-blur-xl">
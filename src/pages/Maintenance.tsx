@@ -5,7 +5,7 @@ import { useUpload } from '../contexts/UploadContext';
 import { Product } from '../types';
 import { 
   Loader2, ArrowLeft, Database, Download, Trash2, Archive, Shield, History, Cpu,
-  Activity, FileJson, Server, Image as ImageIcon, RefreshCw, Sparkles, HardDrive
+  Activity, FileJson, Server, RefreshCw, Sparkles, HardDrive
 } from 'lucide-react';
 
 interface MaintenanceProps {
@@ -105,50 +105,6 @@ export const Maintenance: React.FC<MaintenanceProps> = ({ onBack }) => {
     addLog("Batch Re-Optimization Complete.");
   };
 
-  const runThumbnailRepair = async () => {
-    if (!window.confirm(`Regenerate thumbnails for ${products.length} items? This uses server processing power.`)) return;
-    setIsProcessing(true);
-    setProgress({ current: 0, total: products.length, success: 0, error: 0 });
-    addLog("Starting Thumbnail Regeneration Sequence...");
-
-    for (let i = 0; i < products.length; i++) {
-        const p = products[i];
-        try {
-            const sourceImg = p.images[0];
-            if (!sourceImg) {
-                addLog(`Skipped ${p.title} (No Source)`);
-                setProgress(prev => ({ ...prev, current: i + 1 }));
-                continue;
-            }
-
-            // We use processImage to generate the thumbnail. 
-            // It returns a primary as well, which we can use to refresh the main image link ensuring sync.
-            const { primary, thumbnail } = await processImage(sourceImg, { width: 1080, quality: 0.85, format: 'image/webp' });
-
-            const newImages = [...p.images];
-            newImages[0] = primary;
-            
-            // Ensure thumbnails array exists and update first index
-            const newThumbnails = p.thumbnails && p.thumbnails.length > 0 ? [...p.thumbnails] : newImages.map(() => '');
-            newThumbnails[0] = thumbnail;
-
-            await storeService.updateProduct({
-                ...p,
-                images: newImages,
-                thumbnails: newThumbnails
-            });
-
-            addLog(`Repaired: ${p.title}`);
-            setProgress(prev => ({ ...prev, current: i + 1, success: prev.success + 1 }));
-        } catch (e: any) {
-            addLog(`Failed: ${p.title} - ${e.message}`);
-            setProgress(prev => ({ ...prev, current: i + 1, error: prev.error + 1 }));
-        }
-    }
-    setIsProcessing(false);
-    addLog("Thumbnail Repair Operation Completed.");
-  };
-
   return (
     <div className="max-w-6xl mx-auto p-4 md:p-8 pb-24 animate-fade-in text-stone-800">
       <div className="flex items-center gap-4 mb-8">
@@ -293,13 +249,6 @@ export const Maintenance: React.FC<MaintenanceProps> = ({ onBack }) => {
           <button disabled={isProcessing} onClick={runReOptimization} className="w-full py-2 bg-stone-900 text-white rounded-lg text-xs font-bold disabled:opacity-50 hover:bg-stone-800 transition">Transcode All</button>
         </div>
 
-        <div className="bg-white p-6 rounded-2xl border border-stone-200 shadow-sm space-y-4">
-          <div className="w-10 h-10 bg-orange-50 text-orange-600 rounded-xl flex items-center justify-center"><ImageIcon size={24} /></div>
-          <h3 className="font-bold">Thumbnail Repair</h3>
-          <p className="text-xs text-stone-500">Regenerate broken or missing low-res previews.</p>
-          <button disabled={isProcessing} onClick={runThumbnailRepair} className="w-full py-2 bg-stone-100 text-stone-800 rounded-lg text-xs font-bold disabled:opacity-50 hover:bg-stone-200 transition">Regenerate Thumbnails</button>
-        </div>
-
         <div className="bg-white p-6 rounded-2xl border border-stone-200 shadow-sm space-y-4">
           <div className="w-10 h-10 bg-gold-50 text-gold-600 rounded-xl flex items-center justify-center"><Archive size={24} /></div>
           <h3 className="font-serif">Backup Vault</h3>
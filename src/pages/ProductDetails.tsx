@@ -3,18 +3,30 @@
 // We need to keep the file content intact but add key={product.id}
 import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
-import { Product, ProductStats, PromptTemplate, AppConfig } from '@/types.ts';
+import { Product, ProductStats, PromptTemplate, AppConfig, PriceBreakdown, GoldPurity, ProductFamily } from '@/types.ts';
 import { ProductCard } from '@/components/ProductCard.tsx';
-import { Bell, ArrowLeft, Share2, MessageCircle, Info, Tag, Heart, ShoppingBag, Gem, BarChart2, Loader2, Lock, Edit2, Save, Link as LinkIcon, Wand2, Eraser, ChevronLeft, ChevronRight, Calendar, Camera, User, Package, MapPin, Hash, Sparkles, Eye, EyeOff, X, CheckCircle, Copy, TrendingUp, Settings, DollarSign, ShieldCheck, Smartphone, RefreshCw, Clock, Layers, Trash2, Plus, Database } from 'lucide-react';
+import { Bell, ArrowLeft, Share2, MessageCircle, Info, Tag, Heart, ShoppingBag, Gem, BarChart2, Loader2, Lock, Edit2, Save, Link as LinkIcon, Wand2, Eraser, ChevronLeft, ChevronRight, Calendar, Camera, User, Package, MapPin, Hash, Sparkles, Eye, EyeOff, X, CheckCircle, Copy, TrendingUp, Settings, DollarSign, ShieldCheck, Smartphone, RefreshCw, Clock, Layers, Trash2, Plus, Database, FileText } from 'lucide-react';
 import { ImageViewer } from '@/components/ImageViewer.tsx';
 import { ComparisonSlider } from '@/components/ComparisonSlider.tsx';
-import { storeService, apiFetch } from '@/services/storeService.ts';
+import { storeService, apiFetch, getDefaultPurity, getAvailablePurities, getNetWeight, getPublishState, getSizeChart, getCategoryLabel, getSubCategoryLabel } from '@/services/storeService.ts';
 import { enhanceJewelryImage, removeWatermark, deterministicEnhance } from '@/services/geminiService.ts';
 import { useUpload } from '@/contexts/UploadContext.tsx';
+import { useLocale } from '@/contexts/LocaleContext.tsx';
 import { GeneratedLinkModal } from '@/components/GeneratedLinkModal.tsx';
 import { TemplateSelectorModal } from '@/components/TemplateSelectorModal.tsx';
 import { AdminEditControls } from '@/components/AdminEditControls.tsx';
 import { FinanceCalculator } from '@/components/FinanceCalculator.tsx';
+import { QuoteModal } from '@/components/QuoteModal.tsx';
+import { OrderModal } from '@/components/OrderModal.tsx';
+import { StockUnitsPanel } from '@/components/StockUnitsPanel.tsx';
+import { ProductHistory } from '@/components/ProductHistory.tsx';
+import { VariantPicker } from '@/components/VariantPicker.tsx';
+import { CompleteTheSet } from '@/components/CompleteTheSet.tsx';
+import { ProductFamilyEditor } from '@/components/ProductFamilyEditor.tsx';
+import { SizeGuide } from '@/components/SizeGuide.tsx';
+import { ResponsiveImage } from '@/components/ResponsiveImage.tsx';
+import { ResponsiveVideo } from '@/components/ResponsiveVideo.tsx';
+import { ProductSuggestionForm } from '@/components/ProductSuggestionForm.tsx';
 import { usePerformanceMonitor } from '@/hooks/usePerformanceMonitor.ts';
 
 export const ProductDetails: React.FC = () => {
@@ -22,6 +34,7 @@ export const ProductDetails: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const { processImage } = useUpload();
+  const { t } = useLocale();
   
   // Initialize full screen state from navigation state to support seamless swiping
   const startInFullScreen = !!(location.state as any)?.startInFullScreen;
@@ -30,6 +43,8 @@ export const ProductDetails: React.FC = () => {
   
   const [product, setProduct] = useState<Product | null>(null);
   const [config, setConfig] = useState<AppConfig | null>(null);
+  const [serverPrice, setServerPrice] = useState<PriceBreakdown | null>(null);
+  const [selectedCarat, setSelectedCarat] = useState<GoldPurity>('22KT');
   const [isLoading, setIsLoading] = useState(true);
   usePerformanceMonitor('ProductDetails', isLoading);
   const [isLiked, setIsLiked] = useState(false);
@@ -92,6 +107,8 @@ export const ProductDetails: React.FC = () => {
   }, [product]);
 
   const [isEditing, setIsEditing] = useState(false);
+  const [showQuoteModal, setShowQuoteModal] = useState(false);
+  const [showOrderModal, setShowOrderModal] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [editForm, setEditForm] = useState<Partial<Product>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -103,14 +120,14 @@ export const ProductDetails: React.FC = () => {
     files.forEach(file => formData.append('files', file));
     
     try {
-        const data = await apiFetch('/media/upload', { method: 'POST', body: formData });
-        if (data && data.files) {
-            const newImages = [...(product?.images || []), ...data.files.map((f: any) => f.primary)];
-            const newThumbnails = [...(product?.thumbnails || []), ...data.files.map((f: any) => f.thumbnail || f.primary)];
-            const updatedProduct = { ...product!, images: newImages, thumbnails: newThumbnails };
-            await storeService.updateProduct(updatedProduct);
-            setProduct(updatedProduct);
-        }
+        const uploaded = await storeService.uploadMedia(formData);
+        const newImages = [...(product?.images || []), ...uploaded.map(f => f.primary)];
+        const newThumbnails = [...(product?.thumbnails || []), ...uploaded.map(f => f.thumbnail || f.primary)];
+        const videos = { ...product!.meta?.videos };
+        uploaded.forEach(f => { if (f.video) videos[f.primary] = f.video; });
+        const updatedProduct = { ...product!, images: newImages, thumbnails: newThumbnails, meta: { ...product!.meta, videos } };
+        await storeService.updateProduct(updatedProduct);
+        setProduct(updatedProduct);
     } catch (e) {
         console.error("Upload failed", e);
     }
@@ -120,7 +137,8 @@ export const ProductDetails: React.FC = () => {
     if (!product) return;
     const newImages = product.images.filter((_, i) => i !== index);
     const newThumbnails = (product.thumbnails || []).filter((_, i) => i !== index);
-    const updatedProduct = { ...product, images: newImages, thumbnails: newThumbnails };
+    const { [product.images[index]]: _removed, ...videos } = product.meta?.videos || {};
+    const updatedProduct = { ...product, images: newImages, thumbnails: newThumbnails, meta: { ...product.meta, videos } };
     await storeService.updateProduct(updatedProduct);
     setProduct(updatedProduct);
     if (activeImageIndex >= newImages.length) setActiveImageIndex(Math.max(0, newImages.length - 1));
@@ -131,6 +149,7 @@ export const ProductDetails: React.FC = () => {
   const [generatedLink, setGeneratedLink] = useState<string | null>(null);
   const [neighbors, setNeighbors] = useState<{prev: string | null, next: string | null}>({ prev: null, next: null });
   const [relatedProducts, setRelatedProducts] = useState<Product[]>([]);
+  const [family, setFamily] = useState<ProductFamily | null>(null);
   const [isWishlisted, setIsWishlisted] = useState(false);
 
   const isGuest = !user;
@@ -189,6 +208,7 @@ export const ProductDetails: React.FC = () => {
     setShowTemplateSelector(null);
     setGeneratedLink(null);
     setIsRestricted(false);
+    setServerPrice(null);
     // Clear neighbors immediately to prevent stale navigation during load
     setNeighbors({ prev: null, next: null });
 
@@ -208,6 +228,7 @@ export const ProductDetails: React.FC = () => {
           };
           setProduct(safeCached);
           setEditForm(safeCached);
+          setSelectedCarat(getDefaultPurity(safeCached));
           setIsLoading(false);
       } else {
          setIsLoading(true);
@@ -236,6 +257,7 @@ export const ProductDetails: React.FC = () => {
             };
             setProduct(safeProduct);
             setEditForm(safeProduct);
+            setSelectedCarat(getDefaultPurity(safeProduct));
             setIsLoading(false); // Unblock the UI!
             
             setIsLiked(storeService.getLikes().includes(safeProduct.id));
@@ -248,6 +270,9 @@ export const ProductDetails: React.FC = () => {
                });
             }
 
+            // Variants and sets load alongside; staff also see hidden pieces in the family
+            storeService.getProductFamily(safeProduct.id, !isAdminOrContributor).then(setFamily);
+
             // Fetch Related Products in background
             if (!isGuest) {
                 storeService.getRelatedProducts(safeProduct.id).then(setRelatedProducts);
@@ -288,6 +313,16 @@ export const ProductDetails: React.FC = () => {
     fetchData();
   }, [id, isGuest]);
 
+  // Recompute the authoritative price whenever the customer switches carat
+  useEffect(() => {
+    if (!product?.id) return;
+    let cancelled = false;
+    storeService.getProductPrice(product.id, selectedCarat).then(price => {
+        if (!cancelled) setServerPrice(price);
+    });
+    return () => { cancelled = true; };
+  }, [product?.id, selectedCarat]);
+
   const handleSave = async () => {
     if (!product || !editForm) return;
     setIsSaving(true);
@@ -296,6 +331,7 @@ export const ProductDetails: React.FC = () => {
         await storeService.updateProduct(updated);
         setProduct(updated);
         setIsEditing(false);
+        storeService.getProductPrice(updated.id, selectedCarat).then(setServerPrice);
     } catch (e) {
         alert("Failed to save changes");
     } finally {
@@ -466,12 +502,15 @@ export const ProductDetails: React.FC = () => {
       touchEnd.current = { x: 0, y: 0 };
   };
 
-  const [selectedCarat, setSelectedCarat] = useState<'9KT' | '14KT' | '18KT' | '22KT'>('22KT');
   const [pincode, setPincode] = useState('');
   const [isPincodeChecked, setIsPincodeChecked] = useState(false);
   const [activeTab, setActiveTab] = useState<'details' | 'price' | 'finance'>('details');
 
-  const priceData = (product && config) ? storeService.calculatePrice(product, config) : null;
+  // Server price is authoritative; the local calculation only fills in until it arrives
+  const priceData = (serverPrice && serverPrice.purity === selectedCarat)
+    ? serverPrice
+    : ((product && config) ? storeService.calculatePrice(product, config, selectedCarat) : null);
+  const sizeChart = (product && config) ? getSizeChart(product, config.sizeCharts) : null;
 
   if (isLoading && !product) return <div className="h-screen flex items-center justify-center bg-stone-50"><Loader2 className="animate-spin text-gold-600" size={40} /></div>;
   if (!product) return <div className="h-screen flex flex-col items-center justify-center bg-stone-50 p-6 text-center"><p className="text-stone-500 mb-4">Product not found.</p><button onClick={() => navigate('/collection')} className="text-gold-600 font-bold">Return to Gallery</button></div>;
@@ -495,8 +534,7 @@ export const ProductDetails: React.FC = () => {
               method: 'POST',
               body: JSON.stringify({
                   customerId: user.id,
-                  productId: product.id,
-                  currentPrice: priceData?.total || 0
+                  productId: product.id
               })
           });
           // Show toast or success indication here if we had a toast system
@@ -513,13 +551,14 @@ export const ProductDetails: React.FC = () => {
       }
       if (navigator.vibrate) navigator.vibrate(10);
       
-      const priceNow = priceData?.total || 0;
       if (isWishlisted) {
           setIsWishlisted(false);
           await storeService.removeFromWishlist(user.id, product.id);
       } else {
           setIsWishlisted(true);
-          await storeService.addToWishlist(user.id, product.id, priceNow, { carat: selectedCarat });
+          // Wishlist in the customer's own size when they have saved one for this kind of piece
+          const size = (sizeChart && storeService.getCurrentUser()?.sizes?.[sizeChart.id]) || product.size || undefined;
+          await storeService.addToWishlist(user.id, product.id, { purity: selectedCarat, size });
       }
   };
 
@@ -558,7 +597,7 @@ export const ProductDetails: React.FC = () => {
       <div className="bg-white/90 backdrop-blur-xl border-b border-stone-100 px-4 h-16 flex items-center justify-between sticky top-0 md:top-24 z-30 transition-all duration-500">
         <button onClick={() => navigate('/gallery', { state: { category: (location.state as any)?.category || product?.category, subCategory: (location.state as any)?.subCategory || product?.subCategory || 'All' } })} className="p-2 -ml-2 text-stone-400 hover:text-brand-dark hover:bg-stone-50 rounded-xl transition-all"><ArrowLeft size={24} /></button>
         <div className="flex flex-col items-center flex-1 px-2 overflow-hidden">
-            <span className="text-[7px] font-bold uppercase tracking-[0.3em] text-brand-gold mb-0.5">{product.category}</span>
+            <span className="text-[7px] font-bold uppercase tracking-[0.3em] text-brand-gold mb-0.5">{getCategoryLabel(config?.categories, product.category)}</span>
             <h2 className="font-serif font-bold text-brand-dark text-lg truncate w-full text-center">{product.title}</h2>
         </div>
         <div className="flex gap-2">
@@ -571,6 +610,8 @@ export const ProductDetails: React.FC = () => {
                         {product.isHidden ? <EyeOff size={22}/> : <Eye size={22}/>}
                     </button>
                     <button onClick={handlePrivateLink} className="p-2 text-stone-400 hover:text-brand-dark transition-all"><LinkIcon size={22}/></button>
+                    <button onClick={() => setShowQuoteModal(true)} className="p-2 text-stone-400 hover:text-brand-dark transition-all"><FileText size={22}/></button>
+                    <button onClick={() => setShowOrderModal(true)} className={`p-2 rounded-lg transition-all ${product.availability === 'reserved' ? 'bg-brand-gold text-white' : product.availability === 'sold' ? 'bg-emerald-500 text-white' : 'text-stone-400 hover:text-brand-dark'}`}><ShoppingBag size={22}/></button>
                     <button onClick={() => setIsEditing(!isEditing)} className={`p-2 rounded-lg transition-all ${isEditing ? 'bg-brand-gold text-white' : 'text-stone-400 hover:text-brand-dark'}`}><Edit2 size={22}/></button>
                 </div>
             ) : (
@@ -621,15 +662,18 @@ export const ProductDetails: React.FC = () => {
                                     const currentMedia = displayImages[activeImageIndex] || displayImages[0];
                                     const isVideo = currentMedia.includes('video/') || currentMedia.endsWith('.webm') || currentMedia.endsWith('.mp4') || currentMedia.endsWith('.mov');
                                     return isVideo ? (
-                                        <video 
-                                            src={storeService.getImageUrl ? storeService.getImageUrl(currentMedia) : currentMedia} 
+                                        <ResponsiveVideo 
+                                            src={currentMedia} 
+                                            details={product.meta?.videos?.[currentMedia]}
                                             className={`w-full h-full object-contain bg-white transition-transform duration-1000 ease-out ${!isAdmin ? 'pointer-events-none select-none' : ''}`} 
                                             style={{ WebkitTouchCallout: isAdmin ? 'default' : 'none' }}
                                             autoPlay muted loop playsInline
                                         />
                                     ) : (
-                                        <img 
-                                            src={storeService.getImageUrl ? storeService.getImageUrl(currentMedia) : currentMedia} 
+                                        <ResponsiveImage 
+                                            src={currentMedia} 
+                                            manifest={product.media?.[activeImageIndex]}
+                                            sizes="(min-width: 768px) 50vw, 100vw"
                                             className={`w-full h-full object-contain bg-white transition-transform duration-300 ease-out ${!isAdmin ? 'pointer-events-none select-none' : ''}`} 
                                             style={{ WebkitTouchCallout: isAdmin ? 'default' : 'none' }}
                                             onContextMenu={(e) => {
@@ -713,7 +757,7 @@ export const ProductDetails: React.FC = () => {
                                     {isVideo ? (
                                         <video src={storeService.getImageUrl ? storeService.getImageUrl(thumbMedia) : thumbMedia} className={`w-full h-full object-cover ${!isAdmin ? 'pointer-events-none select-none' : ''}`} onContextMenu={(e) => { if (!isAdmin) e.preventDefault(); }} autoPlay muted loop playsInline />
                                     ) : (
-                                        <img src={storeService.getImageUrl ? storeService.getImageUrl(thumbMedia) : thumbMedia} alt={`View ${idx + 1}`} className={`w-full h-full object-cover ${!isAdmin ? 'pointer-events-none select-none' : ''}`} onContextMenu={(e) => { if (!isAdmin) e.preventDefault(); }} loading="lazy" />
+                                        <ResponsiveImage src={thumbMedia} manifest={product.media?.[idx]} sizes="96px" alt={`View ${idx + 1}`} className={`w-full h-full object-cover ${!isAdmin ? 'pointer-events-none select-none' : ''}`} onContextMenu={(e) => { if (!isAdmin) e.preventDefault(); }} loading="lazy" />
                                     )}
                                 </button>
                                 {isAdminOrContributor && displayImages.length > 1 && (
@@ -755,8 +799,8 @@ export const ProductDetails: React.FC = () => {
                             </div>
                         </div>
                         <div className="text-right">
-                            <p className="text-[7px] font-bold text-stone-400 uppercase tracking-[0.2em]">Gold Rate</p>
-                            <p className="text-[10px] font-mono font-bold text-brand-gold">₹{priceData?.goldRate}/g</p>
+                            <p className="text-[7px] font-bold text-stone-400 uppercase tracking-[0.2em]">Gold Rate ({priceData?.purity})</p>
+                            <p className="text-[10px] font-mono font-bold text-brand-gold">₹{Math.round(priceData?.goldRate || 0)}/g</p>
                         </div>
                         
                         {!showFullDetails && (
@@ -773,9 +817,17 @@ export const ProductDetails: React.FC = () => {
             <div className="p-6 md:p-0 space-y-6">
                 <div className="space-y-4">
                     <div className="flex items-center gap-2">
-                        <span className="text-brand-gold text-[9px] font-bold uppercase tracking-[0.3em]">{product.category}</span>
+                        <span className="text-brand-gold text-[9px] font-bold uppercase tracking-[0.3em]">{getCategoryLabel(config?.categories, product.category)}</span>
                         <span className="w-1 h-1 rounded-full bg-stone-200"></span>
                         <span className="text-stone-400 text-[9px] font-bold uppercase tracking-[0.3em]">Ref: {product.id.slice(-6).toUpperCase()}</span>
+                        {isAdmin && (product.publishAt || product.unpublishAt) && (
+                            <span className={`ml-2 flex items-center gap-1 px-2 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-widest ${getPublishState(product) === 'live' ? 'bg-emerald-50 text-emerald-600' : getPublishState(product) === 'scheduled' ? 'bg-brand-gold/10 text-brand-gold' : 'bg-stone-100 text-stone-400'}`}>
+                                <Clock size={11} />
+                                {getPublishState(product) === 'scheduled' && `Goes live ${new Date(product.publishAt!).toLocaleString()}`}
+                                {getPublishState(product) === 'expired' && `Expired ${new Date(product.unpublishAt!).toLocaleString()}`}
+                                {getPublishState(product) === 'live' && (product.unpublishAt ? `Live until ${new Date(product.unpublishAt).toLocaleString()}` : 'Live')}
+                            </span>
+                        )}
                     </div>
                                    {isEditing ? (
                         <AdminEditControls 
@@ -790,7 +842,7 @@ export const ProductDetails: React.FC = () => {
                     )}
 
                     <div className="flex flex-wrap items-center gap-4 text-stone-500 text-base">
-                        <span className="flex items-center gap-2 bg-stone-100 px-4 py-2 rounded-full text-xs font-bold uppercase tracking-widest text-stone-600"><Tag size={17} className="text-brand-gold" /> {product.subCategory || 'Bespoke'}</span>
+                        <span className="flex items-center gap-2 bg-stone-100 px-4 py-2 rounded-full text-xs font-bold uppercase tracking-widest text-stone-600"><Tag size={17} className="text-brand-gold" /> {getSubCategoryLabel(config?.categories, product.category, product.subCategory) || 'Bespoke'}</span>
                         <span className="flex items-center gap-2 bg-stone-100 px-4 py-2 rounded-full text-xs font-bold uppercase tracking-widest text-stone-600">
                             <Layers size={17} className="text-brand-gold" /> 
                             {product.meta?.makingChargeSegmentId === 'custom' ? 'Custom Segment' : (config?.makingChargeSegments?.find(s => s.id === (product.meta?.makingChargeSegmentId || config?.defaultMakingChargeSegmentId))?.name || 'Standard')}
@@ -822,6 +874,31 @@ export const ProductDetails: React.FC = () => {
                     ))}
                 </div>
 
+                {!isEditing && family && family.variants.length > 1 && (
+                    <VariantPicker variants={family.variants} currentId={product.id} showDetails={showFullDetails} onSelect={vid => navigate(`/product/${vid}`, { replace: true })} />
+                )}
+
+                {!isEditing && sizeChart && (
+                    <SizeGuide key={product.id} product={product} chart={sizeChart} variants={family?.variants || []} onOpenVariant={vid => navigate(`/product/${vid}`, { replace: true })} />
+                )}
+
+                {!isEditing && getAvailablePurities(product).length > 1 && (
+                    <div className="space-y-2">
+                        <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.3em]">{t('product.selectPurity')}</p>
+                        <div className="flex flex-wrap gap-2">
+                            {getAvailablePurities(product).map(p => (
+                                <button
+                                    key={p}
+                                    onClick={() => setSelectedCarat(p)}
+                                    className={`px-4 py-2 rounded-full text-[10px] font-bold uppercase tracking-widest border transition-all ${selectedCarat === p ? 'bg-brand-dark text-white border-brand-dark' : 'bg-white text-stone-500 border-stone-200 hover:border-brand-gold hover:text-brand-gold'}`}
+                                >
+                                    {p}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 <div className="space-y-4">
                     {/* Accordions */}
                     <div className="space-y-1">
@@ -844,10 +921,24 @@ export const ProductDetails: React.FC = () => {
                                             <p className="text-xs font-bold text-brand-dark">{product.id.slice(-8).toUpperCase()}</p>
                                         </div>
                                         <div className="bg-stone-50 p-2.5 rounded-lg border border-stone-100">
-                                            <p className="text-[9px] text-stone-400 uppercase font-bold tracking-tighter">Net Weight</p>
+                                            <p className="text-[9px] text-stone-400 uppercase font-bold tracking-tighter">Gross Weight</p>
                                             <p className="text-xs font-bold text-brand-dark">{product.weight} g</p>
                                         </div>
+                                        <div className="bg-stone-50 p-2.5 rounded-lg border border-stone-100">
+                                            <p className="text-[9px] text-stone-400 uppercase font-bold tracking-tighter">Net Gold Weight</p>
+                                            <p className="text-xs font-bold text-brand-dark">{getNetWeight(product).toFixed(2)} g</p>
+                                        </div>
                                     </div>
+                                    {(product.meta?.stones?.length || 0) > 0 && (
+                                        <div className="mt-2 space-y-1">
+                                            {product.meta.stones!.map(stone => (
+                                                <div key={stone.id} className="flex justify-between items-center bg-stone-50 px-2.5 py-2 rounded-lg border border-stone-100">
+                                                    <span className="text-[10px] font-bold text-brand-dark uppercase tracking-widest">{stone.type} <span className="text-stone-400">× {stone.count}</span></span>
+                                                    <span className="text-[10px] text-stone-500">{stone.caratWeight} ct{stone.grade ? ` · ${stone.grade}` : ''}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -864,13 +955,25 @@ export const ProductDetails: React.FC = () => {
                                 <div className="px-5 pb-4 space-y-2 animate-in fade-in slide-in-from-top-1 relative">
                                     <div className={`space-y-1.5 ${!showFullDetails ? 'blur-md select-none opacity-40' : ''}`}>
                                         <div className="flex justify-between text-xs">
-                                            <span className="text-stone-500">Gold Value</span>
+                                            <span className="text-stone-500">Gold Value <span className="text-[9px] bg-stone-100 px-1.5 py-0.5 rounded text-stone-400 ml-1">{priceData.netWeight.toFixed(2)}g {priceData.purity} @ ₹{Math.round(priceData.goldRate)}/g</span></span>
                                             <span className="font-mono text-brand-dark">₹{!showFullDetails ? 'XX,XXX' : Math.round(priceData.basePrice).toLocaleString('en-IN')}</span>
                                         </div>
                                         <div className="flex justify-between text-xs">
                                             <span className="text-stone-500">Making ({priceData.makingPercent}%) <span className="text-[9px] bg-stone-100 px-1.5 py-0.5 rounded text-stone-400 ml-1">{product.meta?.makingChargeSegmentId === 'custom' ? 'Custom' : (config?.makingChargeSegments?.find(s => s.id === (product.meta?.makingChargeSegmentId || config?.defaultMakingChargeSegmentId))?.name || 'Standard')}</span></span>
                                             <span className="font-mono text-brand-dark">₹{!showFullDetails ? 'X,XXX' : Math.round(priceData.makingCharges).toLocaleString('en-IN')}</span>
                                         </div>
+                                        {priceData.stoneLines.map(line => (
+                                            <div key={line.id} className="flex justify-between text-xs">
+                                                <span className="text-stone-500 capitalize">{line.type} ({line.count}) <span className="text-[9px] bg-stone-100 px-1.5 py-0.5 rounded text-stone-400 ml-1 normal-case">{line.caratWeight} ct{line.grade ? ` ${line.grade}` : ''} @ ₹{Math.round(line.ratePerCarat).toLocaleString('en-IN')}/ct</span></span>
+                                                <span className="font-mono text-brand-dark">₹{!showFullDetails ? 'X,XXX' : Math.round(line.value).toLocaleString('en-IN')}</span>
+                                            </div>
+                                        ))}
+                                        {priceData.otherCharges > 0 && (
+                                            <div className="flex justify-between text-xs">
+                                                <span className="text-stone-500">Other Charges</span>
+                                                <span className="font-mono text-brand-dark">₹{!showFullDetails ? 'X,XXX' : Math.round(priceData.otherCharges).toLocaleString('en-IN')}</span>
+                                            </div>
+                                        )}
                                         <div className="flex justify-between text-xs">
                                             <span className="text-stone-500">GST ({config?.gstPercent || 3}%)</span>
                                             <span className="font-mono text-brand-dark">₹{!showFullDetails ? 'X,XXX' : Math.round(priceData.gst).toLocaleString('en-IN')}</span>
@@ -907,6 +1010,7 @@ export const ProductDetails: React.FC = () => {
                                         config={config} 
                                         priceData={priceData} 
                                         showFullDetails={showFullDetails} 
+                                        purity={selectedCarat}
                                     />
                                 </div>
                             )}
@@ -988,6 +1092,25 @@ export const ProductDetails: React.FC = () => {
                     </div>
                 )}
 
+                {!isEditing && family && family.sets.length > 0 && (
+                    <div className="mt-6">
+                        <CompleteTheSet sets={family.sets} currentId={product.id} showPrices={showFullDetails} onOpen={pid => navigate(`/product/${pid}`)} />
+                    </div>
+                )}
+
+                {isAdmin && <StockUnitsPanel product={product} />}
+
+                {isAdmin && <ProductHistory product={product} onRestored={setProduct} />}
+
+                {isAdmin && (
+                    <ProductFamilyEditor
+                        product={product}
+                        family={family}
+                        onOpen={pid => navigate(`/product/${pid}`)}
+                        onChanged={() => storeService.getProductFamily(product.id, false).then(setFamily)}
+                    />
+                )}
+
                 {isAdmin && (
                     <div className="bg-white rounded-3xl p-6 space-y-6 border border-stone-100 shadow-lg mt-6">
                         <h3 className="text-[9px] font-bold text-brand-gold uppercase tracking-[0.3em] flex items-center gap-2">
@@ -1038,6 +1161,8 @@ export const ProductDetails: React.FC = () => {
                     </div>
                 )}
 
+                {user?.role === 'customer' && <ProductSuggestionForm product={product} customerId={user.id} />}
+
                 <div className="pt-4">
                     {isEditing ? (
                         <div className="flex gap-4">
@@ -1055,9 +1180,9 @@ export const ProductDetails: React.FC = () => {
                 <div className="flex items-center justify-between">
                     <div className="space-y-1">
                         <h3 className="font-sans text-2xl font-bold flex items-center gap-3 text-brand-dark uppercase tracking-tighter">
-                            <Sparkles size={29} className="text-brand-gold" /> Related Pieces
+                            <Sparkles size={29} className="text-brand-gold" /> {t('product.related')}
                         </h3>
-                        <p className="text-[10px] text-stone-400 uppercase tracking-[0.3em] font-bold ml-9">Curated for your taste</p>
+                        <p className="text-[10px] text-stone-400 uppercase tracking-[0.3em] font-bold ml-9">{t('product.relatedHint')}</p>
                     </div>
                 </div>
                 <div 
@@ -1085,6 +1210,8 @@ export const ProductDetails: React.FC = () => {
         <ImageViewer 
             key={product.id}
             images={displayImages.map(img => storeService.getImageUrl ? storeService.getImageUrl(img) : img)} 
+            media={product.media}
+            videos={displayImages.map(img => product.meta?.videos?.[img])}
             initialIndex={activeImageIndex}
             title={product.title} 
             disableAnimation={startInFullScreen}
@@ -1102,6 +1229,27 @@ export const ProductDetails: React.FC = () => {
         />
       )}
 
+      {showQuoteModal && (
+        <QuoteModal
+            product={product}
+            config={config}
+            purity={selectedCarat}
+            onClose={() => setShowQuoteModal(false)}
+        />
+      )}
+
+      {showOrderModal && (
+        <OrderModal
+            product={product}
+            purity={selectedCarat}
+            onClose={() => setShowOrderModal(false)}
+            onAvailabilityChange={(availability) => {
+                setProduct({ ...product, availability });
+                storeService.getProductStats(product.id).then(setStats);
+            }}
+        />
+      )}
+
       {showTemplateSelector && (
           <TemplateSelectorModal 
               mode={showTemplateSelector.mode} 
@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ScanLine, Loader2, Search, CameraOff } from 'lucide-react';
+import { storeService } from '@/services/storeService.ts';
+
+// Label QR codes point at /#/admin/scan/<tag>, so a phone camera opens the piece directly.
+// Without a code, the page scans with the camera where BarcodeDetector is available.
+export const ScanTag: React.FC = () => {
+    const { code } = useParams<{ code?: string }>();
+    const navigate = useNavigate();
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [manualCode, setManualCode] = useState('');
+    const [isResolving, setIsResolving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [cameraAvailable, setCameraAvailable] = useState(true);
+
+    const resolve = async (value: string) => {
+        if (!value.trim()) return;
+        setIsResolving(true);
+        setError(null);
+        try {
+            const { productId } = await storeService.lookupStockCode(value.trim());
+            navigate(`/product/${productId}`, { replace: true });
+        } catch (e: any) {
+            setError(e.message || 'Tag not found');
+            setIsResolving(false);
+        }
+    };
+
+    useEffect(() => {
+        if (code) resolve(code);
+    }, [code]);
+
+    useEffect(() => {
+        if (code) return;
+        const Detector = (window as any).BarcodeDetector;
+        if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+            setCameraAvailable(false);
+            return;
+        }
+
+        let stream: MediaStream | null = null;
+        let timer: number | undefined;
+        let cancelled = false;
+        const detector = new Detector({ formats: ['qr_code', 'code_128'] });
+
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } }).then(s => {
+            if (cancelled) { s.getTracks().forEach(t => t.stop()); return; }
+            stream = s;
+            if (videoRef.current) {
+                videoRef.current.srcObject = s;
+                videoRef.current.play();
+            }
+            timer = window.setInterval(async () => {
+                if (!videoRef.current || videoRef.current.readyState < 2) return;
+                const found = await detector.detect(videoRef.current).catch(() => []);
+                if (found.length > 0) {
+                    window.clearInterval(timer);
+                    // QR labels carry the full scan URL; barcodes carry just the tag
+                    const raw: string = found[0].rawValue;
+                    resolve(decodeURIComponent(raw.split('/admin/scan/').pop() || raw));
+                }
+            }, 400);
+        }).catch(() => setCameraAvailable(false));
+
+        return () => {
+            cancelled = true;
+            window.clearInterval(timer);
+            stream?.getTracks().forEach(t => t.stop());
+        };
+    }, [code]);
+
+    return (
+        <div className="min-h-screen pt-24 pb-32 px-6 max-w-md mx-auto space-y-6">
+            <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-brand-gold/10 text-brand-gold rounded-full flex items-center justify-center"><ScanLine size={20} /></div>
+                <div>
+                    <h1 className="font-serif text-2xl font-bold">Scan Tag</h1>
+                    <p className="text-xs text-stone-400">Point the camera at a label QR or barcode</p>
+                </div>
+            </div>
+
+            {!code && (
+                cameraAvailable ? (
+                    <div className="relative aspect-square rounded-2xl overflow-hidden bg-black">
+                        <video ref={videoRef} muted playsInline className="w-full h-full object-cover" />
+                        <div className="absolute inset-10 border-2 border-brand-gold/70 rounded-xl pointer-events-none" />
+                    </div>
+                ) : (
+                    <div className="aspect-square rounded-2xl bg-stone-900 flex flex-col items-center justify-center text-stone-500 gap-2">
+                        <CameraOff size={28} />
+                        <p className="text-xs">Camera scanning is not supported on this device</p>
+                    </div>
+                )
+            )}
+
+            {isResolving && <div className="flex items-center justify-center gap-2 text-xs text-stone-400"><Loader2 size={16} className="animate-spin" /> Opening piece...</div>}
+            {error && <p className="p-3 rounded-xl bg-rose-500/10 text-rose-400 text-xs font-bold text-center">{error}</p>}
+
+            <form onSubmit={e => { e.preventDefault(); resolve(manualCode); }} className="flex gap-2">
+                <input value={manualCode} onChange={e => setManualCode(e.target.value)} placeholder="Enter tag no. or SKU" className="flex-1 p-3 bg-stone-900 border border-stone-800 rounded-xl text-sm font-mono text-stone-100 outline-none focus:border-brand-gold" />
+                <button type="submit" disabled={isResolving} className="px-4 bg-brand-gold text-white rounded-xl disabled:opacity-50"><Search size={18} /></button>
+            </form>
+        </div>
+    );
+};
@@ -1,8 +1,9 @@
 
 import React, { useState, useEffect } from 'react';
-import { storeService, apiFetch } from '../services/storeService';
-import { AppConfig, Supplier, CategoryConfig, StaffAccount, PromptTemplate } from '../types';
-import { Save, Plus, Trash2, Lock, Unlock, Settings as SettingsIcon, X, MessageCircle, Loader2, ArrowLeft, Users, Shield, UserPlus, Eye, EyeOff, Package, Tag, Layers, RefreshCw, Link as LinkIcon, HardDrive, Sparkles, BrainCircuit, FilePlus, ChevronDown, FileText, Edit2 } from 'lucide-react';
+import { storeService, apiFetch, DEFAULT_PURITY_FINENESS, getPurityRate } from '../services/storeService';
+import { AppConfig, Supplier, CategoryConfig, StaffAccount, PromptTemplate, GoldRateProvider, GoldRateStatus, SizeChart, Locale, NameTranslations, VisibleWatermarkSettings, WatermarkPosition } from '../types';
+import { TRANSLATION_LOCALES } from '../services/i18n';
+import { Save, Plus, Trash2, Lock, Unlock, Settings as SettingsIcon, X, MessageCircle, Loader2, ArrowLeft, Users, Shield, UserPlus, Eye, EyeOff, Package, Tag, Layers, RefreshCw, Link as LinkIcon, HardDrive, Sparkles, BrainCircuit, FilePlus, ChevronDown, ChevronUp, FileText, Edit2, Ruler, Languages, Stamp } from 'lucide-react';
 import { Maintenance } from './Maintenance';
 
 interface SettingsProps {
@@ -206,6 +207,91 @@ const PromptSection = ({
     );
 };
 
+const WATERMARK_POSITIONS: { value: WatermarkPosition; label: string }[] = [
+    { value: 'bottom-right', label: 'Bottom right' },
+    { value: 'bottom-left', label: 'Bottom left' },
+    { value: 'top-right', label: 'Top right' },
+    { value: 'top-left', label: 'Top left' },
+    { value: 'center', label: 'Center' },
+    { value: 'tiled', label: 'Tiled across image' }
+];
+
+// Sub-component for editing one size chart: the categories it covers and its sizes, smallest first
+const SizeChartEditor = ({ chart, onChange, onDelete }: { chart: SizeChart; onChange: (chart: SizeChart) => void; onDelete: () => void }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const updateSize = (index: number, updates: Partial<SizeChart['sizes'][number]>) =>
+        onChange({ ...chart, sizes: chart.sizes.map((s, i) => (i === index ? { ...s, ...updates } : s)) });
+
+    return (
+        <div className="border border-stone-200 rounded-xl overflow-hidden shadow-sm">
+            <div className="bg-stone-50 p-3 flex justify-between items-center border-b border-stone-200 gap-2">
+                <input value={chart.name} onChange={e => onChange({ ...chart, name: e.target.value })} className="font-bold text-stone-700 bg-transparent outline-none flex-1" />
+                <span className="text-[10px] text-stone-400 font-mono">{chart.sizes.length} sizes</span>
+                <button onClick={() => setIsOpen(!isOpen)} className="p-1.5 text-stone-400 hover:text-stone-600">{isOpen ? <ChevronUp size={17} /> : <ChevronDown size={17} />}</button>
+                <button onClick={onDelete} className="p-1.5 text-stone-400 hover:text-red-500"><Trash2 size={17} /></button>
+            </div>
+            <div className="p-4 bg-white space-y-3">
+                <div className="grid grid-cols-3 gap-3">
+                    <div className="col-span-2">
+                        <label className="block text-[10px] font-bold text-stone-500 mb-1">Categories (comma separated)</label>
+                        <input value={chart.categories.join(', ')} onChange={e => onChange({ ...chart, categories: e.target.value.split(',').map(c => c.trim()).filter(Boolean) })} placeholder="e.g. Rings, Bands" className="w-full p-2 border border-stone-200 rounded-lg text-sm text-stone-900" />
+                    </div>
+                    <div>
+                        <label className="block text-[10px] font-bold text-stone-500 mb-1">Resizable (± sizes)</label>
+                        <input type="number" min={0} value={chart.resizeSteps} onChange={e => onChange({ ...chart, resizeSteps: Math.max(0, parseInt(e.target.value) || 0) })} className="w-full p-2 border border-stone-200 rounded-lg text-sm text-stone-900" />
+                    </div>
+                </div>
+                {isOpen && (
+                    <div className="space-y-1.5">
+                        <div className="grid grid-cols-[1fr_1fr_2rem] gap-2 text-[10px] font-bold text-stone-400 uppercase tracking-widest">
+                            <span>Size</span><span>Inner Diameter (mm)</span><span />
+                        </div>
+                        {chart.sizes.map((s, i) => (
+                            <div key={i} className="grid grid-cols-[1fr_1fr_2rem] gap-2">
+                                <input value={s.label} onChange={e => updateSize(i, { label: e.target.value })} className="p-1.5 border border-stone-200 rounded text-sm font-mono text-stone-900" />
+                                <input type="number" step="0.1" value={s.diameterMm} onChange={e => updateSize(i, { diameterMm: Number(e.target.value) })} className="p-1.5 border border-stone-200 rounded text-sm font-mono text-stone-900" />
+                                <button onClick={() => onChange({ ...chart, sizes: chart.sizes.filter((_, j) => j !== i) })} className="text-stone-300 hover:text-red-500"><X size={14} /></button>
+                            </div>
+                        ))}
+                        <button onClick={() => onChange({ ...chart, sizes: [...chart.sizes, { label: '', diameterMm: chart.sizes[chart.sizes.length - 1]?.diameterMm || 0 }] })} className="text-[10px] font-bold uppercase bg-stone-800 text-white px-3 py-1.5 rounded hover:bg-stone-700">Add Size</button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// Sub-component for the translated names of a category and its sub-categories, one column per language
+const CategoryTranslationsEditor = ({ category, onChange }: { category: CategoryConfig; onChange: (category: CategoryConfig) => void }) => {
+    const withName = (translations: NameTranslations | undefined, locale: Locale, name: string): NameTranslations =>
+        ({ ...(translations || {}), [locale]: { name } });
+    const rows = [
+        { key: category.name, translations: category.translations, set: (locale: Locale, name: string) => onChange({ ...category, translations: withName(category.translations, locale, name) }) },
+        ...category.subCategories.map(sub => ({
+            key: sub,
+            translations: category.subCategoryTranslations?.[sub],
+            set: (locale: Locale, name: string) => onChange({ ...category, subCategoryTranslations: { ...(category.subCategoryTranslations || {}), [sub]: withName(category.subCategoryTranslations?.[sub], locale, name) } })
+        }))
+    ];
+
+    return (
+        <div className="mt-4 pt-4 border-t border-stone-100 space-y-1.5">
+            <div className="grid gap-2 text-[10px] font-bold text-stone-400 uppercase tracking-widest" style={{ gridTemplateColumns: `8rem repeat(${TRANSLATION_LOCALES.length}, 1fr)` }}>
+                <span>English</span>
+                {TRANSLATION_LOCALES.map(l => <span key={l.id}>{l.name}</span>)}
+            </div>
+            {rows.map((row, i) => (
+                <div key={row.key} className="grid gap-2 items-center" style={{ gridTemplateColumns: `8rem repeat(${TRANSLATION_LOCALES.length}, 1fr)` }}>
+                    <span className={`text-xs truncate ${i === 0 ? 'font-bold text-stone-700' : 'text-stone-500'}`}>{row.key}</span>
+                    {TRANSLATION_LOCALES.map(l => (
+                        <input key={l.id} lang={l.id} value={row.translations?.[l.id]?.name || ''} onChange={e => row.set(l.id, e.target.value)} placeholder={l.nativeName} className="p-1.5 border border-stone-200 rounded text-sm text-stone-900" />
+                    ))}
+                </div>
+            ))}
+        </div>
+    );
+};
+
 export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
   const [config, setConfig] = useState<AppConfig | null>(null);
   const [activeTab, setActiveTab] = useState<'suppliers' | 'categories' | 'staff' | 'general' | 'ai' | 'maintenance'>('suppliers');
@@ -225,6 +311,8 @@ export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
     role: 'admin' | 'contributor';
   }>({ isOpen: false, mode: 'add', name: '', username: '', password: '', role: 'contributor' });
 
+  const [goldRateStatus, setGoldRateStatus] = useState<GoldRateStatus | null>(null);
+
   const [showPassword, setShowPassword] = useState(false);
   const [isTestingIg, setIsTestingIg] = useState(false);
   const [igTestData, setIgTestData] = useState<any[] | null>(null);
@@ -236,6 +324,7 @@ export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
   const [newSupplierName, setNewSupplierName] = useState('');
   const [newCategoryName, setNewCategoryName] = useState('');
   const [newSubCategory, setNewSubCategory] = useState<{catId: string, val: string}>({catId: '', val: ''});
+  const [translatingCategoryId, setTranslatingCategoryId] = useState<string | null>(null);
 
   const textModelOptions = [
       { id: 'gemini-1.5-flash-8b', label: 'Gemini 1.5 Flash-8B (Lowest Cost)' },
@@ -260,6 +349,8 @@ export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
             if (isAdmin) {
               const staff = await storeService.getStaff();
               setStaffList(staff);
+              const health = await storeService.checkServerHealth();
+              setGoldRateStatus(health.goldRate || null);
             } else {
                 if (['staff', 'general', 'maintenance', 'ai'].includes(activeTab)) setActiveTab('suppliers');
             }
@@ -272,6 +363,23 @@ export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
     loadData();
   }, [isAdmin]);
 
+  const updateGoldRateProviders = (providers: GoldRateProvider[]) => {
+    if (config) setConfig({...config, goldRateProviders: providers});
+  };
+
+  const setVisibleWatermark = (changes: Partial<VisibleWatermarkSettings>) => {
+    if (!config) return;
+    setConfig({ ...config, visibleWatermark: { enabled: false, opacity: 0.35, position: 'bottom-right', ...config.visibleWatermark, ...changes } });
+  };
+
+  const moveGoldRateProvider = (index: number, offset: number) => {
+    const providers = [...(config?.goldRateProviders || [])];
+    const target = index + offset;
+    if (target < 0 || target >= providers.length) return;
+    [providers[index], providers[target]] = [providers[target], providers[index]];
+    updateGoldRateProviders(providers);
+  };
+
   const handleSave = async () => {
     if (config) {
         setIsLoading(true);
@@ -574,6 +682,9 @@ export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
                                     }} className="p-1.5 bg-white border border-stone-200 rounded hover:bg-gold-50 hover:border-gold-200 text-stone-500 hover:text-gold-600 transition">
                                         <LinkIcon size={17} />
                                     </button>
+                                    <button onClick={() => setTranslatingCategoryId(translatingCategoryId === c.id ? null : c.id)} className={`p-1.5 bg-white border rounded transition ${translatingCategoryId === c.id ? 'border-gold-200 text-gold-600' : 'border-stone-200 text-stone-500 hover:text-gold-600'}`} title="Translations">
+                                        <Languages size={17} />
+                                    </button>
                                     <button onClick={() => setConfig({...config, categories: (config.categories || []).map(cat => cat.id === c.id ? {...cat, isPrivate: !cat.isPrivate} : cat)})} className="text-[10px] text-stone-400 hover:text-stone-600 uppercase font-bold tracking-widest ml-2">{c.isPrivate ? 'Make Public' : 'Make Private'}</button>
                                 </div>
                             </div>
@@ -594,11 +705,30 @@ export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
                                         setNewSubCategory({catId: '', val: ''});
                                     }} className="text-[10px] font-bold uppercase bg-stone-800 text-white px-3 rounded hover:bg-stone-700">Add</button>
                                 </div>
+                                {translatingCategoryId === c.id && (
+                                    <CategoryTranslationsEditor category={c} onChange={updated => setConfig({...config, categories: (config.categories || []).map(cat => cat.id === c.id ? updated : cat)})} />
+                                )}
                             </div>
                         </div>
                     ))}
                 </div>
             </div>
+
+            <div className="bg-white p-6 rounded-xl border border-stone-100 shadow-sm">
+                <h3 className="font-bold text-stone-700 mb-2 flex items-center gap-2"><Ruler size={22}/> Size Charts</h3>
+                <p className="text-[10px] text-stone-400 mb-4">Customers save their size against a chart, and pieces in the chart's categories show whether they fit.</p>
+                <div className="space-y-4">
+                    {(config.sizeCharts || []).map(chart => (
+                        <SizeChartEditor
+                            key={chart.id}
+                            chart={chart}
+                            onChange={updated => setConfig({...config, sizeCharts: (config.sizeCharts || []).map(c => c.id === chart.id ? updated : c)})}
+                            onDelete={() => confirm(`Delete the "${chart.name}" size chart? Sizes customers saved against it will be dropped.`) && setConfig({...config, sizeCharts: (config.sizeCharts || []).filter(c => c.id !== chart.id)})}
+                        />
+                    ))}
+                    <button onClick={() => setConfig({...config, sizeCharts: [...(config.sizeCharts || []), { id: Date.now().toString(), name: 'New Chart', categories: [], resizeSteps: 0, sizes: [] }]})} className="text-[10px] font-bold uppercase bg-gold-600 text-white px-4 py-2 rounded-lg hover:bg-gold-700 transition flex items-center gap-2"><Plus size={14}/> Add Size Chart</button>
+                </div>
+            </div>
         </div>
       )}
 
@@ -785,6 +915,77 @@ export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
                             <label className="block text-xs font-bold text-stone-400 uppercase tracking-widest mb-2">GST Percentage</label>
                             <input type="number" value={config.gstPercent || ''} onChange={e => setConfig({...config, gstPercent: Number(e.target.value)})} placeholder="e.g. 3" className="w-full p-2 border border-stone-200 rounded-lg text-sm text-stone-900" />
                         </div>
+                        <div>
+                            <label className="block text-xs font-bold text-stone-400 uppercase tracking-widest mb-2">Estimate Validity (Hours)</label>
+                            <input type="number" value={config.quoteValidityHours || ''} onChange={e => setConfig({...config, quoteValidityHours: Number(e.target.value)})} placeholder="e.g. 24" className="w-full p-2 border border-stone-200 rounded-lg text-sm text-stone-900" />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-stone-400 uppercase tracking-widest mb-2">Purity Fineness (ratio of 24K rate)</label>
+                        <p className="text-[10px] text-stone-400 mb-3">22K and 24K use the rates above. Lower purities are priced at the 24K rate multiplied by these ratios.</p>
+                        <div className="grid grid-cols-3 gap-4">
+                            {(['9KT', '14KT', '18KT'] as const).map(p => (
+                                <div key={p}>
+                                    <label className="block text-[10px] font-bold text-stone-500 mb-1">{p} <span className="font-mono text-stone-400">(₹{Math.round(getPurityRate(p, config))}/g)</span></label>
+                                    <input type="number" step="0.001" value={config.purityFineness?.[p] ?? DEFAULT_PURITY_FINENESS[p]} onChange={e => setConfig({...config, purityFineness: {...DEFAULT_PURITY_FINENESS, ...(config.purityFineness || {}), [p]: Number(e.target.value)}})} className="w-full p-2 border border-stone-200 rounded-lg text-sm text-stone-900 font-mono" />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-3 text-sm text-stone-700">
+                        <input type="checkbox" checked={!!config.hideSoldInGallery} onChange={e => setConfig({...config, hideSoldInGallery: e.target.checked})} />
+                        <span>Hide sold pieces from the public gallery <span className="text-[10px] text-stone-400">(otherwise they show a "Sold" badge)</span></span>
+                    </label>
+                </div>
+            </div>
+
+            <div className="bg-white p-6 rounded-xl border border-stone-100 shadow-sm">
+                <h3 className="font-bold text-stone-700 mb-4 flex items-center gap-2"><RefreshCw size={22}/> Gold Rate Feed</h3>
+                <div className="space-y-4">
+                    {goldRateStatus && (
+                        <div className={`p-3 rounded-lg border text-xs space-y-1 ${goldRateStatus.activeProvider ? 'bg-emerald-50 border-emerald-100' : 'bg-red-50 border-red-100'}`}>
+                            <p className="font-bold text-stone-700">
+                                {goldRateStatus.activeProvider ? `Active: ${goldRateStatus.activeProvider}` : 'No provider is currently delivering rates'}
+                            </p>
+                            <p className="text-stone-500">Last success: {goldRateStatus.lastSuccessAt ? new Date(goldRateStatus.lastSuccessAt).toLocaleString() : 'Never'}</p>
+                            {goldRateStatus.lastError && (
+                                <p className="text-red-600 font-mono text-[10px] break-all">
+                                    {goldRateStatus.lastErrorAt ? `${new Date(goldRateStatus.lastErrorAt).toLocaleString()}: ` : ''}{goldRateStatus.lastError}
+                                </p>
+                            )}
+                        </div>
+                    )}
+                    <div>
+                        <label className="block text-xs font-bold text-stone-400 uppercase tracking-widest mb-2">Max Jump Per Fetch (%)</label>
+                        <input type="number" step="0.5" value={config.goldRateMaxJumpPercent || ''} onChange={e => setConfig({...config, goldRateMaxJumpPercent: Number(e.target.value)})} placeholder="e.g. 5" className="w-full p-2 border border-stone-200 rounded-lg text-sm text-stone-900" />
+                        <p className="text-[10px] text-stone-400 mt-1">Fetched rates that move further than this from the last recorded rate (per day since it was recorded) are rejected and the next provider is tried, unless two providers agree on the new rate.</p>
+                    </div>
+                    <div>
+                        <div className="flex items-center justify-between mb-2">
+                            <label className="block text-xs font-bold text-stone-400 uppercase tracking-widest">Providers (in failover order)</label>
+                            <button type="button" onClick={() => updateGoldRateProviders([...(config.goldRateProviders || []), { id: `provider-${Date.now().toString().slice(-4)}`, type: 'http', url: '', enabled: true }])} className="p-1.5 text-stone-400 hover:text-gold-600"><Plus size={17}/></button>
+                        </div>
+                        <div className="space-y-2">
+                            {(config.goldRateProviders || []).map((provider, idx) => (
+                                <div key={idx} className="flex flex-wrap md:flex-nowrap items-center gap-2 p-2 border border-stone-100 rounded-lg">
+                                    <input type="checkbox" checked={provider.enabled} onChange={e => updateGoldRateProviders(config.goldRateProviders!.map((p, i) => i === idx ? {...p, enabled: e.target.checked} : p))} />
+                                    <input value={provider.id} onChange={e => updateGoldRateProviders(config.goldRateProviders!.map((p, i) => i === idx ? {...p, id: e.target.value} : p))} className="w-32 p-2 border border-stone-200 rounded-lg text-xs font-mono text-stone-900" />
+                                    <select value={provider.type} onChange={e => updateGoldRateProviders(config.goldRateProviders!.map((p, i) => i === idx ? {...p, type: e.target.value as GoldRateProvider['type']} : p))} className="p-2 border border-stone-200 rounded-lg text-xs text-stone-900">
+                                        <option value="http">HTTP JSON</option>
+                                        <option value="file">Local File</option>
+                                    </select>
+                                    <input
+                                        value={(provider.type === 'file' ? provider.path : provider.url) || ''}
+                                        onChange={e => updateGoldRateProviders(config.goldRateProviders!.map((p, i) => i === idx ? (p.type === 'file' ? {...p, path: e.target.value} : {...p, url: e.target.value}) : p))}
+                                        placeholder={provider.type === 'file' ? 'mock/gold-rate.json' : 'https://...'}
+                                        className="flex-1 min-w-0 p-2 border border-stone-200 rounded-lg text-xs font-mono text-stone-900"
+                                    />
+                                    <button type="button" onClick={() => moveGoldRateProvider(idx, -1)} className="p-1 text-stone-400 hover:text-stone-700"><ChevronUp size={17}/></button>
+                                    <button type="button" onClick={() => moveGoldRateProvider(idx, 1)} className="p-1 text-stone-400 hover:text-stone-700"><ChevronDown size={17}/></button>
+                                    <button type="button" onClick={() => updateGoldRateProviders(config.goldRateProviders!.filter((_, i) => i !== idx))} className="p-1 text-stone-400 hover:text-red-500"><Trash2 size={17}/></button>
+                                </div>
+                            ))}
+                        </div>
                     </div>
                 </div>
             </div>
@@ -821,6 +1022,10 @@ export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
                             <label className="block text-xs font-bold text-stone-400 uppercase tracking-widest mb-2">Welcome Subscriber Template Name</label>
                             <input type="text" value={config.whatsappWelcomeTemplateName || ''} onChange={e => setConfig({...config, whatsappWelcomeTemplateName: e.target.value})} placeholder="e.g. welcome_subscriber" className="w-full p-2 border border-stone-200 rounded-lg text-sm text-stone-900" />
                         </div>
+                        <div>
+                            <label className="block text-xs font-bold text-stone-400 uppercase tracking-widest mb-2">Installment Reminder Template Name</label>
+                            <input type="text" value={config.whatsappInstallmentTemplateName || ''} onChange={e => setConfig({...config, whatsappInstallmentTemplateName: e.target.value})} placeholder="e.g. installment_due_reminder" className="w-full p-2 border border-stone-200 rounded-lg text-sm text-stone-900" />
+                        </div>
                     </div>
                     <div>
                         <label className="block text-xs font-bold text-stone-400 uppercase tracking-widest mb-2">WhatsApp Access Token</label>
@@ -922,10 +1127,46 @@ export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
                     <label className="block text-xs font-bold text-stone-400 uppercase tracking-widest mb-2">Link Expiry (Hours)</label>
                     <input type="number" value={config.linkExpiryHours} onChange={e => setConfig({...config, linkExpiryHours: parseInt(e.target.value) || 24})} className="w-full p-2 border border-stone-200 rounded-lg text-sm text-stone-900" />
                 </div>
+                <div className="mt-4">
+                    <label className="block text-xs font-bold text-stone-400 uppercase tracking-widest mb-2">Trash Retention (Days)</label>
+                    <input type="number" min={1} value={config.trashRetentionDays || ''} onChange={e => setConfig({...config, trashRetentionDays: parseInt(e.target.value) || undefined})} placeholder="e.g. 30" className="w-full p-2 border border-stone-200 rounded-lg text-sm text-stone-900" />
+                    <p className="text-[10px] text-stone-400 mt-1">Deleted products stay restorable in the trash for this long before they are purged.</p>
+                </div>
             </div>
             
+            <div className="bg-white p-6 rounded-xl border border-stone-100 shadow-sm">
+                <h3 className="font-bold text-stone-700 mb-4 flex items-center gap-2"><Stamp size={22}/> Visible Watermark</h3>
+                <label className="flex items-center gap-3 text-sm text-stone-700">
+                    <input type="checkbox" checked={!!config.visibleWatermark?.enabled} onChange={e => setVisibleWatermark({ enabled: e.target.checked })} />
+                    <span>Stamp images of private categories and shared links <span className="text-[10px] text-stone-400">(shop logo, viewer's phone last 4 digits and date)</span></span>
+                </label>
+                <div className="grid grid-cols-2 gap-4 mt-4">
+                    <div>
+                        <label className="block text-xs font-bold text-stone-400 uppercase tracking-widest mb-2">Opacity ({Math.round((config.visibleWatermark?.opacity ?? 0.35) * 100)}%)</label>
+                        <input type="range" min={0.05} max={1} step={0.05} value={config.visibleWatermark?.opacity ?? 0.35} onChange={e => setVisibleWatermark({ opacity: Number(e.target.value) })} className="w-full accent-brand-gold" />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-stone-400 uppercase tracking-widest mb-2">Position</label>
+                        <select value={config.visibleWatermark?.position || 'bottom-right'} onChange={e => setVisibleWatermark({ position: e.target.value as WatermarkPosition })} className="w-full p-2 border border-stone-200 rounded-lg text-sm text-stone-900 bg-white">
+                            {WATERMARK_POSITIONS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <p className="text-[10px] text-stone-400 mt-2">Applies to signed-in customers and shared link visitors. Public pieces and staff are never stamped.</p>
+            </div>
+
             <div className="bg-white p-6 rounded-xl border border-stone-100 shadow-sm">
                 <h3 className="text-xs font-bold text-stone-700 uppercase tracking-widest mb-4 flex items-center gap-2"><HardDrive size={22}/> Storage Maintenance</h3>
+                <div className="mb-6">
+                    <label className="block text-xs font-bold text-stone-400 uppercase tracking-widest mb-2">Image Widths (px)</label>
+                    <input
+                        defaultValue={(config.imageWidths || []).join(', ')}
+                        onBlur={e => setConfig({...config, imageWidths: e.target.value.split(',').map(w => parseInt(w.trim())).filter(w => w > 0)})}
+                        placeholder="e.g. 300, 600, 720, 1080"
+                        className="w-full p-2 border border-stone-200 rounded-lg text-sm font-mono text-stone-900"
+                    />
+                    <p className="text-[10px] text-stone-400 mt-1">New uploads are saved at each width as AVIF and WebP, and phones download the smallest one that fits the screen.</p>
+                </div>
                 <p className="text-xs text-stone-500 mb-6">Compress and optimize all stored images on the server. This reduces bandwidth usage and AI enhancement token costs.</p>
                 <button 
                     onClick={async () => {
@@ -18,6 +18,8 @@ export const SharedLanding: React.FC = () => {
       
       try {
         const data = await storeService.getSharedLinkDetails(token);
+        // Images seen through the link carry its watermark, unless a customer is signed in
+        await storeService.refreshViewerMark(token);
         
         // Wait a brief moment for visual feedback
         await new Promise(r => setTimeout(r, 800));
@@ -35,6 +37,10 @@ export const SharedLanding: React.FC = () => {
                 replace: true, 
                 state: { sharedCategory: data.targetId } 
             });
+        } else if (data.type === 'collection') {
+            // Keep the token so a private or scheduled collection stays open this session
+            storeService.unlockCollection(data.targetId, token);
+            navigate(`/collections/${data.targetId}`, { replace: true });
         } else {
             setError("Unknown link type.");
         }
@@ -4,8 +4,11 @@ import { motion, AnimatePresence } from 'motion/react';
 import { Camera, Loader2, Save, X, Plus, Image as ImageIcon, Briefcase, Layers, CheckCircle, AlertCircle, Trash2, Smartphone, ImagePlus, ArrowRight, Tag as TagIcon, Eye, ChevronRight, Sparkles, Wand2 } from 'lucide-react';
 import { analyzeJewelryImage } from '@/services/geminiService.ts';
 import { storeService } from '@/services/storeService.ts';
-import { Product, AppConfig } from '@/types.ts';
+import { Product, AppConfig, VideoDetails } from '@/types.ts';
 import { useUpload } from '@/contexts/UploadContext.tsx';
+import { StoneEditor } from '@/components/StoneEditor.tsx';
+import { ProductTranslationsEditor } from '@/components/ProductTranslationsEditor.tsx';
+import { TRANSLATION_LOCALES } from '@/services/i18n.ts';
 
 type UploadMode = 'single' | 'batch';
 
@@ -32,6 +35,7 @@ export const UploadWizard: React.FC = () => {
   const [isSaving, setIsSaving] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [analysisData, setAnalysisData] = useState<Partial<Product>>({});
+  const [draftTranslations, setDraftTranslations] = useState(false);
 
   useEffect(() => {
     storeService.getConfig().then(setConfig).catch(() => null);
@@ -76,6 +80,7 @@ export const UploadWizard: React.FC = () => {
   };
 
   const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [videos, setVideos] = useState<Record<string, VideoDetails>>({});
 
   const handleProceedToDetails = async () => {
     if (images.length === 0) return;
@@ -91,6 +96,7 @@ export const UploadWizard: React.FC = () => {
       
       setImages(newImages);
       setThumbnails(newThumbnails);
+      setVideos(Object.fromEntries(processedResults.filter(r => r.video).map(r => [r.primary, r.video!])));
 
       if (useAI) {
         // Use first original base64 for Gemini Metadata Analysis
@@ -98,7 +104,7 @@ export const UploadWizard: React.FC = () => {
         // Only analyze if it's an image (Gemini vision doesn't support video base64 directly here)
         if (originalBase64.startsWith('data:image/')) {
             const base64Clean = originalBase64.includes(',') ? originalBase64.split(',')[1] : originalBase64;
-            const result = await analyzeJewelryImage(base64Clean);
+            const result = await analyzeJewelryImage(base64Clean, undefined, draftTranslations ? TRANSLATION_LOCALES.map(l => l.id) : undefined);
             setAnalysisData((prev: Partial<Product>) => ({
               ...prev,
               ...result,
@@ -126,6 +132,7 @@ export const UploadWizard: React.FC = () => {
         subCategory: selectedSubCategory || analysisData.subCategory,
         weight: analysisData.weight || 0,
         description: analysisData.description || '',
+        translations: analysisData.translations,
         tags: analysisData.tags || [],
         images: images,
         thumbnails: thumbnails, 
@@ -138,12 +145,15 @@ export const UploadWizard: React.FC = () => {
             cameraModel: getDeviceInfo().device, 
             deviceManufacturer: getDeviceInfo().manufacturer,
             makingChargeSegmentId: analysisData.meta?.makingChargeSegmentId,
-            otherCharges: analysisData.meta?.otherCharges
+            otherCharges: analysisData.meta?.otherCharges,
+            stones: analysisData.meta?.stones,
+            netWeight: analysisData.meta?.netWeight,
+            videos
         }
       };
       await storeService.addProduct(newProduct);
       alert("Jewelry Assets Secured in Vault!");
-      setStep(1); setImages([]); setThumbnails([]); setAnalysisData({}); setSelectedCategory(''); setUploadError(null);
+      setStep(1); setImages([]); setThumbnails([]); setVideos({}); setAnalysisData({}); setSelectedCategory(''); setUploadError(null);
     } catch (err: any) {
       setUploadError(`Storage failed: ${err.message}`);
     } finally {
@@ -184,6 +194,20 @@ export const UploadWizard: React.FC = () => {
                 </button>
              </div>
 
+             {useAI && (
+               <div className="flex items-center gap-2">
+                  <span className={`text-[9px] font-bold uppercase tracking-widest transition-colors ${draftTranslations ? 'text-gold-600' : 'text-stone-300'}`}>
+                    {draftTranslations ? 'Translate Active' : 'Translate Off'}
+                  </span>
+                  <button 
+                      onClick={() => setDraftTranslations(!draftTranslations)} 
+                      className={`w-10 h-5 rounded-full relative transition-colors duration-300 ${draftTranslations ? 'bg-gold-500' : 'bg-stone-200'}`}
+                  >
+                      <div className={`absolute top-0.5 w-4 h-4 rounded-full bg-white shadow-sm transition-all duration-300 ${draftTranslations ? 'left-5.5' : 'left-0.5'}`} />
+                  </button>
+               </div>
+             )}
+
              <div className="flex items-center gap-2">
                 <span className={`text-[9px] font-bold uppercase tracking-widest transition-colors ${enhanceImages ? 'text-gold-600' : 'text-stone-300'}`}>
                   {enhanceImages ? 'Enhance Active' : 'Enhance Off'}
@@ -275,7 +299,7 @@ export const UploadWizard: React.FC = () => {
                                               item.status === 'error' ? 'text-red-400' : 
                                               item.status === 'pending' ? 'text-stone-300' : 'text-gold-500 animate-pulse'
                                           }`}>
-                                              {item.status}
+                                              {item.status}{item.status === 'transcoding' && item.progress !== undefined ? ` ${item.progress}%` : ''}
                                           </span>
                                           {item.productTitle && <span className="text-[8px] text-stone-400 truncate max-w-[120px]">→ {item.productTitle}</span>}
                                       </div>
@@ -413,8 +437,14 @@ export const UploadWizard: React.FC = () => {
                               <label className="block text-[10px] font-bold text-stone-400 uppercase mb-1.5 ml-1">Description</label>
                               <textarea value={analysisData.description || ''} onChange={e => setAnalysisData({...analysisData, description: e.target.value})} className="w-full p-4 bg-stone-50 border border-stone-100 rounded-xl text-sm min-h-[140px] focus:border-gold-500 outline-none transition-colors font-serif italic" placeholder="Describe the jewelry craftsmanship..." />
                             </div>
+                            <ProductTranslationsEditor
+                              title={analysisData.title || ''}
+                              description={analysisData.description || ''}
+                              translations={analysisData.translations || {}}
+                              onChange={translations => setAnalysisData({...analysisData, translations})}
+                            />
                             <div className="grid grid-cols-2 gap-4">
-                                <div><label className="block text-[10px] font-bold text-stone-400 uppercase mb-1 ml-1">Weight (g)</label><input type="number" step="0.01" value={analysisData.weight || ''} onChange={e => setAnalysisData({...analysisData, weight: parseFloat(e.target.value)})} className="w-full p-4 bg-stone-50 border border-stone-100 rounded-xl focus:ring-1 focus:ring-gold-500 outline-none" placeholder="0.00" /></div>
+                                <div><label className="block text-[10px] font-bold text-stone-400 uppercase mb-1 ml-1">Gross Weight (g)</label><input type="number" step="0.01" value={analysisData.weight || ''} onChange={e => setAnalysisData({...analysisData, weight: parseFloat(e.target.value)})} className="w-full p-4 bg-stone-50 border border-stone-100 rounded-xl focus:ring-1 focus:ring-gold-500 outline-none" placeholder="0.00" /></div>
                                 <div><label className="block text-[10px] font-bold text-stone-400 uppercase mb-1 ml-1">Date</label><input type="date" value={analysisData.dateTaken || ''} onChange={e => setAnalysisData({...analysisData, dateTaken: e.target.value})} className="w-full p-4 bg-stone-50 border border-stone-100 rounded-xl focus:ring-1 focus:ring-gold-500 outline-none" /></div>
                             </div>
                             <div className="grid grid-cols-2 gap-4">
@@ -433,6 +463,11 @@ export const UploadWizard: React.FC = () => {
                                 </div>
                                 <div><label className="block text-[10px] font-bold text-stone-400 uppercase mb-1 ml-1">Other Charges (₹)</label><input type="number" value={analysisData.meta?.otherCharges || ''} onChange={e => setAnalysisData({...analysisData, meta: {...(analysisData.meta || {}), otherCharges: parseFloat(e.target.value)}})} className="w-full p-4 bg-stone-50 border border-stone-100 rounded-xl focus:ring-1 focus:ring-gold-500 outline-none" placeholder="0" /></div>
                             </div>
+                            <div><label className="block text-[10px] font-bold text-stone-400 uppercase mb-1 ml-1">Net Gold Weight (g)</label><input type="number" step="0.01" value={analysisData.meta?.netWeight || ''} onChange={e => setAnalysisData({...analysisData, meta: {...(analysisData.meta || {}), netWeight: parseFloat(e.target.value) || undefined}})} className="w-full p-4 bg-stone-50 border border-stone-100 rounded-xl focus:ring-1 focus:ring-gold-500 outline-none" placeholder="Auto: gross minus stone weight" /></div>
+                            <StoneEditor
+                                stones={analysisData.meta?.stones || []}
+                                onChange={stones => setAnalysisData({...analysisData, meta: {...(analysisData.meta || {}), stones}})}
+                            />
                           </div>
                       </div>
                       <div className="flex gap-4">
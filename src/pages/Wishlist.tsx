@@ -1,18 +1,23 @@
 import React, { useEffect, useState } from 'react';
 import { storeService } from '@/services/storeService';
 import { ProductCard } from '@/components/ProductCard';
-import { Product, User } from '@/types';
+import { variantName } from '@/components/VariantPicker';
+import { MySizes } from '@/components/MySizes';
+import { Product, User, WishlistRateContext, WishlistPreferences } from '@/types';
 import { useNavigate } from 'react-router-dom';
-import { Loader2, HeartCrack, Heart } from 'lucide-react';
+import { useLocale } from '@/contexts/LocaleContext';
+import { Loader2, HeartCrack, Heart, TrendingUp, TrendingDown } from 'lucide-react';
 
 interface WishlistProps {
   user: User | null;
 }
 
 export function Wishlist({ user }: WishlistProps) {
-  const [wishlist, setWishlist] = useState<Product[]>([]);
+  const [wishlist, setWishlist] = useState<(Product & { preferences?: WishlistPreferences })[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [rateContexts, setRateContexts] = useState<Record<string, WishlistRateContext>>({});
   const navigate = useNavigate();
+  const { t } = useLocale();
 
   useEffect(() => {
     if (!user || user.role !== 'customer') {
@@ -22,6 +27,11 @@ export function Wishlist({ user }: WishlistProps) {
     storeService.getWishlist(user.id).then(data => {
       setWishlist(data);
       setIsLoading(false);
+      Promise.all(data.map((p: Product) => storeService.getWishlistRateContext(user.id, p.id))).then(contexts => {
+        const byProduct: Record<string, WishlistRateContext> = {};
+        contexts.forEach((ctx, i) => { if (ctx) byProduct[data[i].id] = ctx; });
+        setRateContexts(byProduct);
+      });
     });
   }, [user]);
 
@@ -44,27 +54,49 @@ export function Wishlist({ user }: WishlistProps) {
     <div className="min-h-screen bg-stone-50 pt-24 pb-32 px-4 sm:px-8">
       <div className="max-w-7xl mx-auto">
         <div className="mb-10 text-center animate-fade-in">
-          <h1 className="font-sans text-3xl font-bold text-brand-dark uppercase tracking-tighter mb-2">Your Wishlist</h1>
-          <p className="text-[10px] text-stone-400 font-bold uppercase tracking-[0.2em]">{wishlist.length} Pieces Curated</p>
+          <h1 className="font-sans text-3xl font-bold text-brand-dark uppercase tracking-tighter mb-2">{t('wishlist.title')}</h1>
+          <p className="text-[10px] text-stone-400 font-bold uppercase tracking-[0.2em]">{wishlist.length} {t('wishlist.count')}</p>
         </div>
 
+        {user.role === 'customer' && <MySizes user={user} />}
+
         {wishlist.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-20 text-center bg-white rounded-3xl border border-stone-100 shadow-sm">
             <HeartCrack className="text-stone-200 mb-4" size={48} />
             <p className="text-stone-400 font-serif italic mb-6">Your wishlist is currently empty.</p>
-            <button onClick={() => navigate('/collection')} className="text-[10px] font-bold text-brand-dark uppercase tracking-widest border border-stone-200 px-6 py-2.5 rounded-full hover:bg-stone-50 transition-colors">Explore Collection</button>
+            <button onClick={() => navigate('/collection')} className="text-[10px] font-bold text-brand-dark uppercase tracking-widest border border-stone-200 px-6 py-2.5 rounded-full hover:bg-stone-50 transition-colors">{t('wishlist.explore')}</button>
           </div>
         ) : (
           <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 md:gap-8">
-            {wishlist.map((pd, index) => (
-              <ProductCard 
-                key={pd.id} 
-                product={pd} 
-                priority={index < 4}
-                isAdmin={false}
-                onClick={() => navigate(`/product/${pd.id}`)}
-              />
-            ))}
+            {wishlist.map((pd, index) => {
+              const ctx = rateContexts[pd.id];
+              const priceDelta = ctx ? ctx.currentPrice - ctx.priceWhenWishlisted : 0;
+              return (
+                <div key={pd.id} className="space-y-2">
+                  <ProductCard 
+                    product={pd} 
+                    priority={index < 4}
+                    isAdmin={false}
+                    onClick={() => navigate(`/product/${pd.id}`)}
+                  />
+                  {(pd.variantLabel || pd.size) && (
+                    <p className="px-1 text-[9px] font-bold uppercase tracking-widest text-stone-400">Option: {variantName(pd)}</p>
+                  )}
+                  {pd.preferences?.size && pd.preferences.size !== pd.size && (
+                    <p className="px-1 text-[9px] font-bold uppercase tracking-widest text-brand-gold">Wanted in size {pd.preferences.size}</p>
+                  )}
+                  {ctx && priceDelta !== 0 && (
+                    <div className={`flex items-start gap-2 px-3 py-2 rounded-xl border text-[10px] ${priceDelta < 0 ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : 'bg-white border-stone-100 text-stone-500'}`}>
+                      {priceDelta < 0 ? <TrendingDown size={14} className="shrink-0" /> : <TrendingUp size={14} className="shrink-0" />}
+                      <span>
+                        ₹{Math.abs(priceDelta).toLocaleString('en-IN')} {priceDelta < 0 ? 'lower' : 'higher'} than when you saved it
+                        {ctx.rateWhenWishlisted ? ` — ${ctx.purity} gold moved from ₹${ctx.rateWhenWishlisted}/g to ₹${ctx.rateNow}/g` : ''}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
@@ -1,4 +1,4 @@
-import { AspectRatio } from "@/types.ts";
+import { AspectRatio, Locale, ProductTranslations } from "@/types.ts";
 import { storeService, apiFetch } from "@/services/storeService.ts";
 
 const downsizeBase64 = (base64Str: string, maxDim: number = 768, forceMimeType?: string): Promise<string> => {
@@ -32,7 +32,8 @@ const downsizeBase64 = (base64Str: string, maxDim: number = 768, forceMimeType?:
   });
 };
 
-export const analyzeJewelryImage = async (base64Image: string, promptOverride?: string) => {
+// `translate` asks for draft title/description translations in the same call (data.translations)
+export const analyzeJewelryImage = async (base64Image: string, promptOverride?: string, translate?: Locale[]) => {
   try {
     const originalMimeType = base64Image.match(/^data:(image\/[a-zA-Z0-9+-]+);base64,/)?.[1] || 'image/webp';
     const optimizedBase64 = await downsizeBase64(base64Image, 768, originalMimeType);
@@ -40,7 +41,7 @@ export const analyzeJewelryImage = async (base64Image: string, promptOverride?:
     
     const data = await apiFetch('/ai/analyze-image', {
         method: 'POST',
-        body: JSON.stringify({ base64Image: optimizedBase64, mimeType: finalMimeType, promptOverride })
+        body: JSON.stringify({ base64Image: optimizedBase64, mimeType: finalMimeType, promptOverride, translate })
     });
     if (!data.success) throw new Error(data.error || "Analysis Error");
     return data.data;
@@ -50,6 +51,20 @@ export const analyzeJewelryImage = async (base64Image: string, promptOverride?:
   }
 };
 
+export const translateProductText = async (title: string, description: string, locales: Locale[]): Promise<ProductTranslations> => {
+  try {
+    const data = await apiFetch('/ai/translate-product', {
+        method: 'POST',
+        body: JSON.stringify({ title, description, locales })
+    });
+    if (!data.success) throw new Error(data.error || "Translation Error");
+    return data.data;
+  } catch (error) {
+    console.error("Translation Error:", error);
+    throw error;
+  }
+};
+
 export const generateJewelryDesign = async (prompt: string, aspectRatio: AspectRatio, templateOverride?: string) => {
   try {
     const data = await apiFetch('/ai/generate-design', {
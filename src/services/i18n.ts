@@ -0,0 +1,117 @@
+import { Locale } from '@/types.ts';
+
+// Customer-facing languages. Catalog text (titles, descriptions, category names) is translated
+// on the server from Accept-Language; the strings below cover the storefront's own labels.
+export const LOCALES: { id: Locale; name: string; nativeName: string }[] = [
+  { id: 'en', name: 'English', nativeName: 'English' },
+  { id: 'mr', name: 'Marathi', nativeName: 'मराठी' },
+  { id: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+  { id: 'gu', name: 'Gujarati', nativeName: 'ગુજરાતી' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+export const TRANSLATION_LOCALES = LOCALES.filter(l => l.id !== DEFAULT_LOCALE);
+
+const LOCALE_KEY = 'sanghavi_locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+// The saved choice, else the browser language when we support it, else English
+export const getLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(saved)) return saved;
+  const browser = (navigator.language || '').toLowerCase().split('-')[0];
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_KEY, locale);
+  document.documentElement.lang = locale;
+};
+
+const STRINGS = {
+  en: {
+    'nav.studio': 'Studio',
+    'nav.catalog': 'Catalog',
+    'nav.wishlist': 'Wishlist',
+    'nav.login': 'Login',
+    'nav.exit': 'Exit',
+    'nav.signOut': 'Sign Out',
+    'nav.memberAccess': 'Member Access',
+    'nav.online': 'Studio Online',
+    'nav.offline': 'Offline',
+    'nav.language': 'Language',
+    'wishlist.title': 'Your Wishlist',
+    'wishlist.count': 'Pieces Curated',
+    'wishlist.explore': 'Explore Collection',
+    'product.selectOption': 'Select Option',
+    'product.selectPurity': 'Select Purity',
+    'product.completeSet': 'Complete the Set',
+    'product.related': 'Related Pieces',
+    'product.relatedHint': 'Curated for your taste',
+  },
+  mr: {
+    'nav.studio': 'स्टुडिओ',
+    'nav.catalog': 'कॅटलॉग',
+    'nav.wishlist': 'आवडी',
+    'nav.login': 'लॉगिन',
+    'nav.exit': 'बाहेर',
+    'nav.signOut': 'साइन आउट',
+    'nav.memberAccess': 'सदस्य प्रवेश',
+    'nav.online': 'स्टुडिओ ऑनलाइन',
+    'nav.offline': 'ऑफलाइन',
+    'nav.language': 'भाषा',
+    'wishlist.title': 'तुमच्या आवडी',
+    'wishlist.count': 'निवडलेले दागिने',
+    'wishlist.explore': 'संग्रह पाहा',
+    'product.selectOption': 'पर्याय निवडा',
+    'product.selectPurity': 'शुद्धता निवडा',
+    'product.completeSet': 'सेट पूर्ण करा',
+    'product.related': 'संबंधित दागिने',
+    'product.relatedHint': 'तुमच्या आवडीनुसार निवडलेले',
+  },
+  hi: {
+    'nav.studio': 'स्टूडियो',
+    'nav.catalog': 'कैटलॉग',
+    'nav.wishlist': 'पसंदीदा',
+    'nav.login': 'लॉगिन',
+    'nav.exit': 'बाहर',
+    'nav.signOut': 'साइन आउट',
+    'nav.memberAccess': 'सदस्य प्रवेश',
+    'nav.online': 'स्टूडियो ऑनलाइन',
+    'nav.offline': 'ऑफ़लाइन',
+    'nav.language': 'भाषा',
+    'wishlist.title': 'आपकी पसंद',
+    'wishlist.count': 'चुने हुए गहने',
+    'wishlist.explore': 'संग्रह देखें',
+    'product.selectOption': 'विकल्प चुनें',
+    'product.selectPurity': 'शुद्धता चुनें',
+    'product.completeSet': 'सेट पूरा करें',
+    'product.related': 'मिलते-जुलते गहने',
+    'product.relatedHint': 'आपकी पसंद के अनुसार',
+  },
+  gu: {
+    'nav.studio': 'સ્ટુડિયો',
+    'nav.catalog': 'કૅટલૉગ',
+    'nav.wishlist': 'પસંદગી',
+    'nav.login': 'લૉગિન',
+    'nav.exit': 'બહાર',
+    'nav.signOut': 'સાઇન આઉટ',
+    'nav.memberAccess': 'સભ્ય પ્રવેશ',
+    'nav.online': 'સ્ટુડિયો ઑનલાઇન',
+    'nav.offline': 'ઑફલાઇન',
+    'nav.language': 'ભાષા',
+    'wishlist.title': 'તમારી પસંદગી',
+    'wishlist.count': 'પસંદ કરેલાં ઘરેણાં',
+    'wishlist.explore': 'સંગ્રહ જુઓ',
+    'product.selectOption': 'વિકલ્પ પસંદ કરો',
+    'product.selectPurity': 'શુદ્ધતા પસંદ કરો',
+    'product.completeSet': 'સેટ પૂર્ણ કરો',
+    'product.related': 'સંબંધિત ઘરેણાં',
+    'product.relatedHint': 'તમારી પસંદ મુજબ',
+  },
+};
+
+export type StringKey = keyof typeof STRINGS.en;
+
+export const translate = (locale: Locale, key: StringKey): string => STRINGS[locale]?.[key] || STRINGS.en[key];
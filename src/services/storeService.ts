@@ -1,5 +1,6 @@
 
-import { Product, User, GeneratedDesign, AppConfig, SharedLink, AnalyticsEvent, StaffAccount, ProductStats } from "@/types.ts";
+import { Product, User, GeneratedDesign, AppConfig, SharedLink, AnalyticsEvent, StaffAccount, ProductStats, PriceBreakdown, GoldPurity, StoneType, StoneLine, GoldRateCandle, WishlistRateContext, GoldRateStatus, Quote, Order, OrderStatus, SavingsPlan, StockUnit, StockStatus, StockLocation, ProductSuggestion, SuggestionStatus, ProductListMeta, ProductCollection, CatalogImportResult, CatalogExportFilters, ProductRevision, TrashedProduct, ProductFamily, ProductSet, ProductFamilyMember, SizeChart, CustomerSizes, WishlistPreferences, Locale, CategoryConfig, UploadedMedia, MediaJob, LeakIdentification } from "@/types.ts";
+import { getLocale, DEFAULT_LOCALE } from "@/services/i18n.ts";
 
 export function getProxyPath(endpoint: string) {
     const [pathPart, ...queryParts] = endpoint.split('?');
@@ -10,20 +11,224 @@ export function getProxyPath(endpoint: string) {
     return '/_proxy/' + btoa(encodeURIComponent(clean)).replace(/=/g, '') + (queryPart ? '?' + queryPart : '');
 }
 
+const VIEWER_MARK_KEY = 'sanghavi_viewer_mark';
+const WATERMARKABLE_UPLOAD = /^\/uploads\/(\d+\/[^/?]+\.(?:webp|avif|jpe?g|png))$/i;
+
+// Signed watermark token of the customer, shared link or guest viewing, or a staff pass for staff
+function getViewerMarkToken(): string | null {
+    return localStorage.getItem(VIEWER_MARK_KEY);
+}
+
+const isStaffPass = (token: string | null) => !!token && token.startsWith('s.');
+
+// Watermarked copies are always WebP, so AVIF sources are left out unless staff are viewing
+export function hasViewerMark(): boolean {
+    return !isStaffPass(getViewerMarkToken());
+}
+
 export function getImageUrl(path: string): string {
     if (!path) return '';
     if (path.startsWith('http')) return path;
     // Bypassing express redirect to directly hit the CDN / Live server for uploads
     // This removes the 302 hop, speeding up image loading significantly
     if (path.startsWith('/uploads')) {
+        // Photos are only served watermarked for the viewer; without a token yet they are marked as a guest's
+        const upload = path.match(WATERMARKABLE_UPLOAD);
+        if (upload) {
+            const mark = getViewerMarkToken();
+            return `/api/media/wm/${upload[1]}${mark ? `?m=${encodeURIComponent(mark)}` : ''}`;
+        }
         const cdnBase = import.meta.env.VITE_CDN_URL || 'https://studio.sanghavijewellers.com';
         return `${cdnBase}${path}`;
     }
     return path;
 }
 
+export interface ResizeOptions {
+    w?: number; // One of the server's whitelisted sizes (64, 96, 150, 200, 300, 400, 600, 720, 800, 1080, 1440)
+    h?: number;
+    fit?: 'inside' | 'cover' | 'contain';
+    format?: 'webp' | 'avif' | 'jpeg' | 'png';
+    q?: number;
+}
+
+// A stored upload at any whitelisted size, rendered and cached by the server on first request.
+// Anything that is not a hash-named upload (videos, external images) is returned unchanged.
+export function getResizedImageUrl(path: string, options: ResizeOptions): string {
+    const hash = path?.match(/\/uploads\/\d+\/([0-9a-f]{12})-/)?.[1];
+    if (!hash) return getImageUrl(path);
+    const params = new URLSearchParams();
+    Object.entries(options).forEach(([key, value]) => { if (value !== undefined) params.set(key, String(value)); });
+    const mark = getViewerMarkToken();
+    if (mark) params.set('m', mark);
+    return `/api/media/img/${hash}?${params}`;
+}
+
 const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
 
+const MEDIA_JOB_POLL_MS = 1500;
+
+// Videos are transcoded in the background; polls the upload's job until its files are ready
+async function waitForMediaJob(jobId: string, onProgress?: (percent: number) => void): Promise<UploadedMedia> {
+    while (true) {
+        const job: MediaJob = await apiFetch(`/media/jobs/${jobId}`);
+        onProgress?.(job.progress);
+        if (job.status === 'complete' && job.result) return job.result;
+        if (job.status === 'error') throw new Error(job.error || 'Video could not be processed');
+        await sleep(MEDIA_JOB_POLL_MS);
+    }
+}
+
+// Optional listing refinements and paging options passed straight through to GET /api/products.
+// `cursor` is the opaque meta.nextCursor of the previous page.
+const PRODUCT_REFINEMENTS = ['supplier', 'makingSegment', 'weightBucket', 'priceBucket', 'minWeight', 'maxWeight', 'minPrice', 'maxPrice', 'sort', 'order', 'cursor', 'thumbnails'];
+
+// True for the unfiltered first page, which also seeds the in-memory products cache
+const isDefaultProductView = (page: number, filters: any) =>
+    page === 1 && (!filters.category || filters.category === 'All') && !filters.search && !PRODUCT_REFINEMENTS.some(key => filters[key]);
+
+// Query string for GET /api/products; also the key for the client-side listing cache
+const buildProductQuery = (page: number, limit: number, filters: any) => {
+    const queryParams = new URLSearchParams({
+      page: page.toString(),
+      limit: limit.toString(),
+      summary: 'true'
+    });
+
+    if (filters.publicOnly !== undefined) {
+        queryParams.append('public', String(filters.publicOnly));
+    } else {
+        queryParams.append('public', 'true');
+    }
+
+    if (filters.category && filters.category !== 'All') {
+        queryParams.append('category', filters.category);
+    }
+
+    if (filters.subCategory && filters.subCategory !== 'All') {
+        queryParams.append('subCategory', filters.subCategory);
+    }
+
+    if (filters.search) {
+        queryParams.append('search', filters.search);
+    }
+
+    PRODUCT_REFINEMENTS.forEach(key => {
+        if (filters[key] !== undefined && filters[key] !== '') queryParams.append(key, String(filters[key]));
+    });
+
+    if (filters.facets) {
+        queryParams.append('facets', 'true');
+    }
+
+    return queryParams.toString();
+};
+
+export const GOLD_PURITIES: GoldPurity[] = ['9KT', '14KT', '18KT', '22KT', '24KT'];
+
+// Gold content relative to the 24K rate. 22K and 24K use the quoted rates directly;
+// lower purities are derived from the 24K rate with these ratios.
+export const DEFAULT_PURITY_FINENESS: Record<GoldPurity, number> = {
+  '9KT': 0.375,
+  '14KT': 0.585,
+  '18KT': 0.75,
+  '22KT': 0.916,
+  '24KT': 1
+};
+
+export function getDefaultPurity(product: Product): GoldPurity {
+  if (product.meta?.purity) return product.meta.purity;
+  // Legacy products encoded 24K in the category name
+  return product.category?.toLowerCase()?.includes('24k') ? '24KT' : '22KT';
+}
+
+export function getAvailablePurities(product: Product): GoldPurity[] {
+  const available = product.meta?.availablePurities;
+  return available && available.length > 0 ? available : [getDefaultPurity(product)];
+}
+
+export function getPurityRate(purity: GoldPurity, config: AppConfig): number {
+  if (purity === '22KT') return config.goldRate22k;
+  if (purity === '24KT') return config.goldRate24k;
+  const fineness = config.purityFineness?.[purity] ?? DEFAULT_PURITY_FINENESS[purity];
+  return config.goldRate24k * fineness;
+}
+
+export const STONE_TYPES: StoneType[] = ['diamond', 'polki', 'kundan', 'emerald', 'ruby', 'sapphire', 'pearl', 'gemstone'];
+
+// Stones are weighed in carats; 1 ct = 0.2 g of the gross weight that is not gold.
+export const CARAT_TO_GRAMS = 0.2;
+
+export function getStoneLines(product: Product): StoneLine[] {
+  return (product.meta?.stones || []).map(s => ({
+    ...s,
+    value: (s.caratWeight || 0) * (s.ratePerCarat || 0)
+  }));
+}
+
+// Gold is charged on net weight: gross minus the stone weight, unless staff entered a measured net weight
+export function getNetWeight(product: Product): number {
+  const gross = product.weight || 0;
+  const measured = product.meta?.netWeight;
+  if (measured && measured > 0) return Math.min(measured, gross);
+  const stoneWeight = (product.meta?.stones || []).reduce((sum, s) => sum + (s.caratWeight || 0) * CARAT_TO_GRAMS, 0);
+  return Math.max(0, gross - stoneWeight);
+}
+
+// Scheduled publishing: 'scheduled' before publishAt, 'expired' after unpublishAt, otherwise 'live'.
+// Hidden pieces stay hidden whatever their schedule says.
+export type PublishState = 'live' | 'scheduled' | 'expired';
+export function getPublishState(product: Pick<Product, 'publishAt' | 'unpublishAt'>, now = Date.now()): PublishState {
+  if (product.publishAt && new Date(product.publishAt).getTime() > now) return 'scheduled';
+  if (product.unpublishAt && new Date(product.unpublishAt).getTime() <= now) return 'expired';
+  return 'live';
+}
+
+// <input type="datetime-local"> works in local time without a zone
+export function toLocalDateTimeInput(iso?: string | null): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+export function fromLocalDateTimeInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+// Display names for categories in the reader's language; the English name is the key everywhere else
+export function getCategoryLabel(categories: CategoryConfig[] = [], category?: string): string {
+  return categories.find(c => c.name === category)?.label || category || '';
+}
+export function getSubCategoryLabel(categories: CategoryConfig[] = [], category: string | undefined, subCategory?: string): string {
+  if (!subCategory) return '';
+  const match = categories.find(c => c.name === category) || categories.find(c => c.subCategoryLabels?.[subCategory]);
+  return match?.subCategoryLabels?.[subCategory] || subCategory;
+}
+
+// The size chart that applies to a piece, matched on its category or sub-category
+export function getSizeChart(product: Pick<Product, 'category' | 'subCategory'>, charts: SizeChart[] = []): SizeChart | null {
+  const names = [product.category, product.subCategory].filter(Boolean).map(n => n!.toLowerCase());
+  return charts.find(c => c.categories.some(cat => names.includes(cat.toLowerCase()))) || null;
+}
+
+// How a piece fits a customer's saved size: this piece, one of its variants, a resize within the
+// chart's allowance, or not at all. Null when the piece has no size or the customer has none saved.
+export type SizeFit =
+  | { status: 'exact' }
+  | { status: 'variant'; variant: ProductFamilyMember }
+  | { status: 'resizable'; steps: number }
+  | { status: 'unavailable' };
+export function getSizeFit(product: Product, chart: SizeChart, customerSize: string | undefined, variants: ProductFamilyMember[] = []): SizeFit | null {
+  if (!customerSize || !product.size) return null;
+  if (product.size === customerSize) return { status: 'exact' };
+  const variant = variants.find(v => v.id !== product.id && v.size === customerSize && v.availability !== 'sold');
+  if (variant) return { status: 'variant', variant };
+  const from = chart.sizes.findIndex(s => s.label === product.size);
+  const to = chart.sizes.findIndex(s => s.label === customerSize);
+  const steps = Math.abs(to - from);
+  if (from >= 0 && to >= 0 && steps <= chart.resizeSteps) return { status: 'resizable', steps };
+  return { status: 'unavailable' };
+}
+
 export interface CuratedCollections {
   latest: Product[];
   loved: Product[];
@@ -34,6 +239,7 @@ export interface CuratedCollections {
 export interface HealthStatus {
   healthy: boolean;
   reason?: string;
+  goldRate?: GoldRateStatus;
 }
 
 // Memory Cache (RAM) - Enables Instant Navigation
@@ -49,6 +255,56 @@ const CACHE = {
   goldRate: null as { k22: number, k24: number, lastFetch: number } | null
 };
 
+// Cached catalog responses are in the language they were fetched in, so a language switch or
+// a login/logout (staff always read English) starts them afresh
+function resetCatalogCache() {
+    productCacheMap.clear();
+    singleProductCacheMap.clear();
+    CACHE.products = null;
+    CACHE.curated = null;
+    CACHE.config = null;
+    CACHE.lastFetch = 0;
+}
+
+// Fetches the watermark token for the signed-in customer or staff member (sent with the session),
+// else for the shared link being visited, else the guest token.
+async function refreshViewerMark(linkToken?: string) {
+    try {
+        const { token } = await apiFetch('/media/viewer-mark', { method: 'POST', body: JSON.stringify({ linkToken }) });
+        localStorage.setItem(VIEWER_MARK_KEY, token);
+    } catch (e) {
+        console.warn('Viewer mark unavailable', e);
+    }
+}
+
+// Staff edit the English source text, so their reads are never translated
+function getContentLocale(): Locale {
+    try {
+        const role = JSON.parse(localStorage.getItem('sanghavi_user_session') || 'null')?.role;
+        if (role === 'admin' || role === 'contributor') return DEFAULT_LOCALE;
+    } catch (e) {}
+    return getLocale();
+}
+
+function getSessionHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const userStr = localStorage.getItem('sanghavi_user_session');
+    if (userStr) {
+        try {
+            const sessionData = JSON.parse(userStr);
+            if (sessionData && sessionData.id && sessionData.role) {
+                headers['X-User-Id'] = sessionData.id;
+                headers['X-User-Role'] = sessionData.role;
+            }
+            if (sessionData && sessionData.token) {
+                headers['Authorization'] = `Bearer ${sessionData.token}`;
+                headers['X-Auth-Token'] = sessionData.token;
+            }
+        } catch (e) {}
+    }
+    return headers;
+}
+
 export async function apiFetch(endpoint: string, options: RequestInit = {}, retries = 2) {
     // Only retry GET requests (idempotent read operations). Never retry POST/PUT/DELETE mutations to prevent duplicate side effects!
     const method = options.method ? options.method.toUpperCase() : 'GET';
@@ -56,28 +312,14 @@ export async function apiFetch(endpoint: string, options: RequestInit = {}, retr
     let lastError;
     for (let i = 0; i <= maxRetries; i++) {
         try {
-            const userStr = localStorage.getItem('sanghavi_user_session');
-            const localHeaders: Record<string, string> = {};
+            const localHeaders = getSessionHeaders();
+            localHeaders['Accept-Language'] = getContentLocale();
             
             // Only set Content-Type to JSON if body is NOT FormData
             if (!(options.body instanceof FormData)) {
                 localHeaders['Content-Type'] = 'application/json';
             }
 
-            if (userStr) {
-                try {
-                    const sessionData = JSON.parse(userStr);
-                    if (sessionData && sessionData.id && sessionData.role) {
-                        localHeaders['X-User-Id'] = sessionData.id;
-                        localHeaders['X-User-Role'] = sessionData.role;
-                    }
-                    if (sessionData && sessionData.token) {
-                        localHeaders['Authorization'] = `Bearer ${sessionData.token}`;
-                        localHeaders['X-Auth-Token'] = sessionData.token;
-                    }
-                } catch (e) {}
-            }
-
             const response = await fetch(getProxyPath(endpoint), {
                 ...options,
                 headers: { ...localHeaders, ...options.headers },
@@ -112,12 +354,16 @@ export const storeService = {
   getImageUrl,
   // NEW: Synchronously retrieve data if available
   getCached: () => ({ ...CACHE }),
+  resetCatalogCache,
+  refreshViewerMark,
 
   // NEW: Trigger background fetch to populate cache (called on App load)
   warmup: async () => {
      if (Date.now() - CACHE.lastFetch < 120000 && CACHE.products) return; // Cache valid for 2 mins
      try {
          console.log("🔥 [Store] Warming up cache...");
+         // Staff passes run out after a day, so staff get a fresh one on every load
+         if (!getViewerMarkToken() || isStaffPass(getViewerMarkToken())) refreshViewerMark();
          storeService.getConfig().catch(e => console.warn("Config warmup failed", e));
          storeService.getCuratedProducts().catch(e => console.warn("Curated warmup failed", e));
          // Warmup default page 1 (matches Gallery BATCH_SIZE = 24)
@@ -128,7 +374,7 @@ export const storeService = {
   checkServerHealth: async (): Promise<HealthStatus> => {
     try {
         const data = await apiFetch('/health', { method: 'GET' }, 0);
-        return { healthy: data.status === 'online' };
+        return { healthy: data.status === 'online', goldRate: data.goldRate };
     } catch (e: any) { 
         return { healthy: false, reason: e.message || 'Server unreachable' }; 
     }
@@ -147,31 +393,7 @@ export const storeService = {
   },
 
   getCachedProductsSync: (page = 1, limit = 50, filters: any = {}) => {
-      const queryParams = new URLSearchParams({
-        page: page.toString(),
-        limit: limit.toString(),
-        summary: 'true'
-      });
-      
-      if (filters.publicOnly !== undefined) {
-          queryParams.append('public', String(filters.publicOnly));
-      } else {
-          queryParams.append('public', 'true');
-      }
-
-      if (filters.category && filters.category !== 'All') {
-          queryParams.append('category', filters.category);
-      }
-
-      if (filters.subCategory && filters.subCategory !== 'All') {
-          queryParams.append('subCategory', filters.subCategory);
-      }
-
-      if (filters.search) {
-          queryParams.append('search', filters.search);
-      }
-      
-      const cacheKey = queryParams.toString();
+      const cacheKey = buildProductQuery(page, limit, filters);
       const cached = productCacheMap.get(cacheKey);
       
       if (cached && (Date.now() - cached.timestamp < 300000)) {
@@ -180,33 +402,9 @@ export const storeService = {
       return null;
   },
 
-  getProducts: async (page = 1, limit = 50, filters: any = {}) => {
+  getProducts: async (page = 1, limit = 50, filters: any = {}): Promise<{ items: Product[]; meta: ProductListMeta }> => {
     try {
-      const queryParams = new URLSearchParams({
-        page: page.toString(),
-        limit: limit.toString(),
-        summary: 'true'
-      });
-      
-      if (filters.publicOnly !== undefined) {
-          queryParams.append('public', String(filters.publicOnly));
-      } else {
-          queryParams.append('public', 'true');
-      }
-
-      if (filters.category && filters.category !== 'All') {
-          queryParams.append('category', filters.category);
-      }
-
-      if (filters.subCategory && filters.subCategory !== 'All') {
-          queryParams.append('subCategory', filters.subCategory);
-      }
-
-      if (filters.search) {
-          queryParams.append('search', filters.search);
-      }
-      
-      const cacheKey = queryParams.toString();
+      const cacheKey = buildProductQuery(page, limit, filters);
       const cached = productCacheMap.get(cacheKey);
       
       // Serve from cache if available and < 5 mins old
@@ -219,7 +417,7 @@ export const storeService = {
                     meta: data.meta || { totalPages: 1, page, limit } 
                   };
                   productCacheMap.set(cacheKey, { data: result, timestamp: Date.now() });
-                  if (page === 1 && (!filters.category || filters.category === 'All') && !filters.search) {
+                  if (isDefaultProductView(page, filters)) {
                       CACHE.products = result.items;
                       CACHE.lastFetch = Date.now();
                   }
@@ -244,7 +442,7 @@ export const storeService = {
       productCacheMap.set(cacheKey, { data: result, timestamp: Date.now() });
 
       // CACHE STRATEGY: Update memory cache only for the default unfiltered view
-      const isDefaultView = page === 1 && (!filters.category || filters.category === 'All') && !filters.search;
+      const isDefaultView = isDefaultProductView(page, filters);
       if (isDefaultView) {
           CACHE.products = result.items;
           CACHE.lastFetch = Date.now();
@@ -291,8 +489,13 @@ export const storeService = {
   getProductStats: (id: string): Promise<ProductStats> => 
     apiFetch(`/products/${id}/stats`).catch(() => ({ like: 0, dislike: 0, inquiry: 0, sold: 0, view: 0 })),
   
-  addToWishlist: async (customerId: string, productId: string, priceWhenWishlisted?: number, preferences?: any) => {
-    return apiFetch('/wishlist', { method: 'POST', body: JSON.stringify({ customerId, productId, priceWhenWishlisted, preferences }) });
+  // Authoritative price from the server pricing engine
+  getProductPrice: (id: string, purity?: GoldPurity): Promise<PriceBreakdown | null> =>
+    apiFetch(`/products/${id}/price${purity ? `?purity=${purity}` : ''}`).catch(() => null),
+
+  // The server snapshots priceWhenWishlisted itself
+  addToWishlist: async (customerId: string, productId: string, preferences?: WishlistPreferences) => {
+    return apiFetch('/wishlist', { method: 'POST', body: JSON.stringify({ customerId, productId, preferences }) });
   },
 
   removeFromWishlist: async (customerId: string, productId: string) => {
@@ -303,6 +506,185 @@ export const storeService = {
     return apiFetch(`/wishlist/${customerId}`).catch(() => []);
   },
 
+  createQuote: async (productId: string, details: { customerName?: string; customerPhone?: string; customerId?: string; purity?: GoldPurity; planMonths?: number }): Promise<Quote> => {
+    const res = await apiFetch(`/products/${productId}/quote`, { method: 'POST', body: JSON.stringify(details) });
+    return res.quote;
+  },
+
+  getProductQuotes: (productId: string): Promise<Quote[]> =>
+    apiFetch(`/products/${productId}/quotes`).catch(() => []),
+
+  markQuoteSent: (id: number) => apiFetch(`/quotes/${id}/sent`, { method: 'POST' }),
+
+  getQuotePdfUrl: (token: string) => `${window.location.origin}${getProxyPath(`/quotes/${token}/pdf`)}`,
+
+  // Reservations lock price, gold rate and GST at booking time
+  reserveProducts: async (productIds: string[], details: { customerId?: string; customerName?: string; customerPhone?: string; advanceAmount?: number; reserveHours?: number; purity?: GoldPurity; size?: string | Record<string, string>; notes?: string }): Promise<Order> => {
+    const res = await apiFetch('/orders', { method: 'POST', body: JSON.stringify({ productIds, ...details }) });
+    return res.order;
+  },
+
+  getOrders: (filters: { status?: OrderStatus; productId?: string; customerId?: string } = {}): Promise<Order[]> => {
+    const params = new URLSearchParams(Object.entries(filters).filter(([, v]) => !!v) as [string, string][]);
+    return apiFetch(`/orders${params.toString() ? `?${params}` : ''}`).catch(() => []);
+  },
+
+  markOrderSold: (id: string) => apiFetch(`/orders/${id}/sell`, { method: 'POST' }),
+
+  cancelOrder: (id: string) => apiFetch(`/orders/${id}/cancel`, { method: 'POST' }),
+
+  // Installment / gold savings plans. Pass productId + months for a product plan, or monthlyAmount + months for savings.
+  enrolSavingsPlan: async (details: { customerId?: string; customerPhone?: string; productId?: string; months: number; monthlyAmount?: number; purity?: GoldPurity }): Promise<SavingsPlan> => {
+    const res = await apiFetch('/savings-plans', { method: 'POST', body: JSON.stringify(details) });
+    return res.plan;
+  },
+
+  getCustomerSavingsPlans: (customerId: string): Promise<SavingsPlan[]> =>
+    apiFetch(`/savings-plans/customer/${customerId}`).catch(() => []),
+
+  getSavingsPlans: (status?: SavingsPlan['status']): Promise<SavingsPlan[]> =>
+    apiFetch(`/admin/savings-plans${status ? `?status=${status}` : ''}`).catch(() => []),
+
+  recordSavingsPayment: async (planId: string, payment: { installmentId?: number; amount?: number; paymentMode?: string }): Promise<SavingsPlan> => {
+    const res = await apiFetch(`/admin/savings-plans/${planId}/payments`, { method: 'POST', body: JSON.stringify(payment) });
+    return res.plan;
+  },
+
+  cancelSavingsPlan: (planId: string) => apiFetch(`/admin/savings-plans/${planId}/cancel`, { method: 'POST' }),
+
+  sendInstallmentReminders: () => apiFetch('/admin/savings-plans/reminders', { method: 'POST' }),
+
+  submitProductSuggestion: async (productId: string, customerId: string, suggestion: string): Promise<ProductSuggestion> => {
+    const res = await apiFetch(`/products/${productId}/suggestions`, { method: 'POST', body: JSON.stringify({ customerId, suggestion }) });
+    return res.suggestion;
+  },
+
+  getMyProductSuggestions: (productId: string, customerId: string): Promise<ProductSuggestion[]> =>
+    apiFetch(`/products/${productId}/suggestions?customerId=${encodeURIComponent(customerId)}`).catch(() => []),
+
+  getSuggestionInbox: (status?: SuggestionStatus): Promise<ProductSuggestion[]> =>
+    apiFetch(`/admin/suggestions${status ? `?status=${status}` : ''}`).catch(() => []),
+
+  updateSuggestion: (id: string, updates: { status?: SuggestionStatus; fulfilledByProductId?: string | null }) =>
+    apiFetch(`/admin/suggestions/${id}`, { method: 'PUT', body: JSON.stringify(updates) }),
+
+  recordSuggestionReply: (id: string, message: string) =>
+    apiFetch(`/admin/suggestions/${id}/reply`, { method: 'POST', body: JSON.stringify({ message }) }),
+
+  getCollections: (preview = 8): Promise<ProductCollection[]> =>
+    apiFetch(`/collections?preview=${preview}`).catch(() => []),
+
+  getCollection: (key: string, token?: string): Promise<ProductCollection> =>
+    apiFetch(`/collections/${encodeURIComponent(key)}${token ? `?token=${token}` : ''}`),
+
+  getAdminCollections: (): Promise<ProductCollection[]> =>
+    apiFetch('/admin/collections').catch(() => []),
+
+  saveCollection: (collection: Partial<ProductCollection> & { productIds: string[] }): Promise<{ success: boolean; id?: string; slug: string }> =>
+    collection.id
+      ? apiFetch(`/admin/collections/${collection.id}`, { method: 'PUT', body: JSON.stringify(collection) })
+      : apiFetch('/admin/collections', { method: 'POST', body: JSON.stringify(collection) }),
+
+  deleteCollection: (id: string) =>
+    apiFetch(`/admin/collections/${id}`, { method: 'DELETE' }),
+
+  // Stores images and videos; resolves once every video has finished transcoding.
+  // onProgress gets the current video's transcoding progress, 0-100.
+  uploadMedia: async (files: FormData, onProgress?: (percent: number) => void): Promise<UploadedMedia[]> => {
+    const data = await apiFetch('/media/upload', { method: 'POST', body: files });
+    if (!data?.success || !Array.isArray(data.files)) throw new Error('Upload Engine Failed');
+    const results: UploadedMedia[] = [];
+    for (const file of data.files) {
+      results.push(file.jobId ? await waitForMediaJob(file.jobId, onProgress) : file);
+    }
+    return results;
+  },
+
+  identifyLeak: (image: File): Promise<LeakIdentification> => {
+    const form = new FormData();
+    form.append('image', image);
+    return apiFetch('/admin/identify-leak', { method: 'POST', body: form }, 0);
+  },
+
+  // Bulk catalog import: a dry run validates and previews, dryRun=false applies the valid rows
+  importCatalog: (sheet: File, images: File | null, dryRun: boolean): Promise<CatalogImportResult> => {
+    const form = new FormData();
+    form.append('file', sheet);
+    if (images) form.append('images', images);
+    form.append('dryRun', String(dryRun));
+    return apiFetch('/admin/catalog/import', { method: 'POST', body: form }, 0);
+  },
+
+  exportCatalog: async (format: 'csv' | 'xlsx', filters: CatalogExportFilters = {}) => {
+    const params = new URLSearchParams({ format, ...Object.fromEntries(Object.entries(filters).filter(([, v]) => !!v && v !== 'All')) });
+    const response = await fetch(getProxyPath(`/admin/catalog/export?${params}`), { headers: getSessionHeaders() });
+    if (!response.ok) throw new Error((await response.json().catch(() => null))?.error || `Server Error (${response.status})`);
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(await response.blob());
+    link.download = `catalog-${new Date().toISOString().split('T')[0]}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+  },
+
+  // Physical stock units (one per tagged piece)
+  getStockUnits: (filters: { status?: StockStatus; location?: StockLocation; search?: string } = {}): Promise<StockUnit[]> => {
+    const params = new URLSearchParams(Object.entries(filters).filter(([, v]) => !!v) as [string, string][]);
+    return apiFetch(`/stock-units${params.toString() ? `?${params}` : ''}`).catch(() => []);
+  },
+
+  getProductStockUnits: (productId: string): Promise<StockUnit[]> =>
+    apiFetch(`/products/${productId}/stock-units`).catch(() => []),
+
+  createStockUnit: async (productId: string, unit: Partial<StockUnit>): Promise<StockUnit> => {
+    const res = await apiFetch(`/products/${productId}/stock-units`, { method: 'POST', body: JSON.stringify(unit) });
+    return res.unit;
+  },
+
+  updateStockUnit: async (id: number, updates: Partial<StockUnit>): Promise<StockUnit> => {
+    const res = await apiFetch(`/stock-units/${id}`, { method: 'PUT', body: JSON.stringify(updates) });
+    return res.unit;
+  },
+
+  deleteStockUnit: (id: number) => apiFetch(`/stock-units/${id}`, { method: 'DELETE' }),
+
+  lookupStockCode: (code: string): Promise<{ productId: string; unit: StockUnit }> =>
+    apiFetch(`/stock-units/lookup/${encodeURIComponent(code)}`, {}, 0),
+
+  // The label sheet needs staff auth, so it is fetched as a blob and opened from an object URL.
+  // The tab is opened before the fetch, while the click still counts, or popup blockers stop it;
+  // if it was blocked anyway the PDF is downloaded instead.
+  openStockLabels: async (selection: { ids?: number[]; productId?: string }) => {
+    const params = new URLSearchParams({ origin: window.location.origin });
+    if (selection.ids?.length) params.set('ids', selection.ids.join(','));
+    if (selection.productId) params.set('productId', selection.productId);
+    const tab = window.open('', '_blank');
+    try {
+      const response = await fetch(getProxyPath(`/stock-units/labels?${params}`), { headers: getSessionHeaders() });
+      if (!response.ok) throw new Error((await response.json().catch(() => null))?.error || `Server Error (${response.status})`);
+      const url = URL.createObjectURL(await response.blob());
+      if (tab) {
+        tab.location.href = url;
+      } else {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'labels.pdf';
+        link.click();
+      }
+    } catch (e) {
+      tab?.close();
+      throw e;
+    }
+  },
+
+  // Gold rate then vs. now for a wishlist entry, used to explain price movements
+  getWishlistRateContext: (customerId: string, productId: string): Promise<WishlistRateContext | null> =>
+    apiFetch(`/wishlist/${customerId}/${productId}/rate-context`).catch(() => null),
+
+  getGoldRateHistory: async (interval: 'day' | 'week' = 'day', days: number = 90): Promise<GoldRateCandle[]> => {
+    const res = await apiFetch(`/admin/gold-rates/history?interval=${interval}&days=${days}`).catch(() => null);
+    return res?.success ? res.data : [];
+  },
+
   getRelatedProducts: (id: string): Promise<Product[]> => 
     apiFetch(`/products/${id}/related`).catch(() => []),
 
@@ -313,6 +695,8 @@ export const storeService = {
     });
     if (data.user) {
         localStorage.setItem('sanghavi_user_session', JSON.stringify(data.user));
+        resetCatalogCache();
+        await refreshViewerMark();
     }
     return data.user;
   },
@@ -324,13 +708,27 @@ export const storeService = {
     });
     if (data.user) {
         localStorage.setItem('sanghavi_user_session', JSON.stringify(data.user));
+        resetCatalogCache();
+        await refreshViewerMark();
     }
     return data.user;
   },
 
   checkCustomerExistence: (phone: string) => apiFetch(`/customers/check/${phone}`),
+
+  // Saved sizes also update the stored session so the size guide picks them up straight away
+  saveCustomerSizes: async (customerId: string, sizes: CustomerSizes): Promise<CustomerSizes> => {
+    const res = await apiFetch(`/customers/${customerId}/sizes`, { method: 'PUT', body: JSON.stringify({ sizes }) });
+    const user = storeService.getCurrentUser();
+    if (user?.id === customerId) localStorage.setItem('sanghavi_user_session', JSON.stringify({ ...user, sizes: res.sizes }));
+    return res.sizes;
+  },
   
-  logout: () => localStorage.removeItem('sanghavi_user_session'),
+  logout: () => {
+    localStorage.removeItem('sanghavi_user_session');
+    localStorage.removeItem(VIEWER_MARK_KEY);
+    resetCatalogCache();
+  },
 
   verifySession: async (): Promise<boolean> => {
       try {
@@ -439,12 +837,23 @@ export const storeService = {
             whatsappWabaId: data?.whatsappWabaId || '',
             whatsappGoldRateTemplateName: data?.whatsappGoldRateTemplateName || 'gold_rate_alert_daily',
             whatsappWelcomeTemplateName: data?.whatsappWelcomeTemplateName || 'welcome_subscriber',
+            whatsappInstallmentTemplateName: data?.whatsappInstallmentTemplateName || 'installment_due_reminder',
             instagramHandle: data?.instagramHandle || '',
             instagramToken: data?.instagramToken || '',
             goldRate22k: Number(data?.goldRate22k) || 6500,
             goldRate24k: Number(data?.goldRate24k) || 7200,
-            gstPercent: Number(data?.gstPercent) || 3,
+            // 0 is a valid rate for shops that charge no GST
+            gstPercent: data?.gstPercent !== undefined && data?.gstPercent !== null && data?.gstPercent !== '' && Number.isFinite(Number(data.gstPercent)) ? Number(data.gstPercent) : 3,
             paymentPlans: Array.isArray(data?.paymentPlans) ? data.paymentPlans : [{ months: 1, advancePercent: 20 }, { months: 3, advancePercent: 50 }],
+            purityFineness: { ...DEFAULT_PURITY_FINENESS, ...(data?.purityFineness || {}) },
+            goldRateProviders: Array.isArray(data?.goldRateProviders) ? data.goldRateProviders : [],
+            goldRateMaxJumpPercent: Number(data?.goldRateMaxJumpPercent) || 5,
+            quoteValidityHours: Number(data?.quoteValidityHours) || 24,
+            trashRetentionDays: Number(data?.trashRetentionDays) || 30,
+            sizeCharts: Array.isArray(data?.sizeCharts) ? data.sizeCharts : [],
+            imageWidths: Array.isArray(data?.imageWidths) ? data.imageWidths : [300, 600, 720, 1080],
+            hideSoldInGallery: !!data?.hideSoldInGallery,
+            visibleWatermark: data?.visibleWatermark || { enabled: false, opacity: 0.35, position: 'bottom-right' },
             makingChargeSegments: Array.isArray(data?.makingChargeSegments) ? data.makingChargeSegments : [],
             defaultMakingChargeSegmentId: data?.defaultMakingChargeSegmentId || '',
             aiConfig: aiConfig
@@ -462,6 +871,7 @@ export const storeService = {
             goldRate24k: 7200,
             gstPercent: 3,
             paymentPlans: [{ months: 1, advancePercent: 20 }, { months: 3, advancePercent: 50 }],
+            purityFineness: { ...DEFAULT_PURITY_FINENESS },
             makingChargeSegments: [],
             defaultMakingChargeSegmentId: '',
             whatsappNumber: '',
@@ -472,6 +882,7 @@ export const storeService = {
             whatsappWabaId: '',
             whatsappGoldRateTemplateName: 'gold_rate_alert_daily',
             whatsappWelcomeTemplateName: 'welcome_subscriber',
+            whatsappInstallmentTemplateName: 'installment_due_reminder',
             instagramHandle: '',
             instagramToken: '',
             aiConfig: {
@@ -547,6 +958,43 @@ export const storeService = {
   addProduct: (p: Product) => apiFetch('/products', { method: 'POST', body: JSON.stringify(p) }),
   updateProduct: (p: Product) => apiFetch(`/products/${p.id}`, { method: 'PUT', body: JSON.stringify(p) }),
   deleteProduct: (id: string) => apiFetch(`/products/${id}`, { method: 'DELETE' }),
+  // Moves only the category fields, so slimmed list items never overwrite images or descriptions
+  bulkMoveProducts: (ids: string[], category: string, subCategory: string) =>
+    apiFetch('/products/bulk-move', { method: 'POST', body: JSON.stringify({ ids, category, subCategory }) }),
+
+  // Variants and sets. Customers get only visible pieces; staff see everything.
+  getProductFamily: (id: string, publicOnly = true): Promise<ProductFamily> =>
+    apiFetch(`/products/${id}/family${publicOnly ? '?public=true' : ''}`).catch(() => ({ rootId: id, variants: [], sets: [] })),
+
+  saveProductVariants: (id: string, main: { variantLabel?: string | null; size?: string | null }, variants: { id: string; variantLabel?: string | null; size?: string | null }[]) =>
+    apiFetch(`/products/${id}/variants`, { method: 'PUT', body: JSON.stringify({ ...main, variants }) }),
+
+  getProductSets: (productId?: string): Promise<ProductSet[]> =>
+    apiFetch(`/admin/product-sets${productId ? `?productId=${encodeURIComponent(productId)}` : ''}`).catch(() => []),
+
+  saveProductSet: (set: { id?: string; title: string; description?: string | null; discountPercent: number; productIds: string[] }) =>
+    set.id
+      ? apiFetch(`/admin/product-sets/${set.id}`, { method: 'PUT', body: JSON.stringify(set) })
+      : apiFetch('/admin/product-sets', { method: 'POST', body: JSON.stringify(set) }),
+
+  deleteProductSet: (id: string) =>
+    apiFetch(`/admin/product-sets/${id}`, { method: 'DELETE' }),
+
+  // Revision history and the trash of soft-deleted products
+  getProductRevisions: (id: string): Promise<ProductRevision[]> =>
+    apiFetch(`/products/${id}/revisions`).catch(() => []),
+
+  restoreProductRevision: (id: string, revisionId: number): Promise<{ success: boolean; product: Product }> =>
+    apiFetch(`/products/${id}/revisions/${revisionId}/restore`, { method: 'POST' }),
+
+  getTrash: (): Promise<{ retentionDays: number; items: TrashedProduct[] }> =>
+    apiFetch('/admin/trash'),
+
+  restoreFromTrash: (id: string) =>
+    apiFetch(`/admin/trash/${id}/restore`, { method: 'POST' }),
+
+  purgeFromTrash: (id: string) =>
+    apiFetch(`/admin/trash/${id}`, { method: 'DELETE' }),
 
   getUnlockedCategories: () => {
     try {
@@ -568,15 +1016,34 @@ export const storeService = {
     if (!prods.includes(id)) sessionStorage.setItem('sanghavi_unlocked_products', JSON.stringify([...prods, id]));
   },
 
+  // Shared collection links carry a token that opens private or scheduled collections
+  getCollectionToken: (id: string): string | undefined => {
+    try {
+      return JSON.parse(sessionStorage.getItem('sanghavi_unlocked_collections') || '{}')[id];
+    } catch { return undefined; }
+  },
+  unlockCollection: (id: string, token: string) => {
+    try {
+      const tokens = JSON.parse(sessionStorage.getItem('sanghavi_unlocked_collections') || '{}');
+      sessionStorage.setItem('sanghavi_unlocked_collections', JSON.stringify({ ...tokens, [id]: token }));
+    } catch {}
+  },
+
   shareToWhatsApp: async (product: Product, imageIndex: number = 0) => {
     const config = await storeService.getConfig();
     const text = encodeURIComponent(`Interested in ${product.title}. Ref: ${window.location.origin}/#/product/${product.id}`);
     window.open(`https://wa.me/${config.whatsappNumber}?text=${text}`, '_blank');
   },
   
-  calculatePrice: (product: Product, config: AppConfig) => {
-    const goldRate = product.category?.toLowerCase()?.includes('24k') ? config.goldRate24k : config.goldRate22k;
-    const basePrice = product.weight * goldRate;
+  // Instant client-side preview; server/pricingService.js is the source of truth
+  calculatePrice: (product: Product, config: AppConfig, purity?: GoldPurity): PriceBreakdown => {
+    const selectedPurity = purity || getDefaultPurity(product);
+    const goldRate = getPurityRate(selectedPurity, config);
+    const grossWeight = product.weight || 0;
+    const stoneLines = getStoneLines(product);
+    const stoneWeight = stoneLines.reduce((sum, l) => sum + (l.caratWeight || 0) * CARAT_TO_GRAMS, 0);
+    const netWeight = getNetWeight(product);
+    const basePrice = netWeight * goldRate;
     
     // Determine making charge percentage
     let makingPercent = 12; // Fallback
@@ -593,7 +1060,8 @@ export const storeService = {
 
     const makingCharges = basePrice * (makingPercent / 100);
     const otherCharges = product.meta.otherCharges || 0;
-    const subtotal = basePrice + makingCharges + otherCharges;
+    const stoneCharges = stoneLines.reduce((sum, l) => sum + l.value, 0);
+    const subtotal = basePrice + makingCharges + stoneCharges + otherCharges;
     const gst = subtotal * (config.gstPercent / 100);
     const total = subtotal + gst;
     
@@ -604,7 +1072,13 @@ export const storeService = {
       otherCharges,
       gst,
       total,
-      goldRate
+      goldRate,
+      purity: selectedPurity,
+      grossWeight,
+      netWeight,
+      stoneWeight,
+      stoneCharges,
+      stoneLines
     };
   },
 
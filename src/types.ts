@@ -1,4 +1,66 @@
 
+export type GoldPurity = '9KT' | '14KT' | '18KT' | '22KT' | '24KT';
+
+export type StoneType = 'diamond' | 'polki' | 'kundan' | 'emerald' | 'ruby' | 'sapphire' | 'pearl' | 'gemstone';
+
+export interface ProductStone {
+  id: string;
+  type: StoneType;
+  count: number;
+  caratWeight: number; // Total carats for the line, not per stone
+  grade?: string; // Clarity / color, e.g. "VVS-EF"
+  ratePerCarat: number;
+}
+
+export type Locale = 'en' | 'mr' | 'hi' | 'gu';
+
+// Translated catalog text keyed by locale; English lives in the product's own fields
+export type ProductTranslations = Partial<Record<Locale, { title?: string; description?: string }>>;
+export type NameTranslations = Partial<Record<Locale, { name?: string }>>;
+
+// One width/format of a stored image, e.g. the 600w AVIF
+export interface ImageVariant {
+  format: 'avif' | 'webp';
+  width: number;
+  url: string;
+}
+
+// Every stored variant of one product image; `variants` is empty for videos and external images
+export interface ImageManifest {
+  src: string;
+  variants: ImageVariant[];
+}
+
+// Transcoded forms of an uploaded video; the MP4 itself is the product image it is keyed by
+export interface VideoDetails {
+  webm: string; // VP9 alternative, offered first where supported
+  preview: string; // Short muted loop shown on gallery cards
+  poster: string; // Poster frame; also the video's thumbnail
+  duration: number; // Seconds
+  width: number;
+  height: number;
+}
+
+// One stored file from POST /api/media/upload
+export interface UploadedMedia {
+  originalName: string;
+  primary: string;
+  thumbnail: string;
+  manifest?: ImageManifest;
+  video?: VideoDetails;
+}
+
+// A video upload being transcoded, from GET /api/media/jobs/:id
+export interface MediaJob {
+  id: string;
+  originalName: string;
+  status: 'queued' | 'processing' | 'complete' | 'error';
+  stage: 'mp4' | 'webm' | 'preview' | 'poster' | null;
+  progress: number; // 0-100
+  result: UploadedMedia | null;
+  error: string | null;
+}
+
 export type Product = {
   id: string;
   title: string;
@@ -9,9 +71,17 @@ export type Product = {
   tags: string[];
   images: string[];
   thumbnails: string[]; 
+  media?: ImageManifest[]; // Index-aligned with images (with thumbnails on summaries)
   supplier?: string;
   uploadedBy?: string;
   isHidden: boolean;
+  publishAt?: string | null; // Public from this moment; null means as soon as it is not hidden
+  unpublishAt?: string | null; // Drops out of public listings at this moment
+  parentId?: string | null; // Set on variants; points at the main piece listed in the gallery
+  variantLabel?: string | null; // e.g. "Size 12" or "With pearls"
+  size?: string | null;
+  translations?: ProductTranslations;
+  availability?: ProductAvailability;
   privateNotes?: string;
   createdAt: string;
   dateTaken?: string;
@@ -22,9 +92,42 @@ export type Product = {
     makingChargeSegmentId?: string;
     makingChargePercent?: number;
     otherCharges?: number;
+    purity?: GoldPurity;
+    availablePurities?: GoldPurity[];
+    stones?: ProductStone[];
+    netWeight?: number; // Measured net gold weight; derived from stones when absent
+    videos?: Record<string, VideoDetails>; // Keyed by the video's entry in images
   };
 };
 
+export type ProductAvailability = 'available' | 'reserved' | 'sold';
+
+export interface FacetCount {
+  value: string;
+  label?: string;
+  count: number;
+}
+
+// Counts returned by GET /api/products?facets=true for the gallery filter chips
+export interface ProductFacets {
+  category: FacetCount[];
+  subCategory: FacetCount[];
+  weight: FacetCount[];
+  price: FacetCount[];
+}
+
+export interface ProductListMeta {
+  page?: number;
+  limit?: number;
+  totalPages?: number;
+  totalItems?: number;
+  hasMore?: boolean;
+  // Opaque cursor for the next page; null on the last page
+  nextCursor?: string | null;
+  facets?: ProductFacets;
+  demo?: boolean;
+}
+
 export type UserRole = 'customer' | 'contributor' | 'admin';
 
 export type User = {
@@ -37,8 +140,27 @@ export type User = {
   lastLogin?: string;
   createdAt?: string;
   isAdmin?: boolean; // Legacy compat
+  sizes?: CustomerSizes;
+  token?: string; // Signed session token, for staff and customers signed in with WhatsApp
 };
 
+// Measured sizes a customer saved, keyed by size chart id (e.g. { ring: '12', bangle: '2.6' })
+export type CustomerSizes = Record<string, string>;
+
+export interface SizeChartEntry {
+  label: string;
+  diameterMm: number; // Inner diameter
+}
+
+// A size chart applies to the categories it lists; sizes run smallest first
+export interface SizeChart {
+  id: string;
+  name: string;
+  categories: string[];
+  resizeSteps: number; // How many sizes up or down a piece can be resized, 0 when it cannot
+  sizes: SizeChartEntry[];
+}
+
 export interface StaffAccount {
   id: string;
   username: string;
@@ -70,6 +192,10 @@ export interface CategoryConfig {
   name: string;
   subCategories: string[];
   isPrivate: boolean;
+  translations?: NameTranslations;
+  subCategoryTranslations?: Record<string, NameTranslations>;
+  label?: string; // Name in the reader's language; `name` stays English
+  subCategoryLabels?: Record<string, string>;
 }
 
 export interface PromptTemplate {
@@ -105,6 +231,31 @@ export interface MakingChargeSegment {
   percent: number;
 }
 
+export interface GoldRateProvider {
+  id: string;
+  type: 'http' | 'file';
+  url?: string;
+  path?: string;
+  enabled: boolean;
+}
+
+export interface GoldRateStatus {
+  activeProvider: string | null;
+  lastSuccessAt: string | null;
+  lastAttemptAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+export type WatermarkPosition = 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left' | 'center' | 'tiled';
+
+// Shop logo, viewer's phone last 4 digits and date drawn on images of private categories and shared links
+export interface VisibleWatermarkSettings {
+  enabled: boolean;
+  opacity: number; // 0.05 - 1
+  position: WatermarkPosition;
+}
+
 export interface AppConfig {
   suppliers: Supplier[];
   categories: CategoryConfig[];
@@ -122,12 +273,180 @@ export interface AppConfig {
   whatsappWabaId?: string;
   whatsappGoldRateTemplateName?: string;
   whatsappWelcomeTemplateName?: string;
+  whatsappInstallmentTemplateName?: string;
   instagramHandle?: string;
   instagramToken?: string;
   paymentPlans?: { months: number; advancePercent: number }[];
+  purityFineness?: Record<GoldPurity, number>;
+  goldRateProviders?: GoldRateProvider[];
+  goldRateMaxJumpPercent?: number;
+  quoteValidityHours?: number;
+  trashRetentionDays?: number;
+  sizeCharts?: SizeChart[];
+  imageWidths?: number[]; // Widths uploads are resized to, each saved as AVIF and WebP
+  hideSoldInGallery?: boolean;
+  visibleWatermark?: VisibleWatermarkSettings;
   aiConfig: AIConfig;
 }
 
+export interface PriceBreakdown {
+  basePrice: number;
+  makingCharges: number;
+  makingPercent: number;
+  otherCharges: number;
+  gst: number;
+  total: number;
+  goldRate: number;
+  purity: GoldPurity;
+  grossWeight: number;
+  netWeight: number;
+  stoneWeight: number;
+  stoneCharges: number;
+  stoneLines: StoneLine[];
+}
+
+export interface StoneLine extends ProductStone {
+  value: number;
+}
+
+export interface RateOhlc {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface GoldRateCandle {
+  periodStart: string;
+  k22: RateOhlc | null;
+  k24: RateOhlc | null;
+  samples: number;
+}
+
+// Choices saved with a wishlist entry
+export interface WishlistPreferences {
+  purity?: GoldPurity;
+  size?: string;
+}
+
+export interface WishlistRateContext {
+  purity: GoldPurity;
+  wishlistedAt: string;
+  priceWhenWishlisted: number;
+  currentPrice: number;
+  rateWhenWishlisted: number | null;
+  rateSource: 'api' | 'admin' | null;
+  rateNow: number;
+}
+
+export interface Quote {
+  id: number;
+  quoteNumber: string;
+  token: string;
+  productId: string;
+  purity: GoldPurity;
+  total: number;
+  validUntil: string;
+  paymentPlan: { months: number; advancePercent: number } | null;
+  pricing: PriceBreakdown;
+  customerName?: string;
+  customerPhone?: string;
+  createdAt?: string;
+  sentAt?: string | null;
+  isValid?: boolean;
+  reason?: 'expired' | 'rate_moved' | null;
+}
+
+export type OrderStatus = 'reserved' | 'sold' | 'cancelled' | 'expired';
+
+export interface OrderItem {
+  id: number;
+  orderId: string;
+  productId: string;
+  productTitle: string;
+  purity: GoldPurity;
+  size?: string | null;
+  unitId?: number | null; // Stock unit taken off the shelf when the order was sold
+  goldRate: number;
+  weight: number;
+  pricing: PriceBreakdown;
+  lockedPrice: number;
+}
+
+export interface Order {
+  id: string;
+  orderNumber: string;
+  customerId?: string | null;
+  customerName?: string | null;
+  customerPhone?: string | null;
+  status: OrderStatus;
+  advanceAmount: number;
+  totalAmount: number;
+  goldRate22k: number;
+  goldRate24k: number;
+  gstPercent: number;
+  reservedUntil: string;
+  notes?: string | null;
+  createdBy?: string | null;
+  createdAt: string;
+  soldAt?: string | null;
+  cancelledAt?: string | null;
+  items: OrderItem[];
+}
+
+export interface SavingsInstallment {
+  id: number;
+  planId: string;
+  installmentNo: number;
+  dueDate: string;
+  amount: number;
+  status: 'pending' | 'paid';
+  paidAmount?: number | null;
+  goldRate?: number | null;
+  grams?: number | null;
+  paymentMode?: string | null;
+  paidAt?: string | null;
+  reminderSentAt?: string | null;
+}
+
+export interface SavingsPlan {
+  id: string;
+  customerId: string;
+  customerName: string;
+  customerPhone: string;
+  planType: 'product' | 'savings';
+  productId?: string | null;
+  productTitle?: string | null;
+  purity: GoldPurity;
+  months: number;
+  advancePercent: number;
+  targetAmount: number;
+  amountPaid: number;
+  gramsAccrued: number;
+  status: 'active' | 'completed' | 'cancelled';
+  startDate: string;
+  createdAt: string;
+  installments: SavingsInstallment[];
+}
+
+export type StockLocation = 'showroom' | 'locker' | 'supplier';
+export type StockStatus = 'in_stock' | 'on_approval' | 'sold';
+
+export interface StockUnit {
+  id: number;
+  productId: string;
+  productTitle?: string;
+  tagNumber: string;
+  sku?: string | null;
+  grossWeight: number;
+  netWeight?: number | null;
+  location: StockLocation;
+  status: StockStatus;
+  notes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface ProductStats {
   like: number;
   dislike: number;
@@ -159,20 +478,151 @@ export interface AnalyticsEvent {
   meta?: any;
 }
 
+export type SuggestionStatus = 'new' | 'in_review' | 'done';
+
 export interface ProductSuggestion {
   id: string;
   productId: string;
+  productTitle?: string;
   userId: string;
   userName: string;
   userPhone: string;
   suggestion: string;
+  status: SuggestionStatus;
+  staffReply?: string | null;
+  repliedAt?: string | null;
+  fulfilledByProductId?: string | null;
+  fulfilledByTitle?: string | null;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface ProductCollection {
+  id: string;
+  slug: string;
+  title: string;
+  description?: string | null;
+  coverImage?: string | null;
+  isPublic: boolean;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  position: number;
+  isActive?: boolean;
+  productCount?: number;
+  productIds?: string[];
+  products?: Product[];
+  createdAt?: string;
+}
+
+export type CatalogImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface CatalogImportRow {
+  row: number;
+  id: string | null;
+  title: string;
+  action: CatalogImportAction;
+  changes: { field: string; from: string; to: string }[];
+  errors: string[];
+  warnings: string[];
+}
+
+export interface CatalogImportResult {
+  dryRun: boolean;
+  summary: Record<CatalogImportAction, number>;
+  rows: CatalogImportRow[];
+}
+
+export interface CatalogExportFilters {
+  search?: string;
+  category?: string;
+  subCategory?: string;
+  supplier?: string;
+  visibility?: 'all' | 'public';
+}
+
+export type ProductRevisionAction = 'baseline' | 'create' | 'update' | 'delete' | 'undelete' | 'restore';
+
+export interface ProductRevision {
+  id: number;
+  productId: string;
+  action: ProductRevisionAction;
+  changes: { field: string; from: any; to: any }[];
+  restoredFrom?: number | null;
+  changedBy?: string | null;
+  changedByName?: string | null;
   createdAt: string;
 }
 
+// A variant or set piece as shown in pickers, with its live price at the default purity
+export interface ProductFamilyMember {
+  id: string;
+  title: string;
+  category: string;
+  subCategory?: string;
+  weight: number;
+  availability?: ProductAvailability;
+  isHidden: boolean;
+  parentId?: string | null;
+  variantLabel?: string | null;
+  size?: string | null;
+  thumbnail: string | null;
+  price: number;
+}
+
+export interface ProductSet {
+  id: string;
+  title: string;
+  description?: string | null;
+  discountPercent: number;
+  items: ProductFamilyMember[];
+  itemsTotal: number;
+  setPrice: number;
+}
+
+export interface ProductFamily {
+  rootId: string;
+  variants: ProductFamilyMember[]; // Empty unless the piece comes in more than one variant
+  sets: ProductSet[];
+}
+
+// A soft-deleted product as listed by GET /api/admin/trash
+export interface TrashedProduct {
+  id: string;
+  title: string;
+  category: string;
+  subCategory?: string;
+  weight: number;
+  thumbnails: string[];
+  deletedAt: string;
+  deletedByName?: string | null;
+  purgeAt: string;
+}
+
+// Who a leaked image's invisible watermark was issued to (POST /api/admin/identify-leak)
+export interface LeakViewer {
+  type: 'customer' | 'link' | 'guest';
+  id: string; // Customer id, the shared link's token, or "public" for the shared guest mark
+  markedSince: string;
+  name?: string;
+  phone?: string;
+  pincode?: string;
+  linkType?: SharedLink['type'];
+  targetId?: string;
+  linkCreatedAt?: string;
+  expiresAt?: string;
+}
+
+export interface LeakIdentification {
+  found: boolean;
+  mark?: number;
+  confidence?: number; // Above ~1 is a clean read; lower reads are worth a second image
+  viewer?: LeakViewer | null; // null when the mark is not in this studio's records
+}
+
 export interface SharedLink {
   id: string;
   targetId: string;
-  type: 'product' | 'category';
+  type: 'product' | 'category' | 'collection';
   token: string;
   expiresAt: string;
 }
@@ -181,7 +631,8 @@ export interface QueueItem {
   id: string;
   file: File;
   previewUrl: string;
-  status: 'pending' | 'analyzing' | 'saving' | 'complete' | 'error';
+  status: 'pending' | 'analyzing' | 'transcoding' | 'saving' | 'complete' | 'error';
+  progress?: number; // Transcoding progress of a video, 0-100
   supplier: string;
   category: string;
   subCategory: string;